@@ -0,0 +1,188 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  getDefaultSetuConfig,
+  getSetuConfig,
+  loadSetuConfig,
+  resetSetuConfig,
+  setSetuConfig
+} from '../setu-config';
+import { isReadOnlyBashCommand } from '../../enforcement/hydration';
+import { getTokenSeverity } from '../../context/token';
+import { isProtectedBranch } from '../../constants';
+
+const createdDirs: string[] = [];
+
+function makeDir(prefix: string): string {
+  const dir = mkdtempSync(join(tmpdir(), prefix));
+  createdDirs.push(dir);
+  return dir;
+}
+
+function writeProjectConfig(projectDir: string, config: unknown): void {
+  mkdirSync(join(projectDir, '.setu'), { recursive: true });
+  writeFileSync(join(projectDir, '.setu', 'config.json'), JSON.stringify(config), 'utf-8');
+}
+
+function writeGlobalConfig(config: unknown): string {
+  const path = join(makeDir('setu-global-'), 'setu.json');
+  writeFileSync(path, JSON.stringify(config), 'utf-8');
+  return path;
+}
+
+afterEach(() => {
+  resetSetuConfig();
+  for (const dir of createdDirs) {
+    rmSync(dir, { recursive: true, force: true });
+  }
+  createdDirs.length = 0;
+});
+
+describe('loadSetuConfig', () => {
+  test('returns defaults when no config files exist', () => {
+    const projectDir = makeDir('setu-config-');
+    const result = loadSetuConfig(projectDir, { globalConfigPath: null });
+
+    expect(result.config).toEqual(getDefaultSetuConfig());
+    expect(result.issues).toEqual([]);
+    expect(result.sources).toEqual([]);
+  });
+
+  test('project config overrides global config', () => {
+    const projectDir = makeDir('setu-config-');
+    const globalPath = writeGlobalConfig({
+      version: 1,
+      attempts: { maxAttempts: 5 },
+      git: { protectedBranches: ['main', 'release'] }
+    });
+    writeProjectConfig(projectDir, {
+      version: 1,
+      attempts: { maxAttempts: 2 }
+    });
+
+    const result = loadSetuConfig(projectDir, { globalConfigPath: globalPath });
+
+    expect(result.issues).toEqual([]);
+    expect(result.sources).toHaveLength(2);
+    expect(result.config.attempts.maxAttempts).toBe(2);
+    expect(result.config.git.protectedBranches).toEqual(['main', 'release']);
+  });
+
+  test('rejects visual in verification.requiredSteps', () => {
+    const projectDir = makeDir('setu-config-');
+    writeProjectConfig(projectDir, { version: 1, verification: { requiredSteps: ['build', 'visual'] } });
+
+    const result = loadSetuConfig(projectDir, { globalConfigPath: null });
+
+    expect(result.issues.map(issue => [issue.key, issue.message])).toEqual([
+      ['verification.requiredSteps', 'unknown step(s): visual (allowed: build, test, lint, typecheck; visual is checked by the user and cannot be required)'],
+    ]);
+    expect(result.config.verification.requiredSteps).toEqual(['build', 'test']);
+  });
+
+  test('reports invalid entries and keeps lower-layer values', () => {
+    const projectDir = makeDir('setu-config-');
+    writeProjectConfig(projectDir, {
+      version: 1,
+      attempts: { maxAttempts: 0 },
+      ttl: { disciplineStateMs: 'soon', overwriteRequirementMs: 60000 },
+      verification: { requiredSteps: ['build', 'deploy'], coverageThreshold: 120 },
+      research: { minimumScore: -5 },
+      colour: 'blue'
+    });
+
+    const result = loadSetuConfig(projectDir, { globalConfigPath: null });
+    const keys = result.issues.map(issue => issue.key);
+
+    expect(keys).toContain('attempts.maxAttempts');
+    expect(keys).toContain('ttl.disciplineStateMs');
+    expect(keys).toContain('verification.requiredSteps');
+    expect(keys).toContain('verification.coverageThreshold');
+    expect(keys).toContain('research.minimumScore');
+    expect(keys).toContain('colour');
+    expect(result.issues.every(issue => issue.source === 'project')).toBe(true);
+
+    expect(result.config.attempts.maxAttempts).toBe(3);
+    expect(result.config.ttl.disciplineStateMs).toBe(getDefaultSetuConfig().ttl.disciplineStateMs);
+    expect(result.config.ttl.overwriteRequirementMs).toBe(60000);
+    expect(result.config.verification.requiredSteps).toEqual(['build', 'test']);
+    expect(result.config.verification.coverageThreshold).toBe(0);
+    expect(result.config.research.minimumScore).toBe(50);
+  });
+
+  test('validates environment process patterns and dev ports', () => {
+    const projectDir = makeDir('setu-config-');
+    writeProjectConfig(projectDir, {
+      version: 1,
+      environment: { processPatterns: ['sidekiq', '(unclosed'], devPorts: [3000, 70000] }
+    });
+
+    const result = loadSetuConfig(projectDir, { globalConfigPath: null });
+
+    expect(result.issues.map(issue => issue.key)).toEqual(['environment.processPatterns', 'environment.devPorts[1]']);
+    expect(result.config.environment).toEqual(getDefaultSetuConfig().environment);
+  });
+
+  test('rejects non-ascending token thresholds', () => {
+    const projectDir = makeDir('setu-config-');
+    writeProjectConfig(projectDir, { version: 1, tokens: { warning: 90, critical: 80, subagentContextBudget: 4000 } });
+
+    const result = loadSetuConfig(projectDir, { globalConfigPath: null });
+
+    expect(result.issues.some(issue => issue.key === 'tokens')).toBe(true);
+    expect(result.config.tokens).toEqual({ ...getDefaultSetuConfig().tokens, subagentContextBudget: 4000 });
+  });
+
+  test('ignores files with an unsupported version', () => {
+    const projectDir = makeDir('setu-config-');
+    writeProjectConfig(projectDir, { version: 2, attempts: { maxAttempts: 9 } });
+
+    const result = loadSetuConfig(projectDir, { globalConfigPath: null });
+
+    expect(result.issues[0]?.key).toBe('version');
+    expect(result.sources).toEqual([]);
+    expect(result.config.attempts.maxAttempts).toBe(3);
+  });
+
+  test('reports unparseable JSON without throwing', () => {
+    const projectDir = makeDir('setu-config-');
+    mkdirSync(join(projectDir, '.setu'), { recursive: true });
+    writeFileSync(join(projectDir, '.setu', 'config.json'), '{ not json', 'utf-8');
+
+    const result = loadSetuConfig(projectDir, { globalConfigPath: null });
+
+    expect(result.issues).toHaveLength(1);
+    expect(result.issues[0]?.message).toContain('could not be parsed');
+    expect(result.config).toEqual(getDefaultSetuConfig());
+  });
+});
+
+describe('active config consumers', () => {
+  test('read-only bash allowlist follows the active config', () => {
+    expect(isReadOnlyBashCommand('wc -l README.md')).toBe(false);
+
+    const config = getDefaultSetuConfig();
+    config.bash.readOnlyCommands = [...config.bash.readOnlyCommands, 'wc'];
+    setSetuConfig(config);
+
+    expect(getSetuConfig().bash.readOnlyCommands).toContain('wc');
+    expect(isReadOnlyBashCommand('wc -l README.md')).toBe(true);
+  });
+
+  test('token severity uses configured thresholds', () => {
+    expect(getTokenSeverity(60)).toBe('ok');
+
+    const config = getDefaultSetuConfig();
+    config.tokens = { ...config.tokens, warning: 50, critical: 60, emergency: 90 };
+    setSetuConfig(config);
+
+    expect(getTokenSeverity(60)).toBe('critical');
+  });
+
+  test('protected branch check accepts a configured list', () => {
+    expect(isProtectedBranch('release')).toBe(false);
+    expect(isProtectedBranch('Release', ['main', 'release'])).toBe(true);
+  });
+});
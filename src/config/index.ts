@@ -0,0 +1,24 @@
+/**
+ * Config module exports
+ */
+
+export {
+  SETU_CONFIG_VERSION,
+  PROJECT_CONFIG_FILE,
+  GLOBAL_CONFIG_FILE,
+  VERIFICATION_STEP_NAMES,
+  type VerificationStepName,
+  type SetuConfig,
+  type ConfigSource,
+  type ConfigIssue,
+  type LoadedSetuConfig,
+  type LoadSetuConfigOptions,
+  getDefaultSetuConfig,
+  getSetuConfig,
+  setSetuConfig,
+  resetSetuConfig,
+  getProjectConfigPath,
+  getGlobalConfigPath,
+  loadSetuConfig,
+  formatConfigIssue
+} from './setu-config';
@@ -0,0 +1,471 @@
+/**
+ * Setu Policy Config
+ *
+ * Loads the tunable policy knobs from JSON config files:
+ * - Global:  ~/.config/opencode/setu.json (shared defaults for a machine/team)
+ * - Project: .setu/config.json (overrides on top of the global file)
+ *
+ * Layering: built-in defaults ← global ← project.
+ * Arrays replace the lower layer; they are never concatenated.
+ *
+ * Validation is entry-level: an invalid entry falls back to the lower layer
+ * and is reported as a ConfigIssue (surfaced by setu_doctor) rather than
+ * being silently dropped. A file with an unsupported version is ignored.
+ *
+ * The loaded config is held as module-level active policy so pure helpers
+ * (hydration, token severity, discipline TTLs) can read it without threading
+ * it through every call site. The plugin loads it once on init.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  GIT_WRITE_COMMANDS,
+  PROTECTED_BRANCHES,
+  READ_ONLY_BASH_COMMANDS
+} from '../constants';
+import { debugLog } from '../debug';
+import { resolveAndValidateGlobalConfigRoot } from '../agent/setu-agent';
+import { getErrorMessage } from '../utils/error-handling';
+
+/** Current config schema version */
+export const SETU_CONFIG_VERSION = 1;
+
+/** Project config file name inside .setu/ */
+export const PROJECT_CONFIG_FILE = 'config.json';
+
+/** Global config file name inside the OpenCode config root */
+export const GLOBAL_CONFIG_FILE = 'setu.json';
+
+/** Verification steps setu_verify knows */
+export const VERIFICATION_STEP_NAMES = ['build', 'test', 'lint', 'typecheck', 'visual'] as const;
+export type VerificationStepName = typeof VERIFICATION_STEP_NAMES[number];
+
+/**
+ * Steps that may be listed in verification.requiredSteps: those setu_verify
+ * runs and records. `visual` is checked by the user and never recorded, so
+ * requiring it would block commit and push for good.
+ */
+const REQUIRABLE_STEP_NAMES: readonly VerificationStepName[] = VERIFICATION_STEP_NAMES.filter(step => step !== 'visual');
+
+export interface SetuConfig {
+  version: number;
+  attempts: {
+    /** Failed attempts before suggesting a gear shift */
+    maxAttempts: number;
+  };
+  git: {
+    /** Branch names that get extra commit/push caution */
+    protectedBranches: string[];
+  };
+  bash: {
+    /** Commands allowed during hydration and in scout/architect gears */
+    readOnlyCommands: string[];
+    /** Git write operations blocked during hydration */
+    gitWriteCommands: string[];
+  };
+  tokens: {
+    /** Context usage percentages (0-100, ascending) */
+    warning: number;
+    critical: number;
+    emergency: number;
+    /** Token budget for the context injected into a subagent prompt that names a plan step */
+    subagentContextBudget: number;
+  };
+  ttl: {
+    /** Discipline state (question/safety) lifetime */
+    disciplineStateMs: number;
+    /** Read-before-overwrite requirement lifetime */
+    overwriteRequirementMs: number;
+  };
+  verification: {
+    /** Steps that must all run before verification counts as complete */
+    requiredSteps: VerificationStepName[];
+    /** Time limit for each command setu_verify runs */
+    stepTimeoutMs: number;
+    /** Minimum coverage (%) of changed lines for the test step; 0 disables the check */
+    coverageThreshold: number;
+  };
+  research: {
+    /** Research quality score (0-100) needed to leave Scout; 0 disables the gate */
+    minimumScore: number;
+  };
+  leases: {
+    /** File lease lifetime after a session's last write to the path */
+    ttlMs: number;
+    /** How long a write waits for another session's lease before it is blocked; 0 blocks at once */
+    queueWaitMs: number;
+  };
+  environment: {
+    /** Extra regexes matched against running command lines (app servers, workers) */
+    processPatterns: string[];
+    /** Listening TCP ports that mean a dev server or app is up (when a project process holds them) */
+    devPorts: number[];
+  };
+}
+
+export type ConfigSource = 'global' | 'project';
+
+export interface ConfigIssue {
+  source: ConfigSource;
+  /** Absolute path to the offending file */
+  file: string;
+  /** Dotted key path, e.g. "tokens.warning" ('' for file-level issues) */
+  key: string;
+  message: string;
+}
+
+export interface LoadedSetuConfig {
+  config: SetuConfig;
+  issues: ConfigIssue[];
+  /** Files that contributed to the config, lowest precedence first */
+  sources: string[];
+}
+
+export interface LoadSetuConfigOptions {
+  /** Override the global config path (null disables the global layer) */
+  globalConfigPath?: string | null;
+}
+
+type SectionName = Exclude<keyof SetuConfig, 'version'>;
+type SetuConfigOverrides = { [K in SectionName]?: Partial<SetuConfig[K]> };
+
+const MAX_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_ATTEMPTS_LIMIT = 20;
+const MAX_STEP_TIMEOUT_MS = 60 * 60 * 1000;
+const MAX_LEASE_WAIT_MS = 5 * 60 * 1000;
+const MIN_SUBAGENT_CONTEXT_BUDGET = 200;
+const MAX_SUBAGENT_CONTEXT_BUDGET = 32000;
+
+export function getDefaultSetuConfig(): SetuConfig {
+  return {
+    version: SETU_CONFIG_VERSION,
+    attempts: { maxAttempts: 3 },
+    git: { protectedBranches: [...PROTECTED_BRANCHES] },
+    bash: {
+      readOnlyCommands: [...READ_ONLY_BASH_COMMANDS],
+      gitWriteCommands: [...GIT_WRITE_COMMANDS]
+    },
+    tokens: { warning: 70, critical: 85, emergency: 95, subagentContextBudget: 2000 },
+    ttl: {
+      disciplineStateMs: 30 * 60 * 1000,
+      overwriteRequirementMs: 10 * 60 * 1000
+    },
+    verification: { requiredSteps: ['build', 'test'], stepTimeoutMs: 10 * 60 * 1000, coverageThreshold: 0 },
+    research: { minimumScore: 50 },
+    leases: { ttlMs: 30 * 60 * 1000, queueWaitMs: 10 * 1000 },
+    environment: {
+      processPatterns: [],
+      devPorts: [3000, 4200, 4321, 5173, 8000]
+    }
+  };
+}
+
+let activeConfig: SetuConfig = getDefaultSetuConfig();
+
+/** Active policy used by enforcement helpers */
+export function getSetuConfig(): SetuConfig {
+  return activeConfig;
+}
+
+export function setSetuConfig(config: SetuConfig): void {
+  activeConfig = config;
+}
+
+/** Restore built-in defaults (tests and plugin teardown) */
+export function resetSetuConfig(): void {
+  activeConfig = getDefaultSetuConfig();
+}
+
+export function getProjectConfigPath(projectDir: string): string {
+  return join(projectDir, '.setu', PROJECT_CONFIG_FILE);
+}
+
+export function getGlobalConfigPath(): string | null {
+  try {
+    return join(resolveAndValidateGlobalConfigRoot(), GLOBAL_CONFIG_FILE);
+  } catch (error) {
+    debugLog('Global Setu config path unavailable:', error);
+    return null;
+  }
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+interface LayerContext {
+  source: ConfigSource;
+  file: string;
+  issues: ConfigIssue[];
+}
+
+function report(ctx: LayerContext, key: string, message: string): void {
+  ctx.issues.push({ source: ctx.source, file: ctx.file, key, message });
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readInteger(ctx: LayerContext, key: string, value: unknown, min: number, max: number): number | undefined {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+    report(ctx, key, `must be an integer between ${min} and ${max}`);
+    return undefined;
+  }
+  return value;
+}
+
+function readStringList(ctx: LayerContext, key: string, value: unknown, allowEmpty: boolean): string[] | undefined {
+  if (!Array.isArray(value)) {
+    report(ctx, key, 'must be an array of strings');
+    return undefined;
+  }
+
+  const items: string[] = [];
+  for (const [index, item] of value.entries()) {
+    if (typeof item !== 'string' || item.trim().length === 0) {
+      report(ctx, `${key}[${index}]`, 'must be a non-empty string');
+      return undefined;
+    }
+    items.push(item.trim().replace(/\s+/g, ' '));
+  }
+
+  if (!allowEmpty && items.length === 0) {
+    report(ctx, key, 'must not be empty');
+    return undefined;
+  }
+
+  return Array.from(new Set(items));
+}
+
+function readPortList(ctx: LayerContext, key: string, value: unknown): number[] | undefined {
+  if (!Array.isArray(value)) {
+    report(ctx, key, 'must be an array of port numbers');
+    return undefined;
+  }
+
+  const ports: number[] = [];
+  for (const [index, item] of value.entries()) {
+    const port = readInteger(ctx, `${key}[${index}]`, item, 1, 65535);
+    if (port === undefined) return undefined;
+    ports.push(port);
+  }
+  return Array.from(new Set(ports));
+}
+
+function readSection(
+  ctx: LayerContext,
+  raw: Record<string, unknown>,
+  section: SectionName,
+  readers: Record<string, (key: string, value: unknown) => unknown>
+): Record<string, unknown> | undefined {
+  if (!(section in raw)) return undefined;
+
+  const value = raw[section];
+  if (!isPlainObject(value)) {
+    report(ctx, section, 'must be an object');
+    return undefined;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [field, fieldValue] of Object.entries(value)) {
+    const key = `${section}.${field}`;
+    const reader = readers[field];
+    if (!reader) {
+      report(ctx, key, 'unknown setting');
+      continue;
+    }
+    const parsed = reader(key, fieldValue);
+    if (parsed !== undefined) {
+      result[field] = parsed;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Validate one config layer. Invalid entries are reported and omitted.
+ * Returns null when the whole file must be ignored.
+ */
+function validateLayer(raw: unknown, ctx: LayerContext): SetuConfigOverrides | null {
+  if (!isPlainObject(raw)) {
+    report(ctx, '', 'config must be a JSON object');
+    return null;
+  }
+
+  if (!('version' in raw)) {
+    report(ctx, 'version', `missing; assuming version ${SETU_CONFIG_VERSION}`);
+  } else if (raw.version !== SETU_CONFIG_VERSION) {
+    report(ctx, 'version', `unsupported version ${JSON.stringify(raw.version)} (expected ${SETU_CONFIG_VERSION}); file ignored`);
+    return null;
+  }
+
+  const known = new Set<string>(['version', 'attempts', 'git', 'bash', 'tokens', 'ttl', 'verification', 'research', 'leases', 'environment']);
+  for (const key of Object.keys(raw)) {
+    if (!known.has(key)) {
+      report(ctx, key, 'unknown setting');
+    }
+  }
+
+  const percent = (key: string, value: unknown): number | undefined => readInteger(ctx, key, value, 1, 100);
+  const ttl = (key: string, value: unknown): number | undefined => readInteger(ctx, key, value, 1000, MAX_TTL_MS);
+
+  const overrides: SetuConfigOverrides = {
+    attempts: readSection(ctx, raw, 'attempts', {
+      maxAttempts: (key, value) => readInteger(ctx, key, value, 1, MAX_ATTEMPTS_LIMIT)
+    }),
+    git: readSection(ctx, raw, 'git', {
+      protectedBranches: (key, value) => readStringList(ctx, key, value, true)
+    }),
+    bash: readSection(ctx, raw, 'bash', {
+      readOnlyCommands: (key, value) => readStringList(ctx, key, value, true),
+      gitWriteCommands: (key, value) => readStringList(ctx, key, value, true)
+    }),
+    tokens: readSection(ctx, raw, 'tokens', {
+      warning: percent,
+      critical: percent,
+      emergency: percent,
+      subagentContextBudget: (key, value) => readInteger(ctx, key, value, MIN_SUBAGENT_CONTEXT_BUDGET, MAX_SUBAGENT_CONTEXT_BUDGET)
+    }),
+    ttl: readSection(ctx, raw, 'ttl', {
+      disciplineStateMs: ttl,
+      overwriteRequirementMs: ttl
+    }),
+    verification: readSection(ctx, raw, 'verification', {
+      requiredSteps: (key, value) => {
+        const steps = readStringList(ctx, key, value, false);
+        if (!steps) return undefined;
+        const unknown = steps.filter(step => !REQUIRABLE_STEP_NAMES.includes(step as VerificationStepName));
+        if (unknown.length > 0) {
+          const manual = unknown.includes('visual') ? '; visual is checked by the user and cannot be required' : '';
+          report(ctx, key, `unknown step(s): ${unknown.join(', ')} (allowed: ${REQUIRABLE_STEP_NAMES.join(', ')}${manual})`);
+          return undefined;
+        }
+        return steps as VerificationStepName[];
+      },
+      stepTimeoutMs: (key, value) => readInteger(ctx, key, value, 1000, MAX_STEP_TIMEOUT_MS),
+      coverageThreshold: (key, value) => readInteger(ctx, key, value, 0, 100)
+    }),
+    research: readSection(ctx, raw, 'research', {
+      minimumScore: (key, value) => readInteger(ctx, key, value, 0, 100)
+    }),
+    leases: readSection(ctx, raw, 'leases', {
+      ttlMs: ttl,
+      queueWaitMs: (key, value) => readInteger(ctx, key, value, 0, MAX_LEASE_WAIT_MS)
+    }),
+    environment: readSection(ctx, raw, 'environment', {
+      processPatterns: (key, value) => {
+        const patterns = readStringList(ctx, key, value, true);
+        if (!patterns) return undefined;
+        for (const pattern of patterns) {
+          try {
+            new RegExp(pattern);
+          } catch {
+            report(ctx, key, `invalid regular expression: ${pattern}`);
+            return undefined;
+          }
+        }
+        return patterns;
+      },
+      devPorts: (key, value) => readPortList(ctx, key, value)
+    })
+  };
+
+  return overrides;
+}
+
+function applyOverrides(base: SetuConfig, overrides: SetuConfigOverrides): SetuConfig {
+  return {
+    version: SETU_CONFIG_VERSION,
+    attempts: { ...base.attempts, ...overrides.attempts },
+    git: { ...base.git, ...overrides.git },
+    bash: { ...base.bash, ...overrides.bash },
+    tokens: { ...base.tokens, ...overrides.tokens },
+    ttl: { ...base.ttl, ...overrides.ttl },
+    verification: { ...base.verification, ...overrides.verification },
+    research: { ...base.research, ...overrides.research },
+    leases: { ...base.leases, ...overrides.leases },
+    environment: { ...base.environment, ...overrides.environment }
+  };
+}
+
+function readLayer(file: string, source: ConfigSource, issues: ConfigIssue[]): SetuConfigOverrides | null {
+  const ctx: LayerContext = { source, file, issues };
+  let raw: unknown;
+
+  try {
+    raw = JSON.parse(readFileSync(file, 'utf-8'));
+  } catch (error) {
+    report(ctx, '', `could not be parsed: ${getErrorMessage(error)}`);
+    return null;
+  }
+
+  return validateLayer(raw, ctx);
+}
+
+/**
+ * Load and merge global + project config.
+ *
+ * Never throws: unreadable or invalid files are reported in `issues` and
+ * the affected entries keep their lower-layer values.
+ */
+export function loadSetuConfig(projectDir: string, options: LoadSetuConfigOptions = {}): LoadedSetuConfig {
+  const issues: ConfigIssue[] = [];
+  const sources: string[] = [];
+  let config = getDefaultSetuConfig();
+
+  const globalPath = options.globalConfigPath === undefined
+    ? getGlobalConfigPath()
+    : options.globalConfigPath;
+
+  const layers: Array<{ file: string | null; source: ConfigSource }> = [
+    { file: globalPath, source: 'global' },
+    { file: getProjectConfigPath(projectDir), source: 'project' }
+  ];
+
+  for (const { file, source } of layers) {
+    if (!file || !existsSync(file)) continue;
+
+    const previous = config;
+    const overrides = readLayer(file, source, issues);
+    if (!overrides) continue;
+
+    config = applyOverrides(config, overrides);
+    sources.push(file);
+
+    // Cross-field rule: thresholds must stay strictly ascending
+    const { warning, critical, emergency } = config.tokens;
+    if (!(warning < critical && critical < emergency)) {
+      issues.push({
+        source,
+        file,
+        key: 'tokens',
+        message: `thresholds must be ascending (warning < critical < emergency), got ${warning}/${critical}/${emergency}`
+      });
+      // Only the thresholds revert; the rest of the section still applies
+      config = {
+        ...config,
+        tokens: {
+          ...config.tokens,
+          warning: previous.tokens.warning,
+          critical: previous.tokens.critical,
+          emergency: previous.tokens.emergency
+        }
+      };
+    }
+  }
+
+  if (issues.length > 0) {
+    debugLog(`Setu config: ${issues.length} issue(s) found`);
+  }
+
+  return { config, issues, sources };
+}
+
+/** Format an issue for display (doctor output, logs) */
+export function formatConfigIssue(issue: ConfigIssue): string {
+  const location = issue.key ? `${issue.key}: ` : '';
+  return `[${issue.source}] ${location}${issue.message}`;
+}
@@ -21,7 +21,11 @@ export const SETU_TOOLS = [
   'setu_research',
   'setu_plan',
   'setu_reset',
+  'setu_restore',
+  'setu_undo',
   'setu_doctor',
+  'setu_next',
+  'setu_step',
   'setu_task'
 ] as const;
 
@@ -81,6 +85,7 @@ export const READ_ONLY_BASH_COMMANDS = [
 export const GIT_WRITE_COMMANDS = [
   'git add', 'git commit', 'git push', 'git pull', 'git merge',
   'git rebase', 'git reset', 'git checkout -b', 'git stash',
+  'git restore', 'git switch',
   'git cherry-pick', 'git revert', 'git tag', 'git branch -d',
   'git branch -D', 'git remote add', 'git remote remove'
 ] as const;
@@ -137,9 +142,16 @@ export function isSideEffectTool(toolName: string): toolName is SideEffectTool {
 
 /**
  * Check if a branch name is protected
+ * 
+ * @param branches - Protected branch list (defaults to PROTECTED_BRANCHES;
+ *   callers pass the configured list from .setu/config.json)
  */
-export function isProtectedBranch(branch: string): boolean {
-  return PROTECTED_BRANCHES.includes(branch.toLowerCase() as ProtectedBranch);
+export function isProtectedBranch(
+  branch: string,
+  branches: readonly string[] = PROTECTED_BRANCHES
+): boolean {
+  const normalized = branch.toLowerCase();
+  return branches.some(name => name.toLowerCase() === normalized);
 }
 
 // ============================================================================
@@ -2,7 +2,7 @@
  * Unit tests for active.ts - Phase 4.0 helper functions
  * 
  * Tests:
- * 1. advanceStep - Progress advancement and error handling
+ * 1. advanceStep - Progress advancement and error handling (and startStep)
  * 2. recordFailedApproach - Failed approach recording with sanitization
  * 3. recordWorkedApproach - Success approach recording with sanitization
  * 4. resetProgress - Progress reset functionality
@@ -11,11 +11,14 @@
  */
 
 import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
-import { mkdirSync, rmSync, existsSync } from 'fs';
+import { mkdirSync, rmSync, existsSync, writeFileSync } from 'fs';
 import { join } from 'path';
 import { tmpdir } from 'os';
 import {
   advanceStep,
+  getCompletedSteps,
+  getStartedStep,
+  startStep,
   recordFailedApproach,
   recordWorkedApproach,
   resetProgress,
@@ -23,6 +26,7 @@ import {
   saveActiveTask,
   createActiveTask
 } from '../active';
+import { writeStepResult } from '../results';
 
 describe('Phase 4.0 Helper Functions', () => {
   let testDir: string;
@@ -81,6 +85,61 @@ describe('Phase 4.0 Helper Functions', () => {
       }
     });
 
+    test('follows structured plan step ids and stops after the last step', () => {
+      writeFileSync(
+        join(setuDir, 'PLAN.md'),
+        '- Step 1: Scaffold\n  - Files: a.ts\n- Step 4: Wire routes\n  - Files: b.ts\n'
+      );
+      const task = createActiveTask('Test task');
+      task.progress = { lastCompletedStep: 1, lastCompletedAt: new Date().toISOString() };
+      saveActiveTask(testDir, task);
+
+      expect(advanceStep(testDir)).toEqual({ success: true, step: 4 });
+      expect(advanceStep(testDir)).toEqual({ success: false, error: 'All 2 plan steps are already complete' });
+      expect(loadActiveTask(testDir)?.progress?.lastCompletedStep).toBe(4);
+    });
+
+    test('completes ready steps out of order and counts results from other sessions', () => {
+      writeFileSync(
+        join(setuDir, 'PLAN.md'),
+        '- Step 1: Schema\n  - Files: a.sql\n- Step 2: API\n  - Files: b.ts\n' +
+          '- Step 3: Docs\n  - Files: README.md\n  - Depends On: none\n'
+      );
+      saveActiveTask(testDir, createActiveTask('Test task'));
+
+      expect(advanceStep(testDir, 2)).toEqual({ success: false, error: 'Step 2 is waiting on Step 1' });
+      expect(advanceStep(testDir, 3)).toEqual({ success: true, step: 3 });
+      expect(advanceStep(testDir, 3)).toEqual({ success: false, error: 'Step 3 is already complete' });
+
+      // A subagent's result file completes Step 1 without touching active.json
+      writeStepResult(testDir, {
+        step: 1,
+        status: 'completed',
+        objective: 'Schema',
+        outputs: [],
+        summary: 'Schema added',
+        timestamp: new Date().toISOString(),
+      });
+      expect(getCompletedSteps(testDir)).toEqual(new Set([1, 3]));
+      expect(advanceStep(testDir)).toEqual({ success: true, step: 2 });
+      expect(loadActiveTask(testDir)?.progress).toMatchObject({ lastCompletedStep: 2, completedSteps: [1, 2, 3] });
+    });
+
+    test('tracks started steps until they complete', () => {
+      writeFileSync(
+        join(setuDir, 'PLAN.md'),
+        '- Step 1: Schema\n  - Files: a.sql\n- Step 2: Docs\n  - Files: README.md\n  - Depends On: none\n'
+      );
+      saveActiveTask(testDir, createActiveTask('Test task'));
+
+      expect(startStep(testDir, 2)).toEqual({ success: true, step: 2 });
+      expect(getStartedStep(loadActiveTask(testDir), getCompletedSteps(testDir))).toBe(2);
+
+      expect(advanceStep(testDir, 2)).toEqual({ success: true, step: 2 });
+      expect(loadActiveTask(testDir)?.stepStarts).toBeUndefined();
+      expect(startStep(testDir, 2)).toEqual({ success: false, error: 'Step 2 is already complete' });
+    });
+
     test('updates timestamp on advancement', () => {
       const before = new Date().toISOString();
       const task = createActiveTask('Test task');
@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { completeCheckpoints, listCheckpoints, recordCheckpoint, undoCheckpoints } from '../checkpoints';
+
+describe('undo ledger', () => {
+  let projectDir = '';
+
+  /** Record a checkpoint, apply the edit it guards, then complete it */
+  function edit(file: string, content: string, step?: number, now?: Date): void {
+    recordCheckpoint(projectDir, { filePath: file, sessionId: 'session-1', tool: 'write', step }, now);
+    writeFileSync(join(projectDir, file), content);
+    completeCheckpoints(projectDir, 'session-1', [file]);
+  }
+
+  function read(file: string): string {
+    return readFileSync(join(projectDir, file), 'utf-8');
+  }
+
+  beforeEach(() => {
+    projectDir = mkdtempSync(join(tmpdir(), 'setu-checkpoints-'));
+    writeFileSync(join(projectDir, 'a.ts'), 'a0');
+    writeFileSync(join(projectDir, 'b.ts'), 'b0');
+  });
+
+  afterEach(() => {
+    rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  test('records pre-images tagged with session, step and timestamp', () => {
+    edit('a.ts', 'a1', 2);
+    const [entry] = listCheckpoints(projectDir);
+    expect(entry).toMatchObject({ path: 'a.ts', sessionId: 'session-1', tool: 'write', step: 2, existed: true, size: 2 });
+    expect(entry.postHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(readFileSync(join(projectDir, '.setu', 'checkpoints', `${entry.id}.pre`), 'utf-8')).toBe('a0');
+  });
+
+  test('undoes the last edit by default and the last N on request', () => {
+    edit('a.ts', 'a1');
+    edit('b.ts', 'b1');
+    edit('a.ts', 'a2');
+
+    expect(undoCheckpoints(projectDir, {}).restoredPaths).toEqual(['a.ts']);
+    expect(read('a.ts')).toBe('a1');
+
+    const result = undoCheckpoints(projectDir, { count: 2 });
+    expect(result.reverted).toHaveLength(2);
+    expect(read('a.ts')).toBe('a0');
+    expect(read('b.ts')).toBe('b0');
+    expect(listCheckpoints(projectDir)).toHaveLength(0);
+  });
+
+  test('undoes everything since a plan step', () => {
+    edit('a.ts', 'a1', 1);
+    edit('b.ts', 'b1', 2);
+    edit('a.ts', 'a2', 3);
+
+    undoCheckpoints(projectDir, { sinceStep: 2 });
+    expect(read('a.ts')).toBe('a1');
+    expect(read('b.ts')).toBe('b0');
+    expect(listCheckpoints(projectDir).map(entry => entry.step)).toEqual([1]);
+  });
+
+  test('undoes all edits to a single file and deletes files the edits created', () => {
+    edit('a.ts', 'a1');
+    edit('new.ts', 'created');
+    edit('a.ts', 'a2');
+
+    undoCheckpoints(projectDir, { file: 'a.ts' });
+    expect(read('a.ts')).toBe('a0');
+    expect(read('new.ts')).toBe('created');
+
+    expect(undoCheckpoints(projectDir, { file: join(projectDir, 'new.ts') }).deletedPaths).toEqual(['new.ts']);
+    expect(existsSync(join(projectDir, 'new.ts'))).toBe(false);
+  });
+
+  test('skips entries the caller refuses and leaves them in the ledger', () => {
+    edit('a.ts', 'a1');
+    const result = undoCheckpoints(projectDir, {}, () => false);
+    expect(result.skipped).toHaveLength(1);
+    expect(read('a.ts')).toBe('a1');
+    expect(listCheckpoints(projectDir)).toHaveLength(1);
+  });
+
+  test('ignores Setu artifacts and paths outside the project', () => {
+    expect(recordCheckpoint(projectDir, { filePath: '.setu/PLAN.md', sessionId: 's', tool: 'write' })).toBeNull();
+    expect(recordCheckpoint(projectDir, { filePath: '../elsewhere.ts', sessionId: 's', tool: 'write' })).toBeNull();
+  });
+
+  test('notes oversized pre-images without storing them', () => {
+    writeFileSync(join(projectDir, 'big.bin'), Buffer.alloc(1024 * 1024 + 1));
+    const entry = recordCheckpoint(projectDir, { filePath: 'big.bin', sessionId: 's', tool: 'write' });
+    writeFileSync(join(projectDir, 'big.bin'), 'small');
+    completeCheckpoints(projectDir, 's', ['big.bin']);
+    expect(entry?.oversized).toBe(true);
+    expect(existsSync(join(projectDir, '.setu', 'checkpoints', `${entry?.id}.pre`))).toBe(false);
+    expect(undoCheckpoints(projectDir, {}).skipped).toHaveLength(1);
+  });
+
+  test('prunes the oldest entries beyond the retention limit', () => {
+    for (let i = 0; i < 205; i++) {
+      edit('a.ts', `a${i + 1}`, i, new Date(Date.UTC(2026, 0, 1) + i));
+    }
+    const entries = listCheckpoints(projectDir);
+    expect(entries).toHaveLength(200);
+    expect(entries[0].step).toBe(5);
+  });
+
+  test('drops entries for edits that failed or changed nothing', () => {
+    recordCheckpoint(projectDir, { filePath: 'a.ts', sessionId: 'session-1', tool: 'edit' });
+    edit('b.ts', 'b0');
+    expect(listCheckpoints(projectDir).map(entry => entry.path)).toEqual(['a.ts']);
+
+    // The session's next edit of a.ts shows the first one never completed
+    edit('a.ts', 'a1');
+    expect(listCheckpoints(projectDir)).toHaveLength(1);
+    expect(undoCheckpoints(projectDir, { count: 5 }).reverted).toHaveLength(1);
+    expect(read('a.ts')).toBe('a0');
+  });
+
+  test('does not revert a file that changed after the edit', () => {
+    edit('a.ts', 'a1');
+    edit('a.ts', 'a2');
+    writeFileSync(join(projectDir, 'a.ts'), 'user change');
+
+    const result = undoCheckpoints(projectDir, { file: 'a.ts' });
+
+    expect(result.reverted).toEqual([]);
+    expect(result.changed).toHaveLength(2);
+    expect(read('a.ts')).toBe('user change');
+    expect(listCheckpoints(projectDir)).toHaveLength(2);
+  });
+});
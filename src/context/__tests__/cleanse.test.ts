@@ -11,7 +11,7 @@
  */
 
 import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
-import { mkdirSync, rmSync, existsSync } from 'fs';
+import { mkdirSync, rmSync, existsSync, writeFileSync } from 'fs';
 import { join } from 'path';
 import { tmpdir } from 'os';
 import { prepareJITContext, getJITContextSummary } from '../cleanse';
@@ -144,6 +144,62 @@ describe('JIT Context Preparation', () => {
       expect(context).toContain('Step 1 was completed successfully');
     });
 
+    test('includes the structured plan step', () => {
+      writeFileSync(join(setuDir, 'PLAN.md'), `- Step 1: Scaffold
+  - Files: package.json
+- Step 2: Add routing
+  - Files: src/router.ts, src/routes.ts
+  - Verification: npm test
+  - Done When: /login renders; unknown routes show 404
+  - Depends On: Step 1
+`);
+      const task = createActiveTask('Test task');
+      task.progress = { lastCompletedStep: 1, lastCompletedAt: new Date().toISOString() };
+      saveActiveTask(testDir, task);
+
+      const context = prepareJITContext(testDir, 'Do step 2', { mode: 'full' });
+
+      expect(context).toContain('Your step: Step 2 (1/2 plan steps complete)');
+      expect(context).toContain('## Your Step: Step 2 — Add routing\nFiles:\n- src/router.ts\n- src/routes.ts');
+      expect(context).toContain('Done When:\n- 2.1 /login renders\n- 2.2 unknown routes show 404');
+      expect(context).toContain('Depends On: Step 1');
+      expect(getJITContextSummary(testDir)).toMatchObject({
+        step: 2,
+        stepTitle: 'Add routing',
+        planProgress: { completed: 1, total: 2 },
+      });
+    });
+
+    test('prepares a requested step with its dependency summary', () => {
+      writeFileSync(join(setuDir, 'PLAN.md'), `- Step 1: Scaffold
+- Step 2: Docs
+  - Files: README.md
+  - Depends On: none
+- Step 3: Routing
+  - Files: src/router.ts
+  - Depends On: Step 1
+`);
+      const task = createActiveTask('Test task');
+      task.progress = { lastCompletedStep: 2, lastCompletedAt: new Date().toISOString(), completedSteps: [1, 2] };
+      saveActiveTask(testDir, task);
+      for (const step of [1, 2]) {
+        writeStepResult(testDir, {
+          step,
+          status: 'completed',
+          objective: `Step ${step}`,
+          outputs: [],
+          summary: `Summary of step ${step}`,
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      const context = prepareJITContext(testDir, 'Add routing', { mode: 'focused', step: 3 });
+
+      expect(context).toContain('[SETU: JIT Context - Step 3]');
+      expect(context).toContain('## Your Step: Step 3 — Routing');
+      expect(context).toContain('## Previous Step (1) Summary\nSummary of step 1');
+    });
+
     test('sanitizes objective (removes control chars)', () => {
       const task = createActiveTask('Test task');
       saveActiveTask(testDir, task);
@@ -182,6 +238,30 @@ describe('JIT Context Preparation', () => {
       expect(context).toContain('[TRUNCATED]');
     });
 
+    test('drops lower-priority sections before the constraints when over maxTokens', () => {
+      const task = createActiveTask('Test task', ['NO_PUSH']);
+      task.progress = { lastCompletedStep: 1, lastCompletedAt: new Date().toISOString() };
+      task.learnings = { worked: [], failed: ['tried the ORM join'] };
+      saveActiveTask(testDir, task);
+      writeStepResult(testDir, {
+        step: 1,
+        status: 'completed',
+        objective: 'Step 1 objective',
+        outputs: [],
+        summary: 'y'.repeat(1500),
+        timestamp: new Date().toISOString()
+      });
+
+      const context = prepareJITContext(testDir, 'Do step 2', { mode: 'full', maxTokens: 250 });
+
+      expect(context.length).toBeLessThanOrEqual(250 * 4);
+      expect(context).not.toContain('Previous Step (1) Summary');
+      expect(context).toContain('Do step 2');
+      expect(context).toContain('NO_PUSH');
+      expect(context).toContain('tried the ORM join');
+      expect(context.endsWith('[TRUNCATED]')).toBe(true);
+    });
+
     test('uses nullish coalescing for maxTokens (handles 0)', () => {
       const task = createActiveTask('Test task');
       saveActiveTask(testDir, task);
@@ -218,7 +298,8 @@ describe('JIT Context Preparation', () => {
 
       expect(context).toContain('Read .setu/PLAN.md');
       expect(context).toContain('Find Step');
-      expect(context).toContain('Call setu_verify when complete');
+      expect(context).toContain('Report back when done');
+      expect(context).not.toContain('setu_verify');
     });
   });
 
@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { acquireLeases, acquireLeasesWithWait, isLeaseExpired, isLeaseStale, listLeases, releaseLeases } from '../leases';
+import { clearSubagentSession, recordSubagentSession } from '../subagents';
+
+describe('file leases', () => {
+  let projectDir = '';
+
+  beforeEach(() => {
+    projectDir = mkdtempSync(join(tmpdir(), 'setu-leases-'));
+  });
+
+  afterEach(() => {
+    for (const sessionId of ['parent', 'child', 'sibling']) clearSubagentSession(sessionId);
+    rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  test('one session holds a path; renewals extend the lease', () => {
+    const start = Date.now();
+    expect(acquireLeases(projectDir, { paths: [join(projectDir, 'src/a.ts')], sessionId: 's1', step: 2, ttlMs: 1000 }, start)).toEqual([]);
+    expect(acquireLeases(projectDir, { paths: ['src/a.ts'], sessionId: 's1', step: 2, ttlMs: 1000 }, start + 500)).toEqual([]);
+
+    const [lease] = listLeases(projectDir);
+    expect(lease).toMatchObject({ path: 'src/a.ts', sessionId: 's1', step: 2, acquiredAt: new Date(start).toISOString() });
+    expect(lease.expiresAt).toBe(new Date(start + 1500).toISOString());
+
+    const conflicts = acquireLeases(projectDir, { paths: ['src/a.ts', 'src/b.ts'], sessionId: 's2', ttlMs: 1000 }, start + 1000);
+    expect(conflicts).toMatchObject([{ path: 'src/a.ts', sessionId: 's1' }]);
+    expect(listLeases(projectDir).map(entry => `${entry.path}:${entry.sessionId}`)).toEqual(['src/a.ts:s1', 'src/b.ts:s2']);
+  });
+
+  test('an expired lease goes to the next session that writes', () => {
+    const start = Date.now();
+    acquireLeases(projectDir, { paths: ['src/a.ts'], sessionId: 's1', ttlMs: 1000 }, start);
+
+    expect(isLeaseExpired(listLeases(projectDir)[0], start + 1000)).toBe(true);
+    expect(acquireLeases(projectDir, { paths: ['src/a.ts'], sessionId: 's2', ttlMs: 1000 }, start + 1000)).toEqual([]);
+    expect(listLeases(projectDir)).toMatchObject([{ sessionId: 's2' }]);
+  });
+
+  test('a lease taken by an exited process is stale', () => {
+    acquireLeases(projectDir, { paths: ['src/a.ts'], sessionId: 's1', ttlMs: 60_000 });
+    const [lease] = listLeases(projectDir);
+
+    expect(isLeaseStale(lease)).toBe(false);
+    expect(isLeaseStale({ ...lease, pid: 2 ** 22 + 1 })).toBe(true);
+  });
+
+  test('a parent and its subagent pass a lease between them; siblings conflict', () => {
+    recordSubagentSession('child', 'parent');
+    recordSubagentSession('sibling', 'parent');
+    const lease = (sessionId: string, step: number): ReturnType<typeof acquireLeases> =>
+      acquireLeases(projectDir, { paths: ['src/a.ts'], sessionId, step, ttlMs: 60_000 });
+
+    expect(lease('parent', 1)).toEqual([]);
+    expect(lease('child', 2)).toEqual([]);
+    expect(listLeases(projectDir)).toMatchObject([{ path: 'src/a.ts', sessionId: 'child', step: 2 }]);
+    expect(lease('sibling', 3)).toMatchObject([{ sessionId: 'child' }]);
+    expect(lease('parent', 1)).toEqual([]);
+    expect(listLeases(projectDir)).toMatchObject([{ sessionId: 'parent', step: 1 }]);
+  });
+
+  test('an unreadable lease counts as held until the TTL after it was written', () => {
+    const start = Date.now();
+    acquireLeases(projectDir, { paths: ['src/a.ts'], sessionId: 's1', ttlMs: 60_000 }, start);
+    const locksDir = join(projectDir, '.setu', 'locks');
+    const [file] = readdirSync(locksDir);
+    writeFileSync(join(locksDir, file), '{"version": 1, "path": "src/a');
+
+    expect(acquireLeases(projectDir, { paths: ['src/a.ts'], sessionId: 's2', ttlMs: 60_000 }, start))
+      .toMatchObject([{ path: 'src/a.ts', sessionId: 'unknown' }]);
+    expect(acquireLeases(projectDir, { paths: ['src/a.ts'], sessionId: 's2', ttlMs: 60_000 }, start + 120_000)).toEqual([]);
+    expect(listLeases(projectDir)).toMatchObject([{ path: 'src/a.ts', sessionId: 's2' }]);
+  });
+
+  test('a stale lease cannot be taken over while another session claims it', () => {
+    const start = Date.now();
+    acquireLeases(projectDir, { paths: ['src/a.ts'], sessionId: 's1', ttlMs: 1000 }, start);
+    const locksDir = join(projectDir, '.setu', 'locks');
+    const [file] = readdirSync(locksDir);
+    writeFileSync(join(locksDir, `${file}.claim`), '1\n');
+
+    expect(acquireLeases(projectDir, { paths: ['src/a.ts'], sessionId: 's2', ttlMs: 1000 }, start + 2000))
+      .toMatchObject([{ sessionId: 's1' }]);
+    expect(listLeases(projectDir)).toMatchObject([{ sessionId: 's1' }]);
+
+    // A claim left by a process that died is cleared after its timeout
+    expect(acquireLeases(projectDir, { paths: ['src/a.ts'], sessionId: 's2', ttlMs: 1000 }, Date.now() + 60_000)).toEqual([]);
+    expect(listLeases(projectDir)).toMatchObject([{ sessionId: 's2' }]);
+    expect(readdirSync(locksDir)).toEqual([file]);
+  });
+
+  test('releases by step or session', () => {
+    acquireLeases(projectDir, { paths: ['a.ts'], sessionId: 's1', step: 1, ttlMs: 60_000 });
+    acquireLeases(projectDir, { paths: ['b.ts'], sessionId: 's1', step: 2, ttlMs: 60_000 });
+    acquireLeases(projectDir, { paths: ['c.ts'], sessionId: 's2', step: 2, ttlMs: 60_000 });
+
+    expect(releaseLeases(projectDir, { step: 2 })).toBe(2);
+    expect(releaseLeases(projectDir, { sessionId: 's2' })).toBe(0);
+    expect(listLeases(projectDir).map(lease => lease.path)).toEqual(['a.ts']);
+  });
+
+  test('gives up after the wait when the holder keeps the lease', async () => {
+    acquireLeases(projectDir, { paths: ['a.ts'], sessionId: 's1', ttlMs: 60_000 });
+
+    const conflicts = await acquireLeasesWithWait(projectDir, { paths: ['a.ts'], sessionId: 's2', ttlMs: 60_000 }, 300);
+    expect(conflicts).toMatchObject([{ sessionId: 's1' }]);
+  });
+});
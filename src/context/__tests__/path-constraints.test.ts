@@ -0,0 +1,175 @@
+/**
+ * Unit tests for path-scoped constraints (NO_EDIT / ONLY_EDIT)
+ * 
+ * Run with: bun test src/context/__tests__/path-constraints.test.ts
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdirSync, rmSync, existsSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  createActiveTask,
+  loadActiveTask,
+  saveActiveTask,
+  sanitizePathConstraints,
+  shouldBlockDueToConstraint
+} from '../active';
+
+const PROJECT = '/work/repo';
+
+describe('sanitizePathConstraints', () => {
+  test('normalizes globs and drops unsafe entries', () => {
+    const result = sanitizePathConstraints({
+      NO_EDIT: ['./src/legacy/**', '/etc/**', '../outside/**', 'migrations/', '', 42],
+      UNKNOWN: ['x/**']
+    });
+
+    expect(result).toEqual({ NO_EDIT: ['src/legacy/**', 'migrations'] });
+  });
+
+  test('returns undefined when nothing valid remains', () => {
+    expect(sanitizePathConstraints({ ONLY_EDIT: ['../x'] })).toBeUndefined();
+    expect(sanitizePathConstraints(['src/**'])).toBeUndefined();
+  });
+});
+
+describe('active.json persistence', () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `setu-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    mkdirSync(join(testDir, '.setu'), { recursive: true });
+  });
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  test('round-trips path constraints', () => {
+    const task = createActiveTask('Scoped task', ['NO_PUSH'], {
+      NO_EDIT: ['src/legacy/**'],
+      ONLY_EDIT: ['packages/api/**']
+    });
+    saveActiveTask(testDir, task);
+
+    const loaded = loadActiveTask(testDir);
+    expect(loaded?.pathConstraints).toEqual({
+      NO_EDIT: ['src/legacy/**'],
+      ONLY_EDIT: ['packages/api/**']
+    });
+  });
+});
+
+describe('shouldBlockDueToConstraint with path constraints', () => {
+  const noEdit = { pathConstraints: { NO_EDIT: ['src/legacy/**', 'migrations'] }, projectDir: PROJECT };
+  const onlyEdit = { pathConstraints: { ONLY_EDIT: ['packages/api/**'] }, projectDir: PROJECT };
+
+  test('blocks write/edit to NO_EDIT paths (relative and absolute)', () => {
+    const relative = shouldBlockDueToConstraint('write', [], { filePath: 'src/legacy/old.ts' }, noEdit);
+    expect(relative.blocked).toBe(true);
+    expect(relative.constraint).toBe('NO_EDIT');
+
+    const absolute = shouldBlockDueToConstraint('edit', [], { filePath: `${PROJECT}/migrations/001.sql` }, noEdit);
+    expect(absolute.blocked).toBe(true);
+  });
+
+  test('allows paths outside NO_EDIT globs', () => {
+    const result = shouldBlockDueToConstraint('write', [], { filePath: 'src/new/feature.ts' }, noEdit);
+    expect(result.blocked).toBe(false);
+  });
+
+  test('blocks apply_patch touching NO_EDIT paths', () => {
+    const patchText = '*** Begin Patch\n*** Update File: src/legacy/a.ts\n@@\n-a\n+b\n*** End Patch';
+    const result = shouldBlockDueToConstraint('apply_patch', [], { patchText }, noEdit);
+    expect(result.blocked).toBe(true);
+  });
+
+  test('blocks bash commands that modify NO_EDIT paths', () => {
+    const cases = [
+      'rm -f src/legacy/old.ts',
+      'echo x > migrations/002.sql',
+      'npm test && sed -i s/a/b/ src/legacy/util.ts',
+      'cp template.sql migrations/003.sql',
+      'git checkout -- src/legacy/old.ts'
+    ];
+    for (const command of cases) {
+      expect(shouldBlockDueToConstraint('bash', [], { command }, noEdit).blocked).toBe(true);
+    }
+  });
+
+  test('follows nested and wrapped bash commands', () => {
+    const cases = [
+      'bash -c "echo x > src/legacy/a.ts"',
+      'find src/legacy -name "*.bak" -delete',
+      'sudo tee migrations/004.sql < tmp.sql',
+      'git -C . rm src/legacy/old.ts'
+    ];
+    for (const command of cases) {
+      expect(shouldBlockDueToConstraint('bash', [], { command }, noEdit).blocked).toBe(true);
+    }
+    expect(shouldBlockDueToConstraint('bash', [], { command: 'echo "rm src/legacy/a.ts" > notes.txt' }, noEdit).blocked).toBe(false);
+  });
+
+  test('resolves bash targets against the directory cd and git -C move to', () => {
+    const cases = [
+      "cd src/legacy && sed -i 's/a/b/' x.ts",
+      'cd src && echo x > legacy/a.ts',
+      'git -C src/legacy checkout -- x.ts',
+      'cd "$DIR" && touch x.ts',
+    ];
+    for (const command of cases) {
+      expect(shouldBlockDueToConstraint('bash', [], { command }, noEdit).blocked).toBe(true);
+    }
+    expect(shouldBlockDueToConstraint('bash', [], { command: 'cd src/new && touch x.ts' }, noEdit).blocked).toBe(false);
+  });
+
+  test('treats moving or deleting a parent of NO_EDIT paths as modifying them', () => {
+    const moved = shouldBlockDueToConstraint('bash', [], { command: 'mv src old' }, noEdit);
+    expect(moved).toEqual({
+      blocked: true,
+      reason: "Active task has NO_EDIT constraint for 'src/legacy/**'. Cannot modify src.",
+      constraint: 'NO_EDIT',
+    });
+    expect(shouldBlockDueToConstraint('bash', [], { command: 'rm -rf .' }, noEdit).blocked).toBe(true);
+    expect(shouldBlockDueToConstraint('bash', [], { command: 'rm -r src/new' }, noEdit).blocked).toBe(false);
+  });
+
+  test('flag constraints use the shell parser', () => {
+    expect(shouldBlockDueToConstraint('bash', ['NO_DELETE'], { command: 'git ls-files | xargs rm' }).blocked).toBe(true);
+    expect(shouldBlockDueToConstraint('bash', ['NO_PUSH'], { command: 'bash -c "git -C repo push"' }).blocked).toBe(true);
+    expect(shouldBlockDueToConstraint('bash', ['NO_PUSH'], { command: 'git commit -m "do not git push"' }).blocked).toBe(false);
+  });
+
+  test('allows bash commands that only read NO_EDIT paths', () => {
+    const cases = ['cat src/legacy/old.ts', 'cp src/legacy/old.ts src/new/copy.ts', 'grep -r foo migrations'];
+    for (const command of cases) {
+      expect(shouldBlockDueToConstraint('bash', [], { command }, noEdit).blocked).toBe(false);
+    }
+  });
+
+  test('ONLY_EDIT blocks modifications outside the allowed globs', () => {
+    expect(shouldBlockDueToConstraint('write', [], { filePath: 'packages/api/src/x.ts' }, onlyEdit).blocked).toBe(false);
+
+    const outside = shouldBlockDueToConstraint('write', [], { filePath: 'packages/web/src/x.ts' }, onlyEdit);
+    expect(outside.blocked).toBe(true);
+    expect(outside.constraint).toBe('ONLY_EDIT');
+
+    expect(shouldBlockDueToConstraint('bash', [], { command: 'touch README.md' }, onlyEdit).blocked).toBe(true);
+    expect(shouldBlockDueToConstraint('bash', [], { command: 'cd other && touch x' }, onlyEdit).blocked).toBe(true);
+    expect(shouldBlockDueToConstraint('bash', [], { command: 'git -C packages/api restore x' }, onlyEdit).blocked).toBe(false);
+  });
+
+  test('ONLY_EDIT exempts Setu artifacts', () => {
+    const result = shouldBlockDueToConstraint('write', [], { filePath: '.setu/PLAN.md' }, onlyEdit);
+    expect(result.blocked).toBe(false);
+  });
+
+  test('flag constraints still apply alongside path constraints', () => {
+    const result = shouldBlockDueToConstraint('bash', ['NO_PUSH'], { command: 'git push' }, onlyEdit);
+    expect(result.blocked).toBe(true);
+    expect(result.constraint).toBe('NO_PUSH');
+  });
+});
@@ -0,0 +1,227 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdirSync, mkdtempSync, rmSync, utimesSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  findPlanSteps,
+  getDoneWhenCriteria,
+  getPlanProgress,
+  getReadySteps,
+  loadPlan,
+  parsePlan,
+  savePlan,
+  validatePlan,
+} from '../plan';
+
+const NUMBERED_PLAN = `# Plan
+
+## Execution Steps
+# Phase 1: Foundation
+## Task 1.1: Scaffold
+- Step 1: Initialize Vite React TS project
+  - Why: Dev server and build out of the box
+  - Verification: npm run build
+  - Done When: app shell renders on port 4000; \`/health\` returns 200
+- Step 2: Add routing
+  - **Done When:**
+    - \`/login\` renders the login form
+    - unknown routes show the 404 page
+  - Edge Cases: deep links
+
+## Rollback Note
+Revert the scaffold commit.
+`;
+
+describe('PLAN.md steps', () => {
+  test('splits numbered steps and stops at other headings', () => {
+    const steps = findPlanSteps(NUMBERED_PLAN);
+
+    expect(steps.map(step => [step.number, step.title])).toEqual([
+      [1, 'Initialize Vite React TS project'],
+      [2, 'Add routing'],
+    ]);
+    expect(steps[1].lines.join('\n')).not.toContain('Revert');
+  });
+
+  test('reads inline and nested DONE WHEN criteria', () => {
+    expect(getDoneWhenCriteria(NUMBERED_PLAN, 1)).toEqual([
+      { id: '1.1', text: 'app shell renders on port 4000' },
+      { id: '1.2', text: '`/health` returns 200' },
+    ]);
+    expect(getDoneWhenCriteria(NUMBERED_PLAN, 2)).toEqual([
+      { id: '2.1', text: '`/login` renders the login form' },
+      { id: '2.2', text: 'unknown routes show the 404 page' },
+    ]);
+    expect(getDoneWhenCriteria(NUMBERED_PLAN, 3)).toEqual([]);
+  });
+
+  test('uses the latest revision of a step', () => {
+    const revised = `${NUMBERED_PLAN}\n---\n\n## Revision (2026-01-01)\n\n- Step 2: Add routing with guards\n  - Done When: guests are redirected to /login\n`;
+
+    expect(getDoneWhenCriteria(revised, 2)).toEqual([{ id: '2.1', text: 'guests are redirected to /login' }]);
+  });
+
+  test('treats each unit with step fields as a step when steps are not numbered', () => {
+    const plan = `Phase 1: Foundation
+Task 1.1: Project Scaffold
+- Initialize Vite React TS project
+  - Why: Dev server, HMR, production build out of box
+  - Done When: app shell renders on expected port
+- Add Tailwind
+  - Files: tailwind.config.ts
+  - Done When: utility classes apply in the app shell
+`;
+
+    expect(findPlanSteps(plan).map(step => [step.number, step.title])).toEqual([
+      [1, 'Initialize Vite React TS project'],
+      [2, 'Add Tailwind'],
+    ]);
+    expect(getDoneWhenCriteria(plan, 2)).toEqual([{ id: '2.1', text: 'utility classes apply in the app shell' }]);
+  });
+});
+
+const COMPLETE_PLAN = `# Plan
+
+## Objective
+Ship the login page
+
+## Context Summary
+Express app without auth.
+
+## Goals / Non-goals
+Login only; no password reset.
+
+## Assumptions / Constraints
+Node 20
+
+## File-level Edit List
+- src/login.ts
+
+## Execution Steps
+### Step 1: Add the login route
+- Files: src/login.ts, \`src/session.ts\`
+- Verification: npm test
+- Done When: POST /login returns a session cookie
+
+### Step 3: Add logout
+- Files:
+  - src/logout.ts
+- Verification:
+  - npm test
+  - curl -X POST localhost:3000/logout
+- Done When: the session cookie is cleared
+- Depends On: Step 1
+`;
+
+describe('structured plan', () => {
+  test('parses steps with files, verification, criteria, and dependencies', () => {
+    expect(parsePlan(COMPLETE_PLAN).steps).toEqual([
+      {
+        id: 1,
+        title: 'Add the login route',
+        files: ['src/login.ts', 'src/session.ts'],
+        verification: ['npm test'],
+        doneWhen: [{ id: '1.1', text: 'POST /login returns a session cookie' }],
+        dependsOn: [],
+      },
+      {
+        id: 3,
+        title: 'Add logout',
+        files: ['src/logout.ts'],
+        verification: ['npm test', 'curl -X POST localhost:3000/logout'],
+        doneWhen: [{ id: '3.1', text: 'the session cookie is cleared' }],
+        dependsOn: [1],
+      },
+    ]);
+    expect(validatePlan(COMPLETE_PLAN)).toEqual([]);
+  });
+
+  test('reports each gap against the plan contract', () => {
+    const plan = `Objective: tidy up\n\n- Step 1: Rename helpers\n  - Why: clarity\n  - Files: src/util.ts\n  - Depends On: Step 2\n`;
+
+    expect(validatePlan(plan)).toEqual([
+      'Missing section: Context Summary (brief grounding from research)',
+      'Missing section: Goals / Non-goals (scope boundaries)',
+      'Missing section: Assumptions / Constraints (environment, path, runtime, and policy constraints)',
+      'Missing section: File-level Edit List (files or modules expected to change)',
+      'Step 1 (Rename helpers): missing Verification, Done When',
+      'Step 1 (Rename helpers): depends on unknown step(s) 2',
+    ]);
+    expect(validatePlan('## Objective\nShip it')).toContain(
+      'Missing section: Execution Steps (number each unit of work "Step N" with Why, Files, Verification, and Done When)'
+    );
+  });
+
+  test('tracks progress by plan step ids', () => {
+    const plan = parsePlan(COMPLETE_PLAN);
+
+    expect(getPlanProgress(plan, new Set())).toMatchObject({ completed: 0, total: 2, next: { id: 1 } });
+    expect(getPlanProgress(plan, new Set([1]))).toMatchObject({ completed: 1, total: 2, next: { id: 3 } });
+    expect(getPlanProgress(plan, new Set([1, 3]))).toMatchObject({ completed: 2, total: 2, next: null });
+  });
+
+  test('readies steps once their dependencies complete', () => {
+    const plan = parsePlan(`- Step 1: Schema
+  - Files: db.sql
+- Step 2: API
+  - Files: api.ts
+- Step 3: Docs
+  - Files: README.md
+  - Depends On: none
+- Step 4: UI
+  - Files: ui.ts
+  - Depends On: Steps 2 and 3
+`);
+
+    // No Depends On field: the step follows the one before it
+    expect(plan.steps.map(step => step.dependsOn)).toEqual([[], [1], [], [2, 3]]);
+    expect(getReadySteps(plan, new Set()).map(step => step.id)).toEqual([1, 3]);
+    expect(getPlanProgress(plan, new Set([1, 3]))).toMatchObject({
+      ready: [{ id: 2 }],
+      blocked: [{ id: 4 }],
+      next: { id: 2 },
+    });
+    expect(getReadySteps(plan, new Set([1, 2, 3])).map(step => step.id)).toEqual([4]);
+  });
+
+  test('rejects dependency cycles', () => {
+    const plan = `- Step 1: A
+  - Depends On: Step 2
+- Step 2: B
+  - Depends On: Step 1
+- Step 3: C
+`;
+
+    expect(validatePlan(plan)).toContain('Step 1: dependency cycle (Step 1 → Step 2 → Step 1)');
+    expect(validatePlan(plan).filter(gap => gap.includes('cycle'))).toHaveLength(1);
+  });
+
+  describe('loadPlan', () => {
+    let projectDir = '';
+
+    beforeEach(() => {
+      projectDir = mkdtempSync(join(tmpdir(), 'setu-plan-json-'));
+      mkdirSync(join(projectDir, '.setu'));
+    });
+
+    afterEach(() => {
+      rmSync(projectDir, { recursive: true, force: true });
+    });
+
+    test('reads plan.json and re-parses a PLAN.md edited after it', () => {
+      expect(loadPlan(projectDir)).toBeNull();
+
+      const planPath = join(projectDir, '.setu', 'PLAN.md');
+      writeFileSync(planPath, COMPLETE_PLAN);
+      const old = new Date(Date.now() - 60_000);
+      utimesSync(planPath, old, old);
+      savePlan(projectDir, { ...parsePlan(COMPLETE_PLAN), steps: [] });
+      expect(loadPlan(projectDir)?.steps).toEqual([]);
+
+      writeFileSync(planPath, COMPLETE_PLAN);
+      const newer = new Date(Date.now() + 60_000);
+      utimesSync(planPath, newer, newer);
+      expect(loadPlan(projectDir)?.steps.map(step => step.id)).toEqual([1, 3]);
+    });
+  });
+});
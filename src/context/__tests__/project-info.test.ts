@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { detectProjectInfo } from '../project-info';
+
+describe('detectProjectInfo', () => {
+  let projectDir = '';
+
+  const write = (path: string, content: string | object): void => {
+    const fullPath = join(projectDir, path);
+    mkdirSync(dirname(fullPath), { recursive: true });
+    writeFileSync(fullPath, typeof content === 'string' ? content : JSON.stringify(content));
+  };
+
+  beforeEach(() => {
+    projectDir = mkdtempSync(join(tmpdir(), 'setu-project-info-'));
+  });
+
+  afterEach(() => {
+    rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  test('detects bun from the text lockfile', () => {
+    write('package.json', { name: 'app', devDependencies: { typescript: '^5.0.0', eslint: '^9.0.0' }, scripts: { test: 'bun test' } });
+    write('bun.lock', '{}');
+
+    expect(detectProjectInfo(projectDir)).toMatchObject({
+      type: 'typescript',
+      runtime: 'bun',
+      buildTool: 'bun',
+      testRunner: 'bun',
+      linter: 'eslint',
+      typeChecker: 'tsc',
+    });
+  });
+
+  test('reads the package manager and version from packageManager', () => {
+    write('package.json', { name: 'app', packageManager: 'pnpm@9.12.1+sha512.abc', devDependencies: { vitest: '^2.0.0' } });
+
+    expect(detectProjectInfo(projectDir)).toMatchObject({
+      buildTool: 'pnpm',
+      packageManagerVersion: '9.12.1',
+      testFramework: 'vitest',
+      testRunner: 'vitest',
+    });
+  });
+
+  test('detects Maven and Gradle builds with wrapper versions', () => {
+    write('pom.xml', '<project><dependency><artifactId>junit-jupiter</artifactId></dependency></project>');
+    write('.mvn/wrapper/maven-wrapper.properties', 'distributionUrl=https://repo/apache-maven-3.9.6-bin.zip\n');
+    expect(detectProjectInfo(projectDir)).toMatchObject({
+      type: 'java',
+      runtime: 'jvm',
+      buildTool: 'maven',
+      packageManagerVersion: '3.9.6',
+      testRunner: 'junit',
+    });
+
+    write('build.gradle.kts', 'plugins { kotlin("jvm") }\n');
+    write('gradle/wrapper/gradle-wrapper.properties', 'distributionUrl=https\\://services.gradle.org/gradle-8.7-bin.zip\n');
+    expect(detectProjectInfo(projectDir)).toMatchObject({ type: 'kotlin', buildTool: 'gradle', packageManagerVersion: '8.7' });
+  });
+
+  test('detects .NET solutions and their test framework', () => {
+    write('App.sln', '');
+    write('App.Tests.csproj', '<Project><ItemGroup><PackageReference Include="xunit" Version="2.9.0" /></ItemGroup></Project>');
+    write('global.json', { sdk: { version: '8.0.100' } });
+
+    expect(detectProjectInfo(projectDir)).toMatchObject({
+      type: 'csharp',
+      runtime: 'dotnet',
+      buildTool: 'dotnet',
+      packageManagerVersion: '8.0.100',
+      testRunner: 'xunit',
+    });
+  });
+
+  test('prefers the Gemfile over package.json and keeps frontend frameworks', () => {
+    write('package.json', { name: 'assets', devDependencies: { react: '^19.0.0', eslint: '^9.0.0' } });
+    write('package-lock.json', '{}');
+    write('Gemfile', "source 'https://rubygems.org'\ngem 'rails'\ngem 'rspec-rails'\ngem 'rubocop-rails'\n");
+    write('Gemfile.lock', 'GEM\n  specs:\n\nBUNDLED WITH\n   2.5.3\n');
+
+    const info = detectProjectInfo(projectDir);
+    expect(info).toMatchObject({
+      type: 'ruby',
+      buildTool: 'bundler',
+      packageManagerVersion: '2.5.3',
+      testRunner: 'rspec',
+      linter: 'rubocop',
+      frameworks: ['react', 'rails'],
+    });
+    expect(info.typeChecker).toBeUndefined();
+  });
+
+  test('detects Composer, Mix, and Zig tooling', () => {
+    write('composer.json', { require: { 'laravel/framework': '^11.0' }, 'require-dev': { 'pestphp/pest': '^3.0', 'phpstan/phpstan': '^1.0' } });
+    expect(detectProjectInfo(projectDir)).toMatchObject({ type: 'php', buildTool: 'composer', testRunner: 'pest', typeChecker: 'phpstan' });
+    rmSync(join(projectDir, 'composer.json'));
+
+    write('mix.exs', 'defp deps do\n  [{:credo, "~> 1.7"}, {:dialyxir, "~> 1.4"}]\nend\n');
+    expect(detectProjectInfo(projectDir)).toMatchObject({ buildTool: 'mix', linter: 'credo', typeChecker: 'dialyzer' });
+    rmSync(join(projectDir, 'mix.exs'));
+
+    write('build.zig', '');
+    expect(detectProjectInfo(projectDir)).toMatchObject({ type: 'zig', buildTool: 'zig' });
+  });
+
+  test('detects Deno projects and their tasks', () => {
+    write('deno.json', { tasks: { build: 'deno run -A build.ts', dev: 'deno run -A --watch main.ts' } });
+
+    expect(detectProjectInfo(projectDir)).toMatchObject({ runtime: 'deno', buildTool: 'deno', tasks: ['build'] });
+  });
+
+  test('falls back to Makefile targets', () => {
+    write('Makefile', 'all: build\n\nbuild:\n\tcc main.c\n\ntest: build\n\t./run-tests\n\nVERSION := 1.0\n');
+
+    expect(detectProjectInfo(projectDir)).toEqual({ buildTool: 'make', tasks: ['build', 'all', 'test'] });
+  });
+
+  test('keeps package.json runtime for Rust projects', () => {
+    write('package.json', { name: 'tauri-app', dependencies: { react: '^19.0.0' } });
+    write('Cargo.toml', '[package]\nname = "app"\n');
+
+    expect(detectProjectInfo(projectDir)).toMatchObject({ type: 'rust', runtime: 'node', buildTool: 'cargo', frameworks: ['react'] });
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, test } from 'bun:test';
+import { formatResearchQuality, scoreResearch } from '../research';
+
+const words = (count: number): string => Array.from({ length: count }, (_, index) => `word${index}`).join(' ');
+
+const THOROUGH_RESEARCH = `# Research
+
+## Intent & PRD
+${words(25)}
+
+## Technical Analysis
+${words(25)}
+
+## Alternatives & Tradeoffs
+- Option A: ${words(12)}
+- Option B: ${words(12)}
+
+## Risks & Failure Modes
+${words(25)}
+
+## Verification Strategy
+${words(25)}
+
+Assumptions to confirm: ${words(8)}
+`;
+
+describe('research quality', () => {
+  test('fails the contract BAD example with every section missing', () => {
+    const quality = scoreResearch('Building a React app with auth. Will use JWT. Need login page.', 3, 50);
+
+    expect(quality).toMatchObject({ score: 0, minimum: 50, passed: false, evidenceFree: false });
+    expect(quality.sections.every(section => section.status === 'missing')).toBe(true);
+  });
+
+  test('scores covered sections in full and thin ones by half', () => {
+    const quality = scoreResearch(THOROUGH_RESEARCH, 4, 50);
+
+    expect(quality.sections.map(section => [section.name, section.status])).toEqual([
+      ['Intent & PRD', 'covered'],
+      ['Technical analysis', 'covered'],
+      ['Alternatives & tradeoffs', 'covered'],
+      ['Risks & failure modes', 'covered'],
+      ['Verification strategy', 'covered'],
+      ['Assumptions to confirm', 'thin'],
+    ]);
+    expect(quality).toMatchObject({ score: 92, passed: true });
+  });
+
+  test('reports missing sections and evidence-free research', () => {
+    const quality = scoreResearch(`## Intent\n${words(30)}\n\n## Risks\nRate limits.`, 0, 70);
+
+    expect(quality).toMatchObject({ score: 25, passed: false, evidenceFree: true });
+    expect(formatResearchQuality(quality)).toBe(
+      [
+        '**Research quality:** 25/100 (minimum 70)',
+        '- [x] Intent & PRD',
+        '- [ ] Technical analysis: missing (stack evaluation, library choices, version quirks)',
+        '- [ ] Alternatives & tradeoffs: missing (options considered and why the chosen approach wins)',
+        '- [~] Risks & failure modes: thin (2 words); expand on known limitations and mitigations',
+        '- [ ] Verification strategy: missing (how to confirm this works)',
+        '- [ ] Assumptions to confirm: missing (explicit assumptions that must be confirmed before execution)',
+        '',
+        '⚠ Evidence-free: no files recorded as read (context.json filesRead is empty). Read the code this research is about.',
+      ].join('\n')
+    );
+  });
+
+  test('passes everything with a zero minimum', () => {
+    expect(scoreResearch('notes', 0, 0).passed).toBe(true);
+  });
+});
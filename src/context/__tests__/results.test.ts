@@ -204,6 +204,47 @@ describe('Results Pattern', () => {
       expect(read?.objective).toBe('Test objective');
     });
 
+    test('keeps coverage next to verification', () => {
+      writeStepResult(testDir, {
+        step: 2,
+        status: 'completed',
+        objective: 'Add parser',
+        outputs: [],
+        summary: 'Verified',
+        verification: 'Build/test/lint passed',
+        coverage: '92% of 25 changed line(s) covered (threshold 80%)',
+        timestamp: '2024-01-01T00:00:00.000Z'
+      });
+
+      const content = readFileSync(join(resultsDir, 'step-2.md'), 'utf-8');
+      expect(content.indexOf('## Coverage')).toBeGreaterThan(content.indexOf('## Verification'));
+      const read = readStepResult(testDir, 2);
+      expect(read?.verification).toBe('Build/test/lint passed');
+      expect(read?.coverage).toBe('92% of 25 changed line(s) covered (threshold 80%)');
+    });
+
+    test('keeps DONE WHEN criteria with their evidence', () => {
+      writeStepResult(testDir, {
+        step: 3,
+        status: 'completed',
+        objective: 'Add health check',
+        outputs: [],
+        summary: 'Verified',
+        criteria: [
+          { id: '3.1', text: 'health check returns 200', met: true, evidence: 'command `curl -sf localhost:4000/health` exit 0' },
+          { id: '3.2', text: 'docs updated', met: true, evidence: 'user confirmed through the question tool' },
+        ],
+        timestamp: '2024-01-01T00:00:00.000Z'
+      });
+
+      const content = readFileSync(join(resultsDir, 'step-3.md'), 'utf-8');
+      expect(content).toContain('## Done When\n\n- [x] 3.1 health check returns 200 — command');
+      expect(readStepResult(testDir, 3)?.criteria).toEqual([
+        { id: '3.1', text: 'health check returns 200', met: true, evidence: 'command `curl -sf localhost:4000/health` exit 0' },
+        { id: '3.2', text: 'docs updated', met: true, evidence: 'user confirmed through the question tool' },
+      ]);
+    });
+
     test('returns null for non-existent step', () => {
       const read = readStepResult(testDir, 999);
       expect(read).toBeNull();
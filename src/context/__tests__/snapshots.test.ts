@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { execFileSync } from 'child_process';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, unlinkSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createSnapshot, listSnapshots, loadSnapshot, restoreSnapshot } from '../snapshots';
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', ['-c', 'user.email=setu@test', '-c', 'user.name=setu', ...args], {
+    cwd,
+    encoding: 'utf-8',
+    stdio: ['pipe', 'pipe', 'pipe'],
+  }).trim();
+}
+
+const input = { tool: 'bash', action: 'git reset --hard', reasons: ['Destructive shell command detected'], paths: [] };
+
+describe('safety snapshots (git)', () => {
+  let projectDir = '';
+
+  beforeEach(() => {
+    projectDir = mkdtempSync(join(tmpdir(), 'setu-snapshots-'));
+    git(projectDir, 'init', '-q');
+    writeFileSync(join(projectDir, 'app.ts'), 'committed\n');
+    writeFileSync(join(projectDir, '.gitignore'), '.setu/\n');
+    git(projectDir, 'add', '.');
+    git(projectDir, 'commit', '-qm', 'init');
+  });
+
+  afterEach(() => {
+    rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  test('restores uncommitted and untracked work after git reset --hard and git clean', () => {
+    writeFileSync(join(projectDir, 'app.ts'), 'edited\n');
+    writeFileSync(join(projectDir, 'notes.md'), 'draft\n');
+
+    const snapshot = createSnapshot(projectDir, input);
+    expect(snapshot.dirty).toBe(true);
+    expect(snapshot.ref).toBe(`refs/setu/snapshots/${snapshot.id}`);
+    expect(snapshot.files).toEqual(['notes.md']);
+    expect(snapshot.paths).toEqual(['app.ts']);
+    // Capturing never touches the working tree
+    expect(readFileSync(join(projectDir, 'app.ts'), 'utf-8')).toBe('edited\n');
+
+    git(projectDir, 'reset', '--hard', '-q');
+    git(projectDir, 'clean', '-fdq');
+    expect(existsSync(join(projectDir, 'notes.md'))).toBe(false);
+
+    const result = restoreSnapshot(projectDir, snapshot.id);
+    expect(result.trackedRestored).toBe(true);
+    expect(result.trackedFiles).toEqual(['app.ts']);
+    expect(result.restoredFiles).toBe(1);
+    expect(readFileSync(join(projectDir, 'app.ts'), 'utf-8')).toBe('edited\n');
+    expect(readFileSync(join(projectDir, 'notes.md'), 'utf-8')).toBe('draft\n');
+  });
+
+  test('pins HEAD for a clean tree and reports when HEAD moved', () => {
+    const head = git(projectDir, 'rev-parse', 'HEAD');
+    const snapshot = createSnapshot(projectDir, { ...input, action: 'rm app.ts', paths: ['app.ts'] });
+    expect(snapshot.dirty).toBe(false);
+    expect(git(projectDir, 'rev-parse', snapshot.ref as string)).toBe(head);
+
+    writeFileSync(join(projectDir, 'app.ts'), 'second\n');
+    git(projectDir, 'commit', '-qam', 'second');
+
+    const result = restoreSnapshot(projectDir, snapshot.id);
+    expect(readFileSync(join(projectDir, 'app.ts'), 'utf-8')).toBe('committed\n');
+    expect(result.currentHead).toBe(git(projectDir, 'rev-parse', 'HEAD'));
+  });
+
+  test('restores only what the action could have changed', () => {
+    mkdirSync(join(projectDir, 'src'));
+    writeFileSync(join(projectDir, 'src', 'lib.ts'), 'lib\n');
+    git(projectDir, 'add', '.');
+    git(projectDir, 'commit', '-qm', 'lib');
+
+    const named = createSnapshot(projectDir, { ...input, action: 'rm -rf src', paths: ['src'] });
+    writeFileSync(join(projectDir, 'app.ts'), 'later work\n');
+    rmSync(join(projectDir, 'src'), { recursive: true });
+    expect(restoreSnapshot(projectDir, named.id).trackedFiles).toEqual(['src/lib.ts']);
+    expect(readFileSync(join(projectDir, 'src', 'lib.ts'), 'utf-8')).toBe('lib\n');
+    expect(readFileSync(join(projectDir, 'app.ts'), 'utf-8')).toBe('later work\n');
+
+    // Without named paths, only the files with uncommitted changes
+    git(projectDir, 'commit', '-qam', 'later');
+    writeFileSync(join(projectDir, 'app.ts'), 'uncommitted\n');
+    const reset = createSnapshot(projectDir, input);
+    git(projectDir, 'reset', '--hard', '-q');
+    writeFileSync(join(projectDir, 'src', 'lib.ts'), 'edited after the reset\n');
+    expect(restoreSnapshot(projectDir, reset.id).trackedFiles).toEqual(['app.ts']);
+    expect(readFileSync(join(projectDir, 'app.ts'), 'utf-8')).toBe('uncommitted\n');
+    expect(readFileSync(join(projectDir, 'src', 'lib.ts'), 'utf-8')).toBe('edited after the reset\n');
+  });
+
+  test('copies untracked files under the affected paths only', () => {
+    mkdirSync(join(projectDir, 'build'));
+    writeFileSync(join(projectDir, 'build', 'out.js'), 'x');
+    writeFileSync(join(projectDir, 'other.txt'), 'y');
+
+    const snapshot = createSnapshot(projectDir, { ...input, action: 'rm -rf build', paths: ['build'] });
+    expect(snapshot.files).toEqual(['build/out.js']);
+  });
+
+  test('lists newest first and prunes beyond the retention limit', () => {
+    const base = Date.UTC(2026, 0, 1);
+    const ids = Array.from({ length: 22 }, (_, i) => createSnapshot(projectDir, input, new Date(base + i * 1000)).id);
+
+    const listed = listSnapshots(projectDir).map(s => s.id);
+    expect(listed).toHaveLength(20);
+    expect(listed[0]).toBe(ids[21]);
+    expect(listed).not.toContain(ids[0]);
+    expect(() => git(projectDir, 'rev-parse', '--verify', `refs/setu/snapshots/${ids[0]}`)).toThrow();
+  });
+});
+
+describe('safety snapshots (validation)', () => {
+  let projectDir = '';
+
+  beforeEach(() => {
+    projectDir = mkdtempSync(join(tmpdir(), 'setu-snapshots-plain-'));
+  });
+
+  afterEach(() => {
+    rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  test('outside git, copies the affected files', () => {
+    writeFileSync(join(projectDir, 'data.db'), 'rows');
+    const snapshot = createSnapshot(projectDir, { ...input, paths: ['data.db'] });
+    expect(snapshot.ref).toBeUndefined();
+
+    unlinkSync(join(projectDir, 'data.db'));
+    expect(restoreSnapshot(projectDir, snapshot.id).restoredFiles).toBe(1);
+    expect(readFileSync(join(projectDir, 'data.db'), 'utf-8')).toBe('rows');
+  });
+
+  test('rejects unknown IDs and metadata that escapes the project', () => {
+    expect(() => restoreSnapshot(projectDir, '../../etc')).toThrow('not found');
+
+    const snapshot = createSnapshot(projectDir, input);
+    const metadataPath = join(projectDir, '.setu', 'snapshots', snapshot.id, 'snapshot.json');
+    writeFileSync(metadataPath, JSON.stringify({ ...snapshot, files: ['../outside.txt'] }));
+    expect(loadSnapshot(projectDir, snapshot.id)).toBeNull();
+  });
+});
@@ -13,13 +13,38 @@
  */
 
 import { existsSync, readFileSync, writeFileSync, renameSync, unlinkSync } from 'fs';
-import { join } from 'path';
+import { isAbsolute, join, posix } from 'path';
 import { ensureSetuDir } from './storage';
-import { type ActiveTask, type ConstraintType, type TaskStatus, CONSTRAINT_TYPES } from './types';
+import { getPlanProgress, loadPlan } from './plan';
+import { listCompletedSteps } from './results';
+import { releaseLeases } from './leases';
+import {
+  type ActiveTask,
+  type ConstraintType,
+  type PathConstraints,
+  type PathConstraintType,
+  type TaskStatus,
+  CONSTRAINT_TYPES,
+  PATH_CONSTRAINT_TYPES
+} from './types';
 import { MAX_LEARNINGS } from './limits';
 import { debugLog, errorLog } from '../debug';
-import { createPromptSanitizer } from '../utils/sanitization';
+import { createPromptSanitizer, removeControlChars } from '../utils/sanitization';
 import { getErrorMessage } from '../utils/error-handling';
+import {
+  isProjectRoot,
+  matchGlobList,
+  matchGlobListBeneath,
+  normalizeGlobPattern,
+  toProjectRelativePath
+} from '../utils/glob';
+import {
+  type ShellCommand,
+  collectShellCommands,
+  getGitArgs,
+  getOperands,
+  hasFlag
+} from '../utils/shell-parser';
 
 // Create a sanitizer for learnings with 500 char limit
 const sanitizeLearning = createPromptSanitizer(500);
@@ -37,8 +62,8 @@ const BYPASS_INDICATORS = ['$', '`', '$(', 'eval ', 'source ', 'exec '] as const
 /**
  * Check if a command contains potential bypass indicators and log a warning.
  * 
- * This is defense-in-depth — we can't reliably detect all bypass attempts
- * (see tokenizeCommand limitations), but we can warn on obvious patterns.
+ * This is defense-in-depth — the shell parser cannot see variable values,
+ * aliases, or sourced scripts, but we can warn on obvious patterns.
  * 
  * @param command - The shell command to check
  * @returns true if bypass indicators found (for caller info, doesn't block)
@@ -54,13 +79,17 @@ function checkBypassIndicators(command: string): boolean {
 }
 
 // Re-export types for convenience
-export type { ActiveTask, ConstraintType, TaskStatus };
-export { CONSTRAINT_TYPES };
+export type { ActiveTask, ConstraintType, PathConstraints, PathConstraintType, TaskStatus };
+export { CONSTRAINT_TYPES, PATH_CONSTRAINT_TYPES };
 
 const ACTIVE_JSON = 'active.json';
 const MAX_TASK_LENGTH = 500;       // Prevent bloated task descriptions
 const MAX_REFERENCE_LENGTH = 200;  // Prevent long URLs
 const MAX_REFERENCES = 10;         // Reasonable limit
+const MAX_PATH_GLOBS = 20;         // Per path constraint type
+const MAX_PATH_GLOB_LENGTH = 200;
+const MAX_COMPLETED_STEPS = 500;
+const MAX_STEP_STARTS = 50;
 
 /**
  * Sanitize a string for safe storage.
@@ -79,6 +108,74 @@ function isValidConstraint(value: unknown): value is ConstraintType {
   return typeof value === 'string' && validValues.includes(value as ConstraintType);
 }
 
+/**
+ * Validate completed step ids: positive integers, deduplicated and sorted.
+ *
+ * @returns Step ids, or undefined if the value is not an array
+ */
+function sanitizeStepIds(value: unknown): number[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const ids = value.filter((id: unknown): id is number => typeof id === 'number' && Number.isInteger(id) && id > 0);
+  return Array.from(new Set(ids)).sort((a, b) => a - b).slice(0, MAX_COMPLETED_STEPS);
+}
+
+/**
+ * Validate step start times: positive integer step ids mapped to ISO timestamps.
+ *
+ * @returns Start times, or undefined if none are valid
+ */
+function sanitizeStepStarts(value: unknown): Record<string, string> | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter((entry): entry is [string, string] =>
+      /^[1-9]\d*$/.test(entry[0]) && typeof entry[1] === 'string' && isValidISOTimestamp(entry[1])
+    )
+    .slice(-MAX_STEP_STARTS);
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
+/**
+ * Validate and normalize path-scoped constraints.
+ * 
+ * Globs must be project-relative: absolute paths and `..` segments are
+ * dropped (SANDBOX covers out-of-project access). Unknown keys are ignored.
+ * 
+ * @returns Normalized constraints, or undefined if none are valid
+ */
+export function sanitizePathConstraints(value: unknown): PathConstraints | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return undefined;
+  }
+
+  const result: PathConstraints = {};
+  for (const type of Object.values(PATH_CONSTRAINT_TYPES)) {
+    const raw = (value as Record<string, unknown>)[type];
+    if (!Array.isArray(raw)) continue;
+
+    const globs = raw
+      .filter((g: unknown): g is string => typeof g === 'string')
+      .map(g => removeControlChars(g).trim())
+      .filter(g => g.length > 0 && g.length <= MAX_PATH_GLOB_LENGTH)
+      .filter(g => !g.startsWith('/') && !g.startsWith('~') && !/^[A-Za-z]:[\\/]/.test(g))
+      .map(normalizeGlobPattern)
+      .filter(g => g.length > 0 && !g.split('/').includes('..'));
+
+    const unique = Array.from(new Set(globs)).slice(0, MAX_PATH_GLOBS);
+    if (unique.length > 0) {
+      result[type] = unique;
+    }
+  }
+
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+/**
+ * Whether a task carries any enforceable constraint (flag or path-scoped).
+ */
+export function hasActiveConstraints(task: ActiveTask): boolean {
+  return task.constraints.length > 0 || task.pathConstraints !== undefined;
+}
+
 /**
  * Validate task status against known values.
  */
@@ -141,6 +238,12 @@ export function loadActiveTask(projectDir: string): ActiveTask | null {
       status: parsed.status,
     };
     
+    // Optional: path-scoped constraints
+    const pathConstraints = sanitizePathConstraints(parsed.pathConstraints);
+    if (pathConstraints) {
+      task.pathConstraints = pathConstraints;
+    }
+    
     // Optional: references
     if (Array.isArray(parsed.references)) {
       task.references = parsed.references
@@ -161,8 +264,16 @@ export function loadActiveTask(projectDir: string): ActiveTask | null {
         isValidISOTimestamp(lastCompletedAt)
       ) {
         task.progress = { lastCompletedStep, lastCompletedAt };
+        const completedSteps = sanitizeStepIds(parsed.progress.completedSteps);
+        if (completedSteps) task.progress.completedSteps = completedSteps;
       }
     }
+
+    // Optional: start times of steps in progress
+    const stepStarts = sanitizeStepStarts(parsed.stepStarts);
+    if (stepStarts) {
+      task.stepStarts = stepStarts;
+    }
     
     // Optional: learnings (ghost loop prevention)
     if (parsed.learnings && typeof parsed.learnings === 'object') {
@@ -219,6 +330,11 @@ export function saveActiveTask(projectDir: string, task: ActiveTask): void {
       status: task.status,
     };
     
+    const pathConstraints = sanitizePathConstraints(task.pathConstraints);
+    if (pathConstraints) {
+      sanitizedTask.pathConstraints = pathConstraints;
+    }
+    
     if (task.references) {
       sanitizedTask.references = task.references
         .slice(0, MAX_REFERENCES)
@@ -231,6 +347,13 @@ export function saveActiveTask(projectDir: string, task: ActiveTask): void {
         lastCompletedStep: task.progress.lastCompletedStep,
         lastCompletedAt: task.progress.lastCompletedAt || new Date().toISOString()
       };
+      const completedSteps = sanitizeStepIds(task.progress.completedSteps);
+      if (completedSteps) sanitizedTask.progress.completedSteps = completedSteps;
+    }
+
+    const stepStarts = sanitizeStepStarts(task.stepStarts);
+    if (stepStarts) {
+      sanitizedTask.stepStarts = stepStarts;
     }
     
     // Save learnings if present (cap arrays to MAX_LEARNINGS)
@@ -275,18 +398,27 @@ export function saveActiveTask(projectDir: string, task: ActiveTask): void {
  * 
  * @param taskDescription - What the user wants to do
  * @param constraints - Optional constraints to apply
+ * @param pathConstraints - Optional path-scoped constraints (NO_EDIT, ONLY_EDIT)
  * @returns New ActiveTask ready to save
  */
 export function createActiveTask(
   taskDescription: string,
-  constraints: ConstraintType[] = []
+  constraints: ConstraintType[] = [],
+  pathConstraints?: PathConstraints
 ): ActiveTask {
-  return {
+  const task: ActiveTask = {
     task: sanitize(taskDescription, MAX_TASK_LENGTH),
     constraints: constraints.filter(isValidConstraint),
     startedAt: new Date().toISOString(),
     status: 'in_progress',
   };
+  
+  const validPathConstraints = sanitizePathConstraints(pathConstraints);
+  if (validPathConstraints) {
+    task.pathConstraints = validPathConstraints;
+  }
+  
+  return task;
 }
 
 /**
@@ -328,7 +460,7 @@ export function clearActiveTask(projectDir: string): void {
 }
 
 /**
- * Reset progress to step 0.
+ * Reset progress to step 0 and release all file leases.
  * Used when a new plan is created or explicitly requested by user.
  * 
  * @param projectDir - Project root directory
@@ -341,10 +473,13 @@ export function resetProgress(projectDir: string): void {
     
     task.progress = {
       lastCompletedStep: 0,
-      lastCompletedAt: new Date().toISOString()
+      lastCompletedAt: new Date().toISOString(),
+      completedSteps: []
     };
+    delete task.stepStarts;
     
     saveActiveTask(projectDir, task);
+    releaseLeases(projectDir);
     debugLog('Reset progress to Step 0');
   } catch (error) {
     const taskLabel = task?.task ? `task "${task.task.slice(0, 50)}"` : 'unknown task';
@@ -362,31 +497,158 @@ export type AdvanceStepResult =
   | { success: false; error: string };
 
 /**
- * Advance to next step after successful verification.
- * Called by: setu_verify tool after verification passes
+ * Completed step ids: steps recorded as completed in .setu/results (the
+ * source of truth, written by any session) plus those active.json records.
+ * Progress saved before per-step tracking counts steps 1..lastCompletedStep.
+ *
+ * @param projectDir - Project root directory
+ * @param task - Active task, when already loaded
+ */
+export function getCompletedSteps(projectDir: string, task: ActiveTask | null = loadActiveTask(projectDir)): Set<number> {
+  const completed = new Set(listCompletedSteps(projectDir));
+  const progress = task?.progress;
+  if (progress?.completedSteps) {
+    progress.completedSteps.forEach(step => completed.add(step));
+  } else if (progress) {
+    for (let step = 1; step <= progress.lastCompletedStep; step++) completed.add(step);
+  }
+  return completed;
+}
+
+/**
+ * The step an action applies to: the given step, or by default the next
+ * one. It must not be complete and, with a structured plan, must be ready.
+ */
+function resolveStep(projectDir: string, completed: ReadonlySet<number>, step?: number): AdvanceStepResult {
+  const plan = loadPlan(projectDir);
+  const resolved = step ?? Math.max(0, ...completed) + 1;
+  if (completed.has(resolved)) {
+    return { success: false, error: `Step ${resolved} is already complete` };
+  }
+  if (!plan || plan.steps.length === 0) {
+    return { success: true, step: resolved };
+  }
+
+  const progress = getPlanProgress(plan, completed);
+  if (progress.completed === progress.total) {
+    return { success: false, error: `All ${plan.steps.length} plan steps are already complete` };
+  }
+  if (step === undefined) {
+    return progress.next
+      ? { success: true, step: progress.next.id }
+      : { success: false, error: 'No plan step is ready: the remaining steps depend on each other' };
+  }
+  if (!progress.ready.some(ready => ready.id === step)) {
+    const planStep = plan.steps.find(candidate => candidate.id === step);
+    if (!planStep) {
+      return { success: false, error: `Step ${step} is not in the plan` };
+    }
+    const waiting = planStep.dependsOn.filter(dependency => !completed.has(dependency));
+    return { success: false, error: `Step ${step} is waiting on Step ${waiting.join(', Step ')}` };
+  }
+  return { success: true, step };
+}
+
+/**
+ * Check that a step can be worked on now, without changing anything.
+ *
+ * @param step - Step to check (default: the next step)
+ * @returns The resolved step, or why it cannot be worked on
+ */
+export function checkStepReady(projectDir: string, step?: number): AdvanceStepResult {
+  const task = loadActiveTask(projectDir);
+  if (!task) {
+    return { success: false, error: 'No active task found' };
+  }
+  return resolveStep(projectDir, getCompletedSteps(projectDir, task), step);
+}
+
+/**
+ * Mark a step complete after successful verification.
+ * Called by: setu_verify tool after verification passes, setu_step
+ *
+ * With a structured plan, the step must be ready (every step it depends
+ * on complete); without one, the default is the first ready step. Without
+ * a plan, the default is the step after the highest completed one.
+ * File leases taken for the step are released.
  * 
  * @param projectDir - Project root directory
+ * @param step - Step to complete (default: the next step)
  * @returns Result object with step number or error
  */
-export function advanceStep(projectDir: string): AdvanceStepResult {
+export function advanceStep(projectDir: string, step?: number): AdvanceStepResult {
   const task = loadActiveTask(projectDir);
   if (!task) {
     return { success: false, error: 'No active task found' };
   }
   
-  const newStep = (task.progress?.lastCompletedStep ?? 0) + 1;
+  const completed = getCompletedSteps(projectDir, task);
+  const resolved = resolveStep(projectDir, completed, step);
+  if (!resolved.success) {
+    return resolved;
+  }
+  const newStep = resolved.step;
   
+  completed.add(newStep);
   task.progress = {
     lastCompletedStep: newStep,
-    lastCompletedAt: new Date().toISOString()
+    lastCompletedAt: new Date().toISOString(),
+    completedSteps: Array.from(completed).sort((a, b) => a - b)
   };
+  if (task.stepStarts) {
+    delete task.stepStarts[newStep];
+  }
   
   saveActiveTask(projectDir, task);
-  debugLog(`Advanced to Step ${newStep}`);
+  releaseLeases(projectDir, { step: newStep });
+  debugLog(`Completed Step ${newStep}`);
   
   return { success: true, step: newStep };
 }
 
+/**
+ * Record that work on a step started. Edits made from now are attributed
+ * to it, and its result measures duration from this time.
+ *
+ * @param step - Step to start (default: the next step); must be ready
+ * @returns Result object with step number or error
+ */
+export function startStep(projectDir: string, step?: number): AdvanceStepResult {
+  const task = loadActiveTask(projectDir);
+  if (!task) {
+    return { success: false, error: 'No active task found' };
+  }
+  const resolved = resolveStep(projectDir, getCompletedSteps(projectDir, task), step);
+  if (!resolved.success) {
+    return resolved;
+  }
+
+  task.stepStarts = { ...task.stepStarts, [resolved.step]: new Date().toISOString() };
+  saveActiveTask(projectDir, task);
+  debugLog(`Started Step ${resolved.step}`);
+  return resolved;
+}
+
+/**
+ * Forget a step's start time once an attempt at it has ended.
+ */
+export function clearStepStart(projectDir: string, step: number): void {
+  const task = loadActiveTask(projectDir);
+  if (!task?.stepStarts?.[step]) return;
+  delete task.stepStarts[step];
+  saveActiveTask(projectDir, task);
+}
+
+/**
+ * The most recently started step that is not yet complete.
+ */
+export function getStartedStep(task: ActiveTask | null, completedSteps: ReadonlySet<number>): number | undefined {
+  const started = Object.entries(task?.stepStarts ?? {})
+    .filter(([step]) => !completedSteps.has(Number(step)))
+    .sort((a, b) => Date.parse(b[1]) - Date.parse(a[1]));
+  return started.length > 0 ? Number(started[0][0]) : undefined;
+}
+
 /**
  * Record a failed approach to prevent ghost loops.
  * Called by: attempt tracker after 2nd failed attempt
@@ -444,182 +706,269 @@ export function recordWorkedApproach(projectDir: string, approach: string): void
 }
 
 /**
- * Normalize and tokenize a shell command for constraint checking.
- * 
- * IMPORTANT: This is a best-effort, defense-in-depth heuristic. It only inspects
- * the static command string before shell execution and can be bypassed via:
- * - Variable expansion: git $cmd (where cmd=push)
- * - Shell aliases or functions
- * - Wrapper scripts
- * - Subshells: $(git push)
- * - Backtick substitution: `git push`
- * - Here-documents and process substitution
- * - Newline-separated commands in quoted strings
- * 
- * This should NOT be the sole mechanism for enforcing critical security constraints.
- * Combine with runtime sandboxing or permission controls for stronger guarantees.
- * 
- * Handles common bypass attempts:
- * - Backslash escaping: git\ push → git push
- * - Quote variations: 'git push', "git push" → git push
- * - Multiple spaces: git  push → git push
- * - Command chaining: cmd1 && git push → detects git push
- * - Semicolon chains: cmd1; git push → detects git push
- * - Pipe chains: echo | git push → detects git push
+ * Whether any command the shell would run is `git <subcommand>`.
  * 
- * @param command - Raw shell command string
- * @returns Array of normalized tokens
+ * Uses the shared shell parser, so quoting, chains, substitutions, `bash -c`
+ * strings and wrappers (sudo, env, xargs) are followed. Still static:
+ * variables (git $cmd), aliases, and wrapper scripts are invisible, so this
+ * should NOT be the sole mechanism for enforcing critical security constraints.
  */
-const MAX_COMMAND_LENGTH = 10000;
+function hasGitSubcommand(commands: ShellCommand[], subcommand: string): boolean {
+  return commands.some(cmd => getGitArgs(cmd)?.[0] === subcommand);
+}
 
-function tokenizeCommand(command: string): string[] {
-  // SECURITY: Prevent ReDoS attacks with very long commands
-  if (command.length > MAX_COMMAND_LENGTH) {
-    debugLog('Command too long for tokenization, truncating');
-    command = command.slice(0, MAX_COMMAND_LENGTH);
-  }
+/**
+ * Check for commands that delete files or discard work.
+ * 
+ * Detects:
+ * - rm/rmdir/unlink/shred in any position (including via xargs, find -exec)
+ * - find -delete
+ * - git reset --hard
+ * - git clean with -f, -d, -x or --force (combined or separate flags)
+ */
+function hasDeletingCommand(commands: ShellCommand[]): boolean {
+  return commands.some(cmd => {
+    if (['rm', 'rmdir', 'unlink', 'shred'].includes(cmd.name)) return true;
+    if (cmd.name === 'find') return cmd.argv.includes('-delete');
 
-  // Step 1: Remove backslash escapes (git\ push → git push)
-  let normalized = command.replace(/\\(.)/g, '$1');
-  
-  // Step 2: Remove surrounding quotes from quoted segments
-  // Handle 'single quotes' and "double quotes"
-  normalized = normalized.replace(/'([^']*)'/g, '$1');
-  normalized = normalized.replace(/"([^"]*)"/g, '$1');
-  
-  // Step 3: Pad shell operators with spaces (cmd1&&cmd2 → cmd1 && cmd2)
-  // Order matters: multi-char operators before single-char to avoid double-padding
-  // Multi-char operators first
-  normalized = normalized.replace(/>>/g, ' >> ');
-  normalized = normalized.replace(/\|\|/g, ' || ');
-  normalized = normalized.replace(/&&/g, ' && ');
-  // Single-char operators (after multi-char to avoid conflicts)
-  normalized = normalized.replace(/([^>]|^)>([^>]|$)/g, '$1 > $2');
-  normalized = normalized.replace(/([^<]|^)<([^<]|$)/g, '$1 < $2');
-  normalized = normalized.replace(/\|(?!\|)/g, ' | ');
-  normalized = normalized.replace(/;/g, ' ; ');
-  // Handle & (background operator): match & not preceded/followed by &
-  // Also handle trailing & (end of string) and leading & (start of string)
-  normalized = normalized.replace(/([^&])&([^&])/g, '$1 & $2');
-  normalized = normalized.replace(/([^&])&$/g, '$1 & ');  // Trailing &
-  normalized = normalized.replace(/^&([^&])/g, ' & $1');  // Leading &
-  
-  // Step 4: Normalize whitespace (collapse multiple spaces)
-  normalized = normalized.replace(/\s+/g, ' ').trim();
-  
-  // Step 5: Split into tokens
-  return normalized.split(' ').filter(t => t.length > 0);
+    const gitArgs = getGitArgs(cmd);
+    if (gitArgs?.[0] === 'reset') return gitArgs.includes('--hard');
+    if (gitArgs?.[0] === 'clean') return hasFlag(gitArgs.slice(1), 'fdx', ['--force']);
+    return false;
+  });
 }
 
+/** File tools whose target path comes from `filePath` */
+const FILE_PATH_TOOLS = ['write', 'edit', 'multiedit', 'patch'];
+
 /**
- * Check if tokens contain a specific command sequence.
- * 
- * @param tokens - Normalized command tokens
- * @param sequence - Sequence to look for (e.g., ['git', 'push'])
- * @returns true if sequence found anywhere in tokens
+ * Bash commands that modify every non-flag argument.
+ * Commands with special argument handling (cp, ln, chmod, sed, git) are handled separately.
  */
-function hasCommandSequence(tokens: string[], sequence: string[]): boolean {
-  if (sequence.length === 0) return false;
-  if (tokens.length < sequence.length) return false;
-  
-  for (let i = 0; i <= tokens.length - sequence.length; i++) {
-    let match = true;
-    for (let j = 0; j < sequence.length; j++) {
-      if (tokens[i + j] !== sequence[j]) {
-        match = false;
-        break;
+const MODIFYING_BASH_COMMANDS = ['rm', 'rmdir', 'unlink', 'shred', 'mv', 'touch', 'mkdir', 'tee', 'truncate'];
+
+/**
+ * Extract file paths touched by a patch body (apply_patch or unified diff).
+ */
+function extractPatchPaths(patchText: string): string[] {
+  const paths: string[] = [];
+  const patterns = [
+    /^\*\*\* (?:Add|Update|Delete) File: (.+)$/gm,
+    /^\*\*\* Move to: (.+)$/gm,
+    /^(?:---|\+\+\+) (?:[ab]\/)?(.+)$/gm,
+  ];
+  for (const pattern of patterns) {
+    for (const match of patchText.matchAll(pattern)) {
+      const path = match[1].trim();
+      if (path && path !== '/dev/null') {
+        paths.push(path);
       }
     }
-    if (match) return true;
   }
-  return false;
+  return paths;
 }
 
+/** Redirect operators that create or truncate their target */
+const WRITE_REDIRECT_OPS = ['>', '>>', '>|', '&>', '&>>', '<>', '>&'];
+
+/** Directories followed through `cd` before giving up on them */
+const MAX_DIRECTORY_CANDIDATES = 16;
+
 /**
- * Check if tokens contain a command (as first token or after chain operators).
- * 
- * Handles:
- * - First token: cmd
- * - After &&: cmd1 && cmd
- * - After ||: cmd1 || cmd
- * - After ;: cmd1; cmd
- * - After |: cmd1 | cmd
- * - After &: cmd1 & cmd (background execution - cmd runs immediately)
+ * Directories the shell could be in after a `cd`/`pushd`, given those it
+ * could be in before. The earlier ones stay possible: the change may run in
+ * a subshell or pipeline, or fail. Null when the destination is unknown
+ * (no operand, `-`, `~`, expansions, popd) or too many directories pile up.
+ */
+function changeDirectory(cmd: ShellCommand, dirs: readonly string[]): string[] | null {
+  if (cmd.name === 'popd') return null;
+  const index = cmd.argv.findIndex((arg, i) => i > 0 && (!arg.startsWith('-') || arg === '-'));
+  const destination = cmd.argv[index];
+  if (index === -1 || cmd.dynamic[index] || destination === '-' || destination.startsWith('~') || /^[+-]\d/.test(destination)) {
+    return null;
+  }
+  const reached = isAbsolute(destination) ? [destination] : dirs.map(dir => posix.join(dir, destination));
+  const next = Array.from(new Set([...dirs, ...reached]));
+  return next.length > MAX_DIRECTORY_CANDIDATES ? null : next;
+}
+
+/**
+ * Directories a git command runs in after its `-C` options, or null when
+ * one is an expansion or `--work-tree` moves the pathspecs elsewhere.
+ */
+function getGitDirectories(cmd: ShellCommand, gitArgs: readonly string[], dirs: readonly string[]): string[] | null {
+  let result = [...dirs];
+  const optionsEnd = cmd.argv.length - gitArgs.length;
+  for (let i = 1; i < optionsEnd; i++) {
+    const arg = cmd.argv[i];
+    if (arg === '--work-tree' || arg.startsWith('--work-tree=')) return null;
+    if (arg !== '-C') continue;
+    const dir = cmd.argv[++i];
+    if (cmd.dynamic[i]) return null;
+    result = isAbsolute(dir) ? [dir] : result.map(base => posix.join(base, dir));
+  }
+  return result;
+}
+
+/**
+ * Best-effort extraction of paths a bash command writes to or deletes.
  * 
- * The & operator starts a background process and immediately continues to
- * the next command, making it effectively a chain operator for security purposes.
- * Example: "sleep 1 & rm -rf /" would run rm immediately while sleep backgrounds.
+ * Covers redirects, common file-mutating commands, `sed -i`/`perl -i`,
+ * `find -delete`, and `git rm|mv|checkout --|restore`, on every command the
+ * shell parser finds (chains, substitutions, `bash -c`, sudo/xargs wrappers).
  * 
- * @param tokens - Normalized command tokens
- * @param cmd - Command to look for (e.g., 'rm')
- * @returns true if command found in executable position
+ * Relative targets are resolved against every directory `cd`, `pushd` and
+ * `git -C` could have moved to. Once that directory is unknown, each
+ * relative target is reported as `.` (the project root), so callers that
+ * guard directories treat the write as reaching anything.
  */
-function hasCommand(tokens: string[], cmd: string): boolean {
-  const chainOperators = ['&&', ';', '|', '||', '&'];
+function extractBashWriteTargets(commands: ShellCommand[]): string[] {
+  const targets: string[] = [];
+  let dirs: string[] | null = ['.'];
   
-  for (let i = 0; i < tokens.length; i++) {
-    const token = tokens[i];
+  const push = (paths: readonly string[], bases: readonly string[] | null = dirs): void => {
+    for (const path of paths) {
+      if (isAbsolute(path)) {
+        targets.push(path);
+      } else if (!bases) {
+        targets.push('.');
+      } else {
+        targets.push(...bases.map(base => (base === '.' ? path : posix.join(base, path))));
+      }
+    }
+  };
+  
+  for (const cmd of commands) {
+    // Redirect targets apply regardless of command (>&2 duplicates a descriptor)
+    for (const redirect of cmd.redirects) {
+      if (WRITE_REDIRECT_OPS.includes(redirect.op) && !/^(?:\d+|-)$/.test(redirect.target)) {
+        push([redirect.target]);
+      }
+    }
+    if (cmd.argv.length === 0) continue;
     
-    // First token is a command
-    if (i === 0 && token === cmd) return true;
+    const rest = cmd.argv.slice(1);
+    const operands = getOperands(rest);
     
-    // Token after chain operator is a command
-    if (i > 0 && chainOperators.includes(tokens[i - 1]) && token === cmd) {
-      return true;
+    if (cmd.name === 'cd' || cmd.name === 'pushd' || cmd.name === 'popd') {
+      dirs = dirs && changeDirectory(cmd, dirs);
+    } else if (MODIFYING_BASH_COMMANDS.includes(cmd.name)) {
+      push(operands);
+    } else if (cmd.name === 'cp' || cmd.name === 'ln' || cmd.name === 'install') {
+      // Only the destination is written
+      if (operands.length > 1) push([operands[operands.length - 1]]);
+    } else if (cmd.name === 'chmod' || cmd.name === 'chown' || cmd.name === 'chgrp') {
+      // First operand is the mode/owner
+      push(operands.slice(1));
+    } else if ((cmd.name === 'sed' || cmd.name === 'perl') && hasFlag(rest, 'i', ['--in-place'])) {
+      // In-place edit: first operand is the script unless -e/-f supplied it
+      const hasScriptFlag = hasFlag(rest, 'ef', ['--expression', '--file']);
+      push(hasScriptFlag ? operands : operands.slice(1));
+    } else if (cmd.name === 'find' && rest.includes('-delete')) {
+      // Starting points precede the first expression
+      const firstExpression = rest.findIndex(arg => arg.startsWith('-') || arg === '(' || arg === '!');
+      push(firstExpression === -1 ? rest : rest.slice(0, firstExpression));
+    } else {
+      const gitArgs = getGitArgs(cmd);
+      const sub = gitArgs?.[0];
+      if (!gitArgs || !sub) continue;
+      const gitDirs = dirs && getGitDirectories(cmd, gitArgs, dirs);
+      if (sub === 'rm' || sub === 'mv' || sub === 'restore') {
+        push(getOperands(gitArgs.slice(1)), gitDirs);
+      } else if (sub === 'checkout' && gitArgs.includes('--')) {
+        push(gitArgs.slice(gitArgs.indexOf('--') + 1), gitDirs);
+      }
     }
   }
-  return false;
+  
+  return targets;
 }
 
 /**
- * Check if tokens contain a dangerous `git clean` command.
- * 
- * Detects `git clean` followed by flags containing 'f', 'd', 'x' or '--force'.
- * This is more robust than exact sequence matching because it handles:
- * - Reordered flags: `git clean -d -f`
- * - Separate flags: `git clean -f -d`
- * - Long form: `git clean --force`
- * - Combined flags: `git clean -fdx`
+ * Collect paths a tool call would modify (as supplied, not yet resolved).
  * 
- * @param tokens - Normalized command tokens
- * @returns true if dangerous git clean pattern detected
- */
-function hasDangerousGitClean(tokens: string[]): boolean {
-  // Find 'git' followed by 'clean'
-  let cleanIndex = -1;
-  for (let i = 0; i < tokens.length - 1; i++) {
-    if (tokens[i] === 'git' && tokens[i + 1] === 'clean') {
-      cleanIndex = i + 1;
-      break;
+ * Shared by path constraints and the protected-file manifest.
+ */
+export function getModifiedPaths(tool: string, args?: Record<string, unknown>): string[] {
+  if (!args) return [];
+  
+  if (FILE_PATH_TOOLS.includes(tool)) {
+    const paths: string[] = [];
+    if (typeof args.filePath === 'string' && args.filePath.length > 0) {
+      paths.push(args.filePath);
+    }
+    if (typeof args.patchText === 'string') {
+      paths.push(...extractPatchPaths(args.patchText));
     }
+    return paths;
   }
   
-  if (cleanIndex === -1) return false;
+  if (tool === 'apply_patch') {
+    const patchText = [args.patchText, args.patch, args.input].find(
+      (value): value is string => typeof value === 'string'
+    );
+    return patchText ? extractPatchPaths(patchText) : [];
+  }
+  
+  if (tool === 'bash') {
+    return extractBashWriteTargets(collectShellCommands(String(args.command || '')).commands);
+  }
   
-  // Check tokens after 'clean' for dangerous flags
-  for (let i = cleanIndex + 1; i < tokens.length; i++) {
-    const token = tokens[i];
+  return [];
+}
+
+/**
+ * Check a tool call against NO_EDIT / ONLY_EDIT path constraints.
+ * 
+ * Paths outside the project are left to SANDBOX. Setu's own `.setu/`
+ * artifacts are exempt from ONLY_EDIT so the workflow can still progress.
+ * Moving or deleting a directory that holds NO_EDIT paths counts as
+ * modifying them.
+ */
+function checkPathConstraints(
+  tool: string,
+  pathConstraints: PathConstraints,
+  projectDir: string,
+  args?: Record<string, unknown>
+): { blocked: boolean; reason?: string; constraint?: PathConstraintType } {
+  const noEdit = pathConstraints.NO_EDIT ?? [];
+  const onlyEdit = pathConstraints.ONLY_EDIT ?? [];
+  
+  for (const rawPath of getModifiedPaths(tool, args)) {
+    const relativePath = isProjectRoot(projectDir, rawPath) ? '' : toProjectRelativePath(projectDir, rawPath);
+    if (relativePath === null) continue;
+    const displayPath = relativePath || '.';
     
-    // Stop at chain operators (next command)
-    if (['&&', '||', ';', '|', '&'].includes(token)) break;
+    const deniedBy = matchGlobList(relativePath, noEdit) ?? matchGlobListBeneath(relativePath, noEdit);
+    if (deniedBy) {
+      return {
+        blocked: true,
+        reason: `Active task has NO_EDIT constraint for '${deniedBy}'. Cannot modify ${displayPath}.`,
+        constraint: PATH_CONSTRAINT_TYPES.NO_EDIT,
+      };
+    }
     
-    // Check for flags
-    if (token.startsWith('-')) {
-      // Long form: --force
-      if (token === '--force') return true;
-      
-      // Short form: check for f, d, x in the flag
-      // e.g., -f, -fd, -fdx, -df, etc.
-      if (token.startsWith('-') && !token.startsWith('--')) {
-        const flagChars = token.slice(1);  // Remove leading '-'
-        if (flagChars.includes('f') || flagChars.includes('d') || flagChars.includes('x')) {
-          return true;
-        }
-      }
+    const isSetuArtifact = relativePath === '.setu' || relativePath.startsWith('.setu/');
+    if (onlyEdit.length > 0 && !isSetuArtifact && !matchGlobList(relativePath, onlyEdit)) {
+      return {
+        blocked: true,
+        reason: `Active task has ONLY_EDIT constraint (${onlyEdit.join(', ')}). Cannot modify ${displayPath}.`,
+        constraint: PATH_CONSTRAINT_TYPES.ONLY_EDIT,
+      };
     }
   }
   
-  return false;
+  return { blocked: false };
+}
+
+/**
+ * Options for path-scoped constraint enforcement.
+ */
+export interface ConstraintCheckOptions {
+  /** Path-scoped constraints from the active task */
+  pathConstraints?: PathConstraints;
+  /** Project root for resolving relative/absolute tool paths */
+  projectDir?: string;
 }
 
 /**
@@ -628,13 +977,22 @@ function hasDangerousGitClean(tokens: string[]): boolean {
  * @param tool - Tool name being executed
  * @param constraints - Active constraints
  * @param args - Tool arguments (for context-sensitive blocking)
+ * @param options - Path-scoped constraints and project root
  * @returns Object with blocked status and reason
  */
 export function shouldBlockDueToConstraint(
   tool: string,
   constraints: ConstraintType[],
-  args?: Record<string, unknown>
-): { blocked: boolean; reason?: string; constraint?: ConstraintType } {
+  args?: Record<string, unknown>,
+  options: ConstraintCheckOptions = {}
+): { blocked: boolean; reason?: string; constraint?: ConstraintType | PathConstraintType } {
+  
+  if (options.pathConstraints && options.projectDir) {
+    const pathResult = checkPathConstraints(tool, options.pathConstraints, options.projectDir, args);
+    if (pathResult.blocked) {
+      return pathResult;
+    }
+  }
   
   if (constraints.length === 0) {
     return { blocked: false };
@@ -659,8 +1017,7 @@ export function shouldBlockDueToConstraint(
       // Security: Check for potential bypass patterns (warning only)
       checkBypassIndicators(command);
       
-      const tokens = tokenizeCommand(command);
-      if (hasCommandSequence(tokens, ['git', 'push'])) {
+      if (hasGitSubcommand(collectShellCommands(command).commands, 'push')) {
         return {
           blocked: true,
           reason: 'Active task has NO_PUSH constraint. Cannot push to remote.',
@@ -678,12 +1035,7 @@ export function shouldBlockDueToConstraint(
       // Security: Check for potential bypass patterns (warning only)
       checkBypassIndicators(command);
       
-      const tokens = tokenizeCommand(command);
-      if (
-        hasCommand(tokens, 'rm') ||
-        hasCommandSequence(tokens, ['git', 'reset', '--hard']) ||
-        hasDangerousGitClean(tokens)
-      ) {
+      if (hasDeletingCommand(collectShellCommands(command).commands)) {
         return {
           blocked: true,
           reason: 'Active task has NO_DELETE constraint. Cannot delete files or reset git.',
@@ -695,7 +1047,7 @@ export function shouldBlockDueToConstraint(
   
   // SANDBOX: Block operations outside project
   // Note: This is a basic heuristic check. Full sandboxing would require
-  // runtime controls or a proper jail. See tokenizeCommand() limitations.
+  // runtime controls or a proper jail (variables and scripts are invisible here).
   if (constraints.includes(CONSTRAINT_TYPES.SANDBOX)) {
     if (tool === 'bash') {
       const command = String(args?.command || '');
@@ -703,16 +1055,16 @@ export function shouldBlockDueToConstraint(
       // Security: Check for potential bypass patterns (warning only)
       checkBypassIndicators(command);
       
-      const tokens = tokenizeCommand(command);
+      const { commands } = collectShellCommands(command);
+      const words = commands.flatMap(cmd => [...cmd.argv, ...cmd.redirects.map(r => r.target)]);
       // Check for directory escape patterns
       // Note: Single ../ is allowed (common for legitimate use within project)
       // Only block obvious escape attempts like ../.. or absolute paths
-      // Exception: /tmp is allowed for temporary file operations
+      // Exception: /tmp is allowed for temporary file operations, /dev/null for discarding output
       const hasEscapePattern = 
-        hasCommandSequence(tokens, ['cd', '/']) ||
-        hasCommandSequence(tokens, ['cd', '~']) ||
-        tokens.some(t => t.includes('../..')) ||
-        tokens.some(t => t.startsWith('/') && !t.startsWith('/tmp'));
+        commands.some(cmd => cmd.name === 'cd' && (cmd.argv[1] === '/' || cmd.argv[1] === '~')) ||
+        words.some(w => w.includes('../..')) ||
+        words.some(w => w.startsWith('/') && !w.startsWith('/tmp') && w !== '/dev/null');
       
       if (hasEscapePattern) {
         return {
@@ -0,0 +1,369 @@
+/**
+ * Undo ledger: pre-images of every file Setu edits.
+ *
+ * Each edit gets two files in .setu/checkpoints/:
+ * - <id>.json: metadata (path, session, plan step, timestamp, tool, and
+ *   the hash of the file once the edit completed)
+ * - <id>.pre: the file's bytes before the edit (absent when the edit created it)
+ *
+ * An entry is recorded before the edit runs and completed after it. Entries
+ * for edits that never completed, or that left the file unchanged, are
+ * dropped. IDs sort chronologically, so the directory listing is the ledger
+ * order. setu_undo replays pre-images newest-first, only onto files that
+ * still match the post-edit hash, and removes the entries it used.
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, statSync, unlinkSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { createHash, randomBytes } from 'crypto';
+import { ensureSetuDir } from './storage';
+import { debugLog } from '../debug';
+import { getErrorMessage } from '../utils/error-handling';
+import { toProjectRelativePath } from '../utils/glob';
+import { validateProjectDir } from '../utils/path-validation';
+
+const CHECKPOINTS_DIR = 'checkpoints';
+const CHECKPOINT_ID_PATTERN = /^\d{13}-\d{4}-[0-9a-f]{4}$/;
+
+/** Pre-images above this size are noted but not stored */
+const MAX_PREIMAGE_BYTES = 1024 * 1024;
+/** Oldest entries are pruned beyond these limits */
+const MAX_CHECKPOINTS = 200;
+const MAX_TOTAL_BYTES = 25 * 1024 * 1024;
+/** Entries whose edit has not completed after this long are dropped */
+const MAX_PENDING_MS = 60 * 60 * 1000;
+
+let sequence = 0;
+
+export interface EditCheckpoint {
+  id: string;
+  /** Project-relative path of the edited file */
+  path: string;
+  timestamp: string;
+  sessionId: string;
+  tool: string;
+  /** Plan step in progress when the edit was made */
+  step?: number;
+  /** False when the edit created the file; undo deletes it */
+  existed: boolean;
+  /** Pre-image size in bytes */
+  size: number;
+  /** Pre-image exceeded MAX_PREIMAGE_BYTES and was not stored */
+  oversized: boolean;
+  /** SHA-256 of the file after the edit (null if absent); unset until the edit completes */
+  postHash?: string | null;
+}
+
+export interface CheckpointInput {
+  /** Path as supplied to the tool (absolute or project-relative) */
+  filePath: string;
+  sessionId: string;
+  tool: string;
+  step?: number;
+}
+
+/**
+ * Which ledger entries to undo. `file` and `sinceStep` filter the ledger;
+ * `count` then keeps the newest N. With no filter, count defaults to 1.
+ */
+export interface UndoSelection {
+  count?: number;
+  sinceStep?: number;
+  file?: string;
+}
+
+export interface UndoResult {
+  /** Entries that were applied, newest first */
+  reverted: EditCheckpoint[];
+  /** Paths whose pre-image was written back */
+  restoredPaths: string[];
+  /** Paths removed because the undone edit created them */
+  deletedPaths: string[];
+  /** Entries that could not be applied (protected, or pre-image missing or too large) */
+  skipped: EditCheckpoint[];
+  /** Entries not applied because the file changed after the edit */
+  changed: EditCheckpoint[];
+}
+
+function getCheckpointsDir(projectDir: string): string {
+  return join(projectDir, '.setu', CHECKPOINTS_DIR);
+}
+
+function createCheckpointId(now: Date): string {
+  sequence = (sequence + 1) % 10000;
+  return `${String(now.getTime()).padStart(13, '0')}-${String(sequence).padStart(4, '0')}-${randomBytes(2).toString('hex')}`;
+}
+
+function parseCheckpoint(raw: unknown, id: string): EditCheckpoint | null {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+  const data = raw as Record<string, unknown>;
+
+  // SECURITY: Undo writes to this path - reject anything escaping the project
+  const path = data.path;
+  if (
+    data.id !== id ||
+    typeof path !== 'string' ||
+    path.length === 0 ||
+    path.startsWith('/') ||
+    /^[A-Za-z]:/.test(path) ||
+    path.split(/[\\/]/).includes('..')
+  ) {
+    return null;
+  }
+
+  return {
+    id,
+    path,
+    timestamp: typeof data.timestamp === 'string' ? data.timestamp : '',
+    sessionId: typeof data.sessionId === 'string' ? data.sessionId : '',
+    tool: typeof data.tool === 'string' ? data.tool : '',
+    step: typeof data.step === 'number' && Number.isInteger(data.step) ? data.step : undefined,
+    existed: data.existed !== false,
+    size: typeof data.size === 'number' ? data.size : 0,
+    oversized: data.oversized === true,
+    postHash: typeof data.postHash === 'string' || data.postHash === null ? data.postHash : undefined,
+  };
+}
+
+function isCompleted(entry: EditCheckpoint): boolean {
+  return entry.postHash !== undefined;
+}
+
+/** SHA-256 of a file's bytes, or null when it does not exist */
+function hashFile(path: string): string | null {
+  try {
+    return createHash('sha256').update(readFileSync(path)).digest('hex');
+  } catch {
+    return null;
+  }
+}
+
+function writeCheckpointMetadata(checkpointsDir: string, entry: EditCheckpoint): void {
+  writeFileSync(join(checkpointsDir, `${entry.id}.json`), JSON.stringify(entry, null, 2), 'utf-8');
+}
+
+/**
+ * List ledger entries, oldest first. Unreadable entries are skipped.
+ */
+export function listCheckpoints(projectDir: string): EditCheckpoint[] {
+  const checkpointsDir = getCheckpointsDir(projectDir);
+  if (!existsSync(checkpointsDir)) return [];
+
+  const entries: EditCheckpoint[] = [];
+  for (const name of readdirSync(checkpointsDir).sort()) {
+    const id = name.replace(/\.json$/, '');
+    if (!name.endsWith('.json') || !CHECKPOINT_ID_PATTERN.test(id)) continue;
+
+    try {
+      const entry = parseCheckpoint(JSON.parse(readFileSync(join(checkpointsDir, name), 'utf-8')), id);
+      if (entry) entries.push(entry);
+    } catch (error) {
+      debugLog(`Skipping unreadable checkpoint ${id}: ${getErrorMessage(error)}`);
+    }
+  }
+  return entries;
+}
+
+/**
+ * Files edited for a plan step, in the order first edited.
+ *
+ * @param since - Only edits at or after this ISO time (the step's start)
+ */
+export function getStepOutputs(projectDir: string, step: number, since?: string): string[] {
+  const sinceMs = since ? Date.parse(since) : Number.NEGATIVE_INFINITY;
+  const paths = listCheckpoints(projectDir)
+    .filter(entry => isCompleted(entry) && entry.step === step && Date.parse(entry.timestamp) >= sinceMs)
+    .map(entry => entry.path);
+  return Array.from(new Set(paths));
+}
+
+function deleteCheckpoint(projectDir: string, id: string): void {
+  const checkpointsDir = getCheckpointsDir(projectDir);
+  rmSync(join(checkpointsDir, `${id}.json`), { force: true });
+  rmSync(join(checkpointsDir, `${id}.pre`), { force: true });
+}
+
+/**
+ * Drop entries for edits that never completed, then the oldest entries
+ * beyond the retention limits.
+ *
+ * An earlier pending entry for the file `latest` guards, from the same
+ * session, belongs to an edit that failed: the session has moved on.
+ */
+function pruneCheckpoints(projectDir: string, latest: EditCheckpoint, now: Date): void {
+  const entries: EditCheckpoint[] = [];
+  for (const entry of listCheckpoints(projectDir)) {
+    const failed = entry.id !== latest.id && entry.path === latest.path && entry.sessionId === latest.sessionId;
+    if (!isCompleted(entry) && (failed || now.getTime() - Date.parse(entry.timestamp) > MAX_PENDING_MS)) {
+      deleteCheckpoint(projectDir, entry.id);
+    } else {
+      entries.push(entry);
+    }
+  }
+
+  let totalBytes = entries.reduce((sum, entry) => sum + (entry.oversized ? 0 : entry.size), 0);
+  let excess = entries.length - MAX_CHECKPOINTS;
+
+  for (const entry of entries) {
+    if (excess <= 0 && totalBytes <= MAX_TOTAL_BYTES) break;
+    deleteCheckpoint(projectDir, entry.id);
+    excess--;
+    totalBytes -= entry.oversized ? 0 : entry.size;
+  }
+}
+
+/**
+ * Record a file's pre-image before an edit runs.
+ *
+ * @returns The ledger entry, or null for paths outside the project or inside .setu/
+ */
+export function recordCheckpoint(projectDir: string, input: CheckpointInput, now: Date = new Date()): EditCheckpoint | null {
+  validateProjectDir(projectDir);
+
+  const relativePath = toProjectRelativePath(projectDir, input.filePath);
+  if (!relativePath || relativePath === '.setu' || relativePath.startsWith('.setu/')) {
+    return null;
+  }
+
+  const absolutePath = join(projectDir, relativePath);
+  let existed = false;
+  let size = 0;
+  try {
+    const stats = statSync(absolutePath);
+    if (!stats.isFile()) return null;
+    existed = true;
+    size = stats.size;
+  } catch {
+    // New file - undo will delete it
+  }
+
+  const checkpointsDir = join(ensureSetuDir(projectDir), CHECKPOINTS_DIR);
+  mkdirSync(checkpointsDir, { recursive: true });
+
+  const entry: EditCheckpoint = {
+    id: createCheckpointId(now),
+    path: relativePath,
+    timestamp: now.toISOString(),
+    sessionId: input.sessionId,
+    tool: input.tool,
+    step: input.step,
+    existed,
+    size,
+    oversized: size > MAX_PREIMAGE_BYTES,
+  };
+
+  if (existed && !entry.oversized) {
+    writeFileSync(join(checkpointsDir, `${entry.id}.pre`), readFileSync(absolutePath));
+  }
+  writeCheckpointMetadata(checkpointsDir, entry);
+
+  try {
+    pruneCheckpoints(projectDir, entry, now);
+  } catch (error) {
+    debugLog(`Checkpoint pruning failed: ${getErrorMessage(error)}`);
+  }
+
+  return entry;
+}
+
+/**
+ * Complete the entries recorded before an edit, once it has run.
+ *
+ * Stores each file's post-edit hash. An entry whose file the edit left
+ * unchanged is dropped, since there is nothing to undo.
+ *
+ * @param filePaths - Paths as supplied to the tool (absolute or project-relative)
+ */
+export function completeCheckpoints(projectDir: string, sessionId: string, filePaths: string[]): void {
+  validateProjectDir(projectDir);
+
+  const checkpointsDir = getCheckpointsDir(projectDir);
+  const pending = listCheckpoints(projectDir).filter(entry => !isCompleted(entry) && entry.sessionId === sessionId);
+
+  for (const filePath of new Set(filePaths)) {
+    const relativePath = toProjectRelativePath(projectDir, filePath);
+    const entry = pending.filter(candidate => candidate.path === relativePath).pop();
+    if (!entry) continue;
+
+    const postHash = hashFile(join(projectDir, entry.path));
+    const unchanged = entry.existed
+      ? !entry.oversized && postHash === hashFile(join(checkpointsDir, `${entry.id}.pre`))
+      : postHash === null;
+    if (unchanged) {
+      deleteCheckpoint(projectDir, entry.id);
+    } else {
+      writeCheckpointMetadata(checkpointsDir, { ...entry, postHash });
+    }
+  }
+}
+
+function selectCheckpoints(projectDir: string, entries: EditCheckpoint[], selection: UndoSelection): EditCheckpoint[] {
+  let selected = entries.filter(isCompleted);
+
+  if (selection.file) {
+    const relativePath = toProjectRelativePath(projectDir, selection.file);
+    selected = selected.filter(entry => entry.path === relativePath);
+  }
+  if (selection.sinceStep !== undefined) {
+    const sinceStep = selection.sinceStep;
+    selected = selected.filter(entry => entry.step !== undefined && entry.step >= sinceStep);
+  }
+
+  const hasFilter = selection.file !== undefined || selection.sinceStep !== undefined;
+  const count = selection.count ?? (hasFilter ? undefined : 1);
+  return count === undefined ? selected : selected.slice(-count);
+}
+
+/**
+ * Revert ledger entries by writing their pre-images back, newest first,
+ * so a file edited several times ends at its oldest selected pre-image.
+ *
+ * An entry is applied only while its file still matches the post-edit
+ * hash; otherwise the file changed since (by the user or another tool) and
+ * the entry is reported as changed. Applied entries are removed from the
+ * ledger. Entries for which `canRevert` returns false are reported as
+ * skipped and left in place.
+ */
+export function undoCheckpoints(
+  projectDir: string,
+  selection: UndoSelection,
+  canRevert: (entry: EditCheckpoint) => boolean = () => true
+): UndoResult {
+  validateProjectDir(projectDir);
+
+  const checkpointsDir = getCheckpointsDir(projectDir);
+  const selected = selectCheckpoints(projectDir, listCheckpoints(projectDir), selection).reverse();
+  const finalAction = new Map<string, 'restored' | 'deleted'>();
+  const result: UndoResult = { reverted: [], restoredPaths: [], deletedPaths: [], skipped: [], changed: [] };
+
+  for (const entry of selected) {
+    const preImagePath = join(checkpointsDir, `${entry.id}.pre`);
+    if (!canRevert(entry) || entry.oversized || (entry.existed && !existsSync(preImagePath))) {
+      result.skipped.push(entry);
+      continue;
+    }
+
+    const targetPath = join(projectDir, entry.path);
+    if (hashFile(targetPath) !== entry.postHash) {
+      result.changed.push(entry);
+      continue;
+    }
+
+    if (entry.existed) {
+      mkdirSync(dirname(targetPath), { recursive: true });
+      writeFileSync(targetPath, readFileSync(preImagePath));
+      finalAction.set(entry.path, 'restored');
+    } else {
+      if (existsSync(targetPath)) unlinkSync(targetPath);
+      finalAction.set(entry.path, 'deleted');
+    }
+
+    deleteCheckpoint(projectDir, entry.id);
+    result.reverted.push(entry);
+  }
+
+  for (const [path, action] of finalAction) {
+    (action === 'restored' ? result.restoredPaths : result.deletedPaths).push(path);
+  }
+  return result;
+}
@@ -1,19 +1,22 @@
 /**
  * Cleanse Protocol: JIT context preparation for subagents.
  *
- * Philosophy: Don't parse PLAN.md — tell subagent where to find its step.
- * The LLM reads markdown naturally. Trust it.
+ * The subagent gets its step from the structured plan (.setu/plan.json):
+ * title, files, verification, and DONE WHEN criteria. PLAN.md stays the
+ * place to read the full step; without a structured step, the subagent is
+ * told to find Step N there. The step is the first ready one, or the step a
+ * task prompt names when Setu injects this context into a subagent.
  *
  * This is more elegant than:
  * - beads: External DB + manual bd prime
  * - GSD: Spawn fresh 200k agent per task (expensive)
- *
- * We just tell the subagent: "Find Step N in PLAN.md"
  */
 
-import { loadActiveTask } from './active';
+import { getCompletedSteps, loadActiveTask } from './active';
+import { getPlanProgress, loadPlan, type PlanStep } from './plan';
 import { readStepResult } from './results';
 import { errorLog } from '../debug';
+import { matchGlobList, toProjectRelativePath } from '../utils/glob';
 import { validateAndResolveProjectDir } from '../utils/path-validation';
 import { getErrorMessage } from '../utils/error-handling';
 
@@ -45,16 +48,37 @@ function sanitizeObjective(input: string): string {
 export interface CleanseOptions {
   mode: 'full' | 'focused';
   maxTokens?: number; // Default 2000, truncates if exceeded
+  /** Plan step to prepare for; defaults to the first ready step */
+  step?: number;
 }
 
 export interface JITContext {
   step: number;
+  /** Title of the step in the structured plan */
+  stepTitle?: string;
+  /** Plan steps completed and total, when there is a structured plan */
+  planProgress?: { completed: number; total: number };
   objective: string;
   failedApproaches: string[];
   constraints: string[];
   previousStepSummary?: string;
 }
 
+/**
+ * A plan step's structured fields as a prompt section
+ */
+function formatPlanStep(step: PlanStep): string {
+  const list = (items: string[]): string => items.map((item) => `- ${sanitizeObjective(item).slice(0, 300)}`).join('\n');
+  const parts = [`## Your Step: Step ${step.id}${step.title ? ` — ${sanitizeObjective(step.title).slice(0, 200)}` : ''}`];
+  if (step.files.length > 0) parts.push(`Files:\n${list(step.files)}`);
+  if (step.verification.length > 0) parts.push(`Verification:\n${list(step.verification)}`);
+  if (step.doneWhen.length > 0) {
+    parts.push(`Done When:\n${list(step.doneWhen.map((criterion) => `${criterion.id} ${criterion.text}`))}`);
+  }
+  if (step.dependsOn.length > 0) parts.push(`Depends On: ${step.dependsOn.map((id) => `Step ${id}`).join(', ')}`);
+  return parts.join('\n');
+}
+
 /**
  * Prepare JIT context for a subagent
  *
@@ -87,63 +111,101 @@ ${safeObjective}
 Context unavailable. Read .setu/PLAN.md directly.`;
     }
 
-    // Calculate which step comes next
+    // Calculate which step comes next: the requested step, else the plan's first ready step
     const lastStep = active?.progress?.lastCompletedStep ?? 0;
-    const nextStep = lastStep + 1;
+    const completedSteps = getCompletedSteps(safeDir, active);
+    const plan = loadPlan(safeDir);
+    const progress = plan && plan.steps.length > 0 ? getPlanProgress(plan, completedSteps) : null;
+    const planStep = options.step !== undefined
+      ? plan?.steps.find((step) => step.id === options.step) ?? null
+      : progress?.next ?? null;
+    const nextStep = options.step ?? planStep?.id ?? Math.max(0, ...completedSteps) + 1;
 
     // Get failed approaches to inject (prevents ghost loops)
     // Defense-in-depth: Truncate each approach to prevent prompt bloat
     const failed = (active?.learnings?.failed?.slice(-3) || []).map((a) => a.slice(0, 200));
 
     // Get constraints (already whitelist-validated by setu_task, safe to use directly)
-    const constraints = active?.constraints || [];
+    // Path constraints are user-supplied globs, so they are sanitized and capped
+    const constraints = [
+      ...(active?.constraints || []),
+      ...Object.entries(active?.pathConstraints ?? {}).map(
+        ([type, globs]) => `${type}: ${(globs ?? []).map((glob) => sanitizeObjective(glob).slice(0, 200)).join(', ')}`
+      ),
+    ];
 
-    // Get previous step summary (for context continuity)
+    // Get previous step summary (for context continuity): the step's latest
+    // completed dependency, else the last completed step
     // Defense-in-depth: Limit summary length to prevent prompt bloat
+    const completedDependencies = planStep?.dependsOn.filter((id) => completedSteps.has(id)) ?? [];
+    const previousStep = completedDependencies.length > 0 ? Math.max(...completedDependencies) : lastStep;
     let prevSummary = '';
-    if (lastStep > 0) {
+    if (previousStep > 0) {
       try {
-        const prevResult = readStepResult(safeDir, lastStep);
+        const prevResult = readStepResult(safeDir, previousStep);
         if (prevResult) {
           const truncatedSummary = prevResult.summary?.slice(0, 500) || '';
-          prevSummary = `\n## Previous Step (${lastStep}) Summary\n${truncatedSummary}\n`;
+          prevSummary = `\n## Previous Step (${previousStep}) Summary\n${truncatedSummary}\n`;
         }
       } catch (err) {
         // Non-fatal: previous step summary is optional, but log for traceability
-        errorLog(`Failed to read previous step result: step ${lastStep}`, getErrorMessage(err));
+        errorLog(`Failed to read previous step result: step ${previousStep}`, getErrorMessage(err));
       }
     }
 
-    // Build the JIT context prompt
-    let context = `[SETU: JIT Context - Step ${nextStep}]
+    // Build the JIT context prompt in sections; over budget, the lowest
+    // priority go first (previous summary, artifacts, instructions), so the
+    // step, its criteria, and the constraints are the last to be cut
+    const sections: Array<{ text: string; priority: number }> = [
+      {
+        text: `[SETU: JIT Context - Step ${nextStep}]
 
 ## Your Objective
 ${safeObjective}
 
 ## Current Position
 Last completed: Step ${lastStep}${lastStep === 0 ? ' (starting fresh)' : ''}
-Your step: Step ${nextStep}
-
-## How to Execute
+Your step: Step ${nextStep}${progress ? ` (${progress.completed}/${progress.total} plan steps complete)` : ''}
+${planStep ? `\n${formatPlanStep(planStep)}\n` : ''}`,
+        priority: Number.POSITIVE_INFINITY,
+      },
+      {
+        // Subagents cannot call setu_* tools; the Setu session verifies the step
+        text: `## How to Execute
 1. Read .setu/PLAN.md
 2. Find Step ${nextStep}
 3. Execute its instructions
-4. Call setu_verify when complete
+4. Report back when done: the files you changed and the evidence for each DONE WHEN criterion (the Setu session verifies the step)
 
-## Artifacts Available
+`,
+        priority: 2,
+      },
+      {
+        text: `## Artifacts Available
 - .setu/PLAN.md — Find your step here
 - .setu/RESEARCH.md — Background context if needed
 - .setu/results/step-{N}.md — Previous step outputs
-${prevSummary}${constraints.length > 0 ? `## Active Constraints
+`,
+        priority: 1,
+      },
+      { text: prevSummary, priority: 0 },
+      {
+        text: constraints.length > 0 ? `## Active Constraints
 ${constraints.map((c) => `- ${c}`).join('\n')}
-` : ''}${failed.length > 0 ? `## Failed Approaches (DO NOT REPEAT)
+` : '',
+        priority: 4,
+      },
+      {
+        text: failed.length > 0 ? `## Failed Approaches (DO NOT REPEAT)
 ${failed.map((a) => `- ${a}`).join('\n')}
 
 Learn from these failures. Try a different approach.
-` : ''}---
-Start by reading .setu/PLAN.md to find Step ${nextStep}.`;
+` : '',
+        priority: 3,
+      },
+      { text: `---\nStart by reading .setu/PLAN.md to find Step ${nextStep}.`, priority: 1 },
+    ];
 
-    // Simple truncation if over budget
     const maxTokens = options.maxTokens ?? 2000;
     if (maxTokens <= 0) {
       // Return minimal context when budget is zero or negative
@@ -155,9 +217,24 @@ ${safeObjective}
 [Context truncated due to token budget]`;
     }
     const maxChars = maxTokens * 4; // ~4 chars per token
+    const marker = '\n[TRUNCATED]';
+    const join = (): string => sections.map((section) => section.text).join('');
+    let context = join();
     if (context.length > maxChars) {
-      const safeMaxChars = Math.max(100, maxChars - 20); // Ensure at least 100 chars
-      context = context.slice(0, safeMaxChars) + '\n[TRUNCATED]';
+      const dropOrder = sections
+        .filter((section) => section.text && section.priority !== Number.POSITIVE_INFINITY)
+        .sort((a, b) => a.priority - b.priority);
+      for (const section of dropOrder) {
+        section.text = '';
+        context = join();
+        if (context.length + marker.length <= maxChars) break;
+      }
+      // Still over with only the step left: cut from the end as a last resort
+      if (context.length + marker.length > maxChars) {
+        const safeMaxChars = Math.max(100, maxChars - 20); // Ensure at least 100 chars
+        context = context.slice(0, safeMaxChars);
+      }
+      context += marker;
     }
 
     return context;
@@ -174,6 +251,29 @@ Context unavailable due to error. Read .setu/PLAN.md directly.`;
   }
 }
 
+/**
+ * Files read so far, most relevant to a plan step first: the step's own
+ * files, then files the prompt names, then files beside the step's files.
+ * Within each group (and for the rest) more recent reads come first.
+ *
+ * @param filesRead - Paths in the order they were read
+ */
+export function selectRelevantFiles(projectDir: string, filesRead: string[], step: PlanStep, prompt: string): string[] {
+  const dirOf = (path: string): string => path.split('/').slice(0, -1).join('/');
+  const stepDirs = new Set(step.files.map(dirOf).filter((dir) => dir.length > 0));
+  const score = (path: string): number => {
+    const relativePath = toProjectRelativePath(projectDir, path) ?? path;
+    if (matchGlobList(relativePath, step.files)) return 3;
+    if (prompt.includes(relativePath) || prompt.includes(relativePath.split('/').pop() ?? relativePath)) return 2;
+    return stepDirs.has(dirOf(relativePath)) ? 1 : 0;
+  };
+  const unique = Array.from(new Set(filesRead.slice().reverse()));
+  return unique
+    .map((path, recency) => ({ path, recency, relevance: score(path) }))
+    .sort((a, b) => b.relevance - a.relevance || a.recency - b.recency)
+    .map(({ path }) => path);
+}
+
 /**
  * Get summary of JIT context (for debugging)
  */
@@ -195,10 +295,14 @@ export function getJITContextSummary(projectDir: string): JITContext {
       };
     }
 
-    const lastStep = active?.progress?.lastCompletedStep ?? 0;
+    const completedSteps = getCompletedSteps(safeDir, active);
+    const plan = loadPlan(safeDir);
+    const progress = plan && plan.steps.length > 0 ? getPlanProgress(plan, completedSteps) : null;
 
     return {
-      step: lastStep + 1,
+      step: progress?.next?.id ?? Math.max(0, ...completedSteps) + 1,
+      ...(progress?.next?.title ? { stepTitle: progress.next.title } : {}),
+      ...(progress ? { planProgress: { completed: progress.completed, total: progress.total } } : {}),
       objective: active?.task || 'Unknown',
       failedApproaches: active?.learnings?.failed?.slice(-3) || [],
       constraints: active?.constraints || [],
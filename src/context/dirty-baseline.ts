@@ -0,0 +1,210 @@
+/**
+ * Dirty-tree baseline: the user's uncommitted work when a session starts.
+ *
+ * Recorded to .setu/baseline.json on session.created. Every change present
+ * at that point belongs to the user, not to Setu, so later commands that
+ * would discard it go through the pending-safety confirmation flow.
+ *
+ * Per file we keep the lines the user added relative to HEAD (the whole
+ * file when untracked). Lines without letters or digits (`}`, `);`) are
+ * dropped, since they cannot tell one hunk from another.
+ */
+
+import { existsSync, readFileSync, renameSync, statSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { ensureSetuDir } from './storage';
+import { debugLog } from '../debug';
+import { getErrorMessage } from '../utils/error-handling';
+import { isGitWorkTree, runGit } from '../utils/git';
+import { toProjectRelativePath } from '../utils/glob';
+
+const BASELINE_JSON = 'baseline.json';
+const MAX_BASELINE_FILES = 200;
+const MAX_LINES_PER_FILE = 2000;
+const MAX_UNTRACKED_BYTES = 256 * 1024;
+const MIN_SIGNIFICANT_LENGTH = 4;
+
+export interface UserOwnedFile {
+  /** Project-relative path */
+  path: string;
+  /** Porcelain status code, e.g. ' M', 'M ', '??' */
+  status: string;
+  /** Significant lines the user added or changed (trimmed) */
+  lines: string[];
+}
+
+export interface DirtyBaseline {
+  version: 1;
+  sessionId: string;
+  recordedAt: string;
+  /** Stash entries that existed at session start (user-owned) */
+  stashCount: number;
+  files: UserOwnedFile[];
+}
+
+/** Lines worth matching: trimmed, long enough, and containing a letter or digit */
+export function significantLines(text: string): string[] {
+  return Array.from(new Set(
+    text
+      .split(/\r?\n/)
+      .map(line => line.trim())
+      .filter(line => line.length >= MIN_SIGNIFICANT_LENGTH && /[A-Za-z0-9]/.test(line))
+  )).slice(0, MAX_LINES_PER_FILE);
+}
+
+/**
+ * List dirty paths under projectDir from `git status --porcelain -z`.
+ *
+ * @returns Map of project-relative path → two-letter status, or null outside git
+ */
+export function getDirtyPaths(projectDir: string): Map<string, string> | null {
+  const output = runGit(projectDir, ['status', '--porcelain=v1', '-z', '--untracked-files=all', '--', '.'], { trim: false });
+  if (output === null) return null;
+
+  // Porcelain paths are relative to the repository root, not the working directory
+  const prefix = runGit(projectDir, ['rev-parse', '--show-prefix']) ?? '';
+
+  const dirty = new Map<string, string>();
+  const fields = output.split('\0');
+  for (let i = 0; i < fields.length; i++) {
+    const field = fields[i];
+    if (field.length < 4) continue;
+    const status = field.slice(0, 2);
+    const path = field.slice(3);
+    dirty.set(path.startsWith(prefix) ? path.slice(prefix.length) : path, status);
+    // Renames/copies carry the original path in the next field
+    if (status[0] === 'R' || status[0] === 'C') i++;
+  }
+  return dirty;
+}
+
+/** Parse `git diff -U0` output into added lines per path */
+function parseAddedLines(diff: string): Map<string, string[]> {
+  const added = new Map<string, string[]>();
+  let current: string[] | null = null;
+
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('+++ ')) {
+      const target = line.slice(4);
+      current = target === '/dev/null' ? null : [];
+      if (current) added.set(target.replace(/^b\//, ''), current);
+    } else if (current && line.startsWith('+')) {
+      current.push(line.slice(1));
+    }
+  }
+  return added;
+}
+
+function readUntrackedLines(projectDir: string, relativePath: string): string[] {
+  try {
+    const absolutePath = join(projectDir, relativePath);
+    if (statSync(absolutePath).size > MAX_UNTRACKED_BYTES) return [];
+    return significantLines(readFileSync(absolutePath, 'utf-8'));
+  } catch {
+    return [];
+  }
+}
+
+function mergeLines(previous: string[], current: string[]): string[] {
+  return Array.from(new Set([...previous, ...current])).slice(0, MAX_LINES_PER_FILE);
+}
+
+/**
+ * Record the user's uncommitted changes as the session baseline.
+ *
+ * Merged with the baseline already on disk: files it lists that are still
+ * dirty keep their lines, so a later session (or another one running
+ * alongside) adds to what earlier sessions recorded instead of replacing it.
+ *
+ * @returns The baseline, or null outside a git work tree
+ */
+export function recordDirtyBaseline(projectDir: string, sessionId: string, now: Date = new Date()): DirtyBaseline | null {
+  if (!isGitWorkTree(projectDir)) return null;
+
+  const dirty = getDirtyPaths(projectDir) ?? new Map<string, string>();
+  const hasHead = runGit(projectDir, ['rev-parse', '--verify', '--quiet', 'HEAD']) !== null;
+  const diff = hasHead
+    ? runGit(projectDir, ['-c', 'core.quotePath=false', 'diff', '-U0', '--no-color', '--no-ext-diff', '--relative', 'HEAD', '--', '.']) ?? ''
+    : '';
+  const addedLines = parseAddedLines(diff);
+  const stashList = runGit(projectDir, ['stash', 'list']);
+  const previous = loadDirtyBaseline(projectDir);
+  const previousLines = new Map(previous?.files.map(file => [file.path, file.lines]) ?? []);
+
+  const files: UserOwnedFile[] = [];
+  for (const [path, status] of dirty) {
+    if (files.length >= MAX_BASELINE_FILES) break;
+    if (path === '.setu' || path.startsWith('.setu/')) continue;
+
+    const lines = status === '??' || !hasHead
+      ? readUntrackedLines(projectDir, path)
+      : significantLines((addedLines.get(path) ?? []).join('\n'));
+    files.push({ path, status, lines: mergeLines(previousLines.get(path) ?? [], lines) });
+  }
+
+  const baseline: DirtyBaseline = {
+    version: 1,
+    sessionId,
+    recordedAt: now.toISOString(),
+    stashCount: Math.max(stashList ? stashList.split('\n').filter(Boolean).length : 0, previous?.stashCount ?? 0),
+    files,
+  };
+  saveDirtyBaseline(projectDir, baseline);
+  debugLog(`Dirty baseline: ${files.length} user-owned file(s), ${baseline.stashCount} stash entr(ies)`);
+  return baseline;
+}
+
+function saveDirtyBaseline(projectDir: string, baseline: DirtyBaseline): void {
+  const baselinePath = join(ensureSetuDir(projectDir), BASELINE_JSON);
+  const tempPath = `${baselinePath}.${process.pid}.tmp`;
+  writeFileSync(tempPath, JSON.stringify(baseline, null, 2), 'utf-8');
+  renameSync(tempPath, baselinePath);
+}
+
+/**
+ * Load the recorded baseline.
+ *
+ * @returns Baseline, or null if none was recorded or the file is invalid
+ */
+export function loadDirtyBaseline(projectDir: string): DirtyBaseline | null {
+  const baselinePath = join(projectDir, '.setu', BASELINE_JSON);
+  if (!existsSync(baselinePath)) return null;
+
+  try {
+    const parsed = JSON.parse(readFileSync(baselinePath, 'utf-8')) as Partial<DirtyBaseline>;
+    if (parsed.version !== 1 || !Array.isArray(parsed.files)) return null;
+
+    return {
+      version: 1,
+      sessionId: typeof parsed.sessionId === 'string' ? parsed.sessionId : '',
+      recordedAt: typeof parsed.recordedAt === 'string' ? parsed.recordedAt : '',
+      stashCount: typeof parsed.stashCount === 'number' ? parsed.stashCount : 0,
+      files: parsed.files.filter(
+        (file): file is UserOwnedFile =>
+          !!file && typeof file.path === 'string' && typeof file.status === 'string' && Array.isArray(file.lines)
+      ),
+    };
+  } catch (error) {
+    debugLog(`Failed to load dirty baseline: ${getErrorMessage(error)}`);
+    return null;
+  }
+}
+
+/**
+ * Hand ownership of files over to Setu after the user approved changing them,
+ * so later edits to the same files do not ask again.
+ */
+export function releaseUserOwnedPaths(projectDir: string, filePaths: string[]): void {
+  const baseline = loadDirtyBaseline(projectDir);
+  if (!baseline) return;
+
+  const released = new Set(
+    filePaths
+      .map(filePath => toProjectRelativePath(projectDir, filePath))
+      .filter((path): path is string => path !== null)
+  );
+  const files = baseline.files.filter(file => !released.has(file.path));
+  if (files.length !== baseline.files.length) {
+    saveDirtyBaseline(projectDir, { ...baseline, files });
+  }
+}
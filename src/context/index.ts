@@ -14,6 +14,8 @@ export type {
   ObservedPattern,
   // Active Task types
   ConstraintType,
+  PathConstraintType,
+  PathConstraints,
   TaskStatus,
   ActiveTask
 } from './types';
@@ -23,7 +25,8 @@ export {
   contextToSummary,
   formatContextForInjection,
   // Constraint types
-  CONSTRAINT_TYPES
+  CONSTRAINT_TYPES,
+  PATH_CONSTRAINT_TYPES
 } from './types';
 
 // Storage
@@ -34,10 +37,11 @@ export {
   saveContext,
   createContextCollector,
   logVerification,
-  detectProjectInfo,
   ensureSetuDir
 } from './storage';
 
+export { detectProjectInfo } from './project-info';
+
 // Active Task (Movement 3)
 export {
   loadActiveTask,
@@ -46,8 +50,16 @@ export {
   updateTaskStatus,
   clearActiveTask,
   shouldBlockDueToConstraint,
+  sanitizePathConstraints,
+  hasActiveConstraints,
+  type ConstraintCheckOptions,
   resetProgress,
   advanceStep,
+  getCompletedSteps,
+  checkStepReady,
+  startStep,
+  clearStepStart,
+  getStartedStep,
   recordFailedApproach,
   recordWorkedApproach
 } from './active';
@@ -63,7 +75,7 @@ export {
 } from './token';
 
 // Results Pattern (Phase 3.0)
-export type { StepResult } from './results';
+export type { StepResult, CriterionResult } from './results';
 
 export {
   writeStepResult,
@@ -73,13 +85,42 @@ export {
   getLastCompletedStep,
 } from './results';
 
+// Structured plan (.setu/plan.json)
+export type { PlanStepSection, DoneCriterion, PlanStep, StructuredPlan, PlanProgress } from './plan';
+
+export {
+  findPlanSteps,
+  parsePlan,
+  validatePlan,
+  savePlan,
+  loadPlan,
+  getPlanStep,
+  findReferencedStep,
+  getReadySteps,
+  getPlanProgress,
+  getCurrentStepNumber,
+  getDoneWhenCriteria,
+  loadStepCriteria,
+} from './plan';
+
+// Research quality gate (.setu/research-quality.json)
+export type { ResearchQuality, ResearchSectionScore, ResearchSectionStatus } from './research';
+
+export {
+  scoreResearch,
+  formatResearchQuality,
+  saveResearchQuality,
+  loadResearchQuality,
+  isResearchAccepted,
+} from './research';
+
 // Re-export from unified sanitization module
 export { sanitizeYamlString } from '../utils/sanitization';
 
 // Cleanse Protocol (Phase 3.0)
 export type { CleanseOptions, JITContext } from './cleanse';
 
-export { prepareJITContext, getJITContextSummary } from './cleanse';
+export { prepareJITContext, getJITContextSummary, selectRelevantFiles } from './cleanse';
 
 // Project rules (Silent Exploration)
 export type { ProjectRules, GitState } from './project-rules';
@@ -115,8 +156,64 @@ export {
   clearOverwriteRequirement,
 } from './setu-state';
 
+// Safety snapshots (before approved risky actions)
+export type { Snapshot, SnapshotInput, RestoreResult } from './snapshots';
+
+export {
+  createSnapshot,
+  listSnapshots,
+  loadSnapshot,
+  restoreSnapshot,
+} from './snapshots';
+
+// Dirty-tree baseline (user-owned changes at session start)
+export type { DirtyBaseline, UserOwnedFile } from './dirty-baseline';
+
+export {
+  recordDirtyBaseline,
+  loadDirtyBaseline,
+  releaseUserOwnedPaths,
+  getDirtyPaths,
+} from './dirty-baseline';
+
+// Undo ledger (per-edit pre-images)
+export type { EditCheckpoint, CheckpointInput, UndoSelection, UndoResult } from './checkpoints';
+
+export {
+  recordCheckpoint,
+  completeCheckpoints,
+  listCheckpoints,
+  undoCheckpoints,
+  getStepOutputs,
+} from './checkpoints';
+
+// File leases for parallel sessions (.setu/locks/)
+export type { FileLease, LeaseRequest } from './leases';
+
+export {
+  acquireLeases,
+  acquireLeasesWithWait,
+  releaseLeases,
+  listLeases,
+  isLeaseExpired,
+  isLeaseStale,
+  formatLeaseHolder,
+} from './leases';
+
 export type { ArtifactMode } from './artifact-policy';
 export {
   decideResearchArtifactMode,
   decidePlanArtifactMode,
 } from './artifact-policy';
+
+// Subagent sessions spawned by the task tool (parent → child lineage)
+export type { SubagentSession } from './subagents';
+
+export {
+  queueStepHandoff,
+  recordSubagentSession,
+  getSubagentSession,
+  clearSubagentSession,
+  findSetuAncestor,
+  isSameLineage,
+} from './subagents';
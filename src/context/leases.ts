@@ -0,0 +1,300 @@
+/**
+ * File leases: .setu/locks/
+ *
+ * When several sessions edit at once (parallel `task` subagents), a lease
+ * records which session owns a path for the duration of a plan step. A
+ * write from another session waits for the lease and is blocked if it is
+ * still held. A session and its subagents count as one owner, so a parent
+ * can hand a file to its subagent and take it back; sibling subagents
+ * conflict. A lease ends when its step completes, when its session ends,
+ * or `leases.ttlMs` after the owner's last write to the path. A lease whose
+ * OpenCode process has exited is stale at once.
+ *
+ * One file per path, named by a hash of the project-relative path. A free
+ * path is taken with an exclusive create, so two sessions cannot both get it.
+ * Renewing or taking over a lease first takes an exclusive `.claim` file
+ * beside it, so two sessions cannot both take the same stale lease. A lease
+ * file that cannot be read (half-written or corrupt) is held by an unknown
+ * session until `leases.ttlMs` after it was last written.
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, statSync, unlinkSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { createHash } from 'crypto';
+import { ensureSetuDir } from './storage';
+import { isSameLineage } from './subagents';
+import { debugLog } from '../debug';
+import { getErrorMessage } from '../utils/error-handling';
+import { toProjectRelativePath } from '../utils/glob';
+
+const LOCKS_DIR = 'locks';
+const LEASE_FILE_PATTERN = /^[0-9a-f]{40}\.json$/;
+const LEASE_POLL_MS = 250;
+/** A claim this old was left by a process that died while writing */
+const CLAIM_TIMEOUT_MS = 10_000;
+/** Holder reported for a lease file that cannot be read */
+const UNKNOWN_HOLDER = 'unknown';
+
+export interface FileLease {
+  version: 1;
+  /** Project-relative path */
+  path: string;
+  sessionId: string;
+  /** Plan step the owner was working on */
+  step?: number;
+  /** Process that took the lease */
+  pid?: number;
+  acquiredAt: string;
+  expiresAt: string;
+}
+
+export interface LeaseRequest {
+  /** Paths as supplied to the tool (absolute or project-relative) */
+  paths: string[];
+  sessionId: string;
+  step?: number;
+  ttlMs: number;
+}
+
+function getLocksDir(projectDir: string): string {
+  return join(projectDir, '.setu', LOCKS_DIR);
+}
+
+function getLeaseFile(projectDir: string, relativePath: string): string {
+  return join(getLocksDir(projectDir), `${createHash('sha1').update(relativePath).digest('hex')}.json`);
+}
+
+function parseLease(raw: unknown): FileLease | null {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+  const data = raw as Record<string, unknown>;
+  if (
+    data.version !== 1 ||
+    typeof data.path !== 'string' ||
+    typeof data.sessionId !== 'string' ||
+    typeof data.acquiredAt !== 'string' ||
+    typeof data.expiresAt !== 'string' ||
+    Number.isNaN(Date.parse(data.expiresAt))
+  ) {
+    return null;
+  }
+  return {
+    version: 1,
+    path: data.path,
+    sessionId: data.sessionId,
+    step: typeof data.step === 'number' && Number.isInteger(data.step) ? data.step : undefined,
+    pid: typeof data.pid === 'number' && Number.isInteger(data.pid) ? data.pid : undefined,
+    acquiredAt: data.acquiredAt,
+    expiresAt: data.expiresAt,
+  };
+}
+
+function readLeaseFile(file: string): FileLease | null {
+  try {
+    return parseLease(JSON.parse(readFileSync(file, 'utf-8')));
+  } catch {
+    return null;
+  }
+}
+
+function createUnknownHolder(path: string, writtenAt: number, ttlMs: number): FileLease {
+  return {
+    version: 1,
+    path,
+    sessionId: UNKNOWN_HOLDER,
+    acquiredAt: new Date(writtenAt).toISOString(),
+    expiresAt: new Date(writtenAt + ttlMs).toISOString(),
+  };
+}
+
+/**
+ * Current holder of a lease file. An unreadable file is held by
+ * UNKNOWN_HOLDER until `ttlMs` after it was last written.
+ *
+ * @returns The holder, or null when the file does not exist
+ */
+function readLeaseHolder(file: string, path: string, ttlMs: number): FileLease | null {
+  const lease = readLeaseFile(file);
+  if (lease) return lease;
+  try {
+    return createUnknownHolder(path, statSync(file).mtimeMs, ttlMs);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Take the claim file that guards rewriting a lease, clearing one left by
+ * a process that died holding it.
+ */
+function takeClaim(claim: string, now: number): boolean {
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      writeFileSync(claim, `${process.pid}\n`, { encoding: 'utf-8', flag: 'wx' });
+      return true;
+    } catch {
+      try {
+        if (now - statSync(claim).mtimeMs < CLAIM_TIMEOUT_MS) return false;
+        unlinkSync(claim);
+      } catch {
+        // Released meanwhile; try again
+      }
+    }
+  }
+  return false;
+}
+
+export function isLeaseExpired(lease: FileLease, now = Date.now()): boolean {
+  return Date.parse(lease.expiresAt) <= now;
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Whether a lease no longer binds anyone: expired, or taken by a process
+ * that has exited (OpenCode closed without ending the session).
+ */
+export function isLeaseStale(lease: FileLease, now = Date.now()): boolean {
+  return isLeaseExpired(lease, now) || (lease.pid !== undefined && lease.pid !== process.pid && !isProcessAlive(lease.pid));
+}
+
+/**
+ * All leases, including expired ones. Unreadable files are skipped.
+ */
+export function listLeases(projectDir: string): FileLease[] {
+  const dir = getLocksDir(projectDir);
+  if (!existsSync(dir)) return [];
+  try {
+    return readdirSync(dir)
+      .filter(name => LEASE_FILE_PATTERN.test(name))
+      .map(name => readLeaseFile(join(dir, name)))
+      .filter((lease): lease is FileLease => lease !== null)
+      .sort((a, b) => a.path.localeCompare(b.path));
+  } catch (error) {
+    debugLog(`Failed to list leases: ${getErrorMessage(error)}`);
+    return [];
+  }
+}
+
+/**
+ * Take or renew leases on paths for a session. A path held by an unrelated
+ * session with a live lease is left alone; a renewal extends the
+ * lease by `ttlMs`, and a lease held by the session's parent or subagent
+ * passes to the session.
+ *
+ * @returns Leases held by other sessions that blocked the request
+ */
+export function acquireLeases(projectDir: string, request: LeaseRequest, now = Date.now()): FileLease[] {
+  const conflicts: FileLease[] = [];
+  const relativePaths = new Set(
+    request.paths
+      .map(path => toProjectRelativePath(projectDir, path))
+      .filter((path): path is string => path !== null && path.length > 0)
+  );
+  if (relativePaths.size === 0) return conflicts;
+  ensureSetuDir(projectDir);
+  mkdirSync(getLocksDir(projectDir), { recursive: true });
+
+  const serialize = (path: string, acquiredAt: string): string => JSON.stringify({
+    version: 1,
+    path,
+    sessionId: request.sessionId,
+    ...(request.step !== undefined ? { step: request.step } : {}),
+    pid: process.pid,
+    acquiredAt,
+    expiresAt: new Date(now + request.ttlMs).toISOString(),
+  } satisfies FileLease, null, 2) + '\n';
+
+  for (const path of relativePaths) {
+    const file = getLeaseFile(projectDir, path);
+
+    if (!existsSync(file)) {
+      try {
+        writeFileSync(file, serialize(path, new Date(now).toISOString()), { encoding: 'utf-8', flag: 'wx' });
+        continue;
+      } catch {
+        // Another session created it first; decide on its lease below
+      }
+    }
+
+    // Renewals and takeovers rewrite the file, one session at a time
+    const claim = `${file}.claim`;
+    if (!takeClaim(claim, now)) {
+      conflicts.push(readLeaseHolder(file, path, request.ttlMs) ?? createUnknownHolder(path, now, request.ttlMs));
+      continue;
+    }
+    try {
+      const holder = readLeaseHolder(file, path, request.ttlMs);
+      if (holder && !isSameLineage(holder.sessionId, request.sessionId) && !isLeaseStale(holder, now)) {
+        conflicts.push(holder);
+        continue;
+      }
+      const acquiredAt = holder?.sessionId === request.sessionId ? holder.acquiredAt : new Date(now).toISOString();
+      const tempPath = `${file}.${process.pid}.tmp`;
+      writeFileSync(tempPath, serialize(path, acquiredAt), 'utf-8');
+      renameSync(tempPath, file);
+    } finally {
+      try {
+        unlinkSync(claim);
+      } catch (error) {
+        debugLog(`Failed to release lease claim on ${path}: ${getErrorMessage(error)}`);
+      }
+    }
+  }
+  return conflicts;
+}
+
+/**
+ * Take leases, waiting up to `waitMs` for other sessions' leases to be
+ * released or to expire.
+ *
+ * @returns Leases still held by other sessions when the wait ended
+ */
+export async function acquireLeasesWithWait(projectDir: string, request: LeaseRequest, waitMs: number): Promise<FileLease[]> {
+  const deadline = Date.now() + waitMs;
+  let conflicts = acquireLeases(projectDir, request);
+  while (conflicts.length > 0 && Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, Math.min(LEASE_POLL_MS, deadline - Date.now())));
+    conflicts = acquireLeases(projectDir, request);
+  }
+  return conflicts;
+}
+
+/**
+ * Release leases matching every given filter.
+ *
+ * @returns Number of leases released
+ */
+export function releaseLeases(projectDir: string, filter: { sessionId?: string; step?: number } = {}): number {
+  const dir = getLocksDir(projectDir);
+  if (!existsSync(dir)) return 0;
+  let released = 0;
+  for (const name of readdirSync(dir).filter(entry => LEASE_FILE_PATTERN.test(entry))) {
+    const lease = readLeaseFile(join(dir, name));
+    if (!lease) continue;
+    if (filter.sessionId !== undefined && lease.sessionId !== filter.sessionId) continue;
+    if (filter.step !== undefined && lease.step !== filter.step) continue;
+    try {
+      unlinkSync(join(dir, name));
+      released++;
+    } catch (error) {
+      debugLog(`Failed to release lease on ${lease.path}: ${getErrorMessage(error)}`);
+    }
+  }
+  return released;
+}
+
+/**
+ * One line naming the lease holder, its step, and when the lease expires.
+ */
+export function formatLeaseHolder(lease: FileLease): string {
+  const step = lease.step !== undefined ? ` for Step ${lease.step}` : '';
+  return `'${lease.path}' is leased to session ${lease.sessionId}${step} until ${lease.expiresAt}`;
+}
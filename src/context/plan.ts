@@ -0,0 +1,433 @@
+/**
+ * Structured plan: PLAN.md → .setu/plan.json
+ *
+ * setu_plan parses PLAN.md into steps (id, title, files, verification,
+ * DONE WHEN criteria, dependencies), rejects plans missing sections the plan
+ * contract requires, and stores the result in .setu/plan.json. Step
+ * counting, progress display, and subagent context read the structured form;
+ * PLAN.md stays the human-readable source.
+ *
+ * Steps are the "Step N" headings or bullets the plan contract asks for.
+ * Plans that skip explicit numbering (the contract allows any structure)
+ * fall back to one step per unit of work: a line followed by its fields
+ * (Why, Files, Verification, Done When, ...). When a revision repeats a step
+ * number, the latest one wins.
+ *
+ * Steps form a DAG through Depends On. A step without the field follows the
+ * step before it; `Depends On: none` makes it independent. A step is ready
+ * once every step it depends on is complete, so independent steps can run
+ * side by side.
+ */
+
+import { existsSync, readFileSync, renameSync, statSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { ensureSetuDir } from './storage';
+import { debugLog } from '../debug';
+import { getErrorMessage } from '../utils/error-handling';
+
+export interface PlanStepSection {
+  number: number;
+  title: string;
+  /** Lines of the step, including its heading */
+  lines: string[];
+}
+
+export interface DoneCriterion {
+  /** `<step>.<n>`, e.g. "3.2" */
+  id: string;
+  text: string;
+}
+
+export interface PlanStep {
+  id: number;
+  title: string;
+  files: string[];
+  verification: string[];
+  doneWhen: DoneCriterion[];
+  /** Step ids named in Depends On; the previous step when the field is absent */
+  dependsOn: number[];
+}
+
+export interface StructuredPlan {
+  version: 1;
+  /** Steps in id order */
+  steps: PlanStep[];
+  parsedAt: string;
+}
+
+/** Criteria per step; more are ignored rather than blocking the step forever */
+const MAX_CRITERIA = 10;
+
+const PLAN_JSON = 'plan.json';
+
+const STEP_LINE = /^\s*(?:#{1,6}\s+|[-*+]\s+|\d+[.)]\s+)?(?:\*\*)?Step\s+(\d+)\b\s*(?:\*\*)?\s*[:.)—-]?\s*(?:\*\*)?\s*(.*)$/i;
+const HEADING_LINE = /^\s*#{1,6}\s/;
+/** Fields of a unit of work, as named by the plan contract */
+const STEP_FIELD_LINE =
+  /^\s*(?:[-*+]\s+)?(?:\*\*)?(?:Why|Files?|Change Intent|Verification|Verify|Done\s+When|Integration Impact|Edge Cases|Depends\s+On|Dependencies)(?:\*\*)?\s*:/i;
+
+const FIELDS = {
+  files: /^(\s*)(?:[-*+]\s+)?(?:\*\*)?Files?(?:\*\*)?\s*:(?:\*\*)?\s*(.*)$/i,
+  verification: /^(\s*)(?:[-*+]\s+)?(?:\*\*)?(?:Verification|Verify)(?:\*\*)?\s*:(?:\*\*)?\s*(.*)$/i,
+  doneWhen: /^(\s*)(?:[-*+]\s+)?(?:\*\*)?Done\s+When(?:\*\*)?\s*:?(?:\*\*)?\s*:?\s*(.*)$/i,
+  dependsOn: /^(\s*)(?:[-*+]\s+)?(?:\*\*)?(?:Depends\s+On|Dependencies)(?:\*\*)?\s*:(?:\*\*)?\s*(.*)$/i,
+} as const;
+
+/**
+ * Plan-level sections of PLAN_SEMANTIC_REQUIREMENTS, matched by heading or
+ * `Label:` line. Any alias satisfies the section.
+ */
+const REQUIRED_SECTIONS: Array<{ name: string; hint: string; aliases: RegExp }> = [
+  { name: 'Objective', hint: 'what outcome this plan delivers', aliases: /^(?:objective|outcome)/ },
+  { name: 'Context Summary', hint: 'brief grounding from research', aliases: /^(?:context|background|summary)/ },
+  { name: 'Goals / Non-goals', hint: 'scope boundaries', aliases: /^(?:goals?|non-goals?|scope|out of scope)\b/ },
+  {
+    name: 'Assumptions / Constraints',
+    hint: 'environment, path, runtime, and policy constraints',
+    aliases: /^(?:assumptions?|constraints?)\b/,
+  },
+  {
+    name: 'File-level Edit List',
+    hint: 'files or modules expected to change',
+    aliases: /^(?:file-level edit list|file-level changes|edit list|files to (?:change|edit|create|modify)|file changes|affected files)/,
+  },
+];
+
+/** Step fields every unit of work needs */
+const REQUIRED_STEP_FIELDS: Array<{ field: 'files' | 'verification' | 'doneWhen'; label: string }> = [
+  { field: 'files', label: 'Files' },
+  { field: 'verification', label: 'Verification' },
+  { field: 'doneWhen', label: 'Done When' },
+];
+
+function indentOf(line: string): number {
+  return line.match(/^\s*/)?.[0].length ?? 0;
+}
+
+function cleanTitle(title: string): string {
+  return title.replace(/\*\*/g, '').replace(/^[-:.\s]+/, '').trim();
+}
+
+/** Next non-blank line after `index` */
+function nextContentLine(lines: string[], index: number): string | undefined {
+  return lines.slice(index + 1).find(line => line.trim().length > 0);
+}
+
+/**
+ * Split a plan into steps.
+ */
+export function findPlanSteps(content: string): PlanStepSection[] {
+  const lines = content.split(/\r?\n/);
+  const steps: PlanStepSection[] = [];
+  let current: PlanStepSection | null = null;
+
+  for (const line of lines) {
+    const stepMatch = line.match(STEP_LINE);
+    if (stepMatch) {
+      current = { number: Number(stepMatch[1]), title: cleanTitle(stepMatch[2]), lines: [line] };
+      steps.push(current);
+      continue;
+    }
+    // Any other heading (phase, task, appendix) closes the step
+    if (HEADING_LINE.test(line)) {
+      current = null;
+      continue;
+    }
+    current?.lines.push(line);
+  }
+
+  if (steps.length > 0) return steps;
+
+  // No numbered steps: a heading or bullet followed by step fields is one
+  // unit of work
+  let unitIndent = -1;
+  for (const [index, line] of lines.entries()) {
+    const isHeading = HEADING_LINE.test(line);
+    const next = nextContentLine(lines, index);
+    const startsUnit =
+      line.trim().length > 0 &&
+      !STEP_FIELD_LINE.test(line) &&
+      next !== undefined &&
+      STEP_FIELD_LINE.test(next) &&
+      (isHeading || indentOf(next) > indentOf(line));
+
+    if (startsUnit) {
+      const title = cleanTitle(line.replace(/^\s*(?:#{1,6}\s+|[-*+]\s+|\d+[.)]\s+)/, ''));
+      current = { number: steps.length + 1, title, lines: [line] };
+      steps.push(current);
+      unitIndent = isHeading ? -1 : indentOf(line);
+      continue;
+    }
+    // A heading, or a bullet back at the unit's own level, ends the unit
+    if (isHeading || (line.trim() && indentOf(line) <= unitIndent)) {
+      current = null;
+      continue;
+    }
+    current?.lines.push(line);
+  }
+  return steps;
+}
+
+/** Lines after a field that belong to it: more indented bullets or text */
+function countDetailLines(lines: string[], fieldIndex: number): number {
+  const fieldIndent = indentOf(lines[fieldIndex]);
+  let count = 0;
+  for (const line of lines.slice(fieldIndex + 1)) {
+    if (!line.trim() || indentOf(line) <= fieldIndent) break;
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Values of one field in a step: its inline text (split on `separator` when
+ * given), plus any nested bullets.
+ */
+function readStepField(lines: string[], field: RegExp, separator?: RegExp): string[] {
+  const values: string[] = [];
+  for (const [index, line] of lines.entries()) {
+    const match = line.match(field);
+    if (!match) continue;
+    values.push(...(separator ? match[2].split(separator) : [match[2]]));
+    const details = lines.slice(index + 1, index + 1 + countDetailLines(lines, index));
+    values.push(...details.map(detail => detail.replace(/^\s*(?:[-*+]|\d+[.)])\s+/, '')));
+  }
+  return values.map(value => value.replace(/\*\*/g, '').trim()).filter(value => value.length > 0);
+}
+
+function toCriteria(stepNumber: number, texts: string[]): DoneCriterion[] {
+  return texts.slice(0, MAX_CRITERIA).map((text, index) => ({ id: `${stepNumber}.${index + 1}`, text }));
+}
+
+function toPlanStep(section: PlanStepSection, previousId: number | null): PlanStep {
+  // "Step 1, Step 3", "Steps 1 and 2", "none"
+  const declared = readStepField(section.lines, FIELDS.dependsOn);
+  const dependencies = declared.flatMap(value => Array.from(value.matchAll(/\d+/g), match => Number(match[0])));
+  if (declared.length === 0 && previousId !== null) dependencies.push(previousId);
+
+  return {
+    id: section.number,
+    title: section.title,
+    files: readStepField(section.lines, FIELDS.files, /,/).map(file => file.replace(/^`|`$/g, '').trim()),
+    verification: readStepField(section.lines, FIELDS.verification),
+    doneWhen: toCriteria(section.number, readStepField(section.lines, FIELDS.doneWhen, /;/)),
+    dependsOn: Array.from(new Set(dependencies)).filter(id => id !== section.number),
+  };
+}
+
+/**
+ * Parse a plan into structured steps. The latest revision of each step wins.
+ */
+export function parsePlan(content: string): StructuredPlan {
+  const latest = new Map<number, PlanStepSection>();
+  for (const section of findPlanSteps(content)) latest.set(section.number, section);
+  const sections = Array.from(latest.values()).sort((a, b) => a.number - b.number);
+  const steps = sections.map((section, index) => toPlanStep(section, index > 0 ? sections[index - 1].number : null));
+  return { version: 1, steps, parsedAt: new Date().toISOString() };
+}
+
+function hasSection(lines: string[], aliases: RegExp): boolean {
+  return lines.some(line => {
+    const isHeading = HEADING_LINE.test(line);
+    const label = line
+      .replace(/^\s*(?:#{1,6}\s+|[-*+]\s+|\d+[.)]\s+)?/, '')
+      .replace(/\*\*/g, '')
+      .trim()
+      .toLowerCase();
+    return aliases.test(label) && (isHeading || /^[^:]{1,40}:/.test(label));
+  });
+}
+
+/** Steps on a dependency cycle through `start`, e.g. [2, 3, 2]; null when there is none */
+function findCycle(plan: StructuredPlan, start: number): number[] | null {
+  const byId = new Map(plan.steps.map(step => [step.id, step]));
+  const visited = new Set<number>();
+  const visit = (id: number, path: number[]): number[] | null => {
+    for (const dependency of byId.get(id)?.dependsOn ?? []) {
+      if (dependency === start) return [...path, dependency];
+      if (visited.has(dependency)) continue;
+      visited.add(dependency);
+      const cycle = visit(dependency, [...path, dependency]);
+      if (cycle) return cycle;
+    }
+    return null;
+  };
+  return visit(start, [start]);
+}
+
+/**
+ * Gaps between a plan and the plan contract: missing plan sections, no
+ * steps, steps without files, verification, or DONE WHEN criteria, and
+ * dependencies on steps the plan does not have or that loop back.
+ *
+ * @returns One message per gap; empty when the plan is complete
+ */
+export function validatePlan(content: string, plan: StructuredPlan = parsePlan(content)): string[] {
+  const lines = content.split(/\r?\n/);
+  const gaps = REQUIRED_SECTIONS.filter(section => !hasSection(lines, section.aliases)).map(
+    section => `Missing section: ${section.name} (${section.hint})`
+  );
+
+  if (plan.steps.length === 0) {
+    gaps.push('Missing section: Execution Steps (number each unit of work "Step N" with Why, Files, Verification, and Done When)');
+    return gaps;
+  }
+
+  const ids = new Set(plan.steps.map(step => step.id));
+  for (const step of plan.steps) {
+    const label = `Step ${step.id}${step.title ? ` (${step.title.slice(0, 60)})` : ''}`;
+    const missing = REQUIRED_STEP_FIELDS.filter(({ field }) => step[field].length === 0).map(({ label: name }) => name);
+    if (missing.length > 0) gaps.push(`${label}: missing ${missing.join(', ')}`);
+    const unknown = step.dependsOn.filter(id => !ids.has(id));
+    if (unknown.length > 0) gaps.push(`${label}: depends on unknown step(s) ${unknown.join(', ')}`);
+  }
+  // Report each cycle once, at its lowest step
+  const reported = new Set<number>();
+  for (const step of plan.steps) {
+    if (reported.has(step.id)) continue;
+    const cycle = findCycle(plan, step.id);
+    if (!cycle) continue;
+    cycle.forEach(id => reported.add(id));
+    gaps.push(`Step ${step.id}: dependency cycle (${cycle.map(id => `Step ${id}`).join(' → ')})`);
+  }
+  return gaps;
+}
+
+/**
+ * Store a parsed plan in .setu/plan.json.
+ */
+export function savePlan(projectDir: string, plan: StructuredPlan): void {
+  const setuDir = ensureSetuDir(projectDir);
+  const planPath = join(setuDir, PLAN_JSON);
+  const tempPath = `${planPath}.${process.pid}.tmp`;
+  writeFileSync(tempPath, JSON.stringify(plan, null, 2) + '\n', 'utf-8');
+  renameSync(tempPath, planPath);
+}
+
+function isPlanStep(value: unknown): value is PlanStep {
+  if (!value || typeof value !== 'object') return false;
+  const step = value as Record<string, unknown>;
+  return (
+    typeof step.id === 'number' &&
+    typeof step.title === 'string' &&
+    Array.isArray(step.files) &&
+    Array.isArray(step.verification) &&
+    Array.isArray(step.doneWhen) &&
+    Array.isArray(step.dependsOn)
+  );
+}
+
+/**
+ * The structured plan: .setu/plan.json, or PLAN.md parsed on the fly for
+ * plans written before plan.json existed.
+ *
+ * @returns Plan, or null without PLAN.md
+ */
+export function loadPlan(projectDir: string): StructuredPlan | null {
+  const planMdPath = join(projectDir, '.setu', 'PLAN.md');
+  if (!existsSync(planMdPath)) return null;
+
+  const planJsonPath = join(projectDir, '.setu', PLAN_JSON);
+  // A PLAN.md edited by hand after setu_plan is parsed again
+  if (existsSync(planJsonPath) && statSync(planJsonPath).mtimeMs >= statSync(planMdPath).mtimeMs) {
+    try {
+      const parsed = JSON.parse(readFileSync(planJsonPath, 'utf-8')) as Partial<StructuredPlan>;
+      if (parsed.version === 1 && Array.isArray(parsed.steps) && parsed.steps.every(isPlanStep)) {
+        return parsed as StructuredPlan;
+      }
+      debugLog('Ignoring invalid plan.json; parsing PLAN.md');
+    } catch (error) {
+      debugLog(`Failed to load plan.json: ${getErrorMessage(error)}`);
+    }
+  }
+
+  try {
+    return parsePlan(readFileSync(planMdPath, 'utf-8'));
+  } catch (error) {
+    debugLog(`Failed to parse PLAN.md: ${getErrorMessage(error)}`);
+    return null;
+  }
+}
+
+/**
+ * One step of the structured plan.
+ */
+export function getPlanStep(projectDir: string, stepNumber: number): PlanStep | null {
+  return loadPlan(projectDir)?.steps.find(step => step.id === stepNumber) ?? null;
+}
+
+/**
+ * First plan step a piece of text names as "Step N", e.g. a subagent prompt.
+ *
+ * @returns Step, or null when the text names no step of the plan
+ */
+export function findReferencedStep(plan: StructuredPlan, text: string): PlanStep | null {
+  for (const match of text.matchAll(/\bstep\s+(\d+)\b/gi)) {
+    const step = plan.steps.find(candidate => candidate.id === Number(match[1]));
+    if (step) return step;
+  }
+  return null;
+}
+
+export interface PlanProgress {
+  /** Plan steps that are complete */
+  completed: number;
+  total: number;
+  /** Incomplete steps whose dependencies are all complete, in id order */
+  ready: PlanStep[];
+  /** Incomplete steps still waiting on a dependency */
+  blocked: PlanStep[];
+  /** First ready step, or null when all are done or none is ready */
+  next: PlanStep | null;
+}
+
+/**
+ * Steps that can start: not complete, and every step they depend on is.
+ */
+export function getReadySteps(plan: StructuredPlan, completedSteps: ReadonlySet<number>): PlanStep[] {
+  return plan.steps.filter(
+    step => !completedSteps.has(step.id) && step.dependsOn.every(dependency => completedSteps.has(dependency))
+  );
+}
+
+/**
+ * Progress through a plan, given the completed step ids.
+ */
+export function getPlanProgress(plan: StructuredPlan, completedSteps: ReadonlySet<number>): PlanProgress {
+  const ready = getReadySteps(plan, completedSteps);
+  const readyIds = new Set(ready.map(step => step.id));
+  return {
+    completed: plan.steps.filter(step => completedSteps.has(step.id)).length,
+    total: plan.steps.length,
+    ready,
+    blocked: plan.steps.filter(step => !completedSteps.has(step.id) && !readyIds.has(step.id)),
+    next: ready[0] ?? null,
+  };
+}
+
+/**
+ * The step being worked on: the plan's first ready step, or the one after
+ * the highest completed step when there is no structured plan (or nothing
+ * is ready).
+ */
+export function getCurrentStepNumber(projectDir: string, completedSteps: ReadonlySet<number>): number {
+  const plan = loadPlan(projectDir);
+  return (plan && getPlanProgress(plan, completedSteps).next?.id) ?? Math.max(0, ...completedSteps) + 1;
+}
+
+/**
+ * DONE WHEN criteria of one step: the field's inline text split on `;`,
+ * plus any nested bullets.
+ */
+export function getDoneWhenCriteria(content: string, stepNumber: number): DoneCriterion[] {
+  return parsePlan(content).steps.find(step => step.id === stepNumber)?.doneWhen ?? [];
+}
+
+/**
+ * DONE WHEN criteria for a step of the plan.
+ *
+ * @returns Criteria, or an empty list without a plan or criteria
+ */
+export function loadStepCriteria(projectDir: string, stepNumber: number): DoneCriterion[] {
+  return getPlanStep(projectDir, stepNumber)?.doneWhen ?? [];
+}
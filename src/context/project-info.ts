@@ -0,0 +1,327 @@
+/**
+ * Project detection
+ *
+ * Infers the ecosystem, build tool, and test/lint/typecheck tooling from the
+ * manifests at the project root. setu_verify turns the result into commands;
+ * hydration records it in context.json.
+ *
+ * Language manifests (Cargo.toml, pom.xml, Gemfile, ...) win over
+ * package.json, which many backends carry only for frontend assets.
+ * Makefile and justfile targets are used only when nothing else matched.
+ */
+
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import type { ProjectInfo } from './types';
+
+/** Targets looked up in Makefiles, justfiles, and deno.json tasks */
+const TASK_NAMES = ['build', 'all', 'test', 'check', 'lint', 'typecheck', 'type-check'];
+
+function readText(path: string): string | null {
+  try {
+    return readFileSync(path, 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+function readJson(path: string): Record<string, unknown> | null {
+  const text = readText(path);
+  if (text === null) return null;
+  try {
+    const parsed: unknown = JSON.parse(text);
+    return parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>) : null;
+  } catch {
+    // deno.jsonc and hand-edited manifests may not be strict JSON
+    return null;
+  }
+}
+
+function objectKeys(value: unknown): string[] {
+  return value && typeof value === 'object' && !Array.isArray(value) ? Object.keys(value) : [];
+}
+
+function listRootFiles(projectDir: string): string[] {
+  try {
+    return readdirSync(projectDir);
+  } catch {
+    return [];
+  }
+}
+
+/** First capture of `pattern` in the file, if both exist */
+function matchInFile(path: string, pattern: RegExp): string | undefined {
+  return readText(path)?.match(pattern)?.[1];
+}
+
+/**
+ * Node.js/TypeScript from package.json: runtime, type, package manager,
+ * test framework, and UI/server frameworks.
+ */
+function detectNode(projectDir: string, project: ProjectInfo): void {
+  const pkg = readJson(join(projectDir, 'package.json'));
+  if (!pkg) return;
+
+  const devDependencies = (pkg.devDependencies ?? {}) as Record<string, unknown>;
+  const deps = { ...(pkg.dependencies as Record<string, unknown> | undefined), ...devDependencies };
+  const hasBunLock = existsSync(join(projectDir, 'bun.lock')) || existsSync(join(projectDir, 'bun.lockb'));
+
+  // Detect runtime
+  if (devDependencies['bun-types'] || devDependencies['@types/bun'] || hasBunLock) {
+    project.runtime = 'bun';
+  } else if (existsSync(join(projectDir, 'deno.json')) || existsSync(join(projectDir, 'deno.jsonc'))) {
+    project.runtime = 'deno';
+  } else {
+    project.runtime = 'node';
+  }
+
+  // Detect type
+  project.type = devDependencies.typescript || existsSync(join(projectDir, 'tsconfig.json')) ? 'typescript' : 'javascript';
+
+  // Detect build tool: lockfile first, then the `packageManager` field (corepack)
+  const [declaredManager, declaredVersion] =
+    typeof pkg.packageManager === 'string' ? pkg.packageManager.split('+')[0].split('@') : [];
+  if (existsSync(join(projectDir, 'pnpm-lock.yaml'))) {
+    project.buildTool = 'pnpm';
+  } else if (existsSync(join(projectDir, 'yarn.lock'))) {
+    project.buildTool = 'yarn';
+  } else if (hasBunLock) {
+    project.buildTool = 'bun';
+  } else if (existsSync(join(projectDir, 'package-lock.json'))) {
+    project.buildTool = 'npm';
+  } else if (declaredManager && ['npm', 'pnpm', 'yarn', 'bun'].includes(declaredManager)) {
+    project.buildTool = declaredManager;
+  }
+  if (declaredVersion && declaredManager === project.buildTool) {
+    project.packageManagerVersion = declaredVersion;
+  }
+
+  // Detect test framework
+  if (deps.vitest) project.testFramework = 'vitest';
+  else if (deps.jest) project.testFramework = 'jest';
+  else if (deps.mocha) project.testFramework = 'mocha';
+  else if (deps.ava) project.testFramework = 'ava';
+
+  const testScript = String((pkg.scripts as Record<string, unknown> | undefined)?.test ?? '');
+  project.testRunner =
+    project.testFramework ?? (/\bbun test\b/.test(testScript) ? 'bun' : /\bnode --test\b/.test(testScript) ? 'node' : undefined);
+
+  if (deps.eslint) project.linter = 'eslint';
+  else if (deps['@biomejs/biome']) project.linter = 'biome';
+  if (project.type === 'typescript') project.typeChecker = 'tsc';
+
+  // Detect frameworks
+  const frameworks = ['react', 'vue', 'svelte', 'express', 'fastify', 'next', 'nuxt', 'hono'].filter(name => deps[name]);
+  if (frameworks.length) project.frameworks = frameworks;
+}
+
+function detectDeno(projectDir: string, project: ProjectInfo): boolean {
+  const configPath = ['deno.json', 'deno.jsonc'].map(name => join(projectDir, name)).find(path => existsSync(path));
+  if (!configPath) return false;
+
+  project.type = 'typescript';
+  project.runtime = 'deno';
+  project.buildTool = 'deno';
+  project.testRunner = 'deno';
+  project.linter = 'deno';
+  project.typeChecker = 'deno';
+  const tasks = objectKeys(readJson(configPath)?.tasks).filter(task => TASK_NAMES.includes(task));
+  if (tasks.length) project.tasks = tasks;
+  return true;
+}
+
+function detectJvm(projectDir: string, project: ProjectInfo, rootFiles: string[]): boolean {
+  const gradleFile = rootFiles.find(file => /^(?:settings\.)?build\.gradle(?:\.kts)?$/.test(file));
+  const pomPath = join(projectDir, 'pom.xml');
+  if (!gradleFile && !existsSync(pomPath)) return false;
+
+  let buildText: string;
+  if (gradleFile) {
+    project.buildTool = 'gradle';
+    buildText = rootFiles
+      .filter(file => /^build\.gradle(?:\.kts)?$/.test(file))
+      .map(file => readText(join(projectDir, file)) ?? '')
+      .join('\n');
+    project.packageManagerVersion = matchInFile(
+      join(projectDir, 'gradle', 'wrapper', 'gradle-wrapper.properties'),
+      /gradle-([\d.]+)-(?:bin|all)\.zip/
+    );
+  } else {
+    project.buildTool = 'maven';
+    buildText = readText(pomPath) ?? '';
+    project.packageManagerVersion = matchInFile(
+      join(projectDir, '.mvn', 'wrapper', 'maven-wrapper.properties'),
+      /apache-maven-([\d.]+)-bin\.zip/
+    );
+  }
+
+  project.type = rootFiles.some(file => file.endsWith('.kts')) || /kotlin/i.test(buildText) ? 'kotlin' : 'java';
+  project.runtime = 'jvm';
+  if (/\bjunit\b/i.test(buildText)) project.testRunner = 'junit';
+  else if (/\btestng\b/i.test(buildText)) project.testRunner = 'testng';
+  else if (/\bspock\b/i.test(buildText)) project.testRunner = 'spock';
+  return true;
+}
+
+function detectDotnet(projectDir: string, project: ProjectInfo, rootFiles: string[]): boolean {
+  const projectFiles = rootFiles.filter(file => /\.(?:sln|csproj|fsproj)$/.test(file));
+  if (projectFiles.length === 0) return false;
+
+  project.type = projectFiles.some(file => file.endsWith('.fsproj')) ? 'fsharp' : 'csharp';
+  project.runtime = 'dotnet';
+  project.buildTool = 'dotnet';
+  project.linter = 'dotnet-format';
+  project.packageManagerVersion = matchInFile(join(projectDir, 'global.json'), /"version"\s*:\s*"([^"]+)"/);
+
+  const references = projectFiles.map(file => readText(join(projectDir, file)) ?? '').join('\n');
+  if (/PackageReference\s+Include="xunit/i.test(references)) project.testRunner = 'xunit';
+  else if (/PackageReference\s+Include="NUnit/i.test(references)) project.testRunner = 'nunit';
+  else if (/PackageReference\s+Include="MSTest/i.test(references)) project.testRunner = 'mstest';
+  return true;
+}
+
+function detectRuby(projectDir: string, project: ProjectInfo): boolean {
+  const gemfile = readText(join(projectDir, 'Gemfile'));
+  if (gemfile === null) return false;
+
+  const gems = new Set(Array.from(gemfile.matchAll(/^\s*gem\s+["']([\w-]+)["']/gm), match => match[1]));
+  project.type = 'ruby';
+  project.runtime = 'ruby';
+  project.buildTool = 'bundler';
+  project.packageManagerVersion = matchInFile(join(projectDir, 'Gemfile.lock'), /^BUNDLED WITH\s*\n\s*(\S+)/m);
+  project.testRunner = gems.has('rspec') || gems.has('rspec-rails') || existsSync(join(projectDir, 'spec')) ? 'rspec' : 'minitest';
+  if (gems.has('rubocop') || [...gems].some(gem => gem.startsWith('rubocop-'))) project.linter = 'rubocop';
+  if (gems.has('sorbet')) project.typeChecker = 'sorbet';
+  if (gems.has('rails')) project.frameworks = ['rails'];
+  return true;
+}
+
+function detectPhp(projectDir: string, project: ProjectInfo): boolean {
+  const composer = readJson(join(projectDir, 'composer.json'));
+  if (!composer) return false;
+
+  const packages = new Set([...objectKeys(composer.require), ...objectKeys(composer['require-dev'])]);
+  project.type = 'php';
+  project.runtime = 'php';
+  project.buildTool = 'composer';
+  if (packages.has('pestphp/pest')) project.testRunner = 'pest';
+  else if (packages.has('phpunit/phpunit')) project.testRunner = 'phpunit';
+  if (packages.has('friendsofphp/php-cs-fixer')) project.linter = 'php-cs-fixer';
+  else if (packages.has('squizlabs/php_codesniffer')) project.linter = 'phpcs';
+  else if (packages.has('laravel/pint')) project.linter = 'pint';
+  if (packages.has('phpstan/phpstan') || packages.has('larastan/larastan')) project.typeChecker = 'phpstan';
+  else if (packages.has('vimeo/psalm')) project.typeChecker = 'psalm';
+  if (packages.has('laravel/framework')) project.frameworks = ['laravel'];
+  else if (packages.has('symfony/framework-bundle')) project.frameworks = ['symfony'];
+  return true;
+}
+
+function detectElixir(projectDir: string, project: ProjectInfo): boolean {
+  const mix = readText(join(projectDir, 'mix.exs'));
+  if (mix === null) return false;
+
+  project.type = 'elixir';
+  project.runtime = 'beam';
+  project.buildTool = 'mix';
+  project.testRunner = 'exunit';
+  project.linter = /:credo\b/.test(mix) ? 'credo' : 'mix-format';
+  if (/:dialyxir\b/.test(mix)) project.typeChecker = 'dialyzer';
+  if (/:phoenix\b/.test(mix)) project.frameworks = ['phoenix'];
+  return true;
+}
+
+function detectZig(projectDir: string, project: ProjectInfo): boolean {
+  if (!existsSync(join(projectDir, 'build.zig'))) return false;
+
+  project.type = 'zig';
+  project.buildTool = 'zig';
+  project.testRunner = 'zig';
+  project.packageManagerVersion = matchInFile(join(projectDir, 'build.zig.zon'), /\.minimum_zig_version\s*=\s*"([^"]+)"/);
+  return true;
+}
+
+/** Makefile/justfile recipes named like verification steps */
+function detectTaskRunner(projectDir: string, project: ProjectInfo, rootFiles: string[]): void {
+  const justfile = rootFiles.find(file => /^\.?justfile$/i.test(file));
+  const makefile = rootFiles.find(file => file === 'Makefile' || file === 'makefile' || file === 'GNUmakefile');
+  const file = justfile ?? makefile;
+  if (!file) return;
+
+  const text = readText(join(projectDir, file)) ?? '';
+  // `target:` at line start; just recipes may take parameters (`test *args:`)
+  const targets = Array.from(text.matchAll(/^([\w-]+)(?:\s+[^:=\n]*)?:(?!=)/gm), match => match[1]);
+  const tasks = TASK_NAMES.filter(task => targets.includes(task));
+  if (tasks.length === 0) return;
+
+  project.buildTool = justfile ? 'just' : 'make';
+  project.tasks = tasks;
+}
+
+/** Fields describing how to build and check, as opposed to what the project is */
+const TOOLING_FIELDS = ['packageManagerVersion', 'testRunner', 'linter', 'typeChecker', 'tasks'] as const;
+
+/**
+ * Apply a language manifest's findings over package.json-derived ones.
+ * JS tooling (eslint, tsc, ...) does not carry over; frameworks accumulate.
+ */
+function applyLanguage(project: ProjectInfo, language: ProjectInfo): void {
+  for (const field of TOOLING_FIELDS) {
+    delete project[field];
+  }
+  const frameworks = [...(project.frameworks ?? []), ...(language.frameworks ?? [])];
+  Object.assign(project, language);
+  if (frameworks.length) project.frameworks = frameworks;
+}
+
+/**
+ * Infer project metadata (type, runtime, build tool, package manager version, test runner, linter,
+ * type checker, and frameworks) by inspecting common project files in the given directory.
+ *
+ * @param projectDir - Project root directory to inspect
+ * @returns An object containing detected fields such as `type`, `runtime`, `buildTool`, `testRunner`, and `frameworks` when identifiable
+ */
+export function detectProjectInfo(projectDir: string): ProjectInfo {
+  const project: ProjectInfo = {};
+  const rootFiles = listRootFiles(projectDir);
+
+  if (existsSync(join(projectDir, 'package.json'))) {
+    detectNode(projectDir, project);
+  } else {
+    detectDeno(projectDir, project);
+  }
+
+  const language: ProjectInfo = {};
+  if (
+    detectJvm(projectDir, language, rootFiles) ||
+    detectDotnet(projectDir, language, rootFiles) ||
+    detectRuby(projectDir, language) ||
+    detectPhp(projectDir, language) ||
+    detectElixir(projectDir, language) ||
+    detectZig(projectDir, language)
+  ) {
+    applyLanguage(project, language);
+  }
+
+  // Check for Cargo.toml (Rust)
+  if (existsSync(join(projectDir, 'Cargo.toml'))) {
+    applyLanguage(project, { type: 'rust', buildTool: 'cargo', testRunner: 'cargo', linter: 'clippy' });
+  }
+
+  // Check for go.mod (Go)
+  if (existsSync(join(projectDir, 'go.mod'))) {
+    applyLanguage(project, { type: 'go', buildTool: 'go', testRunner: 'go', linter: 'golangci-lint' });
+  }
+
+  // Check for pyproject.toml or requirements.txt (Python)
+  if (existsSync(join(projectDir, 'pyproject.toml'))) {
+    // uv is the modern default
+    applyLanguage(project, { type: 'python', buildTool: 'uv', testRunner: 'pytest', linter: 'ruff', typeChecker: 'mypy' });
+  } else if (existsSync(join(projectDir, 'requirements.txt'))) {
+    applyLanguage(project, { type: 'python', buildTool: 'pip', testRunner: 'pytest', typeChecker: 'mypy' });
+  }
+
+  if (!project.buildTool) {
+    detectTaskRunner(projectDir, project, rootFiles);
+  }
+  return project;
+}
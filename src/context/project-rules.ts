@@ -6,6 +6,7 @@
  * - CLAUDE.md: Legacy project rules (some projects use this)
  * - .setu/active.json: Current task and constraints
  * - .setu/context.json: Previous understanding
+ * - .setu/protected.json + AGENTS.md `setu-protected` block: protected globs
  * 
  * These are injected into the system prompt so Setu starts "informed"
  * rather than asking questions that documentation already answers.
@@ -16,6 +17,8 @@ import { join } from 'path';
 import { execSync } from 'child_process';
 import { debugLog, errorLog } from '../debug';
 import { isProtectedBranch } from '../constants';
+import { getSetuConfig } from '../config';
+import { loadProtectedPaths } from '../security/protected-files';
 import type { ActiveTask } from './types';
 
 // Re-export for convenience
@@ -47,6 +50,8 @@ export interface ProjectRules {
   contextSummary?: string;
   /** Git repository state */
   git?: GitState;
+  /** Globs the agent must never modify (protected-file manifest) */
+  protectedPaths?: string[];
 }
 
 /**
@@ -81,7 +86,7 @@ function detectGitState(projectDir: string): GitState {
       stdio: ['pipe', 'pipe', 'pipe'] // Suppress stderr
     }).trim();
     
-    const protectedBranch = isProtectedBranch(branch);
+    const protectedBranch = isProtectedBranch(branch, getSetuConfig().git.protectedBranches);
     
     debugLog(`Git: On branch '${branch}'${protectedBranch ? ' (PROTECTED)' : ''}`);
     
@@ -128,7 +133,8 @@ function readFileSafe(filePath: string, maxSize: number = MAX_FILE_SIZE): string
  * 1. AGENTS.md (project rules - highest priority)
  * 2. CLAUDE.md (legacy rules)
  * 3. .setu/active.json (current task)
- * 4. .setu/context.json (previous understanding)
+ * 4. Protected-file manifest
+ * 5. .setu/context.json (previous understanding)
  * 
  * @param projectDir - Project root directory
  * @returns ProjectRules object with loaded content
@@ -179,7 +185,14 @@ export function loadProjectRules(projectDir: string): ProjectRules {
     }
   }
   
-  // 4. Load .setu/context.json summary (previous understanding)
+  // 4. Protected-file manifest (.setu/protected.json + AGENTS.md fenced block)
+  const protectedPaths = loadProtectedPaths(projectDir);
+  if (protectedPaths.length > 0) {
+    rules.protectedPaths = protectedPaths;
+    debugLog(`Loaded ${protectedPaths.length} protected path glob(s)`);
+  }
+  
+  // 5. Load .setu/context.json summary (previous understanding)
   // Note: Full context is loaded by ContextCollector, we just need summary for rules
   const contextJsonPath = join(projectDir, '.setu', 'context.json');
   if (existsSync(contextJsonPath)) {
@@ -246,6 +259,13 @@ export function formatRulesForInjection(rules: ProjectRules): string {
     blocks.push(rules.claudeMd);
   }
   
+  // Protected files (enforced at hook level; listed so the agent plans around them)
+  if (rules.protectedPaths && rules.protectedPaths.length > 0) {
+    blocks.push('');
+    blocks.push('[PROTECTED FILES - NEVER MODIFY, MOVE, OR DELETE]');
+    blocks.push(rules.protectedPaths.map(p => `- ${p}`).join('\n'));
+  }
+  
   // Active task (CRITICAL - prevents going rogue after restart)
   if (rules.activeTask && rules.activeTask.status === 'in_progress') {
     blocks.push('');
@@ -293,6 +313,7 @@ export function hasProjectRules(rules: ProjectRules): boolean {
     rules.claudeMd ||
     rules.activeTask ||
     rules.contextSummary ||
-    rules.git
+    rules.git ||
+    rules.protectedPaths?.length
   );
 }
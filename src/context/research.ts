@@ -0,0 +1,200 @@
+/**
+ * Research quality gate: .setu/research-quality.json
+ *
+ * setu_research scores RESEARCH.md against the sections of the research
+ * contract (RESEARCH_SEMANTIC_REQUIREMENTS). Research below the configured
+ * minimum is saved but does not count for the gear: Setu stays in Scout
+ * until the research is completed.
+ *
+ * A section counts when it appears as a heading or `Label:` line with some
+ * substance under it; a thin section counts half. Research with no recorded
+ * file reads is flagged as evidence-free but not failed, since greenfield
+ * work may have nothing to read.
+ */
+
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { ensureSetuDir } from './storage';
+import { debugLog } from '../debug';
+import { getErrorMessage } from '../utils/error-handling';
+
+const RESEARCH_QUALITY_JSON = 'research-quality.json';
+
+/** Words under a section before it counts in full */
+const SUBSTANTIVE_SECTION_WORDS = 20;
+
+/** Contract sections research is scored on, matched against heading/label text */
+const RESEARCH_SECTIONS: Array<{ name: string; hint: string; aliases: RegExp }> = [
+  {
+    name: 'Intent & PRD',
+    hint: "what we're building and why",
+    aliases: /^(?:intent|prd|product requirements?|goals?|objective|purpose|problem)\b/,
+  },
+  {
+    name: 'Technical analysis',
+    hint: 'stack evaluation, library choices, version quirks',
+    aliases: /^(?:technical|tech stack|stack|architecture|implementation|codebase|current state|existing)\b/,
+  },
+  {
+    name: 'Alternatives & tradeoffs',
+    hint: 'options considered and why the chosen approach wins',
+    aliases: /^(?:alternatives?|trade-?offs?|options(?: considered)?|approaches)\b/,
+  },
+  {
+    name: 'Risks & failure modes',
+    hint: 'known limitations and mitigations',
+    aliases: /^(?:risks?|failure modes?|limitations?|pitfalls?|mitigations?)\b/,
+  },
+  {
+    name: 'Verification strategy',
+    hint: 'how to confirm this works',
+    aliases: /^(?:verification|testing|test (?:plan|strategy)|validation|how to (?:verify|confirm|test))\b/,
+  },
+  {
+    name: 'Assumptions to confirm',
+    hint: 'explicit assumptions that must be confirmed before execution',
+    aliases: /^(?:assumptions?|open decisions?|decisions|to confirm)\b/,
+  },
+];
+
+export type ResearchSectionStatus = 'covered' | 'thin' | 'missing';
+
+export interface ResearchSectionScore {
+  name: string;
+  hint: string;
+  status: ResearchSectionStatus;
+  words: number;
+}
+
+export interface ResearchQuality {
+  version: 1;
+  /** 0-100 */
+  score: number;
+  minimum: number;
+  passed: boolean;
+  sections: ResearchSectionScore[];
+  /** Files recorded in context.json filesRead when research was scored */
+  filesRead: number;
+  /** True when no file reads back the research */
+  evidenceFree: boolean;
+  scoredAt: string;
+}
+
+const HEADING_LINE = /^\s*#{1,6}\s/;
+
+/** Heading or label text of a line, lowercased, or null for body lines */
+function readLabel(line: string): string | null {
+  const isHeading = HEADING_LINE.test(line);
+  const text = line
+    .replace(/^\s*(?:#{1,6}\s+|[-*+]\s+|\d+[.)]\s+)?/, '')
+    .replace(/\*\*/g, '')
+    .replace(/^\d+[.)]\s+/, '')
+    .trim()
+    .toLowerCase();
+  if (isHeading) return text;
+  return /^[^:]{1,40}:/.test(text) ? text : null;
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(word => /\w/.test(word)).length;
+}
+
+/**
+ * Score research content against the contract sections.
+ *
+ * @param filesRead - Number of files recorded as read while researching
+ * @param minimum - Score (0-100) research needs to pass; 0 passes everything
+ */
+export function scoreResearch(content: string, filesRead: number, minimum: number): ResearchQuality {
+  const lines = content.split(/\r?\n/);
+  const labelled = lines.map(readLabel);
+
+  const sections = RESEARCH_SECTIONS.map(({ name, hint, aliases }): ResearchSectionScore => {
+    let words = 0;
+    let found = false;
+    for (const [index, label] of labelled.entries()) {
+      if (label === null || !aliases.test(label)) continue;
+      found = true;
+      // Inline text after the label plus body lines up to the next heading
+      words += countWords(label.replace(/^[^:]*:?/, ''));
+      for (const line of lines.slice(index + 1)) {
+        if (HEADING_LINE.test(line)) break;
+        const nested = readLabel(line);
+        if (nested !== null && RESEARCH_SECTIONS.some(section => section.aliases.test(nested))) break;
+        words += countWords(line);
+      }
+    }
+    const status: ResearchSectionStatus = !found ? 'missing' : words >= SUBSTANTIVE_SECTION_WORDS ? 'covered' : 'thin';
+    return { name, hint, status, words };
+  });
+
+  const points = sections.reduce((sum, section) => sum + (section.status === 'covered' ? 1 : section.status === 'thin' ? 0.5 : 0), 0);
+  const score = Math.round((points / sections.length) * 100);
+  return {
+    version: 1,
+    score,
+    minimum,
+    passed: score >= minimum,
+    sections,
+    filesRead,
+    evidenceFree: filesRead === 0,
+    scoredAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Scored report: score, one line per section, and the evidence flag.
+ */
+export function formatResearchQuality(quality: ResearchQuality): string {
+  const lines = [`**Research quality:** ${quality.score}/100 (minimum ${quality.minimum})`];
+  for (const section of quality.sections) {
+    if (section.status === 'covered') {
+      lines.push(`- [x] ${section.name}`);
+    } else if (section.status === 'thin') {
+      lines.push(`- [~] ${section.name}: thin (${section.words} words); expand on ${section.hint}`);
+    } else {
+      lines.push(`- [ ] ${section.name}: missing (${section.hint})`);
+    }
+  }
+  if (quality.evidenceFree) {
+    lines.push('', '⚠ Evidence-free: no files recorded as read (context.json filesRead is empty). Read the code this research is about.');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Store the latest research score.
+ */
+export function saveResearchQuality(projectDir: string, quality: ResearchQuality): void {
+  const setuDir = ensureSetuDir(projectDir);
+  const qualityPath = join(setuDir, RESEARCH_QUALITY_JSON);
+  const tempPath = `${qualityPath}.${process.pid}.tmp`;
+  writeFileSync(tempPath, JSON.stringify(quality, null, 2) + '\n', 'utf-8');
+  renameSync(tempPath, qualityPath);
+}
+
+/**
+ * Latest research score.
+ *
+ * @returns Score, or null when research was never scored (written by hand or
+ *          before the gate existed)
+ */
+export function loadResearchQuality(projectDir: string): ResearchQuality | null {
+  const qualityPath = join(projectDir, '.setu', RESEARCH_QUALITY_JSON);
+  if (!existsSync(qualityPath)) return null;
+  try {
+    const parsed = JSON.parse(readFileSync(qualityPath, 'utf-8')) as Partial<ResearchQuality>;
+    if (parsed.version !== 1 || typeof parsed.score !== 'number' || typeof parsed.passed !== 'boolean') return null;
+    return parsed as ResearchQuality;
+  } catch (error) {
+    debugLog(`Failed to load research-quality.json: ${getErrorMessage(error)}`);
+    return null;
+  }
+}
+
+/**
+ * Whether the saved research lets Setu leave Scout. Unscored research counts.
+ */
+export function isResearchAccepted(projectDir: string): boolean {
+  return loadResearchQuality(projectDir)?.passed ?? true;
+}
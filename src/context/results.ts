@@ -23,10 +23,21 @@ export interface StepResult {
   outputs: string[]; // Files created/modified
   summary: string;
   verification?: string; // How we verified
+  coverage?: string; // Changed-line coverage from the test run
+  criteria?: CriterionResult[]; // DONE WHEN criteria and their evidence
   timestamp: string;
   durationMs?: number;
 }
 
+export interface CriterionResult {
+  /** `<step>.<n>` */
+  id: string;
+  text: string;
+  met: boolean;
+  /** Evidence kind and what it showed, e.g. "command: `curl -sf localhost:4000` exit 0" */
+  evidence: string;
+}
+
 const VALID_STATUSES = ['completed', 'failed', 'skipped'] as const;
 type ValidStatus = typeof VALID_STATUSES[number];
 
@@ -83,6 +94,12 @@ function formatResultMarkdown(result: StepResult): string {
   const safeVerification = result.verification
     ? verificationSanitizer(result.verification)
     : undefined;
+  const safeCoverage = result.coverage
+    ? verificationSanitizer(result.coverage)
+    : undefined;
+  const criteriaList = (result.criteria ?? [])
+    .map((c) => `- [${c.met ? 'x' : ' '}] ${yamlSanitizer(c.id)} ${yamlSanitizer(c.text)} — ${yamlSanitizer(c.evidence)}`)
+    .join('\n');
 
   return `---
 step: ${result.step}
@@ -101,6 +118,14 @@ ${safeSummary}
 ${safeVerification ? `## Verification
 
 ${safeVerification}
+` : ''}${safeCoverage ? `
+## Coverage
+
+${safeCoverage}
+` : ''}${criteriaList ? `
+## Done When
+
+${criteriaList}
 ` : ''}`;
 }
 
@@ -140,6 +165,17 @@ function parseResultMarkdown(content: string): StepResult | null {
     // Extract verification
     const verificationMatch = body.match(/## Verification\n\n([\s\S]*?)(?=\n## |$)/);
 
+    // Extract coverage
+    const coverageMatch = body.match(/## Coverage\n\n([\s\S]*?)(?=\n## |$)/);
+
+    // Extract DONE WHEN criteria, one checklist line each
+    const criteriaMatch = body.match(/## Done When\n\n([\s\S]*?)(?=\n## |$)/);
+    const criteria = criteriaMatch?.[1]
+      .split('\n')
+      .map((l) => l.match(/^- \[([ x])\] (\d+\.\d+) (.*?) — (.*)$/))
+      .filter((m): m is RegExpMatchArray => m !== null)
+      .map((m) => ({ id: m[2], text: m[3], met: m[1] === 'x', evidence: m[4] }));
+
     return {
       step: parseInt(stepMatch?.[1] || '0'),
       status: parseStatus(statusMatch?.[1]),
@@ -149,6 +185,8 @@ function parseResultMarkdown(content: string): StepResult | null {
       objective: objectiveMatch?.[1]?.trim() || 'Unknown',
       summary: summaryMatch?.[1]?.trim() || '',
       verification: verificationMatch?.[1]?.trim(),
+      coverage: coverageMatch?.[1]?.trim(),
+      criteria,
     };
   } catch (error) {
     debugLog('Failed to parse step result markdown:', getErrorMessage(error));
@@ -160,7 +198,7 @@ function parseResultMarkdown(content: string): StepResult | null {
  * Enhanced truncation strategy for size limits
  * 
  * Priority order for truncation (least important first):
- * 1. Verification (can be truncated significantly - up to 90%)
+ * 1. Verification and coverage (can be truncated significantly - up to 90%)
  * 2. Summary (can be truncated moderately - up to 50%)
  * 3. Objective (truncate only as last resort - up to 20%)
  * 
@@ -173,10 +211,11 @@ function truncateResultToFit(result: StepResult, formattedContent: string, maxBy
   
   // Priority order for truncation (least important first)
   const truncatePhases: Array<{
-    field: 'verification' | 'summary' | 'objective';
+    field: 'verification' | 'coverage' | 'summary' | 'objective';
     maxReduction: number;
   }> = [
     { field: 'verification', maxReduction: 0.9 }, // Up to 90%
+    { field: 'coverage', maxReduction: 0.9 },
     { field: 'summary', maxReduction: 0.5 },      // Up to 50%
     { field: 'objective', maxReduction: 0.2 },    // Up to 20%
   ];
@@ -214,6 +253,9 @@ function truncateResultToFit(result: StepResult, formattedContent: string, maxBy
       case 'verification':
         truncatedResult.verification = fieldValue.slice(0, newLength) + '\n[TRUNCATED]';
         break;
+      case 'coverage':
+        truncatedResult.coverage = fieldValue.slice(0, newLength) + '\n[TRUNCATED]';
+        break;
       case 'summary':
         truncatedResult.summary = fieldValue.slice(0, newLength) + '\n[TRUNCATED]';
         break;
@@ -228,7 +270,7 @@ function truncateResultToFit(result: StepResult, formattedContent: string, maxBy
   if (Buffer.byteLength(currentContent, 'utf8') > maxBytes) {
     throw new Error(
       `Step result exceeds ${maxBytes} bytes limit (${Buffer.byteLength(currentContent, 'utf8')} bytes) even after truncation. ` +
-      'Consider reducing the size of the objective, summary, or verification fields.'
+      'Consider reducing the size of the objective, summary, verification, or coverage fields.'
     );
   }
   
@@ -296,7 +338,7 @@ export function readStepResult(projectDir: string, step: number): StepResult | n
 }
 
 /**
- * List all completed steps (sorted)
+ * List all completed steps (sorted). Failed and skipped results do not count.
  */
 export function listCompletedSteps(projectDir: string): number[] {
   validateProjectDir(projectDir);
@@ -307,7 +349,7 @@ export function listCompletedSteps(projectDir: string): number[] {
     return readdirSync(dir)
       .filter((f) => /^step-\d+\.md$/.test(f))
       .map((f) => parseInt(f.match(/step-(\d+)/)?.[1] || '0'))
-      .filter((n) => n > 0)
+      .filter((n) => n > 0 && readStepResult(projectDir, n)?.status === 'completed')
       .sort((a, b) => a - b);
   } catch (error) {
     debugLog(`Failed to list completed steps from ${dir}:`, getErrorMessage(error));
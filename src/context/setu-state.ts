@@ -1,4 +1,5 @@
 import { errorLog } from '../debug';
+import { getSetuConfig } from '../config';
 
 /**
  * Discipline guards - safety mechanisms that can activate at any gear.
@@ -32,8 +33,6 @@ export interface OverwriteRequirementState {
 
 const sessionStates = new Map<string, SetuDisciplineState>();
 const overwriteRequirements = new Map<string, OverwriteRequirementState>();
-const STATE_TTL_MS = 30 * 60 * 1000;
-const OVERWRITE_REQUIREMENT_TTL_MS = 10 * 60 * 1000;
 
 function isStale(updatedAt: number, ttlMs: number): boolean {
   return Date.now() - updatedAt > ttlMs;
@@ -41,7 +40,7 @@ function isStale(updatedAt: number, ttlMs: number): boolean {
 
 export function getDisciplineState(sessionID: string): SetuDisciplineState {
   const state = sessionStates.get(sessionID);
-  if (!state || isStale(state.updatedAt, STATE_TTL_MS)) {
+  if (!state || isStale(state.updatedAt, getSetuConfig().ttl.disciplineStateMs)) {
     // Preserve safetyBlocked across TTL expiry — safety decisions
     // must be explicitly cleared, never silently lapsed
     const preservedSafetyBlocked = state?.safetyBlocked ?? false;
@@ -139,7 +138,7 @@ export function getPendingSafetyConfirmation(sessionID: string): PendingSafetyCo
     return null;
   }
 
-  if (isStale(pending.updatedAt, STATE_TTL_MS)) {
+  if (isStale(pending.updatedAt, getSetuConfig().ttl.disciplineStateMs)) {
     sessionStates.set(sessionID, {
       ...state,
       pendingSafetyConfirmation: undefined,
@@ -225,7 +224,7 @@ export function getOverwriteRequirement(sessionID: string): OverwriteRequirement
     return null;
   }
 
-  if (isStale(state.createdAt, OVERWRITE_REQUIREMENT_TTL_MS)) {
+  if (isStale(state.createdAt, getSetuConfig().ttl.overwriteRequirementMs)) {
     overwriteRequirements.delete(sessionID);
     return null;
   }
@@ -0,0 +1,403 @@
+/**
+ * Safety snapshots: capture the working tree before an approved risky action.
+ *
+ * Each snapshot lives in .setu/snapshots/<id>/:
+ * - snapshot.json: metadata (action, reasons, HEAD, pinned ref, copied files)
+ * - files/<path>: copies of untracked files the action could affect
+ *
+ * Tracked files are captured with `git stash create`, which records the
+ * working tree as a commit without touching it. The commit (or HEAD, when
+ * the tree is clean) is pinned under refs/setu/snapshots/<id> so git gc
+ * keeps it until the snapshot is pruned.
+ *
+ * Restore writes back only what the action could have changed: the paths
+ * it named, or, when it names none (git reset --hard, git clean), the files
+ * that had uncommitted changes. Later work elsewhere in the tree is kept.
+ */
+
+import { copyFileSync, existsSync, lstatSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { randomBytes } from 'crypto';
+import { ensureSetuDir } from './storage';
+import { debugLog } from '../debug';
+import { getErrorMessage } from '../utils/error-handling';
+import { isGitWorkTree, runGit } from '../utils/git';
+import { toProjectRelativePath } from '../utils/glob';
+import { validateProjectDir } from '../utils/path-validation';
+import { removeControlChars } from '../utils/sanitization';
+
+const SNAPSHOTS_DIR = 'snapshots';
+const SNAPSHOT_JSON = 'snapshot.json';
+const FILES_DIR = 'files';
+const SNAPSHOT_REF_PREFIX = 'refs/setu/snapshots/';
+const SNAPSHOT_ID_PATTERN = /^\d{8}T\d{6}-[0-9a-f]{6}$/;
+
+/** Retention and size limits keep snapshots cheap enough to take on every approval */
+const MAX_SNAPSHOTS = 20;
+const MAX_SNAPSHOT_FILES = 500;
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+const MAX_TOTAL_BYTES = 50 * 1024 * 1024;
+const MAX_ACTION_LENGTH = 500;
+
+export interface Snapshot {
+  id: string;
+  createdAt: string;
+  tool: string;
+  /** Command or file path that prompted the snapshot */
+  action: string;
+  reasons: string[];
+  sessionId?: string;
+  /** HEAD commit when the snapshot was taken (git projects only) */
+  head?: string;
+  /** Ref pinning the captured tree; absent outside git or in a repo with no commits */
+  ref?: string;
+  /** Whether tracked files had uncommitted changes (ref points at a stash commit) */
+  dirty: boolean;
+  /** Project-relative paths restore checks out from the ref */
+  paths: string[];
+  /** Project-relative paths copied into files/ */
+  files: string[];
+  /** Files left out because of size or count limits */
+  skipped: number;
+}
+
+export interface SnapshotInput {
+  tool: string;
+  action: string;
+  reasons: string[];
+  sessionId?: string;
+  /** Paths the action may modify; untracked files beneath them are copied */
+  paths: string[];
+  /** Snapshot IDs that must survive pruning (e.g. one about to be restored) */
+  keep?: string[];
+}
+
+export interface RestoreResult {
+  snapshot: Snapshot;
+  /** True when tracked files were restored from the pinned ref */
+  trackedRestored: boolean;
+  /** Tracked files written back from the ref */
+  trackedFiles: string[];
+  restoredFiles: number;
+  /** Current HEAD when it no longer matches the snapshot's HEAD */
+  currentHead?: string;
+}
+
+function getSnapshotsDir(projectDir: string): string {
+  return join(ensureSetuDir(projectDir), SNAPSHOTS_DIR);
+}
+
+function createSnapshotId(now: Date): string {
+  const stamp = now.toISOString().replace(/[-:]/g, '').slice(0, 15);
+  return `${stamp}-${randomBytes(3).toString('hex')}`;
+}
+
+function isSetuOrGitPath(relativePath: string): boolean {
+  return /^(?:\.setu|\.git)(?:\/|$)/.test(relativePath);
+}
+
+/** Untracked files under the given paths, or all non-ignored untracked files when none are known */
+function listUntrackedFiles(projectDir: string, relativePaths: string[]): string[] {
+  const args = relativePaths.length > 0
+    ? ['ls-files', '-z', '--others', '--', ...relativePaths]
+    : ['ls-files', '-z', '--others', '--exclude-standard'];
+  const output = runGit(projectDir, args);
+  return output ? output.split('\0').filter(Boolean) : [];
+}
+
+/** NUL-separated git output as a list */
+function splitGitPaths(output: string | null): string[] {
+  return output ? output.split('\0').filter(Boolean) : [];
+}
+
+/** Tracked files whose working-tree copy differs from HEAD, as captured in the stash commit */
+function listChangedTrackedFiles(projectDir: string, head: string | undefined, stash: string | undefined): string[] {
+  if (!head || !stash) return [];
+  return splitGitPaths(runGit(projectDir, ['diff', '--name-only', '-z', '--relative', head, stash]))
+    .filter(path => !isSetuOrGitPath(path));
+}
+
+/** Non-git fallback: walk the given paths, stopping once the file limit is reached */
+function walkFiles(projectDir: string, relativePaths: string[]): string[] {
+  const files: string[] = [];
+  const queue = [...relativePaths];
+
+  while (queue.length > 0 && files.length <= MAX_SNAPSHOT_FILES) {
+    const relativePath = queue.shift() as string;
+    try {
+      const stats = lstatSync(join(projectDir, relativePath));
+      if (stats.isFile()) {
+        files.push(relativePath);
+      } else if (stats.isDirectory()) {
+        for (const entry of readdirSync(join(projectDir, relativePath))) {
+          queue.push(`${relativePath}/${entry}`);
+        }
+      }
+    } catch {
+      // Path does not exist yet - nothing to preserve
+    }
+  }
+
+  return files;
+}
+
+function copyIntoSnapshot(projectDir: string, snapshotDir: string, candidates: string[]): { files: string[]; skipped: number } {
+  const files: string[] = [];
+  let skipped = 0;
+  let totalBytes = 0;
+
+  for (const relativePath of candidates) {
+    if (isSetuOrGitPath(relativePath)) continue;
+
+    try {
+      const source = join(projectDir, relativePath);
+      const stats = lstatSync(source);
+      if (!stats.isFile()) continue;
+
+      if (
+        files.length >= MAX_SNAPSHOT_FILES ||
+        stats.size > MAX_FILE_BYTES ||
+        totalBytes + stats.size > MAX_TOTAL_BYTES
+      ) {
+        skipped++;
+        continue;
+      }
+
+      const destination = join(snapshotDir, FILES_DIR, relativePath);
+      mkdirSync(dirname(destination), { recursive: true });
+      copyFileSync(source, destination);
+      files.push(relativePath);
+      totalBytes += stats.size;
+    } catch (error) {
+      debugLog(`Snapshot: could not copy ${relativePath}: ${getErrorMessage(error)}`);
+      skipped++;
+    }
+  }
+
+  return { files, skipped };
+}
+
+function isSafeRelativePath(value: unknown): value is string {
+  return (
+    typeof value === 'string' &&
+    value.length > 0 &&
+    !value.startsWith('/') &&
+    !/^[A-Za-z]:/.test(value) &&
+    !value.split(/[\\/]/).includes('..')
+  );
+}
+
+function parseSnapshot(raw: unknown, id: string): Snapshot | null {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+  const data = raw as Record<string, unknown>;
+
+  if (data.id !== id || typeof data.createdAt !== 'string' || typeof data.tool !== 'string') {
+    return null;
+  }
+  // SECURITY: Snapshot files are written back on restore - reject anything escaping the project
+  if (!Array.isArray(data.files) || !data.files.every(isSafeRelativePath)) {
+    return null;
+  }
+  if (data.paths !== undefined && (!Array.isArray(data.paths) || !data.paths.every(isSafeRelativePath))) {
+    return null;
+  }
+  if (data.ref !== undefined && data.ref !== `${SNAPSHOT_REF_PREFIX}${id}`) {
+    return null;
+  }
+
+  return {
+    id,
+    createdAt: data.createdAt,
+    tool: data.tool,
+    action: typeof data.action === 'string' ? data.action : '',
+    reasons: Array.isArray(data.reasons) ? data.reasons.filter((r): r is string => typeof r === 'string') : [],
+    sessionId: typeof data.sessionId === 'string' ? data.sessionId : undefined,
+    head: typeof data.head === 'string' ? data.head : undefined,
+    ref: typeof data.ref === 'string' ? data.ref : undefined,
+    dirty: data.dirty === true,
+    paths: Array.isArray(data.paths) ? data.paths : [],
+    files: data.files,
+    skipped: typeof data.skipped === 'number' ? data.skipped : 0,
+  };
+}
+
+/**
+ * Load one snapshot's metadata.
+ *
+ * @returns Snapshot, or null if the ID is malformed or the metadata is missing/invalid
+ */
+export function loadSnapshot(projectDir: string, id: string): Snapshot | null {
+  if (!SNAPSHOT_ID_PATTERN.test(id)) return null;
+
+  const metadataPath = join(projectDir, '.setu', SNAPSHOTS_DIR, id, SNAPSHOT_JSON);
+  if (!existsSync(metadataPath)) return null;
+
+  try {
+    return parseSnapshot(JSON.parse(readFileSync(metadataPath, 'utf-8')), id);
+  } catch (error) {
+    debugLog(`Failed to read snapshot ${id}: ${getErrorMessage(error)}`);
+    return null;
+  }
+}
+
+/**
+ * List snapshots, newest first. Directories without valid metadata
+ * (e.g. an interrupted capture) are ignored.
+ */
+export function listSnapshots(projectDir: string): Snapshot[] {
+  const snapshotsDir = join(projectDir, '.setu', SNAPSHOTS_DIR);
+  if (!existsSync(snapshotsDir)) return [];
+
+  return readdirSync(snapshotsDir)
+    .filter(id => SNAPSHOT_ID_PATTERN.test(id))
+    .sort()
+    .reverse()
+    .map(id => loadSnapshot(projectDir, id))
+    .filter((snapshot): snapshot is Snapshot => snapshot !== null);
+}
+
+function deleteSnapshot(projectDir: string, id: string): void {
+  runGit(projectDir, ['update-ref', '-d', `${SNAPSHOT_REF_PREFIX}${id}`]);
+  rmSync(join(projectDir, '.setu', SNAPSHOTS_DIR, id), { recursive: true, force: true });
+}
+
+function pruneSnapshots(projectDir: string, keep: readonly string[]): void {
+  const snapshotsDir = join(projectDir, '.setu', SNAPSHOTS_DIR);
+  const ids = readdirSync(snapshotsDir).filter(id => SNAPSHOT_ID_PATTERN.test(id) && !keep.includes(id)).sort();
+  for (const id of ids.slice(0, Math.max(0, ids.length - MAX_SNAPSHOTS))) {
+    deleteSnapshot(projectDir, id);
+  }
+}
+
+/**
+ * Capture the working tree before a risky action runs.
+ *
+ * Never modifies the working tree or index. Oldest snapshots beyond
+ * MAX_SNAPSHOTS are pruned along with their refs.
+ *
+ * @throws Error if projectDir is invalid or the snapshot cannot be written
+ */
+export function createSnapshot(projectDir: string, input: SnapshotInput, now: Date = new Date()): Snapshot {
+  validateProjectDir(projectDir);
+
+  const id = createSnapshotId(now);
+  const snapshotDir = join(getSnapshotsDir(projectDir), id);
+  mkdirSync(snapshotDir, { recursive: true });
+
+  const relativePaths = input.paths
+    .map(path => toProjectRelativePath(projectDir, path))
+    .filter((path): path is string => path !== null && !isSetuOrGitPath(path));
+
+  let head: string | undefined;
+  let ref: string | undefined;
+  let dirty = false;
+  let paths = relativePaths;
+  let candidates: string[];
+
+  if (isGitWorkTree(projectDir)) {
+    head = runGit(projectDir, ['rev-parse', '--verify', 'HEAD']) || undefined;
+    const stash = runGit(projectDir, ['stash', 'create', `setu snapshot ${id}`]) || undefined;
+    dirty = stash !== undefined;
+
+    const pinned = stash ?? head;
+    if (pinned && runGit(projectDir, ['update-ref', `${SNAPSHOT_REF_PREFIX}${id}`, pinned]) !== null) {
+      ref = `${SNAPSHOT_REF_PREFIX}${id}`;
+    }
+    if (relativePaths.length === 0) {
+      paths = listChangedTrackedFiles(projectDir, head, stash);
+    }
+    candidates = listUntrackedFiles(projectDir, relativePaths);
+  } else {
+    candidates = walkFiles(projectDir, relativePaths);
+  }
+
+  const { files, skipped } = copyIntoSnapshot(projectDir, snapshotDir, candidates);
+
+  const snapshot: Snapshot = {
+    id,
+    createdAt: now.toISOString(),
+    tool: input.tool,
+    action: removeControlChars(input.action).slice(0, MAX_ACTION_LENGTH),
+    reasons: input.reasons,
+    sessionId: input.sessionId,
+    head,
+    ref,
+    dirty,
+    paths,
+    files,
+    skipped,
+  };
+
+  // Metadata is written last: a snapshot without snapshot.json is never listed
+  writeFileSync(join(snapshotDir, SNAPSHOT_JSON), JSON.stringify(snapshot, null, 2), 'utf-8');
+  debugLog(`Snapshot ${id}: ref=${ref ?? 'none'}, files=${files.length}, skipped=${skipped}`);
+
+  try {
+    pruneSnapshots(projectDir, input.keep ?? []);
+  } catch (error) {
+    debugLog(`Snapshot pruning failed: ${getErrorMessage(error)}`);
+  }
+
+  return snapshot;
+}
+
+/**
+ * Restore a snapshot into the working tree.
+ *
+ * The snapshot's paths are checked out from the pinned ref (HEAD and the
+ * index are left alone); copied untracked files are written back. Other
+ * files, including ones created after the snapshot, are not touched.
+ *
+ * @throws Error if the snapshot is unknown or its tracked state cannot be restored
+ */
+export function restoreSnapshot(projectDir: string, id: string): RestoreResult {
+  validateProjectDir(projectDir);
+
+  const snapshot = loadSnapshot(projectDir, id);
+  if (!snapshot) {
+    throw new Error(`Snapshot "${id}" not found.`);
+  }
+
+  let trackedRestored = false;
+  let trackedFiles: string[] = [];
+  let currentHead: string | undefined;
+
+  if (snapshot.ref) {
+    if (runGit(projectDir, ['rev-parse', '--verify', '--quiet', `${snapshot.ref}^{commit}`]) === null) {
+      throw new Error(`Snapshot "${id}" ref ${snapshot.ref} is missing; tracked files cannot be restored.`);
+    }
+
+    // Paths the ref does not have (files the action created) are left alone
+    trackedFiles = snapshot.paths.length > 0
+      ? splitGitPaths(runGit(projectDir, ['ls-tree', '-r', '-z', '--name-only', snapshot.ref, '--', ...snapshot.paths]))
+      : [];
+    if (trackedFiles.length > 0) {
+      const restored =
+        runGit(projectDir, ['restore', `--source=${snapshot.ref}`, '--worktree', '--', ...trackedFiles]) ??
+        runGit(projectDir, ['checkout', snapshot.ref, '--', ...trackedFiles]);
+      if (restored === null) {
+        throw new Error(`Failed to restore tracked files from ${snapshot.ref}.`);
+      }
+    }
+    trackedRestored = true;
+
+    const head = runGit(projectDir, ['rev-parse', '--verify', 'HEAD']) ?? undefined;
+    if (snapshot.head && head !== snapshot.head) {
+      currentHead = head;
+    }
+  }
+
+  const filesDir = join(projectDir, '.setu', SNAPSHOTS_DIR, id, FILES_DIR);
+  let restoredFiles = 0;
+  for (const relativePath of snapshot.files) {
+    const source = join(filesDir, relativePath);
+    if (!existsSync(source)) continue;
+
+    const destination = join(projectDir, relativePath);
+    mkdirSync(dirname(destination), { recursive: true });
+    copyFileSync(source, destination);
+    restoredFiles++;
+  }
+
+  return { snapshot, trackedRestored, trackedFiles, restoredFiles, currentHead };
+}
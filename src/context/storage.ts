@@ -477,93 +477,3 @@ export function logVerification(
   
   appendFileSync(logPath, entry, 'utf-8');
 }
-
-/**
- * Infer project metadata (type, runtime, build tool, test framework, and frameworks) by inspecting common project files in the given directory.
- *
- * @param projectDir - Project root directory to inspect
- * @returns An object containing detected fields such as `type`, `runtime`, `buildTool`, `testFramework`, and `frameworks` when identifiable
- */
-export function detectProjectInfo(projectDir: string): SetuContext['project'] {
-  const project: SetuContext['project'] = {};
-  
-  // Check for package.json (Node.js/JavaScript/TypeScript)
-  const pkgPath = join(projectDir, 'package.json');
-  if (existsSync(pkgPath)) {
-    try {
-      const pkg = JSON.parse(readFileSync(pkgPath, 'utf-8'));
-      
-      // Detect runtime
-      if (pkg.devDependencies?.['bun-types'] || existsSync(join(projectDir, 'bun.lockb'))) {
-        project.runtime = 'bun';
-      } else if (existsSync(join(projectDir, 'deno.json')) || existsSync(join(projectDir, 'deno.jsonc'))) {
-        project.runtime = 'deno';
-      } else {
-        project.runtime = 'node';
-      }
-      
-      // Detect type
-      if (pkg.devDependencies?.typescript || existsSync(join(projectDir, 'tsconfig.json'))) {
-        project.type = 'typescript';
-      } else {
-        project.type = 'javascript';
-      }
-      
-      // Detect build tool
-      if (existsSync(join(projectDir, 'pnpm-lock.yaml'))) {
-        project.buildTool = 'pnpm';
-      } else if (existsSync(join(projectDir, 'yarn.lock'))) {
-        project.buildTool = 'yarn';
-      } else if (existsSync(join(projectDir, 'bun.lockb'))) {
-        project.buildTool = 'bun';
-      } else if (existsSync(join(projectDir, 'package-lock.json'))) {
-        project.buildTool = 'npm';
-      }
-      
-      // Detect test framework
-      const deps = { ...pkg.dependencies, ...pkg.devDependencies };
-      if (deps.vitest) project.testFramework = 'vitest';
-      else if (deps.jest) project.testFramework = 'jest';
-      else if (deps.mocha) project.testFramework = 'mocha';
-      else if (deps.ava) project.testFramework = 'ava';
-      
-      // Detect frameworks
-      const frameworks: string[] = [];
-      if (deps.react) frameworks.push('react');
-      if (deps.vue) frameworks.push('vue');
-      if (deps.svelte) frameworks.push('svelte');
-      if (deps.express) frameworks.push('express');
-      if (deps.fastify) frameworks.push('fastify');
-      if (deps.next) frameworks.push('next');
-      if (deps.nuxt) frameworks.push('nuxt');
-      if (deps.hono) frameworks.push('hono');
-      if (frameworks.length) project.frameworks = frameworks;
-      
-    } catch {
-      // Ignore parse errors
-    }
-  }
-  
-  // Check for Cargo.toml (Rust)
-  if (existsSync(join(projectDir, 'Cargo.toml'))) {
-    project.type = 'rust';
-    project.buildTool = 'cargo';
-  }
-  
-  // Check for go.mod (Go)
-  if (existsSync(join(projectDir, 'go.mod'))) {
-    project.type = 'go';
-    project.buildTool = 'go';
-  }
-  
-  // Check for pyproject.toml or requirements.txt (Python)
-  if (existsSync(join(projectDir, 'pyproject.toml'))) {
-    project.type = 'python';
-    project.buildTool = 'uv'; // Modern default
-  } else if (existsSync(join(projectDir, 'requirements.txt'))) {
-    project.type = 'python';
-    project.buildTool = 'pip';
-  }
-  
-  return project;
-}
@@ -0,0 +1,105 @@
+/**
+ * Subagent sessions: parent → child lineage
+ *
+ * The task tool runs a subagent in a child session under its own agent
+ * name. A child of a Setu session is held to the same gates as its parent
+ * (hydration, constraints, path and secrets checks, gears, file leases),
+ * while the setu_* tools stay with the parent.
+ *
+ * A child works in one plan step: the step its task prompt named, queued
+ * when the parent called task and taken when the child session is created.
+ * Without one it follows the step in progress.
+ */
+
+import { debugLog } from '../debug';
+
+/** Ancestors walked before giving up (guards against a parent cycle) */
+const MAX_LINEAGE_DEPTH = 8;
+
+/** Handed-off steps kept per parent while their child sessions start */
+const MAX_PENDING_HANDOFFS = 20;
+
+export interface SubagentSession {
+  parentId: string;
+  /** Plan step handed to the subagent */
+  step?: number;
+  createdAt: number;
+}
+
+const subagentSessions = new Map<string, SubagentSession>();
+const pendingHandoffs = new Map<string, Array<number | undefined>>();
+
+/**
+ * Queue the plan step of a task call; the next child session of the parent
+ * takes it. `undefined` queues a task that names no step.
+ */
+export function queueStepHandoff(parentId: string, step: number | undefined): void {
+  const queue = pendingHandoffs.get(parentId) ?? [];
+  queue.push(step);
+  pendingHandoffs.set(parentId, queue.slice(-MAX_PENDING_HANDOFFS));
+}
+
+/**
+ * Record a child session and give it the oldest step its parent handed off.
+ */
+export function recordSubagentSession(sessionId: string, parentId: string): SubagentSession {
+  const queue = pendingHandoffs.get(parentId);
+  const step = queue?.shift();
+  if (queue && queue.length === 0) pendingHandoffs.delete(parentId);
+
+  const session: SubagentSession = {
+    parentId,
+    ...(step !== undefined ? { step } : {}),
+    createdAt: Date.now(),
+  };
+  subagentSessions.set(sessionId, session);
+  debugLog(`Subagent session ${sessionId} of ${parentId}${step !== undefined ? ` (Step ${step})` : ''}`);
+  return session;
+}
+
+export function getSubagentSession(sessionId: string): SubagentSession | null {
+  return subagentSessions.get(sessionId) ?? null;
+}
+
+/**
+ * Forget a session as a child and as a parent.
+ */
+export function clearSubagentSession(sessionId: string): void {
+  subagentSessions.delete(sessionId);
+  pendingHandoffs.delete(sessionId);
+}
+
+/**
+ * Nearest ancestor session running the Setu agent.
+ *
+ * @param getSessionAgent - Agent of a session, or null when unknown
+ * @returns Ancestor session ID, or null for a root session or one outside Setu
+ */
+export function findSetuAncestor(
+  sessionId: string,
+  getSessionAgent: (sessionID?: string) => string | null
+): string | null {
+  let current = subagentSessions.get(sessionId);
+  for (let depth = 0; current && depth < MAX_LINEAGE_DEPTH; depth++) {
+    if (getSessionAgent(current.parentId) === 'setu') return current.parentId;
+    current = subagentSessions.get(current.parentId);
+  }
+  return null;
+}
+
+function isAncestorSession(ancestorId: string, sessionId: string): boolean {
+  let current = subagentSessions.get(sessionId);
+  for (let depth = 0; current && depth < MAX_LINEAGE_DEPTH; depth++) {
+    if (current.parentId === ancestorId) return true;
+    current = subagentSessions.get(current.parentId);
+  }
+  return false;
+}
+
+/**
+ * Whether two sessions are one, or one descends from the other. A session
+ * and the subagents it started work as one owner; siblings do not.
+ */
+export function isSameLineage(sessionId: string, otherId: string): boolean {
+  return sessionId === otherId || isAncestorSession(sessionId, otherId) || isAncestorSession(otherId, sessionId);
+}
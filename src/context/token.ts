@@ -13,6 +13,7 @@
 
 import type { PluginInput } from '@opencode-ai/plugin';
 import { debugLog, errorLog } from '../debug';
+import { getSetuConfig } from '../config';
 
 /**
  * Token usage status for a session.
@@ -27,9 +28,10 @@ export interface TokenStatus {
 }
 
 /**
- * Token thresholds for warnings.
+ * Default token thresholds for warnings.
  * 
  * Based on research showing LLM quality degrades after ~50K tokens.
+ * Overridable via `tokens` in .setu/config.json.
  */
 export const TOKEN_THRESHOLDS = {
   /** Proactive warning - suggest clearing after task */
@@ -162,9 +164,10 @@ export async function getTokenStatus(
  * @returns Severity level
  */
 export function getTokenSeverity(percentage: number): TokenSeverity {
-  if (percentage >= TOKEN_THRESHOLDS.EMERGENCY) return 'emergency';
-  if (percentage >= TOKEN_THRESHOLDS.CRITICAL) return 'critical';
-  if (percentage >= TOKEN_THRESHOLDS.WARNING) return 'warning';
+  const thresholds = getSetuConfig().tokens;
+  if (percentage >= thresholds.emergency) return 'emergency';
+  if (percentage >= thresholds.critical) return 'critical';
+  if (percentage >= thresholds.warning) return 'warning';
   return 'ok';
 }
 
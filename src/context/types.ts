@@ -39,6 +39,25 @@ export const CONSTRAINT_TYPES = {
  */
 export type ConstraintType = typeof CONSTRAINT_TYPES[keyof typeof CONSTRAINT_TYPES];
 
+/**
+ * Parameterized constraints scoped by glob patterns (project-relative).
+ * 
+ * - NO_EDIT: paths matching any glob must not be modified
+ * - ONLY_EDIT: only paths matching a glob may be modified
+ */
+export const PATH_CONSTRAINT_TYPES = {
+  NO_EDIT: 'NO_EDIT',
+  ONLY_EDIT: 'ONLY_EDIT',
+} as const;
+
+export type PathConstraintType = typeof PATH_CONSTRAINT_TYPES[keyof typeof PATH_CONSTRAINT_TYPES];
+
+/**
+ * Path constraint map persisted in active.json.
+ * Example: { NO_EDIT: ["src/legacy/**"], ONLY_EDIT: ["packages/api/**"] }
+ */
+export type PathConstraints = Partial<Record<PathConstraintType, string[]>>;
+
 /**
  * Task status for active task tracking.
  */
@@ -58,6 +77,8 @@ export interface ActiveTask {
   task: string;
   /** Active constraints (e.g., READ_ONLY, NO_PUSH) */
   constraints: ConstraintType[];
+  /** Path-scoped constraints (e.g., NO_EDIT: ["migrations/**"]) */
+  pathConstraints?: PathConstraints;
   /** Optional reference URLs or file paths */
   references?: string[];
   /** ISO timestamp when task started */
@@ -67,9 +88,14 @@ export interface ActiveTask {
   
   /** Progress tracking for JIT context */
   progress?: {
-    lastCompletedStep: number;    // e.g., 3 means Step 3 is done, do Step 4 next
+    lastCompletedStep: number;    // Most recently completed step, e.g. 3
     lastCompletedAt: string;      // ISO timestamp for debugging
+    /** Completed plan step ids; steps may complete out of order. Absent in older files: steps 1..lastCompletedStep */
+    completedSteps?: number[];
   };
+
+  /** When work on each unresolved plan step started (setu_step start), by step id */
+  stepStarts?: Record<string, string>;
   
   /** Learning persistence (prevents ghost loops) */
   learnings?: {
@@ -90,10 +116,20 @@ export interface ProjectInfo {
   type?: string;
   /** Runtime (node, bun, deno, python, etc.) */
   runtime?: string;
-  /** Build tool (npm, pnpm, yarn, bun, cargo, etc.) */
+  /** Build tool (npm, pnpm, yarn, bun, cargo, gradle, dotnet, bundler, make, etc.) */
   buildTool?: string;
+  /** Pinned build tool version (package.json packageManager, Gradle/Maven wrapper, Gemfile.lock, global.json) */
+  packageManagerVersion?: string;
   /** Test framework if detected */
   testFramework?: string;
+  /** Tool that runs the tests (vitest, pytest, rspec, junit, xunit, exunit, etc.) */
+  testRunner?: string;
+  /** Linter if detected (eslint, rubocop, php-cs-fixer, credo, etc.) */
+  linter?: string;
+  /** Type checker if detected (tsc, mypy, phpstan, sorbet, dialyzer, etc.) */
+  typeChecker?: string;
+  /** Makefile/justfile targets or deno.json tasks named like verification steps */
+  tasks?: string[];
   /** Detected frameworks (react, express, fastify, etc.) */
   frameworks?: string[];
 }
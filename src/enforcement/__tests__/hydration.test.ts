@@ -14,7 +14,7 @@ describe('hydration bash safety parsing', () => {
   });
 
   test('rejects shell injection vectors', () => {
-    expect(isReadOnlyBashCommand('ls | cat')).toBe(false);
+    expect(isReadOnlyBashCommand('ls | sh')).toBe(false);
     expect(isReadOnlyBashCommand('$(rm -rf /)')).toBe(false);
     expect(isReadOnlyBashCommand('`rm -rf /`')).toBe(false);
     expect(isReadOnlyBashCommand('(rm -rf /)')).toBe(false);
@@ -29,6 +29,65 @@ describe('hydration bash safety parsing', () => {
     expect(isReadOnlyBashCommand('pwd')).toBe(true);
   });
 
+  test('accepts pipelines where every stage is read-only', () => {
+    expect(isReadOnlyBashCommand('grep foo src/a.ts | head -5')).toBe(true);
+    expect(isReadOnlyBashCommand('ls | cat')).toBe(true);
+    expect(isReadOnlyBashCommand('git log --oneline 2>/dev/null | head')).toBe(true);
+    expect(isReadOnlyBashCommand('grep -rl foo src | xargs rm')).toBe(false);
+  });
+
+  test('applies per-command flag rules', () => {
+    expect(isReadOnlyBashCommand("find . -name '*.ts' -exec grep -l foo {} +")).toBe(true);
+    expect(isReadOnlyBashCommand('find . -name "*.tmp" -delete')).toBe(false);
+    expect(isReadOnlyBashCommand('find . -exec rm {} \\;')).toBe(false);
+    expect(isReadOnlyBashCommand('git branch -a')).toBe(true);
+    expect(isReadOnlyBashCommand('git branch feature/x')).toBe(false);
+    expect(isReadOnlyBashCommand('git -C repo branch -D main')).toBe(false);
+    expect(isReadOnlyBashCommand('git diff --output=patch.diff')).toBe(false);
+  });
+
+  test('treats git global options other than --no-pager as writes', () => {
+    expect(isReadOnlyBashCommand('git --no-pager log -3')).toBe(true);
+    expect(isReadOnlyBashCommand('git -c diff.external=/tmp/evil.sh diff')).toBe(false);
+    expect(isReadOnlyBashCommand('git -c core.fsmonitor=/tmp/x status')).toBe(false);
+    expect(isReadOnlyBashCommand('git --exec-path=/tmp status')).toBe(false);
+    expect(isReadOnlyBashCommand('git --config-env=core.pager=PAGER log')).toBe(false);
+    expect(isReadOnlyBashCommand('git -C ../other status')).toBe(false);
+  });
+
+  test('treats git, pager and loader environment assignments as writes', () => {
+    expect(isReadOnlyBashCommand("GIT_EXTERNAL_DIFF='touch pwned' git diff")).toBe(false);
+    expect(isReadOnlyBashCommand("GIT_PAGER='sh -c \"touch x\"' git log")).toBe(false);
+    expect(isReadOnlyBashCommand('PAGER=/tmp/evil.sh git log')).toBe(false);
+    expect(isReadOnlyBashCommand('env GIT_PAGER=/tmp/evil.sh git log')).toBe(false);
+    expect(isReadOnlyBashCommand(
+      'GIT_CONFIG_COUNT=1 GIT_CONFIG_KEY_0=core.pager GIT_CONFIG_VALUE_0=/tmp/evil.sh git log',
+    )).toBe(false);
+    expect(isReadOnlyBashCommand('LESSOPEN="|/tmp/evil.sh %s" git log')).toBe(false);
+    expect(isReadOnlyBashCommand('LD_PRELOAD=/tmp/evil.so ls')).toBe(false);
+    expect(isReadOnlyBashCommand('BASH_ENV=/tmp/evil.sh bash -c "git status"')).toBe(false);
+    expect(isReadOnlyBashCommand('PATH=/tmp/evil; ls')).toBe(false);
+    expect(isReadOnlyBashCommand('LC_ALL=C grep foo file.txt')).toBe(true);
+    expect(isReadOnlyBashCommand('env LC_ALL=C ls')).toBe(true);
+  });
+
+  test('evaluates nested command strings recursively', () => {
+    expect(isReadOnlyBashCommand('bash -c "git status"')).toBe(true);
+    expect(isReadOnlyBashCommand("sh -c 'rm -rf build'")).toBe(false);
+    expect(isReadOnlyBashCommand('echo "$(git status)"')).toBe(true);
+    expect(isReadOnlyBashCommand('echo "$(touch x)"')).toBe(false);
+    expect(isReadOnlyBashCommand("cat <<'EOF'\nhello\nEOF")).toBe(true);
+    expect(isReadOnlyBashCommand('bash <<EOF\nrm -rf /\nEOF')).toBe(false);
+    expect(isReadOnlyBashCommand('env rm -rf /')).toBe(false);
+  });
+
+  test('treats quoted operators as plain arguments', () => {
+    expect(isReadOnlyBashCommand('grep "a;b|c > d" file.txt')).toBe(true);
+    expect(isReadOnlyBashCommand("echo 'rm -rf /'")).toBe(true);
+    expect(isReadOnlyBashCommand('$CMD file.txt')).toBe(false);
+    expect(isReadOnlyBashCommand('cat "unterminated')).toBe(false);
+  });
+
   test('blocks bash when command argument is not a string', () => {
     const result = shouldBlockDuringHydration('bash', { command: ['git', 'status'] });
     expect(result.blocked).toBe(true);
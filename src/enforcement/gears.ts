@@ -5,6 +5,7 @@ import {
 } from '../constants';
 import { isReadOnlyBashCommand } from './hydration';
 import { debugLog } from '../debug';
+import { isResearchAccepted } from '../context/research';
 
 export type Gear = 'scout' | 'architect' | 'builder';
 
@@ -14,6 +15,8 @@ export interface GearState {
     research: boolean;  // .setu/RESEARCH.md exists
     plan: boolean;      // .setu/PLAN.md exists
   };
+  /** RESEARCH.md exists but scored below the research quality minimum */
+  researchBelowMinimum?: boolean;
   determinedAt: number; // Timestamp
 }
 
@@ -21,8 +24,11 @@ export function determineGear(projectDir: string): GearState {
   const researchExists = existsSync(join(projectDir, '.setu', 'RESEARCH.md'));
   const planExists = existsSync(join(projectDir, '.setu', 'PLAN.md'));
   
+  // Research under the quality minimum is saved but does not leave Scout
+  const researchBelowMinimum = researchExists && !isResearchAccepted(projectDir);
+  
   let current: Gear;
-  if (!researchExists) {
+  if (!researchExists || researchBelowMinimum) {
     current = 'scout';
   } else if (!planExists) {
     current = 'architect';
@@ -33,6 +39,7 @@ export function determineGear(projectDir: string): GearState {
   return {
     current,
     artifacts: { research: researchExists, plan: planExists },
+    ...(researchBelowMinimum ? { researchBelowMinimum } : {}),
     determinedAt: Date.now()
   };
 }
@@ -17,17 +17,25 @@
  * - This prevents new/unknown tools from bypassing hydration safeguards
  *
  * Tool classification imported from constants.ts (single source of truth).
- * This module provides hydration-specific logic: blocking decisions, bash command parsing.
+ * This module provides hydration-specific logic: blocking decisions and read-only
+ * bash classification (on top of the shared parser in utils/shell-parser.ts).
  */
 
 import {
-  READ_ONLY_BASH_COMMANDS,
   SIDE_EFFECT_TOOLS,
-  GIT_WRITE_COMMANDS,
   isSetuTool,
   isReadOnlyTool,
 } from "../constants";
+import { getSetuConfig } from "../config";
 import { debugLog } from "../debug";
+import {
+  type ShellCommand,
+  type ShellRedirect,
+  collectShellCommands,
+  getGitArgs,
+  getOperands,
+  hasFlag,
+} from "../utils/shell-parser";
 
 // Re-export type guards for consumers of this module
 export { isSetuTool, isReadOnlyTool };
@@ -41,9 +49,130 @@ export interface HydrationState {
   startedAt: number;
 }
 
+/** Output redirects are only read-only when they discard output */
+const OUTPUT_REDIRECT_OPS = ['>', '>>', '>|', '&>', '&>>', '<>'];
+
+/**
+ * Per-command flag rules: return true when the arguments make an otherwise
+ * read-only command write something.
+ */
+const WRITE_FLAG_RULES: Record<string, (args: string[]) => boolean> = {
+  find: args => args.some(arg => ['-delete', '-fprint', '-fprint0', '-fprintf', '-fls'].includes(arg)),
+  sed: args => hasFlag(args, 'i', ['--in-place']),
+  perl: args => hasFlag(args, 'i'),
+  sort: args => hasFlag(args, 'o', ['--output']),
+};
+
+/**
+ * Git global options allowed before a read-only subcommand. Any other
+ * (`-c`, `--config-env`, `--exec-path`, `-C`, `--git-dir`, ...) can make git
+ * run a program (`diff.external`, `core.fsmonitor`) or act on another repository.
+ */
+const SAFE_GIT_GLOBAL_OPTIONS = ['--no-pager'];
+
+/**
+ * Git subcommand rules, applied after the configured gitWriteCommands list.
+ */
+const GIT_WRITE_FLAG_RULES: Record<string, (args: string[]) => boolean> = {
+  // Listing is read-only; `git branch name` creates a branch
+  branch: args =>
+    hasFlag(args, 'dDmMcCfu', ['--delete', '--move', '--copy', '--force', '--set-upstream-to', '--unset-upstream', '--edit-description']) ||
+    (getOperands(args).length > 0 && !hasFlag(args, 'l', ['--list', '--contains', '--no-contains', '--merged', '--no-merged', '--points-at'])),
+  diff: args => args.some(arg => arg.startsWith('--output')),
+  log: args => args.some(arg => arg.startsWith('--output')),
+  show: args => args.some(arg => arg.startsWith('--output')),
+};
+
+/**
+ * Environment variables that make an allowlisted command run another
+ * program or load code: git's pager, diff and ssh hooks and injected config
+ * (GIT_CONFIG_COUNT/KEY/VALUE), pagers, the dynamic loader, shell startup
+ * files, and the command search path.
+ */
+const UNSAFE_ENV_PATTERN = /^(?:GIT_\w*|PAGER|MANPAGER|LESS\w*|LD_\w*|DYLD_\w*|BASH_ENV|ENV|PATH|SHELLOPTS|BASHOPTS|PS4|PROMPT_COMMAND|IFS)$/;
+
+/** Whether a NAME=value word sets one of UNSAFE_ENV_PATTERN */
+function isUnsafeAssignment(assignment: string): boolean {
+  const name = /^[A-Za-z_][A-Za-z0-9_]*/.exec(assignment)?.[0] ?? '';
+  return UNSAFE_ENV_PATTERN.test(name);
+}
+
+function isReadOnlyRedirect(redirect: ShellRedirect): boolean {
+  if (redirect.op === '<<' || redirect.op === '<<-' || redirect.op === '<<<') {
+    return true;
+  }
+  // fd duplication (2>&1, >&2) writes nowhere new
+  if ((redirect.op === '>&' || redirect.op === '<&') && /^(?:\d+|-)$/.test(redirect.target)) {
+    return true;
+  }
+  if (OUTPUT_REDIRECT_OPS.includes(redirect.op) || redirect.op === '>&') {
+    return redirect.target === '/dev/null';
+  }
+  // Input redirection stays blocked: file reads should go through the read tool
+  return false;
+}
+
+/** Whether `words` starts with every token of a configured command entry */
+function matchesCommandEntry(words: string[], entry: string): boolean {
+  const entryWords = entry.trim().split(/\s+/);
+  return entryWords.every((word, index) => words[index] === word);
+}
+
+function isReadOnlyShellCommand(
+  command: ShellCommand,
+  readOnlyCommands: readonly string[],
+  gitWriteCommands: readonly string[]
+): boolean {
+  if (command.background || !command.redirects.every(isReadOnlyRedirect)) {
+    return false;
+  }
+  if (command.via.includes('sudo') || command.via.includes('doas')) {
+    return false;
+  }
+  // Prefix and `env` assignments reach the command; bare ones reach later
+  // commands when the variable is already exported (PATH, PAGER, ...)
+  if (command.assignments.some(isUnsafeAssignment)) {
+    return false;
+  }
+  // Other bare assignments only touch shell state
+  if (command.argv.length === 0) {
+    return true;
+  }
+  // $cmd or $(...) in command position: the real command is unknown
+  if (command.dynamic[0]) {
+    return false;
+  }
+
+  const gitArgs = getGitArgs(command);
+  const words = gitArgs ? ['git', ...gitArgs] : [command.name, ...command.argv.slice(1)];
+
+  if (gitArgs) {
+    const globalOptions = command.argv.slice(1, command.argv.length - gitArgs.length);
+    if (globalOptions.some(option => !SAFE_GIT_GLOBAL_OPTIONS.includes(option))) {
+      return false;
+    }
+    if (gitWriteCommands.some(entry => matchesCommandEntry(words, entry))) {
+      return false;
+    }
+    const rule = GIT_WRITE_FLAG_RULES[gitArgs[0]];
+    if (rule?.(gitArgs.slice(1))) {
+      return false;
+    }
+  } else if (WRITE_FLAG_RULES[command.name]?.(command.argv.slice(1))) {
+    return false;
+  }
+
+  return readOnlyCommands.some(entry => matchesCommandEntry(words, entry));
+}
+
 /**
  * Check if a bash command is read-only
  *
+ * Parses the command and requires a single pipeline in which every command
+ * it would run — pipeline stages, substitutions, `bash -c` strings, xargs and
+ * find -exec targets — is allowlisted and free of write flags or file redirects.
+ * Fail-closed: anything the parser cannot follow is treated as a write.
+ *
  * @param command - The full bash command string
  * @returns true if the command is read-only
  */
@@ -51,52 +180,28 @@ export function isReadOnlyBashCommand(command: string): boolean {
   const trimmed = command.trim();
   if (!trimmed) return false;
 
-  // Reject control/null bytes to prevent parser confusion/bypass.
+  // Reject control/null bytes (other than tab/newline) to prevent parser confusion/bypass.
   // biome-ignore lint/suspicious/noControlCharactersInRegex: security validation
-  if (/[\x00-\x1F\x7F]/.test(trimmed)) {
+  if (/[\x00-\x08\x0B-\x1F\x7F]/.test(trimmed)) {
     return false;
   }
 
-  // SECURITY: reject shell metacharacters and multiline/continued commands.
-  // Fail-closed: hydration allows only single simple read-only commands.
-  // Includes parameter expansion ${...} to prevent command injection via variable expansion
-  // Note: \n and \r are already rejected by the control-character check above, so not duplicated here
-  const dangerousPattern = /(;|&&|\|\||\||`|\$\(|\$\{|>|>>|2>|>&|>\||<|&|\(|\)|\\\n)/;
-  if (dangerousPattern.test(trimmed)) {
+  const script = collectShellCommands(trimmed);
+  if (!script.complete || script.commands.length === 0) {
     return false;
   }
 
-  // Check for git write commands first (they start with git)
-  for (const gitCmd of GIT_WRITE_COMMANDS) {
-    if (trimmed.startsWith(gitCmd)) {
-      return false;
-    }
-  }
-
-  // Get the first word/command
-  const words = trimmed.split(/\s+/);
-  const firstWord = words[0];
-
-  // Check if it's a read-only command
-  if (
-    READ_ONLY_BASH_COMMANDS.includes(
-      firstWord as (typeof READ_ONLY_BASH_COMMANDS)[number],
-    )
-  ) {
-    return true;
-  }
-
-  // Check compound commands (e.g., "git status")
-  const firstTwoWords = words.slice(0, 2).join(" ");
-  if (
-    READ_ONLY_BASH_COMMANDS.includes(
-      firstTwoWords as (typeof READ_ONLY_BASH_COMMANDS)[number],
-    )
-  ) {
-    return true;
+  // One pipeline only: `grep foo | head` is fine, `a; b` and `a && b` lists are not
+  const pipelines = new Set(
+    script.commands.filter(cmd => !cmd.via.includes('substitution')).map(cmd => cmd.pipeline)
+  );
+  if (pipelines.size > 1) {
+    return false;
   }
 
-  return false;
+  // Command lists come from the active policy (.setu/config.json overrides)
+  const { readOnlyCommands, gitWriteCommands } = getSetuConfig().bash;
+  return script.commands.every(cmd => isReadOnlyShellCommand(cmd, readOnlyCommands, gitWriteCommands));
 }
 
 /**
@@ -0,0 +1,126 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { getDefaultSetuConfig, resetSetuConfig, setSetuConfig } from '../../config/setu-config';
+import {
+  type EnvironmentInspector,
+  type RunningProcess,
+  detectEnvironmentConflict,
+  parseListeningPorts
+} from '../detector';
+
+const PROJECT = '/work/app';
+
+/** Processes working in the project; `ports` are held by the first one */
+function running(commands: string[], ports: number[] = []): EnvironmentInspector {
+  const processes: RunningProcess[] = commands.map((command, index) => ({
+    pid: 100 + index,
+    command,
+    cwd: PROJECT,
+    ports: index === 0 ? ports : [],
+  }));
+  return async () => ({ processes });
+}
+
+const idle = running(['/usr/lib/systemd/systemd', 'zsh']);
+
+afterEach(() => {
+  resetSetuConfig();
+});
+
+describe('detectEnvironmentConflict', () => {
+  test('ignores commands that cannot collide, without inspecting', async () => {
+    let inspected = false;
+    const result = await detectEnvironmentConflict('git status && ls dist', PROJECT, async () => {
+      inspected = true;
+      return null;
+    });
+    expect(result).toEqual({ hasConflict: false, reasons: [] });
+    expect(inspected).toBe(false);
+  });
+
+  test('allows sensitive commands when nothing is running', async () => {
+    expect((await detectEnvironmentConflict('npm run build', PROJECT, idle)).hasConflict).toBe(false);
+    expect((await detectEnvironmentConflict('rm -rf .next', PROJECT, idle)).hasConflict).toBe(false);
+  });
+
+  test('reports builds during a dev server with structured evidence', async () => {
+    const result = await detectEnvironmentConflict('bun run build', PROJECT, running(['node node_modules/.bin/vite --port 5173']));
+    expect(result.hasConflict).toBe(true);
+    expect(result.reasons).toEqual([{
+      kind: 'build-during-dev',
+      command: 'bun run build',
+      message: 'Build command detected while a dev server or watcher appears active',
+      suggestion: 'Stop the dev server first, then run build/verification commands.',
+      evidence: [{ type: 'dev-server', detail: 'node node_modules/.bin/vite --port 5173 (pid 100)', pid: 100 }],
+    }]);
+    expect(result.reason).toBe(result.reasons[0].message);
+  });
+
+  test('catches watchers', async () => {
+    for (const watcher of ['tsc --watch -p .', 'npx nodemon src/server.ts', 'docker compose -f dev.yml up', 'vitest --watch']) {
+      const result = await detectEnvironmentConflict('cargo build', PROJECT, running([watcher]));
+      expect(result.reasons[0]?.evidence[0]?.type).toBe('watcher');
+    }
+  });
+
+  test('covers cleaning served output, migrations and lockfile rewrites', async () => {
+    const devServer = running(['next-server (v14.2.3)']);
+    const kinds = async (command: string): Promise<string[]> =>
+      (await detectEnvironmentConflict(command, PROJECT, devServer)).reasons.map(reason => reason.kind);
+
+    expect(await kinds('rm -rf dist/')).toEqual(['clean-served-output']);
+    expect(await kinds('rm -rf /tmp/demo')).toEqual([]);
+    expect(await kinds('npx prisma migrate dev')).toEqual(['migration-while-running']);
+    expect(await kinds('python manage.py migrate')).toEqual(['migration-while-running']);
+    expect(await kinds('npm install lodash && npm run build')).toEqual(['lockfile-rewrite', 'build-during-dev']);
+    expect(await kinds('npm install -g typescript')).toEqual([]);
+  });
+
+  test('uses configured dev ports and process patterns', async () => {
+    const result = await detectEnvironmentConflict('rake db:migrate', PROJECT, running(['ruby bin/worker'], [22, 5173]));
+    expect(result.reasons[0]?.evidence).toEqual([
+      { type: 'port', detail: 'port 5173 is listening: ruby bin/worker (pid 100)', pid: 100, port: 5173 },
+    ]);
+
+    const config = getDefaultSetuConfig();
+    config.environment = { processPatterns: ['bin/worker\\b'], devPorts: [] };
+    setSetuConfig(config);
+
+    const custom = await detectEnvironmentConflict('rake db:migrate', PROJECT, running(['ruby bin/worker'], [5173]));
+    expect(custom.reasons[0]?.evidence.map(item => item.type)).toEqual(['custom-process']);
+  });
+
+  test('ignores processes and ports outside the project', async () => {
+    const elsewhere: EnvironmentInspector = async () => ({
+      processes: [
+        { pid: 1, command: 'node node_modules/.bin/vite', cwd: '/work/other-app' },
+        { pid: 2, command: 'ruby bin/server', cwd: '/work/app-2', ports: [3000] },
+        { pid: 3, command: 'node vite', cwd: '/' },
+      ],
+    });
+    expect((await detectEnvironmentConflict('npm run build', PROJECT, elsewhere)).hasConflict).toBe(false);
+
+    const unknownCwd: EnvironmentInspector = async () => ({
+      processes: [{ pid: 4, command: 'node /work/app/node_modules/.bin/vite' }, { pid: 5, command: 'node vite' }],
+    });
+    const result = await detectEnvironmentConflict('npm run build', PROJECT, unknownCwd);
+    expect(result.reasons[0]?.evidence.map(item => item.pid)).toEqual([4]);
+  });
+
+  test('fails closed when processes cannot be inspected', async () => {
+    const result = await detectEnvironmentConflict('go build ./...', PROJECT, async () => null);
+    expect(result.hasConflict).toBe(true);
+    expect(result.reasons[0]?.evidence[0]?.type).toBe('inspection-failed');
+  });
+});
+
+describe('parseListeningPorts', () => {
+  test('returns LISTEN ports from /proc/net/tcp', () => {
+    const text = [
+      '  sl  local_address rem_address   st tx_queue rx_queue tr tm->when retrnsmt   uid  timeout inode',
+      '   0: 0100007F:1435 00000000:0000 0A 00000000:00000000 00:00000000 00000000  1000        0 917 1',
+      '   1: 00000000:0BB8 00000000:0000 0A 00000000:00000000 00:00000000 00000000  1000        0 662 1',
+      '   2: 0100007F:1435 0100007F:CCF8 01 00000000:00000000 00:00000000 00000000  1000        0 347 1',
+    ].join('\n');
+    expect(parseListeningPorts(text)).toEqual([3000, 5173]);
+  });
+});
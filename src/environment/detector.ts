@@ -1,48 +1,365 @@
-import { exec, type ExecException } from 'child_process';
+/**
+ * Environment conflict detection
+ *
+ * Some commands are only unsafe because of what is already running:
+ * - a build while a dev server or watcher writes the same output
+ * - deleting dist/, .next/ and similar while a server serves them
+ * - a database migration while the app is running
+ * - a package install rewriting the lockfile and node_modules under a dev server
+ *
+ * Running activity comes from the process table (/proc, or `ps` where /proc
+ * is unavailable) and from listening TCP ports (/proc/net/tcp and tcp6).
+ * Only processes working in the project count: their cwd is inside it, or,
+ * where the cwd cannot be read, their command line names it. A dev port
+ * counts only when such a process holds it, so other projects' servers on
+ * the same machine do not block this one. Projects add their own process
+ * patterns and dev ports in the `environment` config section. Inspection
+ * only runs for the command kinds above; if it fails, a conflict is assumed
+ * (fail-closed).
+ */
+
+import { execFile } from 'child_process';
+import { readFileSync, readdirSync, readlinkSync } from 'fs';
+import { basename, resolve, sep } from 'path';
+import { getSetuConfig } from '../config/setu-config';
 import { debugLog } from '../debug';
+import { getErrorMessage } from '../utils/error-handling';
+import { formatGuidanceMessage } from '../utils/messaging';
+import { type ShellCommand, collectShellCommands, getOperands, hasFlag } from '../utils/shell-parser';
+
+export type EnvironmentConflictKind =
+  | 'build-during-dev'
+  | 'clean-served-output'
+  | 'migration-while-running'
+  | 'lockfile-rewrite';
+
+/** Something running that the command could collide with */
+export interface EnvironmentEvidence {
+  type: 'dev-server' | 'watcher' | 'custom-process' | 'port' | 'inspection-failed';
+  /** Human-readable description, e.g. "vite --port 5173 (pid 4242)" */
+  detail: string;
+  pid?: number;
+  port?: number;
+}
+
+export interface EnvironmentConflictReason {
+  kind: EnvironmentConflictKind;
+  /** The part of the command that conflicts */
+  command: string;
+  message: string;
+  /** What to do before running the command */
+  suggestion: string;
+  evidence: EnvironmentEvidence[];
+}
 
 export interface EnvironmentConflict {
   hasConflict: boolean;
+  /** Message of the first reason (single-line callers) */
   reason?: string;
+  reasons: EnvironmentConflictReason[];
+}
+
+export interface RunningProcess {
+  pid: number;
+  /** Full command line, arguments joined with spaces */
+  command: string;
+  /** Working directory, when it can be read */
+  cwd?: string;
+  /** TCP ports the process listens on, when its sockets can be read */
+  ports?: number[];
+}
+
+export interface EnvironmentSnapshot {
+  processes: RunningProcess[];
+}
+
+/** Returns null when the process table cannot be read */
+export type EnvironmentInspector = () => Promise<EnvironmentSnapshot | null>;
+
+interface ActivitySignature {
+  type: 'dev-server' | 'watcher';
+  pattern: RegExp;
+}
+
+const ACTIVITY_SIGNATURES: ActivitySignature[] = [
+  // Dev servers
+  { type: 'dev-server', pattern: /\bvite\b(?!\s+(?:build|optimize)\b)/ },
+  { type: 'dev-server', pattern: /\bnext\s+(?:dev|start)\b|\bnext-server\b/ },
+  { type: 'dev-server', pattern: /\b(?:nuxi?|astro|remix|svelte-kit)\s+dev\b/ },
+  { type: 'dev-server', pattern: /\bwebpack(?:-dev-server|\s+serve)\b|\bng\s+serve\b/ },
+  { type: 'dev-server', pattern: /\b(?:npm|pnpm|yarn|bun)\s+(?:run\s+)?(?:dev|start|serve)\b/ },
+  { type: 'dev-server', pattern: /\brails\s+(?:s|server)\b|\bmanage\.py\s+runserver\b|\bflask\s+run\b/ },
+  { type: 'dev-server', pattern: /\b(?:uvicorn|gunicorn)\b|\bartisan\s+serve\b/ },
+  // Watchers
+  { type: 'watcher', pattern: /\b(?:tsc|webpack|esbuild|rollup|babel|tsup|swc)\b.*\s(?:--watch|-w)\b/ },
+  { type: 'watcher', pattern: /\b(?:jest|vitest)\b.*\s--watch|\bvitest\s+(?:watch|dev)\b/ },
+  { type: 'watcher', pattern: /\bnodemon\b|\btsx\s+watch\b|\bcargo[- ]watch\b|\bnode\s+(?:.*\s)?--watch\b/ },
+  { type: 'watcher', pattern: /\bdocker(?:-compose|\s+compose)\b.*\sup\b/ },
+];
+
+const BUILD_PATTERN = /^(?:(?:npm|pnpm|yarn|bun)\s+(?:run\s+)?build|cargo\s+build|go\s+build)\b/;
+
+const MIGRATION_PATTERN = new RegExp([
+  /^(?:npm|pnpm|yarn|bun)\s+run\s+(?:db:)?migrat/.source,
+  /^(?:(?:npx|bunx|pnpm|yarn|bun)\s+(?:exec\s+)?)?(?:prisma\s+(?:migrate|db\s+push)|drizzle-kit\s+(?:push|migrate))\b/.source,
+  /^(?:(?:npx|bunx|pnpm|yarn)\s+)?(?:knex\s+migrate|sequelize(?:-cli)?\s+db:migrate|typeorm\s+migration:run|supabase\s+db\s+(?:push|reset))/.source,
+  /^(?:(?:bundle\s+exec|bin\/)?(?:rails|rake))\s+db:(?:migrate|rollback|reset|schema:load)\b/.source,
+  /^(?:python3?\s+)?manage\.py\s+migrate\b|^alembic\s+(?:upgrade|downgrade)\b/.source,
+  /^php\s+artisan\s+migrate\b|^diesel\s+migration\s+run\b|^(?:goose\s+up|flyway\s+migrate)\b/.source,
+].join('|'));
+
+const LOCKFILE_PATTERN = /^(?:npm\s+(?:install|i|ci|add|uninstall|remove|rm|update|up)|pnpm\s+(?:install|i|add|remove|rm|update|up)|yarn\s+(?:install|add|remove|upgrade|up)|bun\s+(?:install|i|add|remove|rm|update))\b|^yarn$/;
+
+/** Output directories that dev servers serve or watchers write */
+const SERVED_OUTPUT_DIRS = new Set(['dist', 'build', 'out', '.next', '.nuxt', '.output', '.svelte-kit', '.angular']);
+
+const TCP_LISTEN_STATE = '0A';
+const MAX_LISTED_EVIDENCE = 3;
+const PS_TIMEOUT_MS = 1500;
+
+const CONFLICT_TEXT: Record<EnvironmentConflictKind, { message: string; suggestion: string }> = {
+  'build-during-dev': {
+    message: 'Build command detected while a dev server or watcher appears active',
+    suggestion: 'Stop the dev server first, then run build/verification commands.',
+  },
+  'clean-served-output': {
+    message: 'Deleting build output that a running dev server or watcher is using',
+    suggestion: 'Stop the dev server or watcher first, then clean the output directory.',
+  },
+  'migration-while-running': {
+    message: 'Database migration detected while the app appears to be running',
+    suggestion: 'Stop the app and its workers first, then run the migration.',
+  },
+  'lockfile-rewrite': {
+    message: 'Package install would rewrite the lockfile and dependencies under a running dev server',
+    suggestion: 'Stop the dev server first, install, then restart it.',
+  },
+};
+
+/** Command line with the program reduced to its basename (`./node_modules/.bin/vite` → `vite`) */
+function commandLine(command: ShellCommand): string {
+  return [command.name, ...command.argv.slice(1)].join(' ');
+}
+
+function deletesServedOutput(command: ShellCommand): boolean {
+  if (command.name !== 'rm' && command.name !== 'rimraf') return false;
+  return getOperands(command.argv.slice(1)).some(target => {
+    const dir = target.replace(/(?:\/\*?)+$/, '');
+    return SERVED_OUTPUT_DIRS.has(basename(dir));
+  });
+}
+
+function classifyCommand(command: ShellCommand): EnvironmentConflictKind | null {
+  const line = commandLine(command);
+  if (BUILD_PATTERN.test(line)) return 'build-during-dev';
+  if (deletesServedOutput(command)) return 'clean-served-output';
+  if (MIGRATION_PATTERN.test(line)) return 'migration-while-running';
+  // Global installs do not touch the project lockfile
+  if (LOCKFILE_PATTERN.test(line) && !hasFlag(command.argv, 'g', ['--global'])) return 'lockfile-rewrite';
+  return null;
+}
+
+/** Listening sockets (inode → port) from the text of /proc/net/tcp or tcp6 */
+function parseListeningSockets(text: string): Map<string, number> {
+  const sockets = new Map<string, number>();
+  for (const line of text.split('\n').slice(1)) {
+    const fields = line.trim().split(/\s+/);
+    if (fields.length < 4 || fields[3] !== TCP_LISTEN_STATE) continue;
+    const port = Number.parseInt(fields[1].split(':').pop() ?? '', 16);
+    if (Number.isInteger(port) && port > 0) sockets.set(fields[9] ?? `port:${port}`, port);
+  }
+  return sockets;
+}
+
+/**
+ * Listening TCP ports from the text of /proc/net/tcp or /proc/net/tcp6.
+ */
+export function parseListeningPorts(text: string): number[] {
+  return Array.from(new Set(parseListeningSockets(text).values())).sort((a, b) => a - b);
+}
+
+function readListeningSockets(): Map<string, number> {
+  const sockets = new Map<string, number>();
+  for (const file of ['/proc/net/tcp', '/proc/net/tcp6']) {
+    try {
+      for (const [inode, port] of parseListeningSockets(readFileSync(file, 'utf-8'))) sockets.set(inode, port);
+    } catch {
+      // Not Linux, or IPv6 disabled
+    }
+  }
+  return sockets;
 }
 
-const BUILD_PATTERN = /\b(npm|pnpm|yarn|bun)\s+(run\s+)?build\b|\bcargo\s+build\b|\bgo\s+build\b/i;
+/** Ports of the listening sockets among a process's open files */
+function readProcessPorts(pid: string, sockets: Map<string, number>): number[] | undefined {
+  if (sockets.size === 0) return undefined;
+  try {
+    const ports = new Set<number>();
+    for (const fd of readdirSync(`/proc/${pid}/fd`)) {
+      const inode = /^socket:\[(\d+)\]$/.exec(readlinkSync(`/proc/${pid}/fd/${fd}`))?.[1];
+      const port = inode ? sockets.get(inode) : undefined;
+      if (port) ports.add(port);
+    }
+    return Array.from(ports);
+  } catch {
+    // Another user's process, or it exited
+    return undefined;
+  }
+}
+
+function readProcFs(sockets: Map<string, number>): RunningProcess[] | null {
+  let entries: string[];
+  try {
+    entries = readdirSync('/proc');
+  } catch {
+    return null;
+  }
 
-// Character-class trick: [v]ite prevents pgrep from matching its own process
-const DEV_PROCESS_QUERY = 'pgrep -f "([v]ite|[n]ext dev|npm run dev|pnpm dev|yarn dev|bun dev)"';
+  const processes: RunningProcess[] = [];
+  for (const entry of entries) {
+    if (!/^\d+$/.test(entry) || Number(entry) === process.pid) continue;
+    try {
+      const command = readFileSync(`/proc/${entry}/cmdline`, 'utf-8').split('\0').filter(Boolean).join(' ');
+      if (!command) continue;
+      let cwd: string | undefined;
+      try {
+        cwd = readlinkSync(`/proc/${entry}/cwd`);
+      } catch {
+        // Another user's process
+      }
+      processes.push({ pid: Number(entry), command, cwd, ports: readProcessPorts(entry, sockets) });
+    } catch {
+      // Process exited while we were reading
+    }
+  }
+  return processes;
+}
 
-function hasActiveDevServer(): Promise<boolean> {
+function listProcessesWithPs(): Promise<RunningProcess[] | null> {
   return new Promise((resolve) => {
-    const child = exec(DEV_PROCESS_QUERY, { timeout: 1500 }, (error: ExecException | null, stdout) => {
+    const child = execFile('ps', ['-axo', 'pid=,args='], { timeout: PS_TIMEOUT_MS }, (error, stdout) => {
       if (error) {
-        // pgrep exit code 1 = no match found — safe, no dev server
-        if (error.code === 1) {
-          resolve(false);
-          return;
-        }
-        // Timeout, exec failure, or unexpected exit code — fail-closed
-        // Assume dev server may exist to prevent unsafe builds
-        debugLog('Dev server check failed (fail-closed):', error.message);
-        resolve(true);
+        debugLog('Process listing failed:', error.message);
+        resolve(null);
         return;
       }
-      resolve(stdout.trim().length > 0);
+      const processes: RunningProcess[] = [];
+      for (const line of stdout.split('\n')) {
+        const match = /^\s*(\d+)\s+(.+)$/.exec(line);
+        if (match && Number(match[1]) !== process.pid) {
+          processes.push({ pid: Number(match[1]), command: match[2].trim() });
+        }
+      }
+      resolve(processes);
     });
     child.unref();
   });
 }
 
-export async function detectEnvironmentConflict(command: string): Promise<EnvironmentConflict> {
-  if (!BUILD_PATTERN.test(command)) {
-    return { hasConflict: false };
+/** Read running processes, with their cwd and listening ports, from the host */
+export async function inspectEnvironment(): Promise<EnvironmentSnapshot | null> {
+  const processes = readProcFs(readListeningSockets()) ?? await listProcessesWithPs();
+  return processes ? { processes } : null;
+}
+
+function compileCustomPatterns(patterns: readonly string[]): RegExp[] {
+  const compiled: RegExp[] = [];
+  for (const pattern of patterns) {
+    try {
+      compiled.push(new RegExp(pattern));
+    } catch (error) {
+      debugLog(`Ignoring invalid environment.processPatterns entry "${pattern}": ${getErrorMessage(error)}`);
+    }
   }
+  return compiled;
+}
+
+/** Whether a process works in the project: cwd inside it, else a command line naming it */
+function isProjectProcess(runningProcess: RunningProcess, projectDir: string): boolean {
+  if (runningProcess.cwd !== undefined) {
+    return runningProcess.cwd === projectDir || runningProcess.cwd.startsWith(`${projectDir}${sep}`);
+  }
+  return runningProcess.command.includes(projectDir);
+}
 
-  if (!(await hasActiveDevServer())) {
-    return { hasConflict: false };
+function collectEvidence(snapshot: EnvironmentSnapshot, projectDir: string): EnvironmentEvidence[] {
+  const { processPatterns, devPorts } = getSetuConfig().environment;
+  const customPatterns = compileCustomPatterns(processPatterns);
+  const evidence: EnvironmentEvidence[] = [];
+
+  for (const runningProcess of snapshot.processes) {
+    if (!isProjectProcess(runningProcess, projectDir)) continue;
+    const { pid, command } = runningProcess;
+    const signature = ACTIVITY_SIGNATURES.find(candidate => candidate.pattern.test(command));
+    const type = signature?.type ?? (customPatterns.some(pattern => pattern.test(command)) ? 'custom-process' : null);
+    if (type) {
+      evidence.push({ type, detail: `${command} (pid ${pid})`, pid });
+      continue;
+    }
+    const port = runningProcess.ports?.find(candidate => devPorts.includes(candidate));
+    if (port !== undefined) {
+      evidence.push({ type: 'port', detail: `port ${port} is listening: ${command} (pid ${pid})`, pid, port });
+    }
   }
 
-  return {
-    hasConflict: true,
-    reason: 'Build command detected while a dev server appears active.',
-  };
+  return evidence;
+}
+
+/**
+ * Check whether a bash command collides with dev servers, watchers, or app
+ * processes running in the project.
+ *
+ * @param projectDir - Project the command runs in; processes elsewhere are ignored
+ * @param inspect - Source of running processes and ports (injectable for tests)
+ */
+export async function detectEnvironmentConflict(
+  command: string,
+  projectDir: string,
+  inspect: EnvironmentInspector = inspectEnvironment
+): Promise<EnvironmentConflict> {
+  const candidates: Array<{ kind: EnvironmentConflictKind; command: string }> = [];
+  for (const parsed of collectShellCommands(command).commands) {
+    const kind = classifyCommand(parsed);
+    if (kind && !candidates.some(candidate => candidate.kind === kind)) {
+      candidates.push({ kind, command: parsed.text });
+    }
+  }
+  if (candidates.length === 0) {
+    return { hasConflict: false, reasons: [] };
+  }
+
+  const snapshot = await inspect();
+  const evidence: EnvironmentEvidence[] = snapshot
+    ? collectEvidence(snapshot, resolve(projectDir))
+    // Cannot see what is running — fail-closed rather than risk the collision
+    : [{ type: 'inspection-failed', detail: 'running processes could not be inspected' }];
+  if (evidence.length === 0) {
+    return { hasConflict: false, reasons: [] };
+  }
+
+  const reasons = candidates.map(({ kind, command: text }): EnvironmentConflictReason => ({
+    kind,
+    command: text,
+    ...CONFLICT_TEXT[kind],
+    evidence,
+  }));
+  return { hasConflict: true, reason: reasons[0].message, reasons };
+}
+
+/**
+ * Guidance message for a detected conflict: what is running, what to stop,
+ * and one finding per conflicting command.
+ */
+export function formatEnvironmentConflict(conflict: EnvironmentConflict): string {
+  const [firstReason] = conflict.reasons;
+  const evidence = firstReason?.evidence ?? [];
+  const running = evidence.slice(0, MAX_LISTED_EVIDENCE).map(item => item.detail).join('; ') +
+    (evidence.length > MAX_LISTED_EVIDENCE ? `; and ${evidence.length - MAX_LISTED_EVIDENCE} more` : '');
+
+  return formatGuidanceMessage(
+    `${conflict.reason ?? 'Command can conflict with active development processes'} (running: ${running})`,
+    firstReason?.suggestion ?? 'Stop the dev server first, then run build/verification commands.',
+    'If you must continue, run the command manually after confirming local state.',
+    conflict.reasons.map(reason => ({ ruleId: reason.kind, matched: reason.command, alternative: reason.suggestion }))
+  );
 }
@@ -1,5 +1,10 @@
 import { describe, expect, test, mock } from 'bun:test';
+import { execFileSync } from 'child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import { createEventHook } from '../event';
+import { getSubagentSession, loadDirtyBaseline } from '../../context';
 
 mock.module('../../debug', () => ({
   debugLog: () => {},
@@ -49,4 +54,53 @@ describe('event hook session agent cleanup', () => {
 
     expect(cleared).toEqual(['session-b']);
   });
+
+  test('records a child session without resetting its parent\'s state', async () => {
+    const resets: string[] = [];
+    const hook = createEventHook(
+      () => resets.push('verification'),
+      () => resets.push('attempts'),
+      () => {},
+      () => {},
+      (sessionId) => resets.push(`hydration:${sessionId}`)
+    );
+
+    await hook({ event: { type: 'session.created', properties: { info: { id: 'child-a', parentID: 'session-a' } } } });
+
+    expect(resets).toEqual([]);
+    expect(getSubagentSession('child-a')?.parentId).toBe('session-a');
+
+    await hook({ event: { type: 'session.deleted', properties: { info: { id: 'child-a' } } } });
+    expect(getSubagentSession('child-a')).toBeNull();
+  });
+});
+
+describe('event hook dirty-tree baseline', () => {
+  test('records the user\'s uncommitted changes on session.created', async () => {
+    const projectDir = mkdtempSync(join(tmpdir(), 'setu-event-baseline-'));
+    try {
+      execFileSync('git', ['init', '-q'], { cwd: projectDir, stdio: 'pipe' });
+      writeFileSync(join(projectDir, 'draft.md'), 'user draft notes\n');
+
+      const hook = createEventHook(
+        () => {},
+        () => {},
+        () => {},
+        () => {},
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        () => projectDir
+      );
+      await hook({ event: { type: 'session.created', properties: { sessionID: 'session-c' } } });
+
+      const baseline = loadDirtyBaseline(projectDir);
+      expect(baseline?.sessionId).toBe('session-c');
+      expect(baseline?.files.map(file => file.path)).toEqual(['draft.md']);
+    } finally {
+      rmSync(projectDir, { recursive: true, force: true });
+    }
+  });
 });
@@ -1,9 +1,18 @@
 import { afterEach, describe, expect, test, mock, beforeEach } from 'bun:test';
-import { mkdtempSync, writeFileSync, rmSync, mkdirSync, readFileSync } from 'fs';
+import { execFileSync } from 'child_process';
+import { mkdtempSync, writeFileSync, rmSync, mkdirSync, readFileSync, readdirSync } from 'fs';
 import { tmpdir } from 'os';
 import { join } from 'path';
 import { createToolExecuteBeforeHook, createToolExecuteAfterHook } from '../tool-execute';
-import { clearDisciplineState, getPendingSafetyConfirmation } from '../../context';
+import {
+  clearDisciplineState,
+  getPendingSafetyConfirmation,
+  listLeases,
+  recordDirtyBaseline,
+  releaseLeases,
+} from '../../context';
+import { getDefaultSetuConfig, resetSetuConfig, setSetuConfig } from '../../config';
+import { getWorkingTreeHash } from '../../utils/git';
 
 mock.module('../../debug', () => ({
   debugLog: () => {},
@@ -52,6 +61,140 @@ describe('tool-execute before hook safety flow', () => {
     clearDisciplineState(sessionID);
   });
 
+  test('protected manifest paths are blocked and audited', async () => {
+    const sessionID = 'protected-file-block';
+    writeFileSync(
+      join(projectDir, '.setu', 'protected.json'),
+      JSON.stringify({ version: 1, paths: ['src/legacy/**'] }),
+      'utf-8'
+    );
+    const hook = createToolExecuteBeforeHook(
+      () => 'setu',
+      () => null,
+      () => projectDir,
+      undefined,
+      () => ({ contextConfirmed: true, sessionId: sessionID, startedAt: Date.now() })
+    );
+
+    await expect(
+      hook(
+        { tool: 'bash', sessionID, callID: 'protected-1' },
+        { args: { command: 'echo patched > src/legacy/old.ts' } }
+      )
+    ).rejects.toThrow('protected by the project manifest');
+
+    await expect(
+      hook(
+        { tool: 'write', sessionID, callID: 'protected-2' },
+        { args: { filePath: '.setu/protected.json', content: '{}' } }
+      )
+    ).rejects.toThrow('protected by the project manifest');
+
+    const securityLog = readFileSync(join(projectDir, '.setu', 'security.log'), 'utf-8');
+    expect(securityLog).toContain('SENSITIVE_FILE_BLOCKED');
+    expect(securityLog).toContain('src/legacy/old.ts');
+
+    clearDisciplineState(sessionID);
+  });
+
+  test('allowed edits record an undo checkpoint; blocked ones do not', async () => {
+    const sessionID = 'undo-ledger';
+    const hook = createToolExecuteBeforeHook(
+      () => 'setu',
+      () => null,
+      () => projectDir,
+      undefined,
+      () => ({ contextConfirmed: true, sessionId: sessionID, startedAt: Date.now() })
+    );
+
+    await hook(
+      { tool: 'write', sessionID, callID: 'undo-1' },
+      { args: { filePath: join(projectDir, 'notes.md'), content: 'hello' } }
+    );
+    await expect(
+      hook(
+        { tool: 'write', sessionID, callID: 'undo-2' },
+        { args: { filePath: '.env', content: 'X=1' } }
+      )
+    ).rejects.toThrow();
+
+    const entries = readdirSync(join(projectDir, '.setu', 'checkpoints')).filter(name => name.endsWith('.json'));
+    expect(entries).toHaveLength(1);
+    const entry = JSON.parse(readFileSync(join(projectDir, '.setu', 'checkpoints', entries[0]), 'utf-8'));
+    expect(entry).toMatchObject({ path: 'notes.md', sessionId: sessionID, tool: 'write', existed: false });
+    expect(entry.postHash).toBeUndefined();
+
+    // Once the write has run, the after hook stores the post-edit hash
+    writeFileSync(join(projectDir, 'notes.md'), 'hello');
+    const afterHook = createToolExecuteAfterHook(() => {}, () => 'setu', undefined, undefined, undefined, undefined, () => projectDir);
+    await afterHook(
+      { tool: 'write', sessionID, callID: 'undo-1', args: { filePath: join(projectDir, 'notes.md'), content: 'hello' } },
+      { title: '', output: '', metadata: {} }
+    );
+    const completed = JSON.parse(readFileSync(join(projectDir, '.setu', 'checkpoints', entries[0]), 'utf-8'));
+    expect(completed.postHash).toMatch(/^[0-9a-f]{64}$/);
+
+    clearDisciplineState(sessionID);
+  });
+
+  test('a write to a path another session leases waits, then blocks', async () => {
+    const hook = createToolExecuteBeforeHook(
+      () => 'setu',
+      () => null,
+      () => projectDir,
+      undefined,
+      () => ({ contextConfirmed: true, sessionId: 'lease-owner', startedAt: Date.now() })
+    );
+    const write = (sessionID: string): Promise<void> =>
+      hook({ tool: 'write', sessionID, callID: `lease-${sessionID}` }, { args: { filePath: 'src/shared.ts', content: 'x' } });
+
+    try {
+      setSetuConfig({ ...getDefaultSetuConfig(), leases: { ttlMs: 60_000, queueWaitMs: 0 } });
+      await write('lease-owner');
+      await write('lease-owner');
+      await expect(write('lease-other')).rejects.toThrow("'src/shared.ts' is leased to session lease-owner");
+      expect(readFileSync(join(projectDir, '.setu', 'security.log'), 'utf-8')).toContain('LEASE_CONFLICT_BLOCKED');
+
+      // Queued: the write goes ahead once the owner releases its leases
+      setSetuConfig({ ...getDefaultSetuConfig(), leases: { ttlMs: 60_000, queueWaitMs: 5_000 } });
+      setTimeout(() => releaseLeases(projectDir, { sessionId: 'lease-owner' }), 300);
+      await expect(write('lease-other')).resolves.toBeUndefined();
+      expect(listLeases(projectDir)).toMatchObject([{ path: 'src/shared.ts', sessionId: 'lease-other' }]);
+    } finally {
+      resetSetuConfig();
+      clearDisciplineState('lease-owner');
+      clearDisciplineState('lease-other');
+    }
+  });
+
+  test('discarding user-owned changes goes through the ask flow', async () => {
+    const sessionID = 'user-owned-changes';
+    execFileSync('git', ['init', '-q'], { cwd: projectDir, stdio: 'pipe' });
+    writeFileSync(join(projectDir, 'draft.md'), 'user draft notes\n');
+    recordDirtyBaseline(projectDir, sessionID);
+
+    const hook = createToolExecuteBeforeHook(
+      () => 'setu',
+      () => null,
+      () => projectDir,
+      undefined,
+      () => ({ contextConfirmed: true, sessionId: sessionID, startedAt: Date.now() })
+    );
+
+    await expect(
+      hook(
+        { tool: 'bash', sessionID, callID: 'user-1' },
+        { args: { command: 'git checkout -- draft.md' } }
+      )
+    ).rejects.toThrow('Uncommitted user changes would be discarded');
+    expect(getPendingSafetyConfirmation(sessionID)?.status).toBe('pending');
+
+    const securityLog = readFileSync(join(projectDir, '.setu', 'security.log'), 'utf-8');
+    expect(securityLog).toContain('rule:git-checkout-user-changes');
+
+    clearDisciplineState(sessionID);
+  });
+
   test('blocked setu tool attempt is audited before denial', async () => {
     const sessionID = 'blocked-setu-tool';
     const hook = createToolExecuteBeforeHook(
@@ -171,6 +314,14 @@ describe('tool-execute before hook safety flow', () => {
       )
     ).resolves.toBeUndefined();
 
+    // Approved action is preceded by a restorable snapshot.
+    const snapshots = readdirSync(join(projectDir, '.setu', 'snapshots'));
+    expect(snapshots).toHaveLength(1);
+    const snapshot = JSON.parse(readFileSync(join(projectDir, '.setu', 'snapshots', snapshots[0], 'snapshot.json'), 'utf-8'));
+    expect(snapshot.action).toBe('npm publish');
+    securityLog = readFileSync(join(projectDir, '.setu', 'security.log'), 'utf-8');
+    expect(securityLog).toContain('SNAPSHOT_CREATED');
+
     // Next same attempt requires fresh approval again.
     await expect(
       beforeHook(
@@ -227,4 +378,67 @@ describe('tool-execute before hook safety flow', () => {
 
     clearDisciplineState(sessionID);
   });
+
+  test('commit gate trusts only the verification record', async () => {
+    const sessionID = 'verification-gate';
+    const hook = createToolExecuteBeforeHook(
+      () => 'setu',
+      () => null,
+      () => projectDir,
+      // In-memory state claims verification; the gate must ignore it
+      () => ({ complete: true, stepsRun: new Set(['build', 'test'] as const) }),
+      () => ({ contextConfirmed: true, sessionId: sessionID, startedAt: Date.now() })
+    );
+    const commit = (callID: string): Promise<void> =>
+      hook({ tool: 'bash', sessionID, callID }, { args: { command: 'git commit -m "feat"' } });
+
+    await expect(commit('gate-1')).rejects.toThrow('No verification record');
+
+    const ran = { command: 'bun test', exitCode: 1, timedOut: false, durationMs: 10, outputTail: '', treeHash: null, ranAt: '' };
+    writeFileSync(join(projectDir, '.setu', 'verification.json'), JSON.stringify({
+      version: 1,
+      steps: [{ ...ran, name: 'build', exitCode: 0, passed: true }, { ...ran, name: 'test', passed: false }],
+    }));
+    await expect(commit('gate-2')).rejects.toThrow('missing: test');
+
+    writeFileSync(join(projectDir, '.setu', 'verification.json'), JSON.stringify({
+      version: 1,
+      steps: [{ ...ran, name: 'build', exitCode: 0, passed: true }, { ...ran, name: 'test', exitCode: 0, passed: true }],
+    }));
+    await expect(commit('gate-3')).resolves.toBeUndefined();
+
+    clearDisciplineState(sessionID);
+  });
+
+  test('commit gate rejects verification of an older working tree', async () => {
+    const sessionID = 'verification-stale';
+    execFileSync('git', ['init', '-q'], { cwd: projectDir });
+    writeFileSync(join(projectDir, 'app.ts'), 'export const a = 1;\n');
+    const hook = createToolExecuteBeforeHook(
+      () => 'setu',
+      () => null,
+      () => projectDir,
+      () => ({ complete: true, stepsRun: new Set(['build', 'test'] as const) }),
+      () => ({ contextConfirmed: true, sessionId: sessionID, startedAt: Date.now() })
+    );
+    const commit = (callID: string): Promise<void> =>
+      hook({ tool: 'bash', sessionID, callID }, { args: { command: 'git commit -m "feat"' } });
+
+    const ran = { command: 'bun test', exitCode: 0, passed: true, timedOut: false, durationMs: 10, outputTail: '', ranAt: '' };
+    const treeHash = getWorkingTreeHash(projectDir);
+    writeFileSync(join(projectDir, '.setu', 'verification.json'), JSON.stringify({
+      version: 1,
+      steps: [{ ...ran, name: 'build', treeHash }, { ...ran, name: 'test', treeHash }],
+    }));
+    await expect(commit('stale-1')).resolves.toBeUndefined();
+
+    writeFileSync(join(projectDir, 'app.ts'), 'export const a = 2;\n');
+    writeFileSync(join(projectDir, 'new.ts'), 'export const b = 1;\n');
+    const blocked = commit('stale-2');
+    await expect(blocked).rejects.toThrow('Verification is stale (build, test)');
+    await expect(blocked).rejects.toThrow('Changed: app.ts, new.ts');
+    await expect(blocked).rejects.toThrow('build PASS (stale)');
+
+    clearDisciplineState(sessionID);
+  });
 });
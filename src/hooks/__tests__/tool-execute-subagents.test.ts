@@ -0,0 +1,164 @@
+import { afterEach, beforeEach, describe, expect, mock, test } from 'bun:test';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createToolExecuteBeforeHook } from '../tool-execute';
+import { createEventHook } from '../event';
+import {
+  clearSubagentSession,
+  createActiveTask,
+  createContextCollector,
+  listLeases,
+  saveActiveTask,
+  type ContextCollector,
+} from '../../context';
+import { getDefaultSetuConfig, resetSetuConfig, setSetuConfig } from '../../config';
+
+mock.module('../../debug', () => ({
+  debugLog: () => {},
+  alwaysLog: () => {},
+  errorLog: () => {},
+}));
+
+const PLAN = `- Step 1: Schema
+  - Files: db/schema.sql
+- Step 2: Docs
+  - Files: README.md
+  - Depends On: none
+`;
+
+const FAKE_AWS_KEY = `AKIA${'Q'.repeat(16)}`;
+
+describe('tool-execute before hook for subagent sessions', () => {
+  let projectDir = '';
+  const agents = new Map<string, string>();
+  const getSessionAgent = (sessionID?: string): string | null => agents.get(sessionID ?? '') ?? null;
+
+  const startChild = async (childId: string, parentId: string): Promise<void> => {
+    const eventHook = createEventHook(() => {}, () => {}, () => {}, () => {});
+    await eventHook({ event: { type: 'session.created', properties: { info: { id: childId, parentID: parentId } } } });
+    agents.set(childId, 'general');
+  };
+
+  const createHook = (collector: ContextCollector | null = null): ReturnType<typeof createToolExecuteBeforeHook> =>
+    createToolExecuteBeforeHook(
+      getSessionAgent,
+      () => collector,
+      () => projectDir,
+      undefined,
+      () => ({ contextConfirmed: true, sessionId: 'parent', startedAt: Date.now() })
+    );
+
+  beforeEach(() => {
+    projectDir = mkdtempSync(join(tmpdir(), 'setu-subagents-'));
+    const setuDir = join(projectDir, '.setu');
+    mkdirSync(setuDir, { recursive: true });
+    writeFileSync(join(setuDir, 'RESEARCH.md'), '# Research', 'utf-8');
+    writeFileSync(join(setuDir, 'PLAN.md'), PLAN, 'utf-8');
+    agents.clear();
+  });
+
+  afterEach(() => {
+    for (const sessionId of ['child', 'parent']) clearSubagentSession(sessionId);
+    resetSetuConfig();
+    rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  test('a child of a Setu session gets the secrets gate but not the setu tools', async () => {
+    agents.set('parent', 'setu');
+    await startChild('child', 'parent');
+    const hook = createHook();
+
+    await expect(
+      hook(
+        { tool: 'write', sessionID: 'child', callID: 'w1' },
+        { args: { filePath: join(projectDir, 'config.ts'), content: `export const key = '${FAKE_AWS_KEY}';` } }
+      )
+    ).rejects.toThrow('Secrets Detected');
+    await expect(
+      hook({ tool: 'setu_verify', sessionID: 'child', callID: 's1' }, { args: {} })
+    ).rejects.toThrow('only available in the Setu agent');
+  });
+
+  test('a child of another agent is left alone', async () => {
+    agents.set('parent', 'build');
+    await startChild('child', 'parent');
+
+    await createHook()(
+      { tool: 'write', sessionID: 'child', callID: 'w1' },
+      { args: { filePath: join(projectDir, 'config.ts'), content: `export const key = '${FAKE_AWS_KEY}';` } }
+    );
+  });
+
+  test('a child works in the plan step its task prompt named', async () => {
+    agents.set('parent', 'setu');
+    saveActiveTask(projectDir, createActiveTask('Build the app'));
+    const hook = createHook();
+
+    await hook({ tool: 'task', sessionID: 'parent', callID: 't1' }, { args: { prompt: 'Write the docs for Step 2' } });
+    await startChild('child', 'parent');
+    await hook(
+      { tool: 'write', sessionID: 'child', callID: 'w1' },
+      { args: { filePath: join(projectDir, 'README.md'), content: '# App\n' } }
+    );
+
+    expect(listLeases(projectDir).map(lease => [lease.path, lease.sessionId, lease.step])).toEqual([
+      ['README.md', 'child', 2],
+    ]);
+  });
+
+  test('a task prompt that names a step gets its JIT context and files ranked for it', async () => {
+    agents.set('parent', 'setu');
+    saveActiveTask(projectDir, createActiveTask('Build the app', ['NO_PUSH']));
+    const collector = createContextCollector(projectDir);
+    for (const file of ['README.md', 'src/ui.ts', 'db/schema.sql']) collector.recordFileRead(join(projectDir, file));
+    collector.confirm('A small app', 'Build the app');
+    const output = { args: { prompt: 'Write the docs for Step 2' } as Record<string, unknown> };
+
+    await createHook(collector)({ tool: 'task', sessionID: 'parent', callID: 't1' }, output);
+
+    const prompt = String(output.args.prompt);
+    expect(prompt).toContain('Files already read: README.md, db/schema.sql, src/ui.ts');
+    expect(prompt).toContain('[SETU: JIT Context - Step 2]');
+    expect(prompt).toContain('## Your Step: Step 2 — Docs\nFiles:\n- README.md');
+    expect(prompt).toContain('## Active Constraints\n- NO_PUSH');
+    expect(prompt.endsWith('[TASK]\nWrite the docs for Step 2')).toBe(true);
+  });
+
+  test('the injected step context stays within tokens.subagentContextBudget', async () => {
+    agents.set('parent', 'setu');
+    const task = createActiveTask('Build the app');
+    task.learnings = { worked: [], failed: Array.from({ length: 3 }, (_, index) => `approach ${index} ${'x'.repeat(190)}`) };
+    saveActiveTask(projectDir, task);
+    const defaults = getDefaultSetuConfig();
+    setSetuConfig({ ...defaults, tokens: { ...defaults.tokens, subagentContextBudget: 200 } });
+    const output = { args: { prompt: 'Do Step 1' } as Record<string, unknown> };
+
+    await createHook()({ tool: 'task', sessionID: 'parent', callID: 't1' }, output);
+
+    const [injected] = String(output.args.prompt).split('\n\n[TASK]\n');
+    expect(injected.length).toBeLessThanOrEqual(200 * 4);
+    expect(injected).toContain('[TRUNCATED]');
+  });
+
+  test('files read cannot crowd the step and its constraints out of the budget', async () => {
+    agents.set('parent', 'setu');
+    const task = createActiveTask('Build the app', ['NO_PUSH']);
+    task.learnings = { worked: [], failed: Array.from({ length: 3 }, (_, index) => `approach ${index} ${'x'.repeat(190)}`) };
+    saveActiveTask(projectDir, task);
+    const collector = createContextCollector(projectDir);
+    for (let index = 0; index < 12; index++) collector.recordFileRead(join(projectDir, `src/${'nested/'.repeat(14)}file-${index}.ts`));
+    collector.confirm('A small app', 'Build the app');
+    const defaults = getDefaultSetuConfig();
+    setSetuConfig({ ...defaults, tokens: { ...defaults.tokens, subagentContextBudget: 300 } });
+    const output = { args: { prompt: 'Write the docs for Step 2' } as Record<string, unknown> };
+
+    await createHook(collector)({ tool: 'task', sessionID: 'parent', callID: 't1' }, output);
+
+    const [injected] = String(output.args.prompt).split('\n\n[TASK]\n');
+    expect(injected.length).toBeLessThanOrEqual(300 * 4);
+    expect(injected).toContain('[SETU CONTEXT]');
+    expect(injected).toContain('## Your Step: Step 2 — Docs');
+    expect(injected).toContain('## Active Constraints\n- NO_PUSH');
+  });
+});
@@ -129,24 +129,28 @@ describe('Parallel Execution Tracking', () => {
 
 describe('Verification Step Detection', () => {
   let verificationSteps: Set<VerificationStep>;
-  let markVerificationStep: (step: VerificationStep) => void;
+  let failures: Array<{ step: VerificationStep; command: string; exitCode: number }>;
   let hook: ReturnType<typeof createToolExecuteAfterHook>;
 
   beforeEach(() => {
     verificationSteps = new Set();
-    markVerificationStep = (step: VerificationStep) => verificationSteps.add(step);
-    
+    failures = [];
+
     hook = createToolExecuteAfterHook(
-      markVerificationStep,
+      (step: VerificationStep) => verificationSteps.add(step),
       () => 'setu',
-      () => null
+      () => null,
+      (_sessionID, step, command, exitCode) => {
+        failures.push({ step, command, exitCode });
+        return failures.length >= 3 ? 'After 3 attempts, consider shifting gear' : null;
+      }
     );
   });
 
   test('detects build commands', async () => {
     await hook(
       { tool: 'bash', sessionID: 'session-1', callID: 'call-1', args: { command: 'bun build' } },
-      { title: 'Building project', output: 'bun build completed', metadata: null }
+      { title: 'Building project', output: 'bun build completed', metadata: { exit: 0 } }
     );
 
     expect(verificationSteps.has('build')).toBe(true);
@@ -155,7 +159,7 @@ describe('Verification Step Detection', () => {
   test('detects test commands', async () => {
     await hook(
       { tool: 'bash', sessionID: 'session-1', callID: 'call-1', args: { command: 'npm test' } },
-      { title: 'Running tests', output: 'npm test completed', metadata: null }
+      { title: 'Running tests', output: 'npm test completed', metadata: { exit: 0 } }
     );
 
     expect(verificationSteps.has('test')).toBe(true);
@@ -164,16 +168,99 @@ describe('Verification Step Detection', () => {
   test('detects lint commands', async () => {
     await hook(
       { tool: 'bash', sessionID: 'session-1', callID: 'call-1', args: { command: 'eslint' } },
-      { title: 'Linting', output: 'eslint completed', metadata: null }
+      { title: 'Linting', output: 'eslint completed', metadata: { exit: 0 } }
     );
 
     expect(verificationSteps.has('lint')).toBe(true);
   });
 
+  test('does not mark a failing run and records the failure', async () => {
+    await hook(
+      { tool: 'bash', sessionID: 'session-1', callID: 'call-1', args: { command: 'npm test' } },
+      { title: 'Running tests', output: '1 failing', metadata: { exit: 1 } }
+    );
+
+    expect(verificationSteps.size).toBe(0);
+    expect(failures).toEqual([{ step: 'test', command: 'npm test', exitCode: 1 }]);
+  });
+
+  test('does not match words in unrelated commands', async () => {
+    await hook(
+      { tool: 'bash', sessionID: 'session-1', callID: 'call-1', args: { command: 'echo test && cat jest.config.js' } },
+      { title: 'test', output: 'test', metadata: { exit: 0 } }
+    );
+
+    expect(verificationSteps.size).toBe(0);
+  });
+
+  test('ignores runs without an exit status', async () => {
+    await hook(
+      { tool: 'bash', sessionID: 'session-1', callID: 'call-1', args: { command: 'npm test' } },
+      { title: 'Running tests', output: 'npm test completed', metadata: null }
+    );
+
+    expect(verificationSteps.size).toBe(0);
+    expect(failures).toHaveLength(0);
+  });
+
+  test('appends gear shift guidance after repeated failures', async () => {
+    const output = { title: 'Running tests', output: '1 failing', metadata: { exit: 1 } };
+    for (let i = 0; i < 3; i++) {
+      output.output = '1 failing';
+      await hook(
+        { tool: 'bash', sessionID: 'session-1', callID: `call-${i}`, args: { command: 'npm test' } },
+        output
+      );
+    }
+
+    expect(output.output).toContain('[Setu] After 3 attempts, consider shifting gear');
+  });
+
+  test('reports files changed by edits as stale', async () => {
+    const changed: string[][] = [];
+    const staleHook = createToolExecuteAfterHook(
+      (step: VerificationStep) => verificationSteps.add(step),
+      () => 'setu',
+      () => null,
+      undefined,
+      (filePaths) => changed.push(filePaths)
+    );
+
+    await staleHook(
+      { tool: 'edit', sessionID: 'session-1', callID: 'call-1', args: { filePath: 'src/app.ts' } },
+      { title: 'Edit', output: '', metadata: null }
+    );
+    await staleHook(
+      { tool: 'read', sessionID: 'session-1', callID: 'call-2', args: { filePath: 'src/util.ts' } },
+      { title: 'Read', output: '', metadata: null }
+    );
+
+    expect(changed).toEqual([['src/app.ts']]);
+  });
+
+  test('passes question answers on for DONE WHEN confirmations', async () => {
+    const answers: string[] = [];
+    const questionHook = createToolExecuteAfterHook(
+      (step: VerificationStep) => verificationSteps.add(step),
+      () => 'setu',
+      () => null,
+      undefined,
+      undefined,
+      (answerText) => answers.push(answerText)
+    );
+
+    await questionHook(
+      { tool: 'question', sessionID: 'session-1', callID: 'call-1', args: {} },
+      { title: 'Asked 1 question', output: '"DONE WHEN 2.1: page loads?"="Yes - criterion met"', metadata: null }
+    );
+
+    expect(answers).toEqual(['Asked 1 question\n"DONE WHEN 2.1: page loads?"="Yes - criterion met"']);
+  });
+
   test('does not trigger on non-bash tools', async () => {
     await hook(
       { tool: 'read', sessionID: 'session-1', callID: 'call-1', args: { filePath: 'package.json' } },
-      { title: 'build', output: 'npm run build', metadata: null }
+      { title: 'build', output: 'npm run build', metadata: { exit: 0 } }
     );
 
     expect(verificationSteps.size).toBe(0);
@@ -12,7 +12,8 @@
  * forgets constraints and starts executing unrelated actions.
  */
 
-import { loadActiveTask } from '../context/active';
+import { getCompletedSteps, loadActiveTask } from '../context/active';
+import { getPlanProgress, loadPlan } from '../context/plan';
 import { loadContext } from '../context/storage';
 import type { FileRead, ObservedPattern } from '../context/types';
 import { debugLog } from '../debug';
@@ -89,12 +90,24 @@ export function createCompactionHook(
         const referencesStr = Array.isArray(activeTask.references) && activeTask.references.length > 0
           ? `\nReferences: ${activeTask.references.join(', ')}`
           : '';
+
+        // Plan progress, so the resumed session picks up the right step
+        const plan = loadPlan(projectDir);
+        const progress = plan && plan.steps.length > 0
+          ? getPlanProgress(plan, getCompletedSteps(projectDir, activeTask))
+          : null;
+        const readyStr = progress && progress.ready.length > 1
+          ? `; ready: ${progress.ready.map(step => `Step ${step.id}`).join(', ')}`
+          : '';
+        const progressStr = progress
+          ? `\nPlan progress: ${progress.completed}/${progress.total} steps complete${progress.next ? `; next: Step ${progress.next.id}${progress.next.title ? ` (${progress.next.title})` : ''}${readyStr}` : ''}`
+          : '';
         
         // Inject active task as CRITICAL context
         output.context.push(`## Active Task (CRITICAL)
 
 Task: ${activeTask.task}
-Constraints: ${constraintsStr}${referencesStr}
+Constraints: ${constraintsStr}${referencesStr}${progressStr}
 Started: ${activeTask.startedAt}
 
 IMPORTANT: Resume this task. Do NOT start unrelated work.
@@ -9,10 +9,36 @@
  * Performs Silent Exploration: loads project rules automatically.
  */
 
-import { type ContextCollector, detectProjectInfo, type ProjectRules, loadProjectRules } from '../context';
+import {
+  type ContextCollector,
+  detectProjectInfo,
+  type ProjectRules,
+  loadProjectRules,
+  recordDirtyBaseline,
+  releaseLeases,
+  recordSubagentSession,
+  clearSubagentSession,
+} from '../context';
 import { debugLog } from '../debug';
+import { readParentId } from '../update/auto-update';
+import { getErrorMessage } from '../utils/error-handling';
 import { type ActiveBatchesMap, disposeSessionBatch } from './tool-execute';
 
+/**
+ * Session ID of a session event: `sessionID`, or `info.id`.
+ */
+function readSessionId(properties: Record<string, unknown> | undefined): string {
+  if (typeof properties?.sessionID === 'string' && properties.sessionID) {
+    return properties.sessionID;
+  }
+  const info = properties?.info;
+  if (info && typeof info === 'object') {
+    const id = (info as Record<string, unknown>).id;
+    if (typeof id === 'string' && id) return id;
+  }
+  return 'unknown';
+}
+
 /**
  * Create an event handler for session lifecycle events.
  *
@@ -46,10 +72,19 @@ export function createEventHook(
     switch (event.type) {
       case 'session.created': {
         // SESSION DELIMITER: Makes debug logs readable by clearly separating sessions
-        const sessionId = (event.properties?.sessionID as string) || 'unknown';
+        const sessionId = readSessionId(event.properties);
         debugLog('\n\n========================================');
         debugLog(`=== NEW SESSION: ${sessionId} ===`);
         debugLog('========================================\n');
+
+        // SUBAGENT SESSION: a task subagent works for its parent, so the
+        // parent's hydration, verification state and loaded rules stay as they are
+        const parentId = readParentId(event.properties);
+        if (parentId) {
+          clearSessionAgent?.(sessionId);
+          recordSubagentSession(sessionId, parentId);
+          break;
+        }
         
         resetVerificationState();
         resetAttemptTracker();
@@ -63,6 +98,16 @@ export function createEventHook(
         // Resolve project directory once for all operations in this session
         const resolvedProjectDir = getProjectDir ? getProjectDir() : process.cwd();
         
+        // USER-OWNED CHANGES: Whatever is uncommitted now belongs to the user,
+        // so later commands that would discard it require confirmation
+        if (getProjectDir) {
+          try {
+            recordDirtyBaseline(resolvedProjectDir, sessionId);
+          } catch (error) {
+            debugLog('Failed to record dirty-tree baseline:', error);
+          }
+        }
+        
         // Check file existence silently (no errors on first run)
         const filesExist = checkFilesExist ? checkFilesExist() : null;
         
@@ -127,7 +172,7 @@ export function createEventHook(
       }
         
       case 'session.deleted': {
-        const sessionId = (event.properties?.sessionID as string) || 'unknown';
+        const sessionId = readSessionId(event.properties);
         debugLog(`Session ended: ${sessionId}`);
         
         // Clean up parallel execution tracking to prevent timer leaks
@@ -136,6 +181,16 @@ export function createEventHook(
         }
 
         clearSessionAgent?.(sessionId);
+        clearSubagentSession(sessionId);
+
+        // Leases the session held are free for other sessions
+        if (getProjectDir) {
+          try {
+            releaseLeases(getProjectDir(), { sessionId });
+          } catch (error) {
+            debugLog(`Failed to release leases of session ${sessionId}: ${getErrorMessage(error)}`);
+          }
+        }
         
         break;
       }
@@ -13,6 +13,7 @@ export {
   disposeSessionBatch,
   type VerificationStep,
   type VerificationState,
+  type RecordVerificationFailure,
   type ToolExecuteBeforeInput,
   type ToolExecuteBeforeOutput,
   type ToolExecutionBatch,
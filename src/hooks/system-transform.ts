@@ -83,7 +83,11 @@ type SystemTransformHook = (
 ) => Promise<void>;
 
 export function createSystemTransformHook(
-  getVerificationState: () => { complete: boolean; stepsRun: Set<string> },
+  getVerificationState: () => {
+    complete: boolean;
+    stepsRun: Set<string>;
+    changedFiles?: ReadonlySet<string>;
+  },
   getSetuFilesExist?: () => FileAvailability,
   getSessionAgent?: (sessionID?: string) => string | null,
   getContextCollector?: () => ContextCollector | null,
@@ -173,7 +177,12 @@ export function createSystemTransformHook(
         );
 
         if (stepsNeeded.length > 0) {
-          output.system.push(`[Verify before done: ${stepsNeeded.join(", ")}]`);
+          const changed = Array.from(verificationState.changedFiles ?? []);
+          const staleNote =
+            changed.length > 0
+              ? ` (stale: ${changed.slice(0, 5).join(", ")}${changed.length > 5 ? `, +${changed.length - 5} more` : ""} changed since last verification)`
+              : "";
+          output.system.push(`[Verify before done: ${stepsNeeded.join(", ")}${staleNote}]`);
         }
       }
     } catch (error) {
@@ -201,7 +210,10 @@ export function createSystemTransformHook(
                 "You are not required to plan yet; continue research until confidence is high.\n" +
                 "Do not make assumptions when path/runtime/scope is ambiguous; ask the user before scaffolding or branching work.\n" +
                 "Task lifecycle: use setu_task(create) only for a new objective (it replaces prior task boundary); use setu_task(reframe) when scope changes but artifacts should be preserved. Do not auto-call clear after status updates.\n" +
-                "You may update research artifacts via setu_research; generic file edits are restricted in this phase.",
+                "You may update research artifacts via setu_research; generic file edits are restricted in this phase." +
+                (gearState.researchBelowMinimum
+                  ? "\nRESEARCH.md is saved but scored below the research quality minimum. Fill in the sections setu_research reported missing (append mode) to leave Scout."
+                  : ""),
             );
             break;
           case "architect":
@@ -309,6 +321,15 @@ export function createSystemTransformHook(
             jitParts.push(`## Current Task\n${jitSummary.objective}`);
           }
 
+          if (jitSummary.planProgress) {
+            const { completed, total } = jitSummary.planProgress;
+            jitParts.push(
+              completed >= total
+                ? `## Plan Progress\nAll ${total} plan steps complete`
+                : `## Plan Progress\n${completed}/${total} steps complete. Current: Step ${jitSummary.step}${jitSummary.stepTitle ? ` (${jitSummary.stepTitle})` : ""}`,
+            );
+          }
+
           if (jitSummary.failedApproaches.length > 0) {
             jitParts.push(
               `## Failed Approaches (DO NOT REPEAT)\n${jitSummary.failedApproaches.map((a) => `- ${a}`).join("\n")}`,
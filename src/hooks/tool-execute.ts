@@ -24,6 +24,7 @@ import {
 import { getErrorMessage } from '../utils/error-handling';
 import {
   type ContextCollector,
+  type SetuContextSummary,
   formatContextForInjection,
   contextToSummary,
   getDisciplineState,
@@ -37,21 +38,60 @@ import {
   approvePendingSafetyConfirmation,
   denyPendingSafetyConfirmation,
   clearPendingSafetyConfirmation,
+  createSnapshot,
+  recordCheckpoint,
+  completeCheckpoints,
+  releaseUserOwnedPaths,
+  acquireLeasesWithWait,
+  formatLeaseHolder,
+  type FileLease,
+  findSetuAncestor,
+  getSubagentSession,
+  queueStepHandoff,
+  prepareJITContext,
+  selectRelevantFiles,
 } from '../context';
-import { loadActiveTask, shouldBlockDueToConstraint } from '../context/active';
+import {
+  loadActiveTask,
+  shouldBlockDueToConstraint,
+  hasActiveConstraints,
+  getModifiedPaths,
+  getCompletedSteps,
+  getStartedStep,
+} from '../context/active';
+import { findReferencedStep, getCurrentStepNumber, loadPlan, type PlanStep } from '../context/plan';
 import { debugLog } from '../debug';
-import { isString, getStringProp, getCurrentBranch, isProtectedBranch, formatGuidanceMessage } from '../utils';
-import { isReadOnlyTool, PARALLEL_BATCH_WINDOW_MS } from '../constants';
+import {
+  isString,
+  getStringProp,
+  getCurrentBranch,
+  isProtectedBranch,
+  formatGuidanceMessage,
+  getWorkingTreeHash,
+  getChangedFilesBetweenTrees
+} from '../utils';
+import { isReadOnlyTool, isSideEffectTool, PARALLEL_BATCH_WINDOW_MS } from '../constants';
+import { getSetuConfig } from '../config';
 import { 
   detectSecrets, 
   validateFilePath,
   logSecurityEvent,
   SecurityEventType,
+  loadProtectedPaths,
+  findProtectedPathViolation,
   type SecretMatch
 } from '../security';
-import { classifyHardSafety } from '../security/safety-classifier';
+import { buildSafetyDecision, classifyHardSafety } from '../security/safety-classifier';
+import { findUserChangeRisks } from '../security/user-changes';
 import { sanitizeArgs } from '../utils/error-handling';
-import { detectEnvironmentConflict } from '../environment/detector';
+import { detectEnvironmentConflict, formatEnvironmentConflict } from '../environment/detector';
+import {
+  detectVerificationSteps,
+  formatVerificationStatus,
+  getMissingVerificationSteps,
+  getStaleVerificationSteps,
+  loadVerificationRecord
+} from '../verification';
 
 // ============================================================================
 // Verification Step Tracking
@@ -78,6 +118,18 @@ export interface ToolExecuteBeforeOutput {
   args: Record<string, unknown>;
 }
 
+/**
+ * Records a failed verification run.
+ *
+ * @returns Guidance to append to the tool output, or null
+ */
+export type RecordVerificationFailure = (
+  sessionID: string,
+  step: VerificationStep,
+  command: string,
+  exitCode: number
+) => string | null;
+
 /**
  * Verification state accessor type
  */
@@ -199,6 +251,187 @@ function isQuestionRelatedToPending(
   });
 }
 
+/**
+ * Snapshot the working tree before an approved risky action runs.
+ *
+ * Fail-open: the user already approved the action, so a snapshot failure is
+ * logged rather than turned into a second block.
+ */
+function captureApprovalSnapshot(
+  projectDir: string,
+  sessionId: string,
+  tool: string,
+  args: Record<string, unknown>,
+  reasons: string[]
+): void {
+  try {
+    const snapshot = createSnapshot(projectDir, {
+      tool,
+      action: getStringProp(args, 'command') ?? getStringProp(args, 'filePath') ?? tool,
+      reasons,
+      sessionId,
+      paths: getModifiedPaths(tool, args),
+    });
+    logSecurityEvent(
+      projectDir,
+      SecurityEventType.SNAPSHOT_CREATED,
+      `Snapshot ${snapshot.id} taken before approved ${tool} (restore with setu_restore)`,
+      { sessionId, tool }
+    );
+  } catch (error) {
+    debugLog(`Snapshot before approved ${tool} failed: ${getErrorMessage(error)}`);
+  }
+}
+
+/** Tools whose target files get an undo-ledger entry */
+const CHECKPOINTED_TOOLS = ['write', 'edit', 'multiedit', 'patch', 'apply_patch'];
+
+/**
+ * Plan step being worked on, or undefined without a task in progress.
+ * A subagent session works in the step its parent handed it; otherwise the
+ * step last started with setu_step, else the first ready step.
+ */
+function getStepInProgress(projectDir: string, sessionId: string): number | undefined {
+  const activeTask = loadActiveTask(projectDir);
+  if (activeTask?.status !== 'in_progress') return undefined;
+  const handedOff = getSubagentSession(sessionId)?.step;
+  if (handedOff !== undefined) return handedOff;
+  const completedSteps = getCompletedSteps(projectDir, activeTask);
+  return getStartedStep(activeTask, completedSteps) ?? getCurrentStepNumber(projectDir, completedSteps);
+}
+
+/**
+ * Plan step a task prompt hands to its subagent, if the prompt names one.
+ */
+function findHandedOffStep(projectDir: string, prompt: string): PlanStep | null {
+  try {
+    const plan = loadPlan(projectDir);
+    return plan ? findReferencedStep(plan, prompt) : null;
+  } catch (error) {
+    debugLog(`Plan step lookup for task failed: ${getErrorMessage(error)}`);
+    return null;
+  }
+}
+
+/**
+ * Collector context for a step handoff, held to a quarter of the subagent
+ * budget so the step's JIT context (DONE WHEN, constraints) keeps the rest.
+ *
+ * Drops the least relevant files read first; omits the block if even the
+ * bare summary does not fit.
+ */
+function formatCappedContext(summary: SetuContextSummary, budgetTokens: number): string | null {
+  // A quarter of the budget in tokens is `budgetTokens` chars (~4 chars per token)
+  const maxChars = budgetTokens;
+  const files = [...summary.filesRead];
+  for (;;) {
+    const block = formatContextForInjection({ ...summary, filesRead: files });
+    if (block.length <= maxChars) return block;
+    if (files.length === 0) return null;
+    files.pop();
+  }
+}
+
+/**
+ * Store pre-images of the files an allowed edit is about to change.
+ *
+ * Fail-open: a ledger failure must not block the edit itself.
+ */
+function recordEditCheckpoints(
+  projectDir: string,
+  sessionId: string,
+  tool: string,
+  args: Record<string, unknown>
+): void {
+  try {
+    const step = getStepInProgress(projectDir, sessionId);
+    for (const filePath of new Set(getModifiedPaths(tool, args))) {
+      recordCheckpoint(projectDir, { filePath, sessionId, tool, step });
+    }
+  } catch (error) {
+    debugLog(`Undo checkpoint for ${tool} failed: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Complete the ledger entries recorded before an edit, now that it has run.
+ *
+ * Fail-open like recordEditCheckpoints.
+ */
+function completeEditCheckpoints(projectDir: string, sessionId: string, tool: string, args: Record<string, unknown>): void {
+  try {
+    completeCheckpoints(projectDir, sessionId, getModifiedPaths(tool, args));
+  } catch (error) {
+    debugLog(`Completing undo checkpoint for ${tool} failed: ${getErrorMessage(error)}`);
+  }
+}
+
+/** Changed files listed in the pre-commit checklist before "+N more" */
+const MAX_LISTED_CHANGED_FILES = 10;
+
+interface RecordedVerification {
+  verified: boolean;
+  missingSteps: string[];
+  /** Required steps whose pass was against an older working tree */
+  staleSteps: string[];
+  /** Files changed since the stale passes ran (empty if unknown) */
+  changedFiles: string[];
+  status: string;
+}
+
+/**
+ * Verification as recorded by setu_verify in .setu/verification.json.
+ * Bash output seen by the after hook does not count for the commit/push gate,
+ * and a pass only counts while the working tree still matches the hash it ran against.
+ */
+function checkRecordedVerification(projectDir: string): RecordedVerification {
+  const record = loadVerificationRecord(projectDir);
+  const requiredSteps = getSetuConfig().verification.requiredSteps;
+  const missingSteps = getMissingVerificationSteps(record, requiredSteps);
+  const treeHash = record ? getWorkingTreeHash(projectDir) : null;
+  const stale = getStaleVerificationSteps(record, requiredSteps, treeHash);
+
+  const changedFiles = new Set<string>();
+  for (const verifiedTree of new Set(stale.map(step => step.treeHash))) {
+    if (!verifiedTree || !treeHash) continue;
+    for (const file of getChangedFilesBetweenTrees(projectDir, verifiedTree, treeHash) ?? []) {
+      changedFiles.add(file);
+    }
+  }
+
+  return {
+    verified: missingSteps.length === 0 && stale.length === 0,
+    missingSteps,
+    staleSteps: stale.map(step => step.name),
+    changedFiles: Array.from(changedFiles),
+    status: formatVerificationStatus(record, treeHash),
+  };
+}
+
+function formatChangedFiles(files: string[]): string {
+  if (files.length === 0) return '(could not list changed files)';
+  const listed = files.slice(0, MAX_LISTED_CHANGED_FILES).join(', ');
+  const more = files.length - MAX_LISTED_CHANGED_FILES;
+  return more > 0 ? `${listed} (+${more} more)` : listed;
+}
+
+/**
+ * Checklist lines explaining why recorded verification does not cover the tree.
+ */
+function formatVerificationGaps(verification: RecordedVerification): string {
+  const lines: string[] = [];
+  if (verification.missingSteps.length > 0) {
+    lines.push(`✗ Build/test verification not complete (missing: ${verification.missingSteps.join(', ')})`);
+  }
+  if (verification.staleSteps.length > 0) {
+    lines.push(
+      `✗ Verification is stale (${verification.staleSteps.join(', ')}): files changed since it ran\n` +
+      `     Changed: ${formatChangedFiles(verification.changedFiles)}`
+    );
+  }
+  return lines.join('\n     ');
+}
+
 function isAllowedDuringQuestionBlock(tool: string, args: Record<string, unknown>): boolean {
   if (tool === 'question' || tool === 'setu_context' || tool === 'setu_doctor') {
     return true;
@@ -258,7 +491,8 @@ function isContextConfirmedWithFallback(collector: ContextCollector | null): boo
 /**
  * Create a before-execution hook that enforces Gearbox rules for tool execution.
  *
- * Setu plugin operates only within exact Setu agent sessions.
+ * Setu plugin operates within exact Setu agent sessions and the subagent sessions
+ * they spawn through the task tool, which get the same gates but not the setu_* tools.
  * When the session agent is unknown or not Setu, Setu-specific enforcement is skipped.
  * When in Setu agent, enforces Gearbox based on artifact existence:
  * - Scout: No RESEARCH.md → read-only
@@ -271,7 +505,8 @@ function isContextConfirmedWithFallback(collector: ContextCollector | null): boo
  * @param getSessionAgent - Optional accessor for the session agent identifier; unknown sessions fail closed for Setu-only tools
  * @param getContextCollector - Optional accessor for a ContextCollector used to obtain and format confirmed context for injection
  * @param getProjectDir - Optional accessor for project directory (used for constraint loading and gear determination)
- * @param getVerificationState - Optional accessor for verification state (used for git discipline enforcement)
+ * @param getVerificationState - Optional accessor for verification state; when provided, git discipline is enforced
+ *   (the commit/push gate itself reads only .setu/verification.json)
  * @param getHydrationState - Optional accessor returning HydrationState; provides current hydration state used for security gating/decision-making during tool execution
  * @returns A hook function invoked before tool execution that enforces Gearbox rules and may throw an Error when a tool is blocked
  */
@@ -315,8 +550,8 @@ export function createToolExecuteBeforeHook(
       );
     }
 
-    // Only operate when in exact Setu agent mode.
-    if (sessionAgent !== 'setu') {
+    // Only operate in Setu agent mode, or in a subagent a Setu session spawned
+    if (sessionAgent !== 'setu' && !findSetuAncestor(input.sessionID, getSessionAgent)) {
       return;
     }
 
@@ -436,6 +671,32 @@ export function createToolExecuteBeforeHook(
     }
 
     if (isMutating) {
+      // PROTECTED FILES: manifest globs are never modifiable, regardless of
+      // task, gear, or safety approval. Checked first so the user is never
+      // asked to approve an action that would be blocked anyway.
+      const protectedViolation = findProtectedPathViolation(
+        input.tool,
+        output.args,
+        projectDir,
+        loadProtectedPaths(projectDir)
+      );
+      if (protectedViolation) {
+        logSecurityEvent(
+          projectDir,
+          SecurityEventType.SENSITIVE_FILE_BLOCKED,
+          `Blocked ${input.tool} on protected path ${protectedViolation.path} (matches '${protectedViolation.pattern}')`,
+          { sessionId: input.sessionID, tool: input.tool }
+        );
+        debugLog(`Protected file BLOCKED: ${protectedViolation.path}`);
+        throw new Error(
+          formatGuidanceMessage(
+            `'${protectedViolation.path}' is protected by the project manifest ('${protectedViolation.pattern}')`,
+            'Do not modify, move, or delete this file. Ask the user to change it themselves if it must change.',
+            'Work around it in unprotected files.'
+          )
+        );
+      }
+
       // Compute actionFingerprint only when needed for mutating tools
       // This avoids serializing large write payloads for read-only operations
       const actionFingerprint = createActionFingerprint(input.tool, output.args);
@@ -446,6 +707,11 @@ export function createToolExecuteBeforeHook(
           // One-time approval: consume it now. Next retry requires fresh approval.
           clearPendingSafetyConfirmation(input.sessionID);
           consumedApproval = true;
+          captureApprovalSnapshot(projectDir, input.sessionID, input.tool, output.args, pendingSafety.reasons);
+          // The user approved changing these files; stop treating them as user-owned
+          if (input.tool !== 'bash') {
+            releaseUserOwnedPaths(projectDir, getModifiedPaths(input.tool, output.args));
+          }
         } else if (pendingSafety.status === 'pending' && pendingSafety.actionFingerprint === actionFingerprint) {
           throw new Error(
             formatGuidanceMessage(
@@ -465,7 +731,11 @@ export function createToolExecuteBeforeHook(
         }
       }
 
-      const safetyDecision = classifyHardSafety(input.tool, output.args);
+      const safetyDecision = buildSafetyDecision([
+        ...classifyHardSafety(input.tool, output.args).matches,
+        ...findUserChangeRisks(projectDir, input.tool, output.args),
+      ]);
+      const safetyRuleIds = safetyDecision.matches.map((match) => match.ruleId).join(',');
       if (!consumedApproval && safetyDecision.hardSafety) {
         if (safetyDecision.action === 'ask') {
           // Log safety confirmation request
@@ -473,7 +743,7 @@ export function createToolExecuteBeforeHook(
             projectDir,
             SecurityEventType.SAFETY_BLOCKED,
             `Safety confirmation required for ${input.tool}: ${safetyDecision.reasons.join('; ')}`,
-            { sessionId: input.sessionID, tool: input.tool }
+            { sessionId: input.sessionID, tool: input.tool, ruleId: safetyRuleIds }
           );
           // SECURITY: Clear any stale pending confirmation before setting new one
           // Prevents confusion when a different action fingerprint is processed
@@ -489,10 +759,11 @@ export function createToolExecuteBeforeHook(
           throw new Error(
             formatGuidanceMessage(
               safetyDecision.reasons.join('; '),
-               'Resolve user decision with question tool if available, otherwise use setu_context as explicit checkpoint.',
-               'Use a lower-risk alternative if possible.'
-             )
-           );
+              'Resolve user decision with question tool if available, otherwise use setu_context as explicit checkpoint.',
+              'Use a lower-risk alternative if possible.',
+              safetyDecision.matches
+            )
+          );
         }
 
         // Log hard block for destructive commands
@@ -500,36 +771,61 @@ export function createToolExecuteBeforeHook(
           projectDir,
           SecurityEventType.SAFETY_BLOCKED,
           `Hard blocked ${input.tool}: ${safetyDecision.reasons.join('; ')}`,
-          { sessionId: input.sessionID, tool: input.tool }
+          { sessionId: input.sessionID, tool: input.tool, ruleId: safetyRuleIds }
         );
 
         throw new Error(
           formatGuidanceMessage(
             safetyDecision.reasons.join('; '),
             'Do not execute this action. Choose a safer alternative.',
-            'Use a lower-risk alternative if possible.'
+            'Use a lower-risk alternative if possible.',
+            safetyDecision.matches
           )
         );
       }
     }
     
+    // Use type guard instead of unsafe cast
+    const originalPrompt = input.tool === 'task' ? getStringProp(output.args, 'prompt') ?? '' : '';
+    const handedOffStep = input.tool === 'task' && getProjectDir ? findHandedOffStep(projectDir, originalPrompt) : null;
+
     // Context injection for task tool (subagent prompts)
-    if (input.tool === 'task' && getContextCollector) {
+    // A prompt that names a plan step also gets that step's JIT context
+    // (files, DONE WHEN, constraints, failed approaches, previous summary),
+    // and the files read are ranked for the step
+    if (input.tool === 'task') {
+      const blocks: string[] = [];
       // Use outer collector binding — getContextCollector() returns the same instance
       if (collector && collector.getContext().confirmed) {
-        const context = collector.getContext();
-        const summary = contextToSummary(context);
-        const contextBlock = formatContextForInjection(summary);
-        
-        // Use type guard instead of unsafe cast
-        const originalPrompt = getStringProp(output.args, 'prompt') ?? '';
-        output.args.prompt = `${contextBlock}\n\n[TASK]\n${originalPrompt}`;
-        
+        const summary = contextToSummary(collector.getContext());
+        if (handedOffStep) {
+          summary.filesRead = selectRelevantFiles(projectDir, summary.filesRead, handedOffStep, originalPrompt);
+        }
+        const block = handedOffStep
+          ? formatCappedContext(summary, getSetuConfig().tokens.subagentContextBudget)
+          : formatContextForInjection(summary);
+        if (block) blocks.push(block);
+      }
+      if (handedOffStep) {
+        // Both blocks share tokens.subagentContextBudget (~4 chars per token)
+        const remainingTokens = getSetuConfig().tokens.subagentContextBudget - Math.ceil(blocks.join('\n\n').length / 4);
+        blocks.push(
+          prepareJITContext(
+            projectDir,
+            `Step ${handedOffStep.id}${handedOffStep.title ? ` — ${handedOffStep.title}` : ''}, as the task below describes`,
+            { mode: 'focused', step: handedOffStep.id, maxTokens: remainingTokens }
+          )
+        );
+      }
+
+      if (blocks.length > 0) {
+        output.args.prompt = `${blocks.join('\n\n')}\n\n[TASK]\n${originalPrompt}`;
+
         // SECURITY: Re-sanitize after prompt injection to prevent control-char bypass
         // The injected context could reintroduce control characters
         output.args = sanitizeArgs(output.args);
-        
-        debugLog('Injected context into subagent prompt');
+
+        debugLog(`Injected context into subagent prompt${handedOffStep ? ` (Step ${handedOffStep.id})` : ''}`);
       }
     }
     
@@ -538,26 +834,19 @@ export function createToolExecuteBeforeHook(
     // This applies in Setu mode regardless of gear state
     if (input.tool === 'bash' && getVerificationState) {
       const command = getStringProp(output.args, 'command') ?? '';
-      const envConflict = await detectEnvironmentConflict(command);
+      const envConflict = await detectEnvironmentConflict(command, projectDir);
       if (envConflict.hasConflict) {
-        throw new Error(
-          formatGuidanceMessage(
-            envConflict.reason ?? 'Command can conflict with active development processes.',
-            'Stop the dev server first, then run build/verification commands.',
-            'If you must continue, run the command manually after confirming local state.'
-          )
-        );
+        throw new Error(formatEnvironmentConflict(envConflict));
       }
 
-      const verificationState = getVerificationState();
-      
       // Check for git commit - enhanced pre-commit checklist
       if (GIT_COMMIT_PATTERN.test(command)) {
         const branch = getCurrentBranch(projectDir);
+        const verification = checkRecordedVerification(projectDir);
         
-        if (!verificationState.complete) {
+        if (!verification.verified) {
           const activeTask = loadActiveTask(projectDir);
-          const branchWarning = isProtectedBranch(branch) 
+          const branchWarning = isProtectedBranch(branch, getSetuConfig().git.protectedBranches) 
             ? `  ⚠️ On protected branch: ${branch}\n` 
             : '';
           
@@ -565,28 +854,29 @@ export function createToolExecuteBeforeHook(
           throw new Error(
             `🚫 [Pre-Commit Checklist] Verification required.\n\n` +
             `Before committing, please verify:\n` +
-            `  1. ✗ Build/test verification not complete\n` +
+            `  1. ${formatVerificationGaps(verification)}\n` +
             `  2. ? Do you understand what was changed?\n` +
             `  3. Branch: ${branch}\n` +
             branchWarning +
             `  4. Task: ${activeTask?.task?.slice(0, 50) || '(none set)'}...\n\n` +
             `Run \`setu_verify\` first.\n\n` +
-            `Current status: ${verificationState.stepsRun.size === 0 ? 'No verification steps run' : `Completed: ${[...verificationState.stepsRun].join(', ')}`}`
+            `Current status: ${verification.status}`
           );
         }
         
         // Additional warning for complex task on protected branch
         // (non-blocking, just logged for awareness since verification passed)
         const activeTask = loadActiveTask(projectDir);
-        if (isProtectedBranch(branch) && activeTask?.task && activeTask.task.length > 50) {
+        if (isProtectedBranch(branch, getSetuConfig().git.protectedBranches) && activeTask?.task && activeTask.task.length > 50) {
           debugLog(`Pre-Commit: Complex task on protected branch ${branch} - ensure thorough review`);
         }
       }
       
       // Check for git push
-      if (GIT_PUSH_PATTERN.test(command) && !verificationState.complete) {
+      const pushVerification = GIT_PUSH_PATTERN.test(command) ? checkRecordedVerification(projectDir) : null;
+      if (pushVerification && !pushVerification.verified) {
         const branch = getCurrentBranch(projectDir);
-        const branchWarning = isProtectedBranch(branch) 
+        const branchWarning = isProtectedBranch(branch, getSetuConfig().git.protectedBranches) 
           ? `\n⚠️ Warning: Pushing to protected branch: ${branch}` 
           : '';
         
@@ -594,8 +884,9 @@ export function createToolExecuteBeforeHook(
         throw new Error(
           `🚫 [Pre-Commit Checklist] Verification required before push.\n\n` +
           `Branch: ${branch}${branchWarning}\n\n` +
-          `Ensure build and tests pass before pushing.\n\n` +
-          `Current status: ${verificationState.stepsRun.size === 0 ? 'No verification steps run' : `Completed: ${[...verificationState.stepsRun].join(', ')}`}`
+          `${formatVerificationGaps(pushVerification)}\n\n` +
+          `Run \`setu_verify\` so build and tests pass before pushing.\n\n` +
+          `Current status: ${pushVerification.status}`
         );
       }
     }
@@ -683,11 +974,12 @@ export function createToolExecuteBeforeHook(
     if (getProjectDir) {
       const activeTask = loadActiveTask(projectDir);
       
-      if (activeTask && activeTask.status === 'in_progress' && activeTask.constraints.length > 0) {
+      if (activeTask && activeTask.status === 'in_progress' && hasActiveConstraints(activeTask)) {
         const { blocked, reason, constraint } = shouldBlockDueToConstraint(
           input.tool,
           activeTask.constraints,
-          output.args
+          output.args,
+          { pathConstraints: activeTask.pathConstraints, projectDir }
         );
         
         if (blocked && reason) {
@@ -725,24 +1017,85 @@ export function createToolExecuteBeforeHook(
 
       debugLog(`Gearbox ALLOWED: ${input.tool} in ${gearState.current} gear`);
     }
+
+    // FILE LEASES
+    // Parallel sessions: a path another session holds for its plan step
+    // waits for the lease (leases.queueWaitMs), then blocks
+    if (getProjectDir && isMutating) {
+      let conflicts: FileLease[] = [];
+      try {
+        const paths = getModifiedPaths(input.tool, output.args);
+        if (paths.length > 0) {
+          const { ttlMs, queueWaitMs } = getSetuConfig().leases;
+          const request = { paths, sessionId: input.sessionID, step: getStepInProgress(projectDir, input.sessionID), ttlMs };
+          conflicts = await acquireLeasesWithWait(projectDir, request, queueWaitMs);
+        }
+      } catch (error) {
+        debugLog(`File lease check for ${input.tool} failed: ${getErrorMessage(error)}`);
+      }
+      if (conflicts.length > 0) {
+        logSecurityEvent(
+          projectDir,
+          SecurityEventType.LEASE_CONFLICT_BLOCKED,
+          `Blocked ${input.tool}: ${conflicts.map(formatLeaseHolder).join('; ')}`,
+          { sessionId: input.sessionID, tool: input.tool }
+        );
+        throw new Error(
+          formatGuidanceMessage(
+            conflicts.map(formatLeaseHolder).join('; '),
+            'Work on the files of your own step; retry once that step completes or the lease expires.',
+            'setu_next lists the steps that are ready; pick one whose files do not overlap.'
+          )
+        );
+      }
+    }
+
+    // UNDO LEDGER
+    // All checks passed: keep the pre-image so setu_undo can revert this edit
+    // (the after hook completes the entry once the edit has run)
+    if (getProjectDir && CHECKPOINTED_TOOLS.includes(input.tool)) {
+      recordEditCheckpoints(projectDir, input.sessionID, input.tool, output.args);
+    }
+
+    // SUBAGENT STEP HANDOFF
+    // The child session this task starts works in the plan step its prompt names
+    if (input.tool === 'task') {
+      queueStepHandoff(input.sessionID, handedOffStep?.id);
+    }
   };
 }
 
+/**
+ * Exit status from bash tool metadata (`exit`, or `exitCode` in some versions).
+ */
+function getExitCode(metadata: unknown): number | null {
+  if (!metadata || typeof metadata !== 'object') return null;
+  const { exit, exitCode } = metadata as { exit?: unknown; exitCode?: unknown };
+  const code = typeof exit === 'number' ? exit : exitCode;
+  return typeof code === 'number' && Number.isInteger(code) ? code : null;
+}
+
 /**
  * Creates a post-tool-execution hook that records verification steps and context events.
  *
  * Setu plugin operates only within exact Setu agent sessions.
  * When the session agent is unknown or not Setu, this hook remains silent.
  *
- * Calls `markVerificationStep` when bash command output or titles indicate build, test, lint, or typecheck activity.
+ * Recognises build, test, lint, and typecheck runs from the bash command itself and reads the exit status
+ * from the tool metadata. Calls `markVerificationStep` only for runs that exited 0; failed runs go to
+ * `recordVerificationFailure`, whose guidance (e.g. a gear-shift suggestion) is appended to the tool output.
  * When a `ContextCollector` is available it records file reads and grep/glob searches (pattern and result count).
  *
  * Note: The 'visual' step is not auto-detected — it requires manual invocation via the setu_verify tool
  * with `steps: ['visual']`. This prompts the user to visually verify UI correctness.
  *
- * @param markVerificationStep - Callback invoked with a verification step ('build' | 'test' | 'lint' | 'typecheck' | 'visual') when the hook detects the corresponding command.
- * @param getSessionAgent - Optional accessor for the session agent identifier; if not 'setu', hook does nothing.
+ * @param markVerificationStep - Callback invoked with a verification step ('build' | 'test' | 'lint' | 'typecheck' | 'visual') and the session when the corresponding command exits 0.
+ * @param getSessionAgent - Optional accessor for the session agent identifier; if not 'setu' (and the session is not a Setu subagent), hook does nothing.
  * @param getContextCollector - Optional function that returns a `ContextCollector` used to record file reads and search actions; if omitted or it returns `null`, context tracking is disabled.
+ * @param recordVerificationFailure - Optional callback for verification runs that exited non-zero.
+ * @param markVerificationStale - Optional callback with the files a write/edit/patch changed; earlier verification no longer covers them.
+ * @param recordQuestionAnswer - Optional callback with the text of each question tool answer (DONE WHEN confirmations).
+ * @param getProjectDir - Optional accessor for the project directory; completes undo ledger entries for edits that ran.
  */
 /**
  * Count non-empty lines in output string
@@ -751,9 +1104,13 @@ const countResultLines = (output: string): number =>
   output.split('\n').filter(l => l.trim()).length;
 
 export function createToolExecuteAfterHook(
-  markVerificationStep: (step: VerificationStep) => void,
+  markVerificationStep: (step: VerificationStep, sessionID?: string) => void,
   getSessionAgent?: (sessionID?: string) => string | null,
-  getContextCollector?: () => ContextCollector | null
+  getContextCollector?: () => ContextCollector | null,
+  recordVerificationFailure?: RecordVerificationFailure,
+  markVerificationStale?: (filePaths: string[]) => void,
+  recordQuestionAnswer?: (answerText: string) => void,
+  getProjectDir?: () => string
 ): (
   input: { tool: string; sessionID: string; callID: string; args?: Record<string, unknown> },
   output: { title: string; output: string; metadata: unknown }
@@ -766,13 +1123,15 @@ export function createToolExecuteAfterHook(
       throw new Error('Setu tool.execute.after hook misconfigured: getSessionAgent is required to resolve sessionAgent.');
     }
 
-    // Only operate when in exact Setu agent mode.
+    // Only operate in Setu agent mode, or in a subagent a Setu session spawned
     const sessionAgent = getSessionAgent(input.sessionID);
-    if (sessionAgent !== 'setu') {
+    if (sessionAgent !== 'setu' && !findSetuAncestor(input.sessionID, getSessionAgent)) {
       return;
     }
 
     if (input.tool === 'question') {
+      // Question text and options live in args; only the answer counts
+      recordQuestionAnswer?.(`${output.title}\n${output.output}`);
       const pendingSafety = getPendingSafetyConfirmation(input.sessionID);
 
       if (pendingSafety) {
@@ -859,76 +1218,48 @@ export function createToolExecuteAfterHook(
       }
     }
     
+    // UNDO LEDGER: the edit ran, so its entry gets the post-edit hash
+    if (getProjectDir && input.args && CHECKPOINTED_TOOLS.includes(input.tool)) {
+      completeEditCheckpoints(getProjectDir(), input.sessionID, input.tool, input.args);
+    }
+
+    // Any edit after verification makes it stale
+    if (isSideEffectTool(input.tool)) {
+      markVerificationStale?.(getModifiedPaths(input.tool, input.args));
+      return;
+    }
+
     // Only track verification for bash tool executions
     if (input.tool !== 'bash') return;
-    
-    // Ensure output.output is a string before calling toLowerCase
-    const commandOutput = isString(output.output) ? output.output.toLowerCase() : '';
-    const title = isString(output.title) ? output.title.toLowerCase() : '';
-    
-    // Detect build commands
-    if (
-      title.includes('build') ||
-      commandOutput.includes('npm run build') ||
-      commandOutput.includes('pnpm build') ||
-      commandOutput.includes('yarn build') ||
-      commandOutput.includes('bun build') ||
-      commandOutput.includes('cargo build') ||
-      commandOutput.includes('go build')
-    ) {
-      markVerificationStep('build');
-      debugLog('Verification step tracked: build');
+
+    const command = getStringProp(input.args, 'command') ?? '';
+    const steps = detectVerificationSteps(command);
+    if (steps.length === 0) return;
+
+    const exitCode = getExitCode(output.metadata);
+    if (exitCode === null) {
+      // No exit status reported: the run proves nothing either way
+      debugLog(`Verification: no exit status for "${command.slice(0, 80)}"; steps not tracked`);
+      return;
     }
-    
-    // Detect test commands
-    if (
-      title.includes('test') ||
-      commandOutput.includes('npm test') ||
-      commandOutput.includes('pnpm test') ||
-      commandOutput.includes('yarn test') ||
-      commandOutput.includes('bun test') ||
-      commandOutput.includes('vitest') ||
-      commandOutput.includes('jest') ||
-      commandOutput.includes('pytest') ||
-      commandOutput.includes('cargo test') ||
-      commandOutput.includes('go test')
-    ) {
-      markVerificationStep('test');
-      debugLog('Verification step tracked: test');
+
+    if (exitCode === 0) {
+      for (const step of steps) {
+        markVerificationStep(step, input.sessionID);
+        debugLog(`Verification step tracked: ${step}`);
+      }
+      return;
     }
-    
-    // Detect lint commands
-    if (
-      title.includes('lint') ||
-      commandOutput.includes('npm run lint') ||
-      commandOutput.includes('eslint') ||
-      commandOutput.includes('biome') ||
-      commandOutput.includes('ruff') ||
-      commandOutput.includes('clippy') ||
-      commandOutput.includes('golangci-lint')
-    ) {
-      markVerificationStep('lint');
-      debugLog('Verification step tracked: lint');
+
+    // A failing run of `a && b` does not say which step failed, so none pass
+    const guidance: string[] = [];
+    for (const step of steps) {
+      debugLog(`Verification step failed: ${step} (exit ${exitCode})`);
+      const message = recordVerificationFailure?.(input.sessionID, step, command, exitCode);
+      if (message && !guidance.includes(message)) guidance.push(message);
     }
-    
-    // Detect typecheck commands
-    if (
-      title.includes('typecheck') ||
-      title.includes('type-check') ||
-      title.includes('type check') ||
-      commandOutput.includes('tsc --noemit') ||
-      commandOutput.includes('tsc -noemit') ||
-      commandOutput.includes('npm run typecheck') ||
-      commandOutput.includes('pnpm typecheck') ||
-      commandOutput.includes('yarn typecheck') ||
-      commandOutput.includes('bun run typecheck') ||
-      commandOutput.includes('mypy') ||
-      commandOutput.includes('pyright') ||
-      commandOutput.includes('cargo check') ||
-      commandOutput.includes('cargo clippy')
-    ) {
-      markVerificationStep('typecheck');
-      debugLog('Verification step tracked: typecheck');
+    if (guidance.length > 0 && isString(output.output)) {
+      output.output = `${output.output}\n\n[Setu] ${guidance.join('\n\n')}`;
     }
     
     // Note: 'visual' step requires manual invocation via setu_verify tool
@@ -24,6 +24,7 @@ import {
   createCompactionHook,
   createActiveBatchesMap,
   recordToolExecution,
+  type RecordVerificationFailure,
   type VerificationStep
 } from './hooks';
 import { createEnhancedAttemptTracker } from './enforcement';
@@ -34,7 +35,11 @@ import { createSetuTaskTool } from './tools/setu-task';
 import { createSetuResearchTool } from './tools/setu-research';
 import { createSetuPlanTool } from './tools/setu-plan';
 import { createSetuResetTool } from './tools/setu-reset';
+import { createSetuRestoreTool } from './tools/setu-restore';
+import { createSetuUndoTool } from './tools/setu-undo';
 import { createSetuDoctorTool } from './tools/setu-doctor';
+import { createSetuNextTool } from './tools/setu-next';
+import { createSetuStepTool } from './tools/setu-step';
 import { createSetuAgent, isGlobalSetuAgentConfigured } from './agent/setu-agent';
 import { 
   ensureSetuDir,
@@ -47,6 +52,9 @@ import { type FileAvailability } from './prompts/persona';
 import { wrapHook } from './utils/error-handling';
 import { checkAndPrepareSetuUpdate, isRootSessionCreatedEvent } from './update/auto-update';
 import { removeControlChars } from './utils/sanitization';
+import { toProjectRelativePath } from './utils/glob';
+import { loadSetuConfig, setSetuConfig, formatConfigIssue } from './config';
+import { recordCriterionConfirmations } from './verification';
 
 // Plugin state
 interface SetuState {
@@ -54,6 +62,8 @@ interface SetuState {
   isFirstSession: boolean;
   verificationSteps: Set<VerificationStep>;
   verificationComplete: boolean;
+  /** Files edited since verification last completed (non-empty = stale) */
+  changedSinceVerification: Set<string>;
   hydration: {
     contextConfirmed: boolean;
     sessionId: string;
@@ -104,7 +114,7 @@ interface ToastClient {
  * - tool.execute.before: hydration enforcement (block side-effects until context confirmed)
  * - tool.execute.after: Track verification steps, file reads, searches
  * - event: Handle session lifecycle, load context on start
- * - tool: Custom tools (setu_verify, setu_context, setu_task, setu_research, setu_plan, setu_reset, setu_doctor)
+ * - tool: Custom tools (setu_verify, setu_context, setu_task, setu_research, setu_plan, setu_reset, setu_restore, setu_undo, setu_doctor, setu_next, setu_step)
  */
 export const SetuPlugin: Plugin = async (ctx) => {
   // Create the Setu agent configuration file on plugin init
@@ -145,12 +155,22 @@ export const SetuPlugin: Plugin = async (ctx) => {
   // Project directory accessor for tools
   const getProjectDir = () => projectDir;
   
+  // Load policy config (global + .setu/config.json) before any enforcement runs.
+  // Invalid entries fall back to defaults; setu_doctor reports them in detail.
+  const loadedConfig = loadSetuConfig(projectDir);
+  setSetuConfig(loadedConfig.config);
+  for (const issue of loadedConfig.issues) {
+    debugLog(`Config issue: ${formatConfigIssue(issue)}`);
+  }
+  const setuConfig = loadedConfig.config;
+  
   // Initialize state
   const state: SetuState = {
     sessionAgents: new Map(),
     isFirstSession: true,
     verificationSteps: new Set(),
     verificationComplete: false,
+    changedSinceVerification: new Set(),
     hydration: {
       contextConfirmed: false,
       sessionId: '',
@@ -178,9 +198,9 @@ export const SetuPlugin: Plugin = async (ctx) => {
     autoUpdateChecked: false
   };
   
-  // Create attempt tracker for "3 tries then suggest gear shift" pattern
+  // Create attempt tracker for "N tries then suggest gear shift" pattern
   const attemptTracker = createEnhancedAttemptTracker({
-    maxAttempts: 3,
+    maxAttempts: setuConfig.attempts.maxAttempts,
     // Persist failed approaches to active.json for ghost loop prevention
     onFailedApproach: (approach: string) => recordFailedApproach(projectDir, approach)
   });
@@ -306,24 +326,67 @@ export const SetuPlugin: Plugin = async (ctx) => {
   
   const getVerificationState = () => ({
     complete: state.verificationComplete,
-    stepsRun: state.verificationSteps
+    stepsRun: state.verificationSteps,
+    changedFiles: state.changedSinceVerification
   });
   
-  const markVerificationStep = (step: VerificationStep) => {
+  const markVerificationStep = (step: VerificationStep, sessionID?: string) => {
     state.verificationSteps.add(step);
-    // Consider verified if build and test have run
-    if (state.verificationSteps.has('build') && state.verificationSteps.has('test')) {
+    if (sessionID) {
+      attemptTracker.reset(`${sessionID}:${step}`);
+    }
+    // Consider verified once every required step has run (default: build + test)
+    if (setuConfig.verification.requiredSteps.every(required => state.verificationSteps.has(required))) {
       state.verificationComplete = true;
+      state.changedSinceVerification.clear();
     }
   };
   
   const resetVerificationState = () => {
     state.verificationSteps.clear();
     state.verificationComplete = false;
+    state.changedSinceVerification.clear();
+  };
+
+  // An edit after any verification progress moves it back to "stale":
+  // steps must run again, and the reminder lists what changed since.
+  const markVerificationStale = (filePaths: string[]) => {
+    if (!state.verificationComplete && state.verificationSteps.size === 0 && state.changedSinceVerification.size === 0) {
+      return;
+    }
+    state.verificationSteps.clear();
+    state.verificationComplete = false;
+    for (const filePath of filePaths) {
+      state.changedSinceVerification.add(toProjectRelativePath(projectDir, filePath) ?? filePath);
+    }
   };
   
+  // Failed bash verification runs drive the "N tries then gear shift" pattern.
+  // Attempts are counted per session and step; a passing run resets the count.
+  const recordVerificationFailure: RecordVerificationFailure = (sessionID, step, command, exitCode) => {
+    state.verificationSteps.delete(step);
+    state.verificationComplete = false;
+
+    const attemptKey = `${sessionID}:${step}`;
+    attemptTracker.recordAttempt(attemptKey, `\`${command.slice(0, 120)}\` exited with ${exitCode}`, false);
+    return attemptTracker.shouldSuggestGearShift(attemptKey)
+      ? attemptTracker.getGearShiftMessage(attemptKey)
+      : null;
+  };
+
+  // DONE WHEN confirmations asked through the question tool become
+  // evidence for the current plan step
+  const recordQuestionAnswer = (answerText: string) => {
+    try {
+      recordCriterionConfirmations(projectDir, answerText);
+    } catch (error) {
+      debugLog('Failed to record DONE WHEN confirmation:', error);
+    }
+  };
+
   const markVerificationComplete = () => {
     state.verificationComplete = true;
+    state.changedSinceVerification.clear();
   };
   
   const setFirstSessionDone = () => {
@@ -391,13 +454,17 @@ export const SetuPlugin: Plugin = async (ctx) => {
   };
 
   const registeredTools = {
-    setu_verify: createSetuVerifyTool(markVerificationComplete, getProjectDir),
+    setu_verify: createSetuVerifyTool(markVerificationComplete, getProjectDir, undefined, getHydrationState),
     setu_context: createSetuContextTool(getHydrationState, confirmContext, getContextCollector, getProjectDir),
     setu_task: createSetuTaskTool(getProjectDir, resetVerificationState),
     setu_research: createSetuResearchTool(getProjectDir),
     setu_plan: createSetuPlanTool(getProjectDir),
     setu_reset: createSetuResetTool(getProjectDir),
+    setu_restore: createSetuRestoreTool(getProjectDir),
+    setu_undo: createSetuUndoTool(getProjectDir),
     setu_doctor: createSetuDoctorTool(getProjectDir),
+    setu_next: createSetuNextTool(getProjectDir),
+    setu_step: createSetuStepTool(getProjectDir),
   };
   
   // Log plugin initialization (only in debug mode)
@@ -507,7 +574,11 @@ export const SetuPlugin: Plugin = async (ctx) => {
       createToolExecuteAfterHook(
         markVerificationStep,
         getSessionAgent,
-        getContextCollector
+        getContextCollector,
+        recordVerificationFailure,
+        markVerificationStale,
+        recordQuestionAnswer,
+        getProjectDir
       )
     ),
     
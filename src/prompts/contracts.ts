@@ -67,11 +67,13 @@ Each unit of work in Execution Steps needs:
 - DONE WHEN - Observable completion condition
 - INTEGRATION IMPACT - How this connects with surrounding system (API/data/UI/CLI as applicable)
 - EDGE CASES - What could go wrong (when applicable)
+- DEPENDS ON - Steps this one needs; "none" if it can run alongside them (omitted = the previous step)
 
 Completeness check (depends on project): include required wiring across interfaces, handlers, state/data flow, tests/docs, and operational readiness so the outcome feels complete.
 Task lifecycle fit: new objective => setu_task(create) (replaces prior boundary); same objective refinement => setu_task(reframe); progress state => setu_task(update_status). Do not auto-call clear after status updates.
 
 Structure naturally (Phase > Task > Step or equivalent), focus on semantic completeness.
+Number each unit of work "Step N". setu_plan rejects plans missing a plan-level section above or a step without Files, Verification, or Done When.
 
 Example GOOD:
 "Phase 1: Foundation
@@ -92,13 +94,13 @@ Example BAD:
  * Compact research expectations for tool description
  * Reinforces quality at call-time without bloat
  */
-export const RESEARCH_TOOL_EXPECTATIONS = `Create comprehensive RESEARCH.md covering intent/PRD, technical analysis with stack quirks, alternatives/tradeoffs, risks/failure modes, verification strategy, open decisions. Be exhaustive to minimize later discovery.`;
+export const RESEARCH_TOOL_EXPECTATIONS = `Create comprehensive RESEARCH.md covering intent/PRD, technical analysis with stack quirks, alternatives/tradeoffs, risks/failure modes, verification strategy, open decisions. Be exhaustive to minimize later discovery. Research is scored per section; below the minimum, Setu stays in Scout.`;
 
 /**
  * Compact plan expectations for tool description
  * Reinforces quality at call-time without bloat
  */
-export const PLAN_TOOL_EXPECTATIONS = `Create detailed PLAN.md with atomic steps including why, files touched, verification method. Structure naturally (Phase > Task > Step). Include rollback notes and success criteria. After .setu/PLAN.md is complete, provide user with plan preview and ask: Reply "go" to start, or tell me what to adjust.`;
+export const PLAN_TOOL_EXPECTATIONS = `Create detailed PLAN.md with atomic "Step N" steps including why, files touched, verification method, done when (and depends on). Include objective, context summary, goals/non-goals, assumptions/constraints, file-level edit list; incomplete plans are rejected. Include rollback notes and success criteria. After .setu/PLAN.md is complete, provide user with plan preview and ask: Reply "go" to start, or tell me what to adjust.`;
 
 /**
  * Reference example template - NOT enforced
@@ -129,6 +131,8 @@ export const PLAN_EXAMPLE_TEMPLATE = `# Plan
   - Why: [Justification]
   - Files: [Specific paths]
   - Verification: [How to confirm]
+  - Done When: [Observable completion condition]
+  - Depends On: [Steps it needs, or none]
 
 ## Expected Output
 [What success looks like]
@@ -0,0 +1,154 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  findProtectedPathViolation,
+  loadProtectedPaths,
+  parseProtectedSection,
+  type ProtectedViolation
+} from '../protected-files';
+
+describe('protected-file manifest', () => {
+  let projectDir = '';
+
+  beforeEach(() => {
+    projectDir = mkdtempSync(join(tmpdir(), 'setu-protected-'));
+    mkdirSync(join(projectDir, '.setu'), { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  test('parses setu-protected fenced blocks from markdown', () => {
+    const markdown = [
+      '# Rules',
+      '```setu-protected',
+      '# never touch',
+      'src/legacy/**',
+      '',
+      '../escape/**',
+      'migrations',
+      '```',
+      '```ts',
+      'not/a/glob',
+      '```'
+    ].join('\n');
+
+    expect(parseProtectedSection(markdown)).toEqual(['src/legacy/**', 'migrations']);
+  });
+
+  test('merges protected.json with AGENTS.md and protects the manifest itself', () => {
+    writeFileSync(
+      join(projectDir, '.setu', 'protected.json'),
+      JSON.stringify({ version: 1, paths: ['db/schema.sql'] })
+    );
+    writeFileSync(join(projectDir, 'AGENTS.md'), '```setu-protected\nsrc/legacy/**\n```\n');
+
+    expect(loadProtectedPaths(projectDir)).toEqual([
+      '.setu/protected.json',
+      'db/schema.sql',
+      'AGENTS.md',
+      'src/legacy/**'
+    ]);
+  });
+
+  test('AGENTS.md protects itself only when it has a setu-protected block', () => {
+    writeFileSync(join(projectDir, 'AGENTS.md'), '# Rules\nBe careful.\n');
+    expect(loadProtectedPaths(projectDir)).toEqual([]);
+
+    writeFileSync(join(projectDir, 'AGENTS.md'), '# Rules\n```setu-protected\nmigrations/**\n```\n');
+    const patterns = loadProtectedPaths(projectDir);
+
+    expect(findProtectedPathViolation('edit', { filePath: 'AGENTS.md' }, projectDir, patterns))
+      .toEqual({ path: 'AGENTS.md', pattern: 'AGENTS.md' });
+    expect(findProtectedPathViolation('bash', { command: 'rm AGENTS.md' }, projectDir, patterns)).not.toBeNull();
+  });
+
+  test('returns no patterns when neither source exists', () => {
+    expect(loadProtectedPaths(projectDir)).toEqual([]);
+  });
+
+  test('detects file tool and bash modifications of protected paths', () => {
+    const patterns = ['src/legacy/**', 'db/schema.sql'];
+
+    expect(findProtectedPathViolation('multiedit', { filePath: 'src/legacy/a.ts' }, projectDir, patterns))
+      .toEqual({ path: 'src/legacy/a.ts', pattern: 'src/legacy/**' });
+    expect(findProtectedPathViolation('bash', { command: 'mv db/schema.sql db/old.sql' }, projectDir, patterns))
+      .not.toBeNull();
+    expect(findProtectedPathViolation('bash', { command: "sed -i 's/a/b/' src/legacy/a.ts" }, projectDir, patterns))
+      .not.toBeNull();
+    expect(findProtectedPathViolation('bash', { command: 'cat db/schema.sql > out.sql' }, projectDir, patterns))
+      .toBeNull();
+  });
+
+  test('resolves bash targets against the directory cd, pushd and git -C move to', () => {
+    const patterns = ['src/legacy/**'];
+    const check = (command: string): ProtectedViolation | null =>
+      findProtectedPathViolation('bash', { command }, projectDir, patterns);
+
+    expect(check("cd src/legacy && sed -i 's/a/b/' x.ts")).toEqual({ path: 'src/legacy/x.ts', pattern: 'src/legacy/**' });
+    expect(check('cd src && echo x > legacy/a.ts')).not.toBeNull();
+    expect(check('pushd src/legacy; rm a.ts')).not.toBeNull();
+    expect(check('git -C src/legacy checkout -- a.ts')).not.toBeNull();
+    expect(check('git -c core.quotepath=off -C src -C legacy restore a.ts')).not.toBeNull();
+    expect(check('(cd src); echo x > a.ts')).toBeNull();
+    expect(check('cd src && echo x > a.ts')).toBeNull();
+    expect(findProtectedPathViolation('bash', { command: 'cd .setu && echo {} > verification.json' }, projectDir, []))
+      .toEqual({ path: '.setu/verification.json', pattern: '.setu/verification.json' });
+  });
+
+  test('treats writes after an unknown directory change as reaching the whole project', () => {
+    const patterns = ['src/legacy/**'];
+    expect(findProtectedPathViolation('bash', { command: 'cd "$DIR" && echo x > a.ts' }, projectDir, patterns))
+      .toEqual({ path: '.', pattern: '.setu/verification.json' });
+    expect(findProtectedPathViolation('bash', { command: 'cd - && rm a.ts' }, projectDir, patterns)).not.toBeNull();
+    expect(findProtectedPathViolation('bash', { command: 'popd; touch a.ts' }, projectDir, patterns)).not.toBeNull();
+    expect(findProtectedPathViolation('bash', { command: 'cd "$DIR" && ls' }, projectDir, patterns)).toBeNull();
+  });
+
+  test('treats moving or deleting a parent of a protected path as a violation', () => {
+    const patterns = ['src/legacy/**'];
+    expect(findProtectedPathViolation('bash', { command: 'mv src old' }, projectDir, patterns))
+      .toEqual({ path: 'src', pattern: 'src/legacy/**' });
+    expect(findProtectedPathViolation('bash', { command: 'rm -r src' }, projectDir, patterns)).not.toBeNull();
+    expect(findProtectedPathViolation('bash', { command: 'rm -rf .setu' }, projectDir, [])).not.toBeNull();
+    expect(findProtectedPathViolation('bash', { command: 'git checkout -- .' }, projectDir, [])).not.toBeNull();
+    expect(findProtectedPathViolation('bash', { command: 'rm -r src/app' }, projectDir, patterns)).toBeNull();
+  });
+
+  test('finds sed in-place targets when the script comes from --expression', () => {
+    expect(findProtectedPathViolation(
+      'bash',
+      { command: "sed --in-place --expression='s/a/b/' src/legacy/a.ts" },
+      projectDir,
+      ['src/legacy/**']
+    )).not.toBeNull();
+  });
+
+  test("always protects Setu's own records", () => {
+    expect(findProtectedPathViolation('write', { filePath: '.setu/verification.json' }, projectDir, []))
+      .toEqual({ path: '.setu/verification.json', pattern: '.setu/verification.json' });
+    expect(findProtectedPathViolation('bash', { command: 'echo {} > .setu/evidence.json' }, projectDir, []))
+      .not.toBeNull();
+    expect(findProtectedPathViolation('edit', { filePath: join(projectDir, '.setu/plan.json') }, projectDir, []))
+      .not.toBeNull();
+    expect(findProtectedPathViolation('write', { filePath: '.setu/PLAN.md' }, projectDir, [])).toBeNull();
+  });
+
+  test('protects the project config that sets Setu policy', () => {
+    expect(findProtectedPathViolation('write', { filePath: '.setu/config.json' }, projectDir, []))
+      .toEqual({ path: '.setu/config.json', pattern: '.setu/config.json' });
+    expect(findProtectedPathViolation('edit', { filePath: join(projectDir, '.setu', 'config.json') }, projectDir, []))
+      .not.toBeNull();
+    expect(findProtectedPathViolation(
+      'bash',
+      { command: `echo '{"verification":{"requiredSteps":[]}}' > .setu/config.json` },
+      projectDir,
+      []
+    )).not.toBeNull();
+    expect(findProtectedPathViolation('bash', { command: "sed -i 's/0.8/0/' .setu/config.json" }, projectDir, []))
+      .not.toBeNull();
+  });
+});
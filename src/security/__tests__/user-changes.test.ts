@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { execFileSync } from 'child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { loadDirtyBaseline, recordDirtyBaseline, releaseUserOwnedPaths } from '../../context/dirty-baseline';
+import { findUserChangeRisks } from '../user-changes';
+
+function git(cwd: string, ...args: string[]): void {
+  execFileSync('git', ['-c', 'user.email=setu@test', '-c', 'user.name=setu', ...args], { cwd, stdio: 'pipe' });
+}
+
+describe('user-owned change protection', () => {
+  let projectDir = '';
+
+  function ruleIds(tool: string, args: Record<string, unknown>): string[] {
+    return findUserChangeRisks(projectDir, tool, args).map(match => match.ruleId);
+  }
+
+  beforeEach(() => {
+    projectDir = mkdtempSync(join(tmpdir(), 'setu-user-changes-'));
+    git(projectDir, 'init', '-q');
+    writeFileSync(join(projectDir, 'app.ts'), 'export const a = 1;\n');
+    writeFileSync(join(projectDir, '.gitignore'), '.setu/\n');
+    git(projectDir, 'add', '.');
+    git(projectDir, 'commit', '-qm', 'init');
+
+    // The user's own uncommitted work
+    writeFileSync(join(projectDir, 'app.ts'), 'export const a = 1;\nexport const userValue = 42;\n');
+    writeFileSync(join(projectDir, 'notes.md'), 'remember the migration\n');
+  });
+
+  afterEach(() => {
+    rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  test('records dirty files and the lines the user added', () => {
+    const baseline = recordDirtyBaseline(projectDir, 'session-1');
+    expect(baseline?.files).toEqual([
+      { path: 'app.ts', status: ' M', lines: ['export const userValue = 42;'] },
+      { path: 'notes.md', status: '??', lines: ['remember the migration'] },
+    ]);
+    expect(loadDirtyBaseline(projectDir)?.sessionId).toBe('session-1');
+  });
+
+  test('asks before git commands that discard the user\'s working tree', () => {
+    recordDirtyBaseline(projectDir, 'session-1');
+
+    expect(ruleIds('bash', { command: 'git checkout -- .' })).toEqual(['git-checkout-user-changes']);
+    expect(ruleIds('bash', { command: 'git restore app.ts' })).toEqual(['git-restore-user-changes']);
+    expect(ruleIds('bash', { command: 'git switch main' })).toEqual(['git-switch-user-changes']);
+
+    expect(ruleIds('bash', { command: 'git restore --staged app.ts' })).toEqual([]);
+    expect(ruleIds('bash', { command: 'git switch -c feature' })).toEqual([]);
+    expect(ruleIds('bash', { command: 'git checkout -b feature' })).toEqual([]);
+  });
+
+  test('checks only the paths a git checkout or restore names', () => {
+    recordDirtyBaseline(projectDir, 'session-1');
+    writeFileSync(join(projectDir, 'other.ts'), 'export const b = 2;\n');
+    git(projectDir, 'add', 'other.ts');
+    git(projectDir, 'commit', '-qm', 'other');
+
+    expect(ruleIds('bash', { command: 'git checkout -- other.ts' })).toEqual([]);
+    expect(ruleIds('bash', { command: 'git restore other.ts' })).toEqual([]);
+    expect(ruleIds('bash', { command: 'git checkout HEAD other.ts' })).toEqual([]);
+    expect(ruleIds('bash', { command: 'git restore --source HEAD~1 other.ts' })).toEqual([]);
+
+    expect(ruleIds('bash', { command: 'git checkout app.ts' })).toEqual(['git-checkout-user-changes']);
+    expect(ruleIds('bash', { command: 'git restore -s HEAD "*.ts"' })).toEqual(['git-restore-user-changes']);
+    expect(ruleIds('bash', { command: 'git checkout main' })).toEqual(['git-checkout-user-changes']);
+    expect(ruleIds('bash', { command: 'git checkout' })).toEqual(['git-checkout-user-changes']);
+  });
+
+  test('a later session adds to the baseline instead of replacing it', () => {
+    recordDirtyBaseline(projectDir, 'session-1');
+    writeFileSync(join(projectDir, 'app.ts'), 'export const a = 1;\nexport const sessionValue = 7;\n');
+
+    const baseline = recordDirtyBaseline(projectDir, 'session-2');
+
+    expect(baseline?.files.find(file => file.path === 'app.ts')?.lines)
+      .toEqual(['export const userValue = 42;', 'export const sessionValue = 7;']);
+    expect(ruleIds('edit', { filePath: 'app.ts', oldString: 'export const userValue = 42;', newString: '' }))
+      .toEqual(['overwrite-user-hunks']);
+
+    git(projectDir, 'add', '.');
+    git(projectDir, 'commit', '-qm', 'user work');
+    expect(recordDirtyBaseline(projectDir, 'session-3')?.files).toEqual([]);
+  });
+
+  test('stops asking once the user\'s changes are committed', () => {
+    recordDirtyBaseline(projectDir, 'session-1');
+    git(projectDir, 'add', '.');
+    git(projectDir, 'commit', '-qm', 'user work');
+    expect(ruleIds('bash', { command: 'git checkout -- .' })).toEqual([]);
+  });
+
+  test('asks before dropping stash entries that predate the session', () => {
+    git(projectDir, 'stash', '-q');
+    recordDirtyBaseline(projectDir, 'session-1');
+    expect(ruleIds('bash', { command: 'git stash drop' })).toEqual(['git-stash-drop-user-changes']);
+  });
+
+  test('asks before writes or edits that remove user lines', () => {
+    recordDirtyBaseline(projectDir, 'session-1');
+
+    expect(ruleIds('write', { filePath: 'app.ts', content: 'export const a = 2;\n' })).toEqual(['overwrite-user-hunks']);
+    expect(ruleIds('edit', { filePath: 'app.ts', oldString: 'export const userValue = 42;', newString: '' }))
+      .toEqual(['overwrite-user-hunks']);
+
+    expect(ruleIds('write', { filePath: 'app.ts', content: 'export const a = 2;\nexport const userValue = 42;\n' })).toEqual([]);
+    expect(ruleIds('edit', { filePath: 'app.ts', oldString: 'export const a = 1;', newString: 'export const a = 2;' })).toEqual([]);
+  });
+
+  test('released paths are no longer user-owned', () => {
+    recordDirtyBaseline(projectDir, 'session-1');
+    releaseUserOwnedPaths(projectDir, [join(projectDir, 'app.ts')]);
+    expect(ruleIds('write', { filePath: 'app.ts', content: '' })).toEqual([]);
+    expect(ruleIds('write', { filePath: 'notes.md', content: '' })).toEqual(['overwrite-user-hunks']);
+  });
+
+  test('does nothing without a baseline', () => {
+    expect(ruleIds('bash', { command: 'git checkout -- .' })).toEqual([]);
+  });
+});
@@ -26,6 +26,7 @@ export enum SecurityEventType {
   DEPENDENCY_EDIT_BLOCKED = 'DEPENDENCY_EDIT_BLOCKED',
   GEAR_BLOCKED = 'GEAR_BLOCKED',
   SAFETY_BLOCKED = 'SAFETY_BLOCKED',
+  LEASE_CONFLICT_BLOCKED = 'LEASE_CONFLICT_BLOCKED',
 
   // Warning events
   BYPASS_ATTEMPT_DETECTED = 'BYPASS_ATTEMPT_DETECTED',
@@ -35,7 +36,8 @@ export enum SecurityEventType {
   // Allowance/info events
   HYDRATION_FALLBACK_ALLOWED = 'HYDRATION_FALLBACK_ALLOWED',
   RATE_LIMIT_TRIGGERED = 'RATE_LIMIT_TRIGGERED',
-  CONSTRAINT_ENFORCED = 'CONSTRAINT_ENFORCED'
+  CONSTRAINT_ENFORCED = 'CONSTRAINT_ENFORCED',
+  SNAPSHOT_CREATED = 'SNAPSHOT_CREATED'
 }
 
 /**
@@ -46,6 +48,8 @@ export interface SecurityEvent {
   timestamp: string;
   sessionId?: string;
   tool?: string;
+  /** Safety rule ID(s) that fired, comma-separated */
+  ruleId?: string;
   details: string;
   severity: 'critical' | 'high' | 'medium' | 'low' | 'info';
 }
@@ -62,12 +66,14 @@ const EVENT_SEVERITY: Record<SecurityEventType, SecurityEvent['severity']> = {
   [SecurityEventType.DEPENDENCY_EDIT_BLOCKED]: 'medium',
   [SecurityEventType.GEAR_BLOCKED]: 'medium',
   [SecurityEventType.SAFETY_BLOCKED]: 'high',
+  [SecurityEventType.LEASE_CONFLICT_BLOCKED]: 'low',
   [SecurityEventType.HYDRATION_FALLBACK_ALLOWED]: 'info',
   [SecurityEventType.BYPASS_ATTEMPT_DETECTED]: 'high',
   [SecurityEventType.SECRETS_DETECTED]: 'critical',
   [SecurityEventType.PROMPT_INJECTION_SANITIZED]: 'medium',
   [SecurityEventType.RATE_LIMIT_TRIGGERED]: 'low',
-  [SecurityEventType.CONSTRAINT_ENFORCED]: 'info'
+  [SecurityEventType.CONSTRAINT_ENFORCED]: 'info',
+  [SecurityEventType.SNAPSHOT_CREATED]: 'info'
 };
 
 /**
@@ -92,6 +98,10 @@ function formatSecurityEvent(event: SecurityEvent): string {
     entry += ` | tool:${event.tool}`;
   }
   
+  if (event.ruleId) {
+    entry += ` | rule:${event.ruleId}`;
+  }
+  
   // Details are already sanitized in logSecurityEvent
   // Truncate to prevent log bloat
   const TRUNCATION_SUFFIX = '...(truncated)';
@@ -137,7 +147,7 @@ function sanitizeLogDetails(details: string): string {
  * @param projectDir - Project root directory
  * @param type - Type of security event
  * @param details - Event details
- * @param options - Additional options (sessionId, tool)
+ * @param options - Additional options (sessionId, tool, ruleId)
  * @returns The formatted event string
  */
 export function logSecurityEvent(
@@ -147,6 +157,7 @@ export function logSecurityEvent(
   options: {
     sessionId?: string;
     tool?: string;
+    ruleId?: string;
   } = {}
 ): string {
   // SECURITY: Sanitize newlines BEFORE creating event to prevent log injection
@@ -157,6 +168,7 @@ export function logSecurityEvent(
     timestamp: new Date().toISOString(),
     sessionId: options.sessionId,
     tool: options.tool,
+    ruleId: options.ruleId ? sanitizeLogDetails(options.ruleId) : undefined,
     details: sanitizedDetails,
     severity: EVENT_SEVERITY[type]
   };
@@ -169,7 +181,7 @@ export function logSecurityEvent(
     
     // Write header atomically on first create; 'wx' fails with EEXIST if another
     // process already created the file — that race is safe to ignore.
-    const header = `# Setu Security Log\n# This file records security-relevant events for forensics\n# Format: [timestamp] SEVERITY | EVENT_TYPE | session:id | tool:name | details\n${'='.repeat(80)}\n\n`;
+    const header = `# Setu Security Log\n# This file records security-relevant events for forensics\n# Format: [timestamp] SEVERITY | EVENT_TYPE | session:id | tool:name | rule:id | details\n${'='.repeat(80)}\n\n`;
     try {
       appendFileSync(logPath, header, { flag: 'wx' });
     } catch (err: unknown) {
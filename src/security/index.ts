@@ -6,6 +6,7 @@
  * - Prompt sanitization (prevent injection attacks)
  * - Secrets detection (prevent accidental leaks)
  * - Security audit logging
+ * - Protected-file manifest enforcement
  * - Debug log redaction
  */
 
@@ -36,6 +37,16 @@ export {
   type SecurityEvent
 } from './audit-log';
 
+export {
+  loadProtectedPaths,
+  parseProtectedSection,
+  findProtectedPathViolation,
+  PROTECTED_MANIFEST_PATH,
+  type ProtectedViolation
+} from './protected-files';
+
+export { findUserChangeRisks } from './user-changes';
+
 export {
   redactSensitive,
   REDACTION_PATTERNS
@@ -0,0 +1,189 @@
+/**
+ * Protected-file manifest
+ *
+ * Lists globs the agent must never modify, delete, or move — across all
+ * sessions, tasks, and gears. Two sources are merged:
+ * - .setu/protected.json: { "version": 1, "paths": ["src/legacy/**"] }
+ * - AGENTS.md fenced block:
+ *     ```setu-protected
+ *     migrations/**
+ *     ```
+ *
+ * A source that lists globs protects itself (protected.json whenever it
+ * exists, AGENTS.md when it has a setu-protected block), so the agent
+ * cannot lift protection by editing it. Setu's own records are always protected.
+ */
+
+import { existsSync, readFileSync, statSync } from 'fs';
+import { join } from 'path';
+import { getModifiedPaths } from '../context/active';
+import { debugLog, errorLog } from '../debug';
+import { getErrorMessage } from '../utils/error-handling';
+import {
+  isProjectRoot,
+  matchGlobList,
+  matchGlobListBeneath,
+  normalizeGlobPattern,
+  toProjectRelativePath
+} from '../utils/glob';
+import { removeControlChars } from '../utils/sanitization';
+
+export const PROTECTED_MANIFEST_PATH = '.setu/protected.json';
+const AGENTS_FILE_PATH = 'AGENTS.md';
+
+/**
+ * Records only Setu's tools write, and the project config only the user
+ * writes. The commit/push gate and step completion trust the records, and the
+ * config sets their thresholds and the read-only allowlist, so no agent tool
+ * call may change them.
+ */
+export const SETU_RECORD_PATHS = [
+  '.setu/verification.json',
+  '.setu/evidence.json',
+  '.setu/plan.json',
+  '.setu/research-quality.json',
+  '.setu/config.json',
+] as const;
+const PROTECTED_FENCE_PATTERN = /^```setu-protected[^\n]*\n([\s\S]*?)^```/gm;
+const MAX_PROTECTED_GLOBS = 200;
+const MAX_GLOB_LENGTH = 200;
+
+export interface ProtectedViolation {
+  /** Project-relative path that would be modified */
+  path: string;
+  /** Glob from the manifest that matched */
+  pattern: string;
+}
+
+interface CachedManifest {
+  manifestStamp: string | null;
+  agentsStamp: string | null;
+  patterns: string[];
+}
+
+const manifestCache = new Map<string, CachedManifest>();
+
+function sanitizeGlobs(globs: unknown[]): string[] {
+  const valid = globs
+    .filter((g): g is string => typeof g === 'string')
+    .map(g => removeControlChars(g).trim())
+    .filter(g => g.length > 0 && g.length <= MAX_GLOB_LENGTH && !g.startsWith('/') && !g.startsWith('~'))
+    .map(normalizeGlobPattern)
+    .filter(g => g.length > 0 && !g.split('/').includes('..'));
+
+  return Array.from(new Set(valid)).slice(0, MAX_PROTECTED_GLOBS);
+}
+
+/**
+ * Extract globs from ```setu-protected fenced blocks in markdown.
+ * One glob per line; blank lines and `#` comments are ignored.
+ */
+export function parseProtectedSection(markdown: string): string[] {
+  const globs: string[] = [];
+  for (const match of markdown.matchAll(PROTECTED_FENCE_PATTERN)) {
+    for (const line of match[1].split('\n')) {
+      const trimmed = line.trim();
+      if (trimmed && !trimmed.startsWith('#')) {
+        globs.push(trimmed);
+      }
+    }
+  }
+  return sanitizeGlobs(globs);
+}
+
+function readManifestGlobs(manifestPath: string): string[] {
+  try {
+    const parsed: unknown = JSON.parse(readFileSync(manifestPath, 'utf-8'));
+    const paths = parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>).paths
+      : undefined;
+
+    if (!Array.isArray(paths)) {
+      errorLog('Invalid protected.json: expected { "version": 1, "paths": [...] }');
+      return [];
+    }
+
+    return sanitizeGlobs(paths);
+  } catch (error) {
+    errorLog('Failed to parse protected.json:', getErrorMessage(error));
+    return [];
+  }
+}
+
+/** mtime+size fingerprint for cache invalidation; null when absent */
+function getFileStamp(path: string): string | null {
+  try {
+    if (!existsSync(path)) return null;
+    const stats = statSync(path);
+    return `${stats.mtimeMs}:${stats.size}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Load protected globs from .setu/protected.json and AGENTS.md.
+ *
+ * Cached per project and invalidated by file mtime/size, so it is cheap to call
+ * on every tool execution.
+ */
+export function loadProtectedPaths(projectDir: string): string[] {
+  const manifestPath = join(projectDir, PROTECTED_MANIFEST_PATH);
+  const agentsPath = join(projectDir, AGENTS_FILE_PATH);
+  const manifestStamp = getFileStamp(manifestPath);
+  const agentsStamp = getFileStamp(agentsPath);
+
+  const cached = manifestCache.get(projectDir);
+  if (cached && cached.manifestStamp === manifestStamp && cached.agentsStamp === agentsStamp) {
+    return cached.patterns;
+  }
+
+  const patterns: string[] = [];
+  if (manifestStamp) {
+    patterns.push(PROTECTED_MANIFEST_PATH, ...readManifestGlobs(manifestPath));
+  }
+  if (agentsStamp) {
+    try {
+      const agentsGlobs = parseProtectedSection(readFileSync(agentsPath, 'utf-8'));
+      if (agentsGlobs.length > 0) {
+        patterns.push(AGENTS_FILE_PATH, ...agentsGlobs);
+      }
+    } catch (error) {
+      debugLog('Failed to read AGENTS.md protected section:', getErrorMessage(error));
+    }
+  }
+
+  const unique = Array.from(new Set(patterns));
+  manifestCache.set(projectDir, { manifestStamp, agentsStamp, patterns: unique });
+  return unique;
+}
+
+/**
+ * Find the first protected path a tool call would modify.
+ *
+ * Setu's own records (SETU_RECORD_PATHS) are checked along with `patterns`.
+ * Modifying a directory that holds protected paths (`rm -r src` for
+ * `src/legacy/**`, or the project root) is a violation too.
+ *
+ * @returns Violation details, or null if the call is allowed
+ */
+export function findProtectedPathViolation(
+  tool: string,
+  args: Record<string, unknown> | undefined,
+  projectDir: string,
+  patterns: readonly string[]
+): ProtectedViolation | null {
+  const globs = [...SETU_RECORD_PATHS, ...patterns];
+
+  for (const rawPath of getModifiedPaths(tool, args)) {
+    const relativePath = isProjectRoot(projectDir, rawPath) ? '' : toProjectRelativePath(projectDir, rawPath);
+    if (relativePath === null) continue;
+
+    const pattern = matchGlobList(relativePath, globs) ?? matchGlobListBeneath(relativePath, globs);
+    if (pattern) {
+      return { path: relativePath || '.', pattern };
+    }
+  }
+
+  return null;
+}
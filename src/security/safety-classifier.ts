@@ -1,4 +1,12 @@
 import { getStringProp } from '../utils';
+import {
+  type ShellCommand,
+  collectShellCommands,
+  getGitArgs,
+  getOperands,
+  hasFlag,
+  isShellInterpreter,
+} from '../utils/shell-parser';
 
 export type HardSafetyAction = 'ask' | 'block';
 
@@ -6,16 +14,53 @@ export type HardSafetyAction = 'ask' | 'block';
  * Structured category for safety classification.
  * Action determination is derived from this enum, not from reason text.
  * 'destructive' → block (irrecoverable operations like rm -rf, git reset --hard)
+ * 'database' → block (dropped/reset data has no local undo)
+ * 'resource-exhaustion' → block (fork bombs, unbounded disk fills; never a legitimate step)
  * 'production' | 'sensitive' → ask (reversible but risky)
+ * 'cloud' | 'container' → ask (remote or shared resources; only the user knows if they are disposable)
+ * 'privilege' → ask (sudo, world-writable or root-owned files)
+ * 'user-changes' → ask (discards work the user had uncommitted at session start; see user-changes.ts)
+ * 'opaque' → ask (the parser cannot see what runs, so no other rule can be trusted to have fired)
  * Note: 'mutation' category removed - no longer needed after FILE_MUTATION_BASH_PATTERNS removal
  */
-export type SafetyCategory = 'destructive' | 'production' | 'sensitive';
+export type SafetyCategory =
+  | 'destructive'
+  | 'production'
+  | 'sensitive'
+  | 'database'
+  | 'cloud'
+  | 'container'
+  | 'privilege'
+  | 'resource-exhaustion'
+  | 'user-changes'
+  | 'opaque';
 
 /** Maps category to enforcement action. Single source of truth. */
 const CATEGORY_ACTION: Record<SafetyCategory, HardSafetyAction> = {
   destructive: 'block',
   production: 'ask',
   sensitive: 'ask',
+  database: 'block',
+  cloud: 'ask',
+  container: 'ask',
+  privilege: 'ask',
+  'resource-exhaustion': 'block',
+  'user-changes': 'ask',
+  opaque: 'ask',
+};
+
+/** Reason text per category (stable; used for pending-confirmation matching) */
+const CATEGORY_MESSAGE: Record<SafetyCategory, string> = {
+  destructive: 'Destructive shell command detected',
+  production: 'Production-impacting command detected',
+  sensitive: 'Sensitive file path detected',
+  database: 'Destructive database command detected',
+  cloud: 'Cloud resource deletion detected',
+  container: 'Container data cleanup detected',
+  privilege: 'Privilege escalation detected',
+  'resource-exhaustion': 'Resource exhaustion pattern detected',
+  'user-changes': 'Uncommitted user changes would be discarded',
+  opaque: 'Shell command could not be analyzed',
 };
 
 export interface SafetyReason {
@@ -23,38 +68,492 @@ export interface SafetyReason {
   message: string;
 }
 
+/** One rule that fired, with what it matched and how to avoid it */
+export interface SafetyMatch extends SafetyReason {
+  /** Stable rule identifier (e.g. 'git-reset-hard'), recorded in security.log */
+  ruleId: string;
+  /** Exact command text (or file path) that triggered the rule */
+  matched: string;
+  /** Lower-risk way to reach the same goal */
+  alternative?: string;
+}
+
 export interface SafetyDecision {
   hardSafety: boolean;
   /** Action is only meaningful when hardSafety is true. When hardSafety is false, this is undefined. */
   action?: HardSafetyAction;
+  /** One message per matched category */
   reasons: string[];
+  /** Every rule that fired, in rule order */
+  matches: SafetyMatch[];
+}
+
+/** Commands that download content; piping them into a shell runs remote code */
+const FETCH_COMMANDS = ['curl', 'wget'];
+
+/** rm with recursive/force flags */
+function isForcedRemove(command: ShellCommand): boolean {
+  return command.name === 'rm' && hasFlag(command.argv.slice(1), 'rRf', ['--recursive', '--force', '--no-preserve-root']);
+}
+
+/** rm fed by xargs/find -exec deletes an unreviewed list regardless of flags */
+function isBulkRemove(command: ShellCommand): boolean {
+  return command.name === 'rm' && (command.via.includes('xargs') || command.via.includes('find -exec'));
+}
+
+function getGitSubcommandArgs(command: ShellCommand, subcommand: string): string[] | null {
+  const gitArgs = getGitArgs(command);
+  return gitArgs?.[0] === subcommand ? gitArgs.slice(1) : null;
+}
+
+function hasFetchCommand(source: string): boolean {
+  return collectShellCommands(source).commands.some(cmd => FETCH_COMMANDS.includes(cmd.name));
+}
+
+/**
+ * Remote code execution: a download piped into a shell (`curl x | sh`), or a
+ * shell/eval/dynamic command fed by a download (`sh <(curl x)`, `bash -c "$(curl x)"`).
+ */
+function findDownloadedCodeExecution(commands: ShellCommand[]): string | null {
+  const fetchedPipelines = new Map<number, ShellCommand>();
+
+  for (const command of commands) {
+    const executesInput = isShellInterpreter(command) || ['source', '.'].includes(command.name);
+
+    const fetch = fetchedPipelines.get(command.pipeline);
+    if (executesInput && fetch) {
+      return `${fetch.text} | ${command.text}`;
+    }
+    if ((executesInput || command.dynamic[0]) && command.substitutions.some(hasFetchCommand)) {
+      return command.text;
+    }
+    if (FETCH_COMMANDS.includes(command.name)) {
+      fetchedPipelines.set(command.pipeline, command);
+    }
+  }
+
+  return null;
+}
+
+const KUBE_VALUE_OPTIONS = ['-n', '--namespace', '--context', '--kubeconfig', '--cluster', '--user', '-s', '--server'];
+const DOCKER_VALUE_OPTIONS = ['-H', '--host', '-c', '--context', '--config', '-l', '--log-level'];
+
+/** Global options that take a separate value, so `kubectl -n prod delete` finds `delete` */
+const TOOL_VALUE_OPTIONS: Record<string, readonly string[]> = {
+  kubectl: KUBE_VALUE_OPTIONS,
+  oc: KUBE_VALUE_OPTIONS,
+  helm: [...KUBE_VALUE_OPTIONS, '--kube-context'],
+  docker: DOCKER_VALUE_OPTIONS,
+  podman: DOCKER_VALUE_OPTIONS,
+  'docker-compose': ['-f', '--file', '-p', '--project-name', '--project-directory', '--env-file', '--profile'],
+  aws: ['--profile', '--region', '--endpoint-url', '--output'],
+  gcloud: ['--project', '--account', '--configuration'],
+  az: ['--subscription'],
+};
+
+/** Operands of a CLI command, skipping the values of its global options */
+function getToolOperands(command: ShellCommand): string[] {
+  return getOperands(command.argv.slice(1), TOOL_VALUE_OPTIONS[command.name]);
+}
+
+/** `<tool> <subcommand>` check for production-impacting commands */
+function isSubcommand(command: ShellCommand, tools: readonly string[], subcommand: string): boolean {
+  if (!tools.includes(command.name)) return false;
+  const args = getGitArgs(command) ?? getToolOperands(command);
+  return args[0] === subcommand;
+}
+
+/**
+ * Resolve package runners to the tool they run
+ * (`npx prisma migrate reset` → ['prisma', 'migrate', 'reset']).
+ */
+function getToolArgv(command: ShellCommand): string[] {
+  const args = command.argv.slice(1);
+  const skipOptions = (list: string[]): string[] => {
+    let i = 0;
+    while (i < list.length && list[i].startsWith('-')) {
+      i += ['-p', '--package'].includes(list[i]) ? 2 : 1;
+    }
+    return list.slice(i);
+  };
+
+  switch (command.name) {
+    case 'npx':
+    case 'bunx':
+    case 'pnpx':
+      return skipOptions(args);
+    case 'npm':
+    case 'bun':
+    case 'bundle':
+      return ['exec', 'x'].includes(args[0]) ? skipOptions(args.slice(1)) : [command.name, ...args];
+    case 'pnpm':
+    case 'yarn':
+      // pnpm/yarn run package binaries directly (`yarn prisma ...`)
+      return ['exec', 'dlx'].includes(args[0]) ? skipOptions(args.slice(1)) : args;
+    case 'python':
+    case 'python3':
+      return args[0]?.endsWith('manage.py') ? args : [command.name, ...args];
+    default:
+      return [command.name, ...args];
+  }
 }
 
-const DESTRUCTIVE_BASH_PATTERNS: RegExp[] = [
-  // Covers: rm with dangerous flags anywhere on line, including escaped/prefixed invocations
-  // Also matches common invocation prefixes like sudo, env, su (with optional flags/whitespace)
-  // Also matches environment variable assignments (KEY=VALUE) before the command
-  // Bounded to prevent ReDoS on adversarial input
-  /(?:\b(?:sudo|env|su)\b(?:\s+(?:-\S+|[A-Za-z_]\w*=[^\s'"]*|[A-Za-z_]\w*='[^']*'|[A-Za-z_]\w*="[^"]*"))*\s+)?(?:\\?rm|command\s+rm)\b[^\n]{0,500}(?:-\w*[rf]|--recursive|--force|--no-preserve-root)/i,
-  /\bgit\s+reset\s+--hard\b/i,
-  /\bgit\s+clean\b[^\n]*\s-(?:[^\n]*f|[^\n]*d|[^\n]*x)/i,
-  /\bmkfs\b/i,
-  /\bdd\b\s+if=/i,
-  // Pipe-to-shell: curl/wget piped to shell (RCE vector)
-  // Bounded to prevent ReDoS; covers sh/bash/zsh/dash across multi-stage pipelines
-  /\b(?:curl|wget)\b[^\n]{0,500}\|[^\n]{0,500}\b(?:sudo\s+)?(?:ba|z|da)?sh\b/i,
-  // Process substitution: sh <(curl ...) or bash <(wget ...)
-  /\b(?:ba|z|da)?sh\b\s+<\(\s*(?:curl|wget)\b/i,
+function toolName(argv: string[]): string {
+  const first = argv[0] ?? '';
+  return first.slice(first.lastIndexOf('/') + 1);
+}
+
+/** SQL/NoSQL statements that drop or wipe data */
+const DESTRUCTIVE_QUERY_PATTERNS: RegExp[] = [
+  /\bDROP\s+(?:TABLE|DATABASE|SCHEMA|VIEW|INDEX|USER|ROLE)\b/i,
+  /\bTRUNCATE\s+(?:TABLE\s+)?[\w."`]/i,
+  /\bDELETE\s+FROM\s+[\w."`]+\s*(?:;|$)/im,
+  /\bALTER\s+TABLE\s+\S+\s+DROP\b/i,
+  /\.(?:dropDatabase|drop)\s*\(/,
+  /\.deleteMany\s*\(\s*\{\s*\}\s*\)/,
 ];
 
-const PRODUCTION_BASH_PATTERNS: RegExp[] = [
-  /\bnpm\s+publish\b/i,
-  /\bpnpm\s+publish\b/i,
-  /\byarn\s+publish\b/i,
-  /\bkubectl\s+apply\b/i,
-  /\bterraform\s+apply\b/i,
-  /\bdocker\s+push\b/i,
-  /\bgit\s+push\b/i,
+const SQL_CLIENTS = ['psql', 'mysql', 'mariadb', 'sqlite3', 'sqlcmd', 'clickhouse-client', 'mongo', 'mongosh', 'cockroach'];
+
+/** Framework/tool commands that drop or reset a database */
+function isDatabaseResetCommand(argv: string[]): boolean {
+  const [, ...args] = argv;
+  switch (toolName(argv)) {
+    case 'prisma':
+      return (
+        (args[0] === 'migrate' && args[1] === 'reset') ||
+        (args[0] === 'db' && args[1] === 'push' && hasFlag(args, '', ['--force-reset', '--accept-data-loss']))
+      );
+    case 'rails':
+    case 'rake':
+      return args.some(arg => ['db:drop', 'db:reset', 'db:purge', 'db:schema:load', 'db:migrate:reset'].includes(arg));
+    case 'manage.py':
+      return args.includes('flush') || args.includes('reset_db');
+    case 'supabase':
+      return args[0] === 'db' && args[1] === 'reset';
+    case 'dropdb':
+      return true;
+    case 'mysqladmin':
+      return args.includes('drop');
+    case 'redis-cli':
+      return args.some(arg => ['FLUSHALL', 'FLUSHDB'].includes(arg.toUpperCase()));
+    default:
+      return false;
+  }
+}
+
+/**
+ * SQL clients given DROP/TRUNCATE/unscoped DELETE inline, via here-document,
+ * or piped from echo. Returns the offending statement.
+ */
+function findDestructiveQuery(commands: ShellCommand[]): string | null {
+  const pipedText = new Map<number, string[]>();
+  for (const command of commands) {
+    if (command.name === 'echo' || command.name === 'printf') {
+      pipedText.set(command.pipeline, [...(pipedText.get(command.pipeline) ?? []), ...command.argv.slice(1)]);
+    }
+  }
+
+  for (const command of commands) {
+    const argv = getToolArgv(command);
+    if (!SQL_CLIENTS.includes(toolName(argv))) continue;
+
+    const queryText = [
+      ...argv.slice(1),
+      ...command.redirects.map(r => (r.op === '<<<' ? r.target : r.heredoc ?? '')),
+      ...(pipedText.get(command.pipeline) ?? []),
+    ].join('\n');
+    for (const pattern of DESTRUCTIVE_QUERY_PATTERNS) {
+      const match = pattern.exec(queryText);
+      if (match) {
+        // Report the whole statement, not just the keyword prefix the pattern needs
+        return queryText.slice(match.index).split(/[;\n]/)[0].trim();
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Deletion of cloud or cluster resources (buckets, instances, k8s objects, stacks).
+ */
+function isCloudDeletion(command: ShellCommand): boolean {
+  const args = command.argv.slice(1);
+  const operands = getToolOperands(command);
+
+  switch (command.name) {
+    case 'aws': {
+      const s3 = operands.indexOf('s3');
+      if (s3 !== -1) {
+        const action = operands[s3 + 1];
+        return action === 'rb' || (action === 'rm' && args.includes('--recursive')) || (action === 'sync' && args.includes('--delete'));
+      }
+      return operands.some(op => /^(?:delete|terminate|deregister|remove)-/.test(op));
+    }
+    case 'gcloud':
+    case 'az':
+      return operands.includes('delete') || (operands.includes('rm') && hasFlag(args, 'r', ['--recursive']));
+    case 'gsutil':
+      return operands[0] === 'rb' || (operands[0] === 'rm' && hasFlag(args, 'rR', ['--recursive']));
+    case 'kubectl':
+    case 'oc':
+      return ['delete', 'drain'].includes(operands[0]);
+    case 'helm':
+      return ['uninstall', 'delete'].includes(operands[0]);
+    case 'terraform':
+    case 'tofu':
+      return operands[0] === 'destroy' || (operands[0] === 'apply' && args.includes('-destroy'));
+    case 'pulumi':
+    case 'cdk':
+      return operands[0] === 'destroy';
+    default:
+      return false;
+  }
+}
+
+/**
+ * Container cleanup that deletes images, volumes, or build cache.
+ */
+function isContainerCleanup(command: ShellCommand): boolean {
+  const args = command.argv.slice(1);
+  const operands = getToolOperands(command);
+
+  if (command.name === 'docker-compose') {
+    return operands[0] === 'down' && hasFlag(args, 'v', ['--volumes', '--rmi']);
+  }
+  if (command.name !== 'docker' && command.name !== 'podman') {
+    return false;
+  }
+
+  const [group, action] = operands;
+  if (group === 'compose') {
+    return action === 'down' && hasFlag(args, 'v', ['--volumes', '--rmi']);
+  }
+  if (action === 'prune' && ['system', 'volume', 'image', 'container', 'network', 'builder', 'buildx'].includes(group)) {
+    return true;
+  }
+  return (group === 'volume' && action === 'rm') || group === 'rmi';
+}
+
+/** chmod mode granting write to others, or setuid/setgid */
+function isUnsafeMode(mode: string): boolean {
+  if (/^[0-7]{3,4}$/.test(mode)) {
+    const others = Number(mode[mode.length - 1]);
+    const special = mode.length === 4 ? Number(mode[0]) : 0;
+    return (others & 2) !== 0 || (special & 6) !== 0;
+  }
+  return mode.split(',').some(clause => /^[ugo]*[ao][ugo]*[+=][rwxXst]*w/.test(clause) || /[+=][rwxXt]*s/.test(clause));
+}
+
+/** sudo/su and commands that change who may do what */
+function isPrivilegedCommand(command: ShellCommand): boolean {
+  if (command.via.includes('sudo') || command.via.includes('doas')) {
+    return true;
+  }
+  if (['sudo', 'doas', 'su', 'pkexec', 'visudo', 'setcap'].includes(command.name)) {
+    return true;
+  }
+  return command.name === 'usermod' && command.argv.some(arg => /\b(?:sudo|wheel|admin|root)\b/.test(arg));
+}
+
+function isUnsafeChmod(command: ShellCommand): boolean {
+  const operands = getOperands(command.argv.slice(1));
+  return command.name === 'chmod' && operands.length > 0 && isUnsafeMode(operands[0]);
+}
+
+function isRootChown(command: ShellCommand): boolean {
+  const operands = getOperands(command.argv.slice(1));
+  return (
+    (command.name === 'chown' || command.name === 'chgrp') &&
+    operands.length > 0 &&
+    operands[0] !== '' &&
+    /^(?:root|0)?(?::(?:root|wheel|0))?$/.test(operands[0])
+  );
+}
+
+/** Shell functions that pipe into themselves in the background: `:(){ :|:& };:` */
+const FORK_BOMB_PATTERN = /([\w:.]{1,64})\s*\(\s*\)\s*\{[^}]*?\1\s*\|\s*\1[^}]*&/;
+const UNBOUNDED_SOURCES = ['/dev/zero', '/dev/urandom', '/dev/random'];
+
+/** Infinite streams (yes, /dev/zero) redirected into a file */
+function isUnboundedWrite(command: ShellCommand): boolean {
+  const writesFile = command.redirects.some(
+    r => ['>', '>>', '>|', '&>', '&>>'].includes(r.op) && r.target !== '/dev/null'
+  );
+  const isUnbounded =
+    command.name === 'yes' ||
+    (command.name === 'cat' && command.argv.slice(1).some(arg => UNBOUNDED_SOURCES.includes(arg)));
+  return writesFile && isUnbounded;
+}
+
+interface BashSafetyRule {
+  id: string;
+  category: SafetyCategory;
+  /** Returns the matched command text, or null when the rule does not apply */
+  find: (commands: ShellCommand[], source: string) => string | null;
+  /** Safer alternative; a function receives the matched text */
+  alternative?: string | ((matched: string) => string);
+}
+
+/** Adapt a per-command predicate to a rule finder returning the command text */
+function firstCommand(predicate: (command: ShellCommand) => boolean): BashSafetyRule['find'] {
+  return commands => commands.find(predicate)?.text ?? null;
+}
+
+const CLOUD_DRY_RUN_HINTS: Record<string, string> = {
+  kubectl: 'Preview with `kubectl delete --dry-run=client` and confirm the exact resources with the user.',
+  oc: 'Preview with `oc delete --dry-run=client` and confirm the exact resources with the user.',
+  terraform: 'Preview with `terraform plan -destroy`.',
+  tofu: 'Preview with `tofu plan -destroy`.',
+  aws: 'Preview with `--dryrun` (s3) or `--dry-run` (ec2), and confirm the exact resources with the user.',
+};
+
+/**
+ * Bash rules evaluated on the parsed command list, in report order.
+ * Rule IDs are stable: they appear in security.log and guidance messages.
+ */
+const BASH_SAFETY_RULES: BashSafetyRule[] = [
+  {
+    id: 'rm-recursive-force',
+    category: 'destructive',
+    find: firstCommand(isForcedRemove),
+    alternative: 'Delete specific paths without -r/-f, or move them aside (`mv build /tmp/build.bak`) so they can be restored.',
+  },
+  {
+    id: 'rm-bulk',
+    category: 'destructive',
+    find: firstCommand(isBulkRemove),
+    alternative: 'List the matches first (`find ... -print`), then delete named files.',
+  },
+  {
+    id: 'find-delete',
+    category: 'destructive',
+    find: firstCommand(cmd => cmd.name === 'find' && cmd.argv.includes('-delete')),
+    alternative: 'Run the same find with `-print` to review what would be deleted.',
+  },
+  {
+    id: 'git-reset-hard',
+    category: 'destructive',
+    find: firstCommand(cmd => getGitSubcommandArgs(cmd, 'reset')?.includes('--hard') ?? false),
+    alternative: 'Use `git stash` to set changes aside recoverably, or `git reset --soft`.',
+  },
+  {
+    id: 'git-clean-force',
+    category: 'destructive',
+    find: firstCommand(cmd => {
+      const args = getGitSubcommandArgs(cmd, 'clean');
+      return args !== null && hasFlag(args, 'fdx', ['--force']);
+    }),
+    alternative: 'Run `git clean -n` to preview what would be removed.',
+  },
+  {
+    id: 'disk-format',
+    category: 'destructive',
+    find: firstCommand(cmd => cmd.name.startsWith('mkfs')),
+    alternative: 'Ask the user to run disk-level operations themselves.',
+  },
+  {
+    id: 'dd-raw-copy',
+    category: 'destructive',
+    find: firstCommand(cmd => cmd.name === 'dd' && cmd.argv.some(arg => arg.startsWith('if=') || arg.startsWith('of='))),
+    alternative: 'Use `cp` for regular files; ask the user to run raw device writes.',
+  },
+  {
+    id: 'pipe-to-shell',
+    category: 'destructive',
+    find: findDownloadedCodeExecution,
+    alternative: 'Download the script to a file, review it, then run it.',
+  },
+  {
+    id: 'db-reset',
+    category: 'database',
+    find: firstCommand(cmd => isDatabaseResetCommand(getToolArgv(cmd))),
+    alternative: 'Write a migration for the schema change, or ask the user to reset the database.',
+  },
+  {
+    id: 'sql-destructive',
+    category: 'database',
+    find: findDestructiveQuery,
+    alternative: 'Run a SELECT with the same conditions first, and scope deletes with WHERE.',
+  },
+  {
+    id: 'fork-bomb',
+    category: 'resource-exhaustion',
+    find: (_commands, source) => FORK_BOMB_PATTERN.exec(source)?.[0] ?? null,
+  },
+  {
+    id: 'unbounded-write',
+    category: 'resource-exhaustion',
+    find: firstCommand(isUnboundedWrite),
+    alternative: 'Bound the output, e.g. `yes | head -n 1000 > file`.',
+  },
+  {
+    id: 'stress-tool',
+    category: 'resource-exhaustion',
+    find: firstCommand(cmd => cmd.name === 'stress' || cmd.name === 'stress-ng'),
+    alternative: 'Use a bounded benchmark under `timeout`.',
+  },
+  {
+    id: 'cloud-delete',
+    category: 'cloud',
+    find: firstCommand(isCloudDeletion),
+    alternative: matched =>
+      CLOUD_DRY_RUN_HINTS[matched.trim().split(/\s+/)[0]] ?? 'List the resources first and confirm the exact targets with the user.',
+  },
+  {
+    id: 'container-prune',
+    category: 'container',
+    find: firstCommand(isContainerCleanup),
+    alternative: 'Inspect usage with `docker system df`; prune without `-a` or volumes.',
+  },
+  {
+    id: 'privileged-command',
+    category: 'privilege',
+    find: firstCommand(isPrivilegedCommand),
+    alternative: 'Run without sudo, or ask the user to run the privileged step.',
+  },
+  {
+    id: 'unsafe-permissions',
+    category: 'privilege',
+    find: firstCommand(isUnsafeChmod),
+    alternative: 'Grant the narrowest mode needed, e.g. `chmod u+x` or `chmod 755`.',
+  },
+  {
+    id: 'root-ownership',
+    category: 'privilege',
+    find: firstCommand(isRootChown),
+    alternative: 'Keep project files owned by the current user.',
+  },
+  {
+    id: 'package-publish',
+    category: 'production',
+    find: firstCommand(cmd => isSubcommand(cmd, ['npm', 'pnpm', 'yarn'], 'publish')),
+    alternative: matched => `Verify the package with \`${matched.trim().split(/\s+/)[0]} publish --dry-run\`.`,
+  },
+  {
+    id: 'kubectl-apply',
+    category: 'production',
+    find: firstCommand(cmd => isSubcommand(cmd, ['kubectl'], 'apply')),
+    alternative: 'Preview with `kubectl diff` or `kubectl apply --dry-run=server`.',
+  },
+  {
+    id: 'terraform-apply',
+    category: 'production',
+    find: firstCommand(cmd => isSubcommand(cmd, ['terraform'], 'apply')),
+    alternative: 'Review the changes with `terraform plan`.',
+  },
+  {
+    id: 'docker-push',
+    category: 'production',
+    find: firstCommand(cmd => isSubcommand(cmd, ['docker'], 'push')),
+    alternative: 'Build and tag locally; push after the user approves.',
+  },
+  {
+    id: 'git-push',
+    category: 'production',
+    find: firstCommand(cmd => isSubcommand(cmd, ['git'], 'push')),
+    alternative: 'Check what would be pushed with `git push --dry-run`.',
+  },
 ];
 
 const SENSITIVE_PATH_PATTERNS: RegExp[] = [
@@ -64,46 +563,78 @@ const SENSITIVE_PATH_PATTERNS: RegExp[] = [
   /(^|\/)(credentials|secrets?)\.(json|ya?ml|env)$/i,
 ];
 
+/**
+ * Classify a tool call against the hard-safety rules.
+ *
+ * @returns Decision with category reasons and every rule match (ID, matched text, safer alternative)
+ */
 export function classifyHardSafety(tool: string, args: Record<string, unknown>): SafetyDecision {
-  const matched: SafetyReason[] = [];
+  const matches: SafetyMatch[] = [];
 
   if (tool === 'bash') {
     const command = getStringProp(args, 'command') ?? '';
+    const script = collectShellCommands(command);
 
-    for (const pattern of DESTRUCTIVE_BASH_PATTERNS) {
-      if (pattern.test(command)) {
-        matched.push({ category: 'destructive', message: 'Destructive shell command detected' });
-        break;
-      }
+    for (const rule of BASH_SAFETY_RULES) {
+      const matched = rule.find(script.commands, command);
+      if (matched === null) continue;
+      const alternative = typeof rule.alternative === 'function' ? rule.alternative(matched) : rule.alternative;
+      matches.push(createSafetyMatch(rule.category, rule.id, matched, alternative));
     }
 
-    for (const pattern of PRODUCTION_BASH_PATTERNS) {
-      if (pattern.test(command)) {
-        matched.push({ category: 'production', message: 'Production-impacting command detected' });
-        break;
-      }
+    // Fail closed: the rules above only see what the parser could follow
+    const opaque = script.complete ? script.commands.find(cmd => cmd.dynamic[0])?.text : command.trim();
+    if (opaque) {
+      matches.push(createSafetyMatch(
+        'opaque',
+        'opaque-command',
+        opaque,
+        'Write the command out literally: no `$var` or `$(...)` as the command name, and no functions or `case`.'
+      ));
     }
   }
 
   if (tool === 'write' || tool === 'edit') {
     const filePath = getStringProp(args, 'filePath') ?? '';
-    for (const pattern of SENSITIVE_PATH_PATTERNS) {
-      if (pattern.test(filePath)) {
-        matched.push({ category: 'sensitive', message: 'Sensitive file path detected' });
-        break;
-      }
+    if (SENSITIVE_PATH_PATTERNS.some(pattern => pattern.test(filePath))) {
+      matches.push(createSafetyMatch(
+        'sensitive',
+        'sensitive-path',
+        filePath,
+        'Write a template (e.g. `.env.example`) and let the user fill in real values.'
+      ));
     }
   }
 
-  if (matched.length === 0) {
+  return buildSafetyDecision(matches);
+}
+
+/** Build a match for a category, filling in the category's reason text */
+export function createSafetyMatch(
+  category: SafetyCategory,
+  ruleId: string,
+  matched: string,
+  alternative?: string
+): SafetyMatch {
+  return { ruleId, category, message: CATEGORY_MESSAGE[category], matched, alternative };
+}
+
+/**
+ * Derive the decision from rule matches: block if any category blocks,
+ * otherwise ask. Also used to merge matches from stateful checks
+ * (e.g. user-owned changes) with classifyHardSafety results.
+ */
+export function buildSafetyDecision(matches: SafetyMatch[]): SafetyDecision {
+  if (matches.length === 0) {
     // No safety concerns - return hardSafety: false with no action
     // action is intentionally undefined when hardSafety is false to prevent accidental misuse
-    return { hardSafety: false, reasons: [] };
+    return { hardSafety: false, reasons: [], matches: [] };
   }
 
   // Derive action from structured category, not display text
-  const action: HardSafetyAction = matched.some((r) => CATEGORY_ACTION[r.category] === 'block')
+  const action: HardSafetyAction = matches.some((m) => CATEGORY_ACTION[m.category] === 'block')
     ? 'block'
     : 'ask';
-  return { hardSafety: true, action, reasons: matched.map((r) => r.message) };
+  const reasons = Array.from(new Set(matches.map((m) => m.message)));
+  return { hardSafety: true, action, reasons, matches };
 }
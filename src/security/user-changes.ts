@@ -0,0 +1,196 @@
+/**
+ * User-owned change protection
+ *
+ * Compares a tool call against the dirty-tree baseline recorded at session
+ * start (.setu/baseline.json). Changes the user had not committed belong to
+ * them; discarding them needs explicit confirmation:
+ * - git checkout / restore / switch that would overwrite user-owned files
+ *   still dirty (only the named pathspecs; the whole tree for bare forms
+ *   and branch switches)
+ * - git stash drop / clear when the user had stash entries
+ * - write/edit that removes lines the user added
+ */
+
+import { existsSync } from 'fs';
+import { join, resolve } from 'path';
+import { getModifiedPaths } from '../context/active';
+import { type DirtyBaseline, type UserOwnedFile, getDirtyPaths, loadDirtyBaseline, significantLines } from '../context/dirty-baseline';
+import { getStringProp } from '../utils';
+import { matchGlobList, toProjectRelativePath } from '../utils/glob';
+import { type ShellCommand, collectShellCommands, getGitArgs, hasFlag } from '../utils/shell-parser';
+import { type SafetyMatch, createSafetyMatch } from './safety-classifier';
+
+const MAX_LISTED_PATHS = 3;
+
+function describePaths(paths: string[]): string {
+  const shown = paths.slice(0, MAX_LISTED_PATHS).join(', ');
+  return paths.length > MAX_LISTED_PATHS ? `${shown} and ${paths.length - MAX_LISTED_PATHS} more` : shown;
+}
+
+/** Positional arguments, split at `--`; `valueFlags` take the next argument */
+function splitGitOperands(args: string[], valueFlags: readonly string[] = []): { operands: string[]; paths: string[] | null } {
+  const operands: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--') return { operands, paths: args.slice(i + 1) };
+    if (valueFlags.includes(arg)) i++;
+    else if (!arg.startsWith('-')) operands.push(arg);
+  }
+  return { operands, paths: null };
+}
+
+/**
+ * Working-tree paths a git subcommand would overwrite: the pathspecs it
+ * names, 'all' for forms that can touch any file (bare, branch switches),
+ * or null when the working tree is left alone.
+ */
+function getOverwrittenPathspecs(projectDir: string, args: string[]): string[] | 'all' | null {
+  const [subcommand, ...rest] = args;
+  switch (subcommand) {
+    case 'checkout': {
+      // checkout -b/-B/--orphan keeps local changes on the new branch
+      if (hasFlag(rest, 'bB', ['--orphan'])) return null;
+      if (hasFlag(rest, '', ['--pathspec-from-file'])) return 'all';
+      const { operands, paths } = splitGitOperands(rest);
+      if (paths) return paths.length > 0 ? paths : 'all';
+      // Without `--` the first operand is a path if one exists, else a branch or commit
+      if (operands.length > 0 && existsSync(join(projectDir, operands[0]))) return operands;
+      return operands.length > 1 ? operands.slice(1) : 'all';
+    }
+    case 'restore': {
+      // --staged alone only unstages; the working tree is untouched
+      if (hasFlag(rest, 'S', ['--staged']) && !hasFlag(rest, 'W', ['--worktree'])) return null;
+      if (hasFlag(rest, '', ['--pathspec-from-file'])) return 'all';
+      const { operands, paths } = splitGitOperands(rest, ['-s', '--source']);
+      const pathspecs = [...operands, ...(paths ?? [])];
+      return pathspecs.length > 0 ? pathspecs : 'all';
+    }
+    case 'switch':
+      return hasFlag(rest, 'cC', ['--create', '--force-create', '--orphan']) ? null : 'all';
+    default:
+      return null;
+  }
+}
+
+/** Whether a git pathspec covers a project-relative path */
+function pathspecCovers(projectDir: string, pathspec: string, path: string): boolean {
+  if (pathspec.startsWith(':')) return true; // magic pathspecs (:/, :(glob)...) are not resolved here
+  const spec = toProjectRelativePath(projectDir, pathspec);
+  if (spec === null) {
+    // The project root itself covers everything; paths outside it cover nothing
+    return resolve(projectDir, pathspec) === resolve(projectDir);
+  }
+  if (/[*?[]/.test(spec)) return matchGlobList(path, [spec, `${spec}/**`]) !== null;
+  return path === spec || path.startsWith(`${spec}/`);
+}
+
+function dropsStash(args: string[]): boolean {
+  return args[0] === 'stash' && (args[1] === 'drop' || args[1] === 'clear');
+}
+
+function findGitRisks(projectDir: string, baseline: DirtyBaseline, commands: ShellCommand[]): SafetyMatch[] {
+  const matches: SafetyMatch[] = [];
+  let stillDirty: string[] | null = null;
+
+  for (const command of commands) {
+    const args = getGitArgs(command);
+    if (!args) continue;
+
+    const pathspecs = getOverwrittenPathspecs(projectDir, args);
+    if (pathspecs) {
+      if (stillDirty === null) {
+        const dirty = getDirtyPaths(projectDir) ?? new Map<string, string>();
+        stillDirty = baseline.files.map(file => file.path).filter(path => dirty.has(path));
+      }
+      const overwritten = pathspecs === 'all'
+        ? stillDirty
+        : stillDirty.filter(path => pathspecs.some(pathspec => pathspecCovers(projectDir, pathspec, path)));
+      if (overwritten.length > 0) {
+        matches.push(createSafetyMatch(
+          'user-changes',
+          `git-${args[0]}-user-changes`,
+          command.text,
+          `Commit or \`git stash\` the user's changes first (${describePaths(overwritten)}).`
+        ));
+      }
+    } else if (dropsStash(args) && baseline.stashCount > 0) {
+      matches.push(createSafetyMatch(
+        'user-changes',
+        'git-stash-drop-user-changes',
+        command.text,
+        'Leave stash entries that existed before the session; `git stash list` shows them.'
+      ));
+    }
+  }
+
+  return matches;
+}
+
+/** Pairs of text an edit removes and text it inserts */
+function getReplacements(tool: string, args: Record<string, unknown>): Array<{ removed: string; inserted: string }> {
+  if (tool === 'edit') {
+    return [{ removed: getStringProp(args, 'oldString') ?? '', inserted: getStringProp(args, 'newString') ?? '' }];
+  }
+  if (tool === 'multiedit' && Array.isArray(args.edits)) {
+    return args.edits
+      .filter((edit): edit is Record<string, unknown> => !!edit && typeof edit === 'object')
+      .map(edit => ({ removed: getStringProp(edit, 'oldString') ?? '', inserted: getStringProp(edit, 'newString') ?? '' }));
+  }
+  return [];
+}
+
+/** User lines the edit would drop from the file */
+function findOverwrittenLines(file: UserOwnedFile, tool: string, args: Record<string, unknown>): string[] {
+  if (tool === 'write') {
+    const content = getStringProp(args, 'content') ?? '';
+    return file.lines.filter(line => !content.includes(line));
+  }
+
+  const userLines = new Set(file.lines);
+  return getReplacements(tool, args).flatMap(({ removed, inserted }) =>
+    significantLines(removed).filter(line => userLines.has(line) && !inserted.includes(line))
+  );
+}
+
+function findEditRisks(projectDir: string, baseline: DirtyBaseline, tool: string, args: Record<string, unknown>): SafetyMatch[] {
+  const matches: SafetyMatch[] = [];
+
+  for (const rawPath of getModifiedPaths(tool, args)) {
+    const relativePath = toProjectRelativePath(projectDir, rawPath);
+    const file = baseline.files.find(entry => entry.path === relativePath);
+    if (!file || file.lines.length === 0) continue;
+
+    const overwritten = findOverwrittenLines(file, tool, args);
+    if (overwritten.length > 0) {
+      matches.push(createSafetyMatch(
+        'user-changes',
+        'overwrite-user-hunks',
+        `${file.path}: ${overwritten[0]}`,
+        'Edit around the user\'s uncommitted lines, or ask before replacing them.'
+      ));
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Find ways a tool call would discard changes the user owned at session start.
+ *
+ * @returns Matches in the 'user-changes' category (empty when no baseline exists)
+ */
+export function findUserChangeRisks(projectDir: string, tool: string, args: Record<string, unknown>): SafetyMatch[] {
+  const baseline = loadDirtyBaseline(projectDir);
+  if (!baseline || (baseline.files.length === 0 && baseline.stashCount === 0)) {
+    return [];
+  }
+
+  if (tool === 'bash') {
+    const command = getStringProp(args, 'command') ?? '';
+    return findGitRisks(projectDir, baseline, collectShellCommands(command).commands);
+  }
+  if (tool === 'write' || tool === 'edit' || tool === 'multiedit') {
+    return findEditRisks(projectDir, baseline, tool, args);
+  }
+  return [];
+}
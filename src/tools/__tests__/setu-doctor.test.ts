@@ -1,9 +1,10 @@
 import { describe, test, expect } from 'bun:test';
 import { createSetuDoctorTool } from '../setu-doctor';
-import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
 import { tmpdir } from 'os';
 import { join } from 'path';
 import { createMockToolContext } from './tool-context-fixtures';
+import { acquireLeases } from '../../context';
 
 describe('setu-doctor project rules check', () => {
   test('reports healthy when AGENTS.md exists', async () => {
@@ -91,3 +92,45 @@ describe('setu-doctor project rules check', () => {
     }
   });
 });
+
+describe('setu-doctor policy config check', () => {
+  test('reports invalid config entries instead of ignoring them', async () => {
+    const tmpDir = mkdtempSync(join(tmpdir(), 'setu-doctor-test-'));
+
+    try {
+      mkdirSync(join(tmpDir, '.setu'), { recursive: true });
+      writeFileSync(
+        join(tmpDir, '.setu', 'config.json'),
+        JSON.stringify({ version: 1, attempts: { maxAttempts: -1 } })
+      );
+
+      const doctorTool = createSetuDoctorTool(() => tmpDir);
+      const result = await doctorTool.execute({ verbose: false }, createMockToolContext());
+
+      expect(result).toContain('config: [project] attempts.maxAttempts');
+      expect(result).toContain('config.json');
+    } finally {
+      rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('setu-doctor file lease check', () => {
+  test('reports leases that expired without being released', async () => {
+    const tmpDir = mkdtempSync(join(tmpdir(), 'setu-doctor-test-'));
+
+    try {
+      const hourAgo = Date.now() - 60 * 60 * 1000;
+      acquireLeases(tmpDir, { paths: ['src/a.ts'], sessionId: 'ses_sub1', step: 2, ttlMs: 1000 }, hourAgo);
+      acquireLeases(tmpDir, { paths: ['src/b.ts'], sessionId: 'ses_sub2', step: 3, ttlMs: 60_000 });
+
+      const doctorTool = createSetuDoctorTool(() => tmpDir);
+      const result = await doctorTool.execute({ verbose: false }, createMockToolContext());
+
+      expect(result).toContain("file-leases: Stale lease on 'src/a.ts' (session ses_sub1, Step 2, expired");
+      expect(result).not.toContain('src/b.ts');
+    } finally {
+      rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { createSetuNextTool } from '../setu-next';
+import { createMockToolContext } from './tool-context-fixtures';
+import { advanceStep, createActiveTask, saveActiveTask } from '../../context';
+
+const DAG_PLAN = `- Step 1: Schema
+  - Files: db/schema.sql
+  - Verification: npm test
+  - Done When: migrations apply
+- Step 2: API
+  - Files: src/api.ts
+- Step 3: Docs
+  - Files: README.md
+  - Depends On: none
+- Step 4: UI
+  - Files: src/ui.ts
+  - Depends On: Step 2, Step 3
+`;
+
+describe('setu_next', () => {
+  let projectDir = '';
+
+  const runNext = async (): Promise<string> =>
+    String(await createSetuNextTool(() => projectDir).execute({}, createMockToolContext()));
+
+  beforeEach(() => {
+    projectDir = mkdtempSync(join(tmpdir(), 'setu-next-'));
+    mkdirSync(join(projectDir, '.setu'));
+    saveActiveTask(projectDir, createActiveTask('Build the app'));
+  });
+
+  afterEach(() => {
+    rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  test('lists ready steps and what blocked steps wait on', async () => {
+    writeFileSync(join(projectDir, '.setu', 'PLAN.md'), DAG_PLAN);
+
+    const result = await runNext();
+
+    expect(result).toContain('**Progress:** 0/4 plan steps complete');
+    expect(result).toContain('## Ready (2)\n\n### Step 1 — Schema\nFiles: db/schema.sql\nVerification: npm test\nDone When:\n- 1.1 migrations apply');
+    expect(result).toContain('### Step 3 — Docs\nFiles: README.md');
+    expect(result).toContain('- Step 2 — API: waiting on Step 1\n- Step 4 — UI: waiting on Step 2, Step 3');
+    expect(result).toContain('Ready steps can run in parallel');
+  });
+
+  test('moves to the next wave as steps complete', async () => {
+    writeFileSync(join(projectDir, '.setu', 'PLAN.md'), DAG_PLAN);
+    advanceStep(projectDir, 1);
+    advanceStep(projectDir, 3);
+
+    expect(await runNext()).toContain('## Ready (1)\n\n### Step 2 — API');
+
+    advanceStep(projectDir, 2);
+    advanceStep(projectDir, 4);
+    expect(await runNext()).toBe('All 4 plan steps complete.');
+  });
+
+  test('reports a missing plan', async () => {
+    expect(await runNext()).toContain('No structured plan');
+  });
+});
@@ -7,6 +7,31 @@ import type { ToolContext } from '@opencode-ai/plugin';
 import { createMockToolContext } from './tool-context-fixtures';
 import { createPromptMultilineSanitizer } from '../../utils/sanitization';
 
+const VALID_PLAN = `## Objective
+Ship the login page
+
+## Context Summary
+Research found an Express app without auth.
+
+## Non-goals
+Password reset
+
+## Assumptions / Constraints
+Node 20 with npm
+
+## File-level Edit List
+- src/login.ts
+
+## Execution Steps
+- Step 1: Add the login route
+  - Why: Users need to sign in
+  - Files: src/login.ts
+  - Verification: npm test
+  - Done When: POST /login returns a session cookie`;
+
+/** A complete plan under its own heading */
+const planWith = (heading: string): string => `${heading}\n\n${VALID_PLAN}`;
+
 describe('setu_plan', () => {
   let testDir: string;
   let getProjectDir: () => string;
@@ -36,7 +61,7 @@ describe('setu_plan', () => {
 
   describe('content-first API', () => {
     test('accepts single content argument', async () => {
-      const result = await tool.execute({ content: '# Test Plan\n\nStep 1: Do something' }, mockContext);
+      const result = await tool.execute({ content: planWith('# Test Plan\n\nStep 1: Do something') }, mockContext);
       expect(result).toContain('Plan created');
       
       const saved = await readFile(join(testDir, '.setu', 'PLAN.md'), 'utf-8');
@@ -58,32 +83,32 @@ describe('setu_plan', () => {
       await rm(join(testDir, '.setu', 'RESEARCH.md'));
       
       await expect(
-        tool.execute({ content: '# Plan without research' }, mockContext)
+        tool.execute({ content: planWith('# Plan without research') }, mockContext)
       ).rejects.toThrow('RESEARCH.md required');
     });
 
     test('succeeds when RESEARCH.md exists', async () => {
-      const result = await tool.execute({ content: '# Valid Plan' }, mockContext);
+      const result = await tool.execute({ content: planWith('# Valid Plan') }, mockContext);
       expect(result).toContain('Plan created');
     });
   });
 
   describe('mode behavior', () => {
     test('remake mode creates new plan', async () => {
-      await tool.execute({ content: '# First Plan', mode: 'remake' }, mockContext);
+      await tool.execute({ content: planWith('# First Plan'), mode: 'remake' }, mockContext);
       
-      const result = await tool.execute({ content: '# Second Plan', mode: 'remake' }, mockContext);
+      const result = await tool.execute({ content: planWith('# Second Plan'), mode: 'remake' }, mockContext);
       expect(result).toContain('Plan created');
       
       const saved = await readFile(join(testDir, '.setu', 'PLAN.md'), 'utf-8');
-      expect(saved).toBe('# Second Plan');
+      expect(saved).toBe(planWith('# Second Plan'));
       expect(saved).not.toContain('First Plan');
     });
 
     test('append mode adds revision header', async () => {
-      await tool.execute({ content: '# Original Plan', mode: 'remake' }, mockContext);
+      await tool.execute({ content: planWith('# Original Plan'), mode: 'remake' }, mockContext);
       
-      const result = await tool.execute({ content: '# Updated Section', mode: 'append' }, mockContext);
+      const result = await tool.execute({ content: planWith('# Updated Section'), mode: 'append' }, mockContext);
       expect(result).toContain('Plan revised');
       
       const saved = await readFile(join(testDir, '.setu', 'PLAN.md'), 'utf-8');
@@ -95,21 +120,21 @@ describe('setu_plan', () => {
 
     test('append mode fails if plan does not exist', async () => {
       await expect(
-        tool.execute({ content: '# Orphan Append', mode: 'append' }, mockContext)
+        tool.execute({ content: planWith('# Orphan Append'), mode: 'append' }, mockContext)
       ).rejects.toThrow('Cannot append: PLAN.md does not exist');
     });
 
     test('auto mode creates when no plan exists', async () => {
-      const result = await tool.execute({ content: '# Auto Created Plan', mode: 'auto' }, mockContext);
+      const result = await tool.execute({ content: planWith('# Auto Created Plan'), mode: 'auto' }, mockContext);
       expect(result).toContain('Plan created');
       
       const saved = await readFile(join(testDir, '.setu', 'PLAN.md'), 'utf-8');
-      expect(saved).toBe('# Auto Created Plan');
+      expect(saved).toBe(planWith('# Auto Created Plan'));
     });
 
     test('auto mode appends when plan exists', async () => {
-      await tool.execute({ content: '# First', mode: 'auto' }, mockContext);
-      const result = await tool.execute({ content: '# Second', mode: 'auto' }, mockContext);
+      await tool.execute({ content: planWith('# First'), mode: 'auto' }, mockContext);
+      const result = await tool.execute({ content: planWith('# Second'), mode: 'auto' }, mockContext);
       
       expect(result).toContain('Plan revised');
       
@@ -120,17 +145,17 @@ describe('setu_plan', () => {
     });
 
     test('default mode is auto', async () => {
-      const result1 = await tool.execute({ content: '# First Plan' }, mockContext);
+      const result1 = await tool.execute({ content: planWith('# First Plan') }, mockContext);
       expect(result1).toContain('Plan created');
       
-      const result2 = await tool.execute({ content: '# Second Plan' }, mockContext);
+      const result2 = await tool.execute({ content: planWith('# Second Plan') }, mockContext);
       expect(result2).toContain('Plan revised');
     });
   });
 
   describe('content preservation', () => {
     test('content is not truncated (no cap)', async () => {
-      const largeContent = '# Large Plan\n\n' + 'x'.repeat(50000);
+      const largeContent = planWith('# Large Plan\n\n' + 'x'.repeat(50000));
       
       await tool.execute({ content: largeContent, mode: 'remake' }, mockContext);
       
@@ -140,7 +165,7 @@ describe('setu_plan', () => {
     });
 
     test('control characters are removed from content', async () => {
-      const contentWithControl = 'Plan\x00with\x01control\x02chars';
+      const contentWithControl = planWith('Plan\x00with\x01control\x02chars');
       
       await tool.execute({ content: contentWithControl, mode: 'remake' }, mockContext);
       
@@ -156,9 +181,9 @@ describe('setu_plan', () => {
 
     test('existing content is sanitized during append', async () => {
       // Create plan with control chars
-      await writeFile(join(testDir, '.setu', 'PLAN.md'), 'Original\x00Content');
+      await writeFile(join(testDir, '.setu', 'PLAN.md'), planWith('Original\x00Content'));
       
-      await tool.execute({ content: '# New Section', mode: 'append' }, mockContext);
+      await tool.execute({ content: planWith('# New Section'), mode: 'append' }, mockContext);
       
       const saved = await readFile(join(testDir, '.setu', 'PLAN.md'), 'utf-8');
       expect(saved).not.toContain('\x00');
@@ -177,7 +202,7 @@ describe('setu_plan', () => {
   describe('objective handling', () => {
     test('objective appears in return message', async () => {
       const result = await tool.execute({ 
-        content: '# Plan', 
+        content: planWith('# Plan'), 
         objective: 'Implement auth flow' 
       }, mockContext);
       expect(result).toContain('Implement auth flow');
@@ -186,7 +211,7 @@ describe('setu_plan', () => {
     test('objective is sanitized and truncated', async () => {
       const longObjective = 'x'.repeat(300);
       const result = await tool.execute({ 
-        content: '# Plan', 
+        content: planWith('# Plan'), 
         objective: longObjective 
       }, mockContext);
 
@@ -197,7 +222,7 @@ describe('setu_plan', () => {
 
     test('control chars removed from objective', async () => {
       const result = await tool.execute({ 
-        content: '# Plan', 
+        content: planWith('# Plan'), 
         objective: 'Auth\x00Flow' 
       }, mockContext);
       
@@ -207,7 +232,7 @@ describe('setu_plan', () => {
     });
 
     test('works without objective', async () => {
-      const result = await tool.execute({ content: '# Plan' }, mockContext);
+      const result = await tool.execute({ content: planWith('# Plan') }, mockContext);
       expect(result).toContain('Plan created.');
       expect(result).toContain('Reply "go" to start');
     });
@@ -216,7 +241,7 @@ describe('setu_plan', () => {
   describe('remake mode clears state', () => {
     test('remake resets progress and results', async () => {
       // Create initial plan
-      await tool.execute({ content: '# Plan v1', mode: 'remake' }, mockContext);
+      await tool.execute({ content: planWith('# Plan v1'), mode: 'remake' }, mockContext);
       
       // Simulate some progress with valid ActiveTask structure
       await mkdir(join(testDir, '.setu', 'results'), { recursive: true });
@@ -230,7 +255,7 @@ describe('setu_plan', () => {
       }));
       
       // Remake should clear these
-      await tool.execute({ content: '# Plan v2', mode: 'remake' }, mockContext);
+      await tool.execute({ content: planWith('# Plan v2'), mode: 'remake' }, mockContext);
       
       // Progress should be reset (active.json updated)
       const active = await readFile(join(testDir, '.setu', 'active.json'), 'utf-8');
@@ -239,20 +264,20 @@ describe('setu_plan', () => {
     });
 
     test('remake keeps plan write successful when results cleanup fails', async () => {
-      await tool.execute({ content: '# Plan v1', mode: 'remake' }, mockContext);
+      await tool.execute({ content: planWith('# Plan v1'), mode: 'remake' }, mockContext);
 
       // Force clearResults failure: expected directory path becomes a file.
       await writeFile(join(testDir, '.setu', 'results'), 'not-a-directory');
       await writeFile(join(testDir, '.setu', 'results-old.md'), 'legacy-result');
 
-      const result = await tool.execute({ content: '# Plan v2', mode: 'remake' }, mockContext);
+      const result = await tool.execute({ content: planWith('# Plan v2'), mode: 'remake' }, mockContext);
       expect(result).toContain('Plan created');
       expect(result).toContain('Cleanup warning:');
       expect(result).toContain('results cleanup failed');
 
       // Primary source of truth remains updated.
       const savedPlan = await readFile(join(testDir, '.setu', 'PLAN.md'), 'utf-8');
-      expect(savedPlan).toBe('# Plan v2');
+      expect(savedPlan).toBe(planWith('# Plan v2'));
 
       // Existing artifact at the results path remains (no destructive retry/overwrite).
       const resultsSentinel = await readFile(join(testDir, '.setu', 'results'), 'utf-8');
@@ -268,9 +293,9 @@ describe('setu_plan', () => {
     test('append keeps prior content and adds new revision content', async () => {
       // Sequential behavior check: append path preserves prior PLAN.md content
       // and adds new revision content during tool.execute calls.
-      await tool.execute({ content: '# Original', mode: 'remake' }, mockContext);
+      await tool.execute({ content: planWith('# Original'), mode: 'remake' }, mockContext);
       
-      const result = await tool.execute({ content: '# Addition', mode: 'append' }, mockContext);
+      const result = await tool.execute({ content: planWith('# Addition'), mode: 'append' }, mockContext);
       expect(result).toContain('Plan revised');
       
       const saved = await readFile(join(testDir, '.setu', 'PLAN.md'), 'utf-8');
@@ -279,6 +304,59 @@ describe('setu_plan', () => {
     });
   });
 
+  describe('structured plan', () => {
+    test('rejects plans missing contract sections and step fields', async () => {
+      const incomplete = `## Objective
+Ship the login page
+
+## Execution Steps
+- Step 1: Add the login route
+  - Files: src/login.ts
+- Step 2: Add logout
+  - Depends On: Step 4`;
+
+      const error = await tool.execute({ content: incomplete }, mockContext).catch((e: Error) => e);
+
+      expect(error).toBeInstanceOf(Error);
+      const message = (error as Error).message;
+      expect(message).toContain('Plan rejected (PLAN.md not written)');
+      expect(message).toContain('- Missing section: Context Summary');
+      expect(message).toContain('- Missing section: File-level Edit List');
+      expect(message).toContain('- Step 1 (Add the login route): missing Verification, Done When');
+      expect(message).toContain('- Step 2 (Add logout): depends on unknown step(s) 4');
+      await expect(readFile(join(testDir, '.setu', 'PLAN.md'), 'utf-8')).rejects.toThrow();
+    });
+
+    test('writes plan.json with the latest revision of each step', async () => {
+      const result = await tool.execute({ content: planWith('# Plan') }, mockContext);
+      expect(result).toContain('1 step.');
+
+      await tool.execute({
+        content: `- Step 2: Add logout
+  - Files: src/logout.ts, \`src/session.ts\`
+  - Verification: npm test
+  - Done When: session cookie is cleared; user lands on /login
+  - Depends On: Step 1`,
+        mode: 'append'
+      }, mockContext);
+
+      const plan = JSON.parse(await readFile(join(testDir, '.setu', 'plan.json'), 'utf-8'));
+      expect(plan.steps.map((step: { id: number; title: string }) => [step.id, step.title])).toEqual([
+        [1, 'Add the login route'],
+        [2, 'Add logout'],
+      ]);
+      expect(plan.steps[1]).toMatchObject({
+        files: ['src/logout.ts', 'src/session.ts'],
+        verification: ['npm test'],
+        doneWhen: [
+          { id: '2.1', text: 'session cookie is cleared' },
+          { id: '2.2', text: 'user lands on /login' },
+        ],
+        dependsOn: [1],
+      });
+    });
+  });
+
   describe('edge cases', () => {
     test('handles content with markdown formatting', async () => {
       const markdownContent = `# Heading
@@ -294,7 +372,9 @@ const x = 1;
 
 > Quote block
 
-**Bold** and *italic* text.`;
+**Bold** and *italic* text.
+
+${VALID_PLAN}`;
 
       await tool.execute({ content: markdownContent, mode: 'remake' }, mockContext);
       
@@ -305,19 +385,19 @@ const x = 1;
     });
 
     test('handles multiline content with trailing newlines', async () => {
-      const content = '# Plan\n\nStep 1\nStep 2\n\n';
+      const content = planWith('# Plan') + '\n\n';
       
       await tool.execute({ content, mode: 'remake' }, mockContext);
       
       const saved = await readFile(join(testDir, '.setu', 'PLAN.md'), 'utf-8');
       // Should trim trailing whitespace but preserve structure
-      expect(saved).toContain('Step 1');
-      expect(saved).toContain('Step 2');
+      expect(saved).toContain('# Plan\n\n## Objective');
+      expect(saved.endsWith('session cookie')).toBe(true);
     });
 
     test('revision timestamps are ISO format', async () => {
-      await tool.execute({ content: '# First', mode: 'remake' }, mockContext);
-      await tool.execute({ content: '# Second', mode: 'append' }, mockContext);
+      await tool.execute({ content: planWith('# First'), mode: 'remake' }, mockContext);
+      await tool.execute({ content: planWith('# Second'), mode: 'append' }, mockContext);
       
       const saved = await readFile(join(testDir, '.setu', 'PLAN.md'), 'utf-8');
       const match = saved.match(/## Revision \(([\d\-T:.Z]+)\)/);
@@ -5,6 +5,8 @@ import { join } from 'path';
 import { tmpdir } from 'os';
 import type { ToolContext } from '@opencode-ai/plugin';
 import { createMockToolContext } from './tool-context-fixtures';
+import { createSetuPlanTool } from '../setu-plan';
+import { determineGear } from '../../enforcement';
 
 describe('setu_research chunking', () => {
   test('splits large content into fixed-size chunks', () => {
@@ -115,4 +117,28 @@ describe('setu_research content-first API', () => {
     const saved = await readFile(join(testDir, '.setu', 'RESEARCH.md'), 'utf-8');
     expect(saved).toBe('# Research body');
   });
+
+  test('saves research below the quality minimum without leaving Scout', async () => {
+    const result = await tool.execute({ content: 'Building a React app with auth. Will use JWT.', mode: 'remake' }, mockContext);
+
+    expect(result).toContain('Research saved.');
+    expect(result).toContain('**Research quality:** 0/100 (minimum 50)');
+    expect(result).toContain('Evidence-free');
+    expect(result).toContain('Setu stays in Scout');
+    expect(await readFile(join(testDir, '.setu', 'RESEARCH.md'), 'utf-8')).toContain('JWT');
+    expect(determineGear(testDir)).toMatchObject({ current: 'scout', researchBelowMinimum: true });
+    await expect(
+      createSetuPlanTool(() => testDir).execute({ content: '# Plan' }, mockContext)
+    ).rejects.toThrow('below the research quality minimum');
+
+    const section = (name: string): string => `## ${name}\n${'Detailed finding about the codebase. '.repeat(5)}\n`;
+    const updated = await tool.execute(
+      { content: ['Intent', 'Technical Analysis', 'Alternatives', 'Risks', 'Verification Strategy', 'Assumptions'].map(section).join('\n') },
+      mockContext
+    );
+
+    expect(updated).toContain('**Research quality:** 100/100');
+    expect(updated).not.toContain('Setu stays in Scout');
+    expect(determineGear(testDir).current).toBe('architect');
+  });
 });
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { tmpdir } from 'os';
+import { createSetuStepTool } from '../setu-step';
+import { createMockToolContext } from './tool-context-fixtures';
+import {
+  acquireLeases,
+  completeCheckpoints,
+  createActiveTask,
+  listLeases,
+  loadActiveTask,
+  readStepResult,
+  recordCheckpoint,
+  saveActiveTask,
+} from '../../context';
+import { recordCriterionEvidence } from '../../verification';
+
+const PLAN = `- Step 1: Schema
+  - Files: db/schema.sql
+  - Done When: migrations apply
+- Step 2: API
+  - Files: src/api.ts
+  - Depends On: none
+- Step 3: Docs
+  - Files: README.md
+  - Depends On: Step 2
+`;
+
+describe('setu_step', () => {
+  let projectDir = '';
+
+  const runStep = async (args: { action: 'start' | 'complete' | 'fail' | 'skip'; step?: number; reason?: string }): Promise<string> =>
+    String(await createSetuStepTool(() => projectDir).execute(args, createMockToolContext()));
+
+  /** Record an edit to the undo ledger the way the tool hooks do */
+  const recordEdit = (filePath: string, tool: string, at?: Date): void => {
+    recordCheckpoint(projectDir, { filePath, sessionId: 's1', tool, step: 2 }, at);
+    mkdirSync(join(projectDir, dirname(filePath)), { recursive: true });
+    writeFileSync(join(projectDir, filePath), `${tool} ${filePath}`);
+    completeCheckpoints(projectDir, 's1', [filePath]);
+  };
+
+  beforeEach(() => {
+    projectDir = mkdtempSync(join(tmpdir(), 'setu-step-'));
+    mkdirSync(join(projectDir, '.setu'));
+    writeFileSync(join(projectDir, '.setu', 'PLAN.md'), PLAN);
+    saveActiveTask(projectDir, createActiveTask('Build the app'));
+  });
+
+  afterEach(() => {
+    rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  test('completes the started step with the files edited since it started', async () => {
+    recordEdit('src/old.ts', 'write', new Date(Date.now() - 60_000));
+    expect(await runStep({ action: 'start', step: 2 })).toContain('Step 2 — API started');
+    recordEdit('src/api.ts', 'write');
+    recordEdit('src/api.ts', 'edit');
+
+    const output = await runStep({ action: 'complete', reason: 'Added the endpoints' });
+
+    expect(output).toContain('✅ Step 2 completed');
+    expect(output).toContain('Files: src/api.ts');
+    const result = readStepResult(projectDir, 2);
+    expect(result).toMatchObject({ status: 'completed', objective: 'API', outputs: ['src/api.ts'], summary: 'Added the endpoints' });
+    expect(result?.durationMs).toBeGreaterThan(0);
+    expect(loadActiveTask(projectDir)?.stepStarts).toBeUndefined();
+  });
+
+  test('does not complete a step whose DONE WHEN criteria lack evidence', async () => {
+    const blocked = await runStep({ action: 'complete', step: 1 });
+
+    expect(blocked).toContain('1 DONE WHEN criterion(s) lack evidence');
+    expect(readStepResult(projectDir, 1)).toBeNull();
+
+    recordCriterionEvidence(projectDir, 1, [
+      { criterion: '1.1', kind: 'command', passed: true, summary: 'npm run migrate exit 0', recordedAt: new Date().toISOString() },
+    ]);
+    expect(await runStep({ action: 'complete', step: 1 })).toContain('✅ Step 1 completed');
+    expect(readStepResult(projectDir, 1)?.criteria).toEqual([
+      { id: '1.1', text: 'migrations apply', met: true, evidence: 'command npm run migrate exit 0' },
+    ]);
+  });
+
+  test('a skipped step unblocks the steps that depend on it', async () => {
+    expect(await runStep({ action: 'skip', step: 2 })).toBe('**Error:** A reason is required to skip a step.');
+
+    const output = await runStep({ action: 'skip', step: 2, reason: 'API already exists' });
+
+    expect(output).toContain('⏭ Step 2 skipped');
+    expect(output).toContain('Ready: Step 1, Step 3');
+    expect(readStepResult(projectDir, 2)).toMatchObject({ status: 'skipped', summary: 'API already exists' });
+  });
+
+  test('a failure is recorded as a failed approach and leaves the step open', async () => {
+    await runStep({ action: 'start', step: 2 });
+    acquireLeases(projectDir, { paths: ['src/api.ts'], sessionId: 's1', step: 2, ttlMs: 60_000 });
+
+    const output = await runStep({ action: 'fail', reason: 'the ORM cannot express the join' });
+
+    expect(output).toContain('❌ Step 2 failed');
+    expect(readStepResult(projectDir, 2)).toMatchObject({ status: 'failed', summary: 'the ORM cannot express the join' });
+    const task = loadActiveTask(projectDir);
+    expect(task?.learnings?.failed).toEqual(['Step 2 (API): the ORM cannot express the join']);
+    expect(task?.stepStarts).toBeUndefined();
+    expect(listLeases(projectDir)).toEqual([]);
+    expect(await runStep({ action: 'start', step: 3 })).toContain('**Error:**');
+  });
+});
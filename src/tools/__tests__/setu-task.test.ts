@@ -187,4 +187,33 @@ describe('setu_task lifecycle actions', () => {
       )
     ).rejects.toThrow('Setu tools are only available in the Setu agent');
   });
+
+  test('create stores path constraints and reframe cannot widen ONLY_EDIT', async () => {
+    const projectDir = makeProjectDir();
+    const tool = createSetuTaskTool(() => projectDir);
+
+    const created = await tool.execute(
+      {
+        action: 'create',
+        task: 'Scoped API change',
+        pathConstraints: { NO_EDIT: ['migrations/**'], ONLY_EDIT: ['packages/api/**'] }
+      },
+      createMockToolContext()
+    );
+    expect(created).toContain('NO_EDIT');
+    expect(created).toContain('packages/api/**');
+
+    await tool.execute(
+      {
+        action: 'reframe',
+        task: 'Scoped API change, wider',
+        pathConstraints: { NO_EDIT: ['src/legacy/**'], ONLY_EDIT: ['packages/**'] }
+      },
+      createMockToolContext()
+    );
+
+    const active = loadActiveTask(projectDir);
+    expect(active?.pathConstraints?.NO_EDIT).toEqual(['migrations/**', 'src/legacy/**']);
+    expect(active?.pathConstraints?.ONLY_EDIT).toEqual(['packages/api/**']);
+  });
 });
@@ -0,0 +1,276 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { execFileSync } from 'child_process';
+import { existsSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createSetuVerifyTool } from '../setu-verify';
+import type { EnvironmentInspector } from '../../environment/detector';
+import { loadVerificationRecord } from '../../verification';
+import { createMockToolContext } from './tool-context-fixtures';
+import { getDefaultSetuConfig, resetSetuConfig, setSetuConfig } from '../../config';
+import { createActiveTask, loadActiveTask, readStepResult, recordDirtyBaseline, saveActiveTask } from '../../context';
+import type { HydrationState } from '../../enforcement';
+
+const idle: EnvironmentInspector = async () => ({ processes: [] });
+const confirmed = (): HydrationState => ({ contextConfirmed: true, sessionId: 'test-session', startedAt: Date.now() });
+
+describe('setu_verify', () => {
+  let projectDir = '';
+
+  beforeEach(() => {
+    projectDir = mkdtempSync(join(tmpdir(), 'setu-verify-test-'));
+    writeFileSync(join(projectDir, 'package.json'), JSON.stringify({
+      name: 'verify-fixture',
+      private: true,
+      scripts: {
+        build: 'node -e "console.log(\'built\')"',
+        test: 'node -e "console.log(\'1 failing\'); process.exit(2)"',
+      },
+    }));
+    writeFileSync(join(projectDir, 'package-lock.json'), JSON.stringify({ name: 'verify-fixture', lockfileVersion: 3 }));
+  });
+
+  afterEach(() => {
+    rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  test('runs the steps itself and records exit codes', async () => {
+    let marked = false;
+    const verifyTool = createSetuVerifyTool(() => { marked = true; }, () => projectDir, idle);
+
+    const result = await verifyTool.execute({ steps: ['build', 'test'] }, createMockToolContext());
+
+    expect(result).toContain('- build: PASS');
+    expect(result).toContain('- test: FAIL (exit 2');
+    expect(result).toContain('1 failing');
+    expect(marked).toBe(false);
+
+    const record = loadVerificationRecord(projectDir);
+    expect(record?.buildTool).toBe('npm');
+    expect(record?.sessionId).toBe('test-session');
+    expect(record?.steps.map(step => [step.name, step.command, step.exitCode])).toEqual([
+      ['build', 'npm run build', 0],
+      ['test', 'npm test', 2],
+    ]);
+    expect(record?.steps[0].outputTail).toContain('built');
+  });
+
+  test('refuses to build while a dev server is running', async () => {
+    const devServer: EnvironmentInspector = async () => ({ processes: [{ pid: 7, command: 'node vite', cwd: projectDir }] });
+    const verifyTool = createSetuVerifyTool(() => {}, () => projectDir, devServer);
+
+    await expect(verifyTool.execute({ steps: ['build'] }, createMockToolContext())).rejects.toThrow('build-during-dev');
+    expect(loadVerificationRecord(projectDir)).toBeNull();
+  });
+
+  test('scopes workspace verification to changed packages and their dependents', async () => {
+    const build = 'node -e "console.log(process.cwd())"';
+    writeFileSync(join(projectDir, 'package.json'), JSON.stringify({
+      name: 'verify-fixture',
+      private: true,
+      workspaces: ['packages/*'],
+    }));
+    for (const [name, dependencies] of [['lib', {}], ['app', { lib: '*' }], ['docs', {}]] as const) {
+      mkdirSync(join(projectDir, 'packages', name), { recursive: true });
+      writeFileSync(join(projectDir, 'packages', name, 'package.json'), JSON.stringify({ name, dependencies, scripts: { build } }));
+    }
+    for (const args of [['init', '-q'], ['add', '-A'], ['-c', 'user.name=t', '-c', 'user.email=t@t', 'commit', '-qm', 'init']]) {
+      execFileSync('git', args, { cwd: projectDir });
+    }
+    writeFileSync(join(projectDir, 'packages', 'lib', 'index.js'), 'module.exports = 1;\n');
+    const verifyTool = createSetuVerifyTool(() => {}, () => projectDir, idle);
+
+    const scoped = await verifyTool.execute({ steps: ['build'] }, createMockToolContext());
+    expect(scoped).toContain('**Scope:** app, lib (changed packages and their dependents)');
+    expect(loadVerificationRecord(projectDir)?.steps[0]).toMatchObject({
+      command: 'npm run build --workspace=app --workspace=lib',
+      exitCode: 0,
+    });
+
+    const full = await verifyTool.execute({ steps: ['build'], scope: 'full' }, createMockToolContext());
+    expect(full).toContain('**Scope:** full repository (3 npm workspace packages)');
+    expect(loadVerificationRecord(projectDir)?.steps[0].command).toBe('npm run build');
+  });
+
+  test('runs tests impacted by changed files before the full suite', async () => {
+    writeFileSync(join(projectDir, 'package.json'), JSON.stringify({ name: 'verify-fixture', private: true, scripts: { test: 'node --test' } }));
+    mkdirSync(join(projectDir, 'src'));
+    mkdirSync(join(projectDir, 'test'));
+    writeFileSync(join(projectDir, 'src', 'sum.js'), 'module.exports = (a, b) => a + b;\n');
+    writeFileSync(join(projectDir, 'test', 'total.test.js'), "const sum = require('../src/sum');\nrequire('node:assert').strictEqual(sum(1, 2), 3);\n");
+    writeFileSync(join(projectDir, 'test', 'other.test.js'), "require('node:assert').ok(true);\n");
+    for (const args of [['init', '-q'], ['add', '-A'], ['-c', 'user.name=t', '-c', 'user.email=t@t', 'commit', '-qm', 'init']]) {
+      execFileSync('git', args, { cwd: projectDir });
+    }
+    writeFileSync(join(projectDir, 'src', 'sum.js'), 'module.exports = (a, b) => b + a;\n');
+    let marked = 0;
+    const verifyTool = createSetuVerifyTool(() => { marked++; }, () => projectDir, idle);
+
+    const impactedFirst = await verifyTool.execute({ steps: ['test'] }, createMockToolContext());
+    expect(impactedFirst).toContain('**Impacted tests:** 1 file(s) for 1 changed file(s): `test/total.test.js`');
+    expect(loadVerificationRecord(projectDir)?.steps.map(step => [step.name, step.command, step.passed, step.tests])).toEqual([
+      ['test-impacted', 'node --test test/total.test.js', true, ['test/total.test.js']],
+      ['test', 'npm test', true, undefined],
+    ]);
+    expect(marked).toBe(1);
+
+    const impactedOnly = await verifyTool.execute({ steps: ['test'], tests: 'impacted' }, createMockToolContext());
+    expect(impactedOnly).toContain('The full test suite still gates commit');
+    expect(impactedOnly).not.toContain('- test: ');
+    expect(marked).toBe(1);
+  });
+
+  test('fails the test step when changed lines are under the coverage threshold', async () => {
+    writeFileSync(join(projectDir, 'package.json'), JSON.stringify({ name: 'verify-fixture', private: true, scripts: { test: 'node cover.js' } }));
+    writeFileSync(
+      join(projectDir, 'cover.js'),
+      "require('fs').mkdirSync('coverage', { recursive: true });\n" +
+        "require('fs').writeFileSync('coverage/lcov.info', 'SF:src/sum.js\\nDA:1,1\\nDA:2,0\\nDA:3,0\\nend_of_record\\n');\n"
+    );
+    writeFileSync(join(projectDir, '.gitignore'), 'coverage/\n');
+    for (const args of [['init', '-q'], ['add', '-A'], ['-c', 'user.name=t', '-c', 'user.email=t@t', 'commit', '-qm', 'init']]) {
+      execFileSync('git', args, { cwd: projectDir });
+    }
+    mkdirSync(join(projectDir, 'src'));
+    writeFileSync(join(projectDir, 'src', 'sum.js'), 'const sum = (a, b) =>\n  a + b;\nmodule.exports = sum;\n');
+    setSetuConfig({ ...getDefaultSetuConfig(), verification: { ...getDefaultSetuConfig().verification, coverageThreshold: 80 } });
+    let marked = false;
+    const verifyTool = createSetuVerifyTool(() => { marked = true; }, () => projectDir, idle);
+
+    try {
+      const result = await verifyTool.execute({ steps: ['test'] }, createMockToolContext());
+
+      expect(result).toContain('- test: FAIL (changed-line coverage 33.3% < 80%');
+      expect(result).toContain('**Changed-line coverage:** 33.3% of 3 changed line(s) covered (threshold 80%, from `coverage/lcov.info`)\n- src/sum.js: 2-3');
+      expect(loadVerificationRecord(projectDir)?.steps[0]).toMatchObject({
+        exitCode: 0,
+        passed: false,
+        coverage: { artifact: 'coverage/lcov.info', percent: 33.3, threshold: 80, passed: false },
+      });
+      expect(marked).toBe(false);
+    } finally {
+      resetSetuConfig();
+    }
+  });
+
+  test('holds the plan step until each DONE WHEN criterion has evidence', async () => {
+    writeFileSync(join(projectDir, 'package.json'), JSON.stringify({
+      name: 'verify-fixture',
+      private: true,
+      scripts: { build: 'node -e "console.log(\'built\')"' },
+    }));
+    writeFileSync(join(projectDir, 'README.md'), 'Run npm start\n');
+    mkdirSync(join(projectDir, '.setu'));
+    writeFileSync(join(projectDir, '.setu', 'RESEARCH.md'), '# Research\n');
+    writeFileSync(
+      join(projectDir, '.setu', 'PLAN.md'),
+      '## Step 1: Scaffold\n- Done When: server prints ready; README explains startup\n'
+    );
+    saveActiveTask(projectDir, createActiveTask('Scaffold app'));
+    const verifyTool = createSetuVerifyTool(() => {}, () => projectDir, idle, confirmed);
+
+    const held = await verifyTool.execute({ steps: ['build'] }, createMockToolContext());
+    expect(held).toContain('- [ ] 1.1 server prints ready (no evidence)');
+    expect(held).toContain('Step 1 not advanced: 2 DONE WHEN criterion(s) lack evidence');
+    expect(loadActiveTask(projectDir)?.progress?.lastCompletedStep ?? 0).toBe(0);
+
+    const advanced = await verifyTool.execute(
+      {
+        steps: ['build'],
+        evidence: [
+          { criterion: '1', command: 'node -e "console.log(\'ready\')"' },
+          { criterion: '1.2', path: 'README.md', contains: 'npm start' },
+          { criterion: '1.3', command: 'true' },
+        ],
+      },
+      createMockToolContext()
+    );
+    expect(advanced).toContain('- 1.3: not a DONE WHEN criterion of Step 1');
+    expect(advanced).toContain('Step 1 verified and recorded');
+    expect(loadActiveTask(projectDir)?.progress?.lastCompletedStep).toBe(1);
+    const criteria = readStepResult(projectDir, 1)?.criteria;
+    expect(criteria?.map(criterion => [criterion.id, criterion.text, criterion.met])).toEqual([
+      ['1.1', 'server prints ready', true],
+      ['1.2', 'README explains startup', true],
+    ]);
+    expect(criteria?.[0].evidence).toMatch(/^command `node -e .*` exit 0$/);
+    expect(criteria?.[1].evidence).toContain('file README.md contains');
+  });
+
+  test('refuses evidence commands a bash call could not run', async () => {
+    writeFileSync(join(projectDir, 'package.json'), JSON.stringify({
+      name: 'verify-fixture',
+      private: true,
+      scripts: { build: 'node -e "console.log(\'built\')"' },
+    }));
+    writeFileSync(join(projectDir, 'AGENTS.md'), '```setu-protected\nconfig/**\n```\n');
+    mkdirSync(join(projectDir, '.setu'));
+    writeFileSync(join(projectDir, '.setu', 'PLAN.md'), '## Step 1: Scaffold\n- Done When: a; b; c\n');
+    saveActiveTask(projectDir, createActiveTask('Scaffold app', ['NO_PUSH']));
+    const evidence = [
+      { criterion: '1', command: 'git commit -am x' },
+      { criterion: '2', command: 'echo hi > config/app.json' },
+      { criterion: '3', command: 'touch notes.txt' },
+    ];
+
+    const scout = await createSetuVerifyTool(() => {}, () => projectDir, idle, confirmed)
+      .execute({ steps: ['build'], evidence }, createMockToolContext());
+    expect(scout).toContain('- 1.1: `git commit -am x` refused (evidence commands cannot commit or push)');
+    expect(scout).toContain("- 1.2: `echo hi > config/app.json` refused ('config/app.json' is protected by 'config/**')");
+    expect(scout).toContain('- 1.3: `touch notes.txt` refused in scout gear');
+
+    const unconfirmed = await createSetuVerifyTool(() => {}, () => projectDir, idle)
+      .execute({ steps: ['build'], evidence: [evidence[2]] }, createMockToolContext());
+    expect(unconfirmed).toContain('- 1.3: `touch notes.txt` refused until setu_context confirms the context');
+    expect(existsSync(join(projectDir, 'notes.txt'))).toBe(false);
+  });
+
+  test('refuses evidence commands that discard user changes or build under a dev server', async () => {
+    writeFileSync(join(projectDir, 'package.json'), JSON.stringify({
+      name: 'verify-fixture',
+      private: true,
+      scripts: { test: 'node -e "console.log(\'ok\')"' },
+    }));
+    mkdirSync(join(projectDir, 'src'));
+    writeFileSync(join(projectDir, 'src', 'app.js'), 'module.exports = 1;\n');
+    for (const args of [['init', '-q'], ['add', '-A'], ['-c', 'user.name=t', '-c', 'user.email=t@t', 'commit', '-qm', 'init']]) {
+      execFileSync('git', args, { cwd: projectDir });
+    }
+    writeFileSync(join(projectDir, 'src', 'app.js'), 'module.exports = 2; // user edit\n');
+    recordDirtyBaseline(projectDir, 'test-session');
+    mkdirSync(join(projectDir, '.setu'), { recursive: true });
+    writeFileSync(join(projectDir, '.setu', 'RESEARCH.md'), '# Research\n');
+    writeFileSync(join(projectDir, '.setu', 'PLAN.md'), '## Step 1: Scaffold\n- Done When: a; b; c; d\n');
+    saveActiveTask(projectDir, createActiveTask('Scaffold app'));
+    const devServer: EnvironmentInspector = async () => ({ processes: [{ pid: 7, command: 'node vite', cwd: projectDir }] });
+    const evidence = [
+      { criterion: '1', command: 'git checkout -- src/app.js' },
+      { criterion: '2', command: 'git restore src/' },
+      { criterion: '3', command: 'npm run build' },
+      { criterion: '4', command: 'rimraf dist' },
+    ];
+
+    const result = await createSetuVerifyTool(() => {}, () => projectDir, devServer, confirmed)
+      .execute({ steps: ['test'], evidence }, createMockToolContext());
+    expect(result).toContain('- 1.1: `git checkout -- src/app.js` refused (git-checkout-user-changes)');
+    expect(result).toContain('- 1.2: `git restore src/` refused (git-restore-user-changes)');
+    expect(result).toMatch(/- 1\.3: `npm run build` refused \(.*dev server/);
+    expect(result).toMatch(/- 1\.4: `rimraf dist` refused \(.*dev server/);
+    expect(execFileSync('git', ['diff', '--name-only'], { cwd: projectDir, encoding: 'utf-8' })).toContain('src/app.js');
+  });
+
+  test('runs Makefile targets when no other build system is present', async () => {
+    rmSync(join(projectDir, 'package.json'));
+    rmSync(join(projectDir, 'package-lock.json'));
+    writeFileSync(join(projectDir, 'Makefile'), 'build:\n\t@echo compiled\n\ntest:\n\t@echo tested\n');
+    const verifyTool = createSetuVerifyTool(() => {}, () => projectDir, idle);
+
+    const result = await verifyTool.execute({}, createMockToolContext());
+
+    expect(result).toContain('project using `make`');
+    expect(loadVerificationRecord(projectDir)?.steps.map(step => [step.command, step.passed])).toEqual([
+      ['make build', true],
+      ['make test', true],
+    ]);
+  });
+});
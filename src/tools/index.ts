@@ -8,4 +8,8 @@ export { createSetuTaskTool } from './setu-task';
 export { createSetuResearchTool } from './setu-research';
 export { createSetuPlanTool } from './setu-plan';
 export { createSetuResetTool } from './setu-reset';
+export { createSetuRestoreTool } from './setu-restore';
+export { createSetuUndoTool } from './setu-undo';
 export { createSetuDoctorTool, type DoctorResult, type HealthCheck } from './setu-doctor';
+export { createSetuNextTool } from './setu-next';
+export { createSetuStepTool } from './setu-step';
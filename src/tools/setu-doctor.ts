@@ -6,6 +6,8 @@
  * - Git status (uncommitted changes, detached HEAD)
  * - Dependencies (node_modules, lockfile sync)
  * - Runtime issues (missing binaries, wrong versions)
+ * - Policy config (.setu/config.json and global setu.json validation)
+ * - File leases (.setu/locks/) left behind by sessions that stopped writing
  */
 
 import { tool } from '@opencode-ai/plugin';
@@ -15,6 +17,8 @@ import { exec } from 'child_process';
 import { promisify } from 'util';
 import { debugLog } from '../debug';
 import { getErrorMessage } from '../utils/error-handling';
+import { loadSetuConfig, formatConfigIssue } from '../config';
+import { isLeaseExpired, isLeaseStale, listLeases } from '../context/leases';
 import { assertSetuAgent, withSetuOnlyDescription } from './agent-guard';
 
 const execAsync = promisify(exec);
@@ -231,6 +235,62 @@ function checkProjectRules(projectDir: string): HealthCheck[] {
   return checks;
 }
 
+/**
+ * Check policy config files (global setu.json + .setu/config.json)
+ * 
+ * Invalid entries fall back to defaults at runtime; report them here so
+ * they are never silently ignored.
+ */
+function checkPolicyConfig(projectDir: string): HealthCheck[] {
+  const { issues, sources } = loadSetuConfig(projectDir);
+  
+  if (issues.length === 0) {
+    return [{
+      name: 'config',
+      status: 'healthy',
+      message: sources.length > 0
+        ? `Policy config valid (${sources.length} file(s))`
+        : 'No policy config found, using defaults'
+    }];
+  }
+  
+  return issues.map(issue => ({
+    name: 'config',
+    status: 'warning' as const,
+    message: formatConfigIssue(issue),
+    fix: `Fix or remove the entry in ${issue.file}`
+  }));
+}
+
+/**
+ * Check file leases (.setu/locks/)
+ *
+ * Stale leases no longer block anything, but one that outlived its
+ * session points at a subagent that stopped before its step completed.
+ */
+function checkFileLeases(projectDir: string): HealthCheck[] {
+  const leases = listLeases(projectDir);
+  const stale = leases.filter(lease => isLeaseStale(lease));
+  const held = leases.length - stale.length;
+
+  const checks: HealthCheck[] = stale.map(lease => ({
+    name: 'file-leases',
+    status: 'warning' as const,
+    message: `Stale lease on '${lease.path}' (session ${lease.sessionId}${lease.step !== undefined ? `, Step ${lease.step}` : ''}, ${
+      isLeaseExpired(lease) ? `expired ${lease.expiresAt}` : `process ${lease.pid} exited`
+    })`,
+    fix: `Check whether Step ${lease.step ?? '?'} was finished; the next write to the path replaces the lease`
+  }));
+  if (stale.length === 0) {
+    checks.push({
+      name: 'file-leases',
+      status: 'healthy',
+      message: held > 0 ? `${held} file lease(s) held by running sessions` : 'No file leases held'
+    });
+  }
+  return checks;
+}
+
 /**
  * Check build/runtime environment
  */
@@ -315,8 +375,10 @@ async function runDoctorChecks(projectDir: string): Promise<DoctorResult> {
   
   allChecks.push(...gitChecks, ...depChecks, ...runtimeChecks);
   
-  // Add project rules check (synchronous, no need for Promise.all)
+  // Add project rules and config checks (synchronous, no need for Promise.all)
   allChecks.push(...checkProjectRules(projectDir));
+  allChecks.push(...checkPolicyConfig(projectDir));
+  allChecks.push(...checkFileLeases(projectDir));
   
   // Determine overall status
   const hasErrors = allChecks.some(c => c.status === 'error');
@@ -405,6 +467,8 @@ Detects common issues that cause "ghost loops":
 - Dependencies: missing node_modules, outdated lockfile
 - Runtime: missing Node.js, TypeScript issues
 - Project Rules: validates AGENTS.md and CLAUDE.md (or compatible project policy files)
+- Config: reports invalid entries in .setu/config.json and the global setu.json
+- File leases: reports stale leases in .setu/locks/
 
 Run this before starting complex tasks to ensure a clean environment.`),
     
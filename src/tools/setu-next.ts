@@ -0,0 +1,79 @@
+/**
+ * setu_next tool - Plan steps that are ready to start
+ *
+ * Reads the structured plan and the completed steps (.setu/results plus
+ * active.json) and lists the steps whose dependencies are all complete.
+ * Ready steps do not depend on each other, so they can be handed to
+ * parallel subagents.
+ */
+
+import { tool } from '@opencode-ai/plugin';
+import { validateProjectDir } from '../utils/path-validation';
+import { getErrorMessage } from '../utils/error-handling';
+import { getCompletedSteps, loadActiveTask } from '../context/active';
+import { getPlanProgress, loadPlan, type PlanStep } from '../context/plan';
+import { assertSetuAgent, withSetuOnlyDescription } from './agent-guard';
+
+function formatStepLabel(step: PlanStep): string {
+  return `Step ${step.id}${step.title ? ` — ${step.title}` : ''}`;
+}
+
+function formatReadyStep(step: PlanStep): string {
+  const lines = [`### ${formatStepLabel(step)}`];
+  if (step.files.length > 0) lines.push(`Files: ${step.files.join(', ')}`);
+  if (step.verification.length > 0) lines.push(`Verification: ${step.verification.join('; ')}`);
+  if (step.doneWhen.length > 0) {
+    lines.push('Done When:', ...step.doneWhen.map(criterion => `- ${criterion.id} ${criterion.text}`));
+  }
+  return lines.join('\n');
+}
+
+export const createSetuNextTool = (getProjectDir: () => string): ReturnType<typeof tool> => tool({
+  description: withSetuOnlyDescription(
+    'List the plan steps that are ready to start: every step they depend on is complete. ' +
+    'Ready steps are independent of each other and can be handed to parallel subagents.'
+  ),
+  args: {},
+  async execute(_args, context) {
+    assertSetuAgent(context, 'setu_next');
+
+    const projectDir = getProjectDir();
+    try {
+      validateProjectDir(projectDir);
+    } catch (error) {
+      throw new Error(`Invalid project directory: ${getErrorMessage(error)}`);
+    }
+
+    const plan = loadPlan(projectDir);
+    if (!plan || plan.steps.length === 0) {
+      return 'No structured plan. Create .setu/PLAN.md with setu_plan first.';
+    }
+
+    const completedSteps = getCompletedSteps(projectDir, loadActiveTask(projectDir));
+    const { completed, total, ready, blocked } = getPlanProgress(plan, completedSteps);
+    if (completed === total) {
+      return `All ${total} plan steps complete.`;
+    }
+
+    const sections = [`**Progress:** ${completed}/${total} plan steps complete`];
+    if (ready.length > 0) {
+      sections.push(`## Ready (${ready.length})`, ...ready.map(formatReadyStep));
+    } else {
+      sections.push('## Ready (0)\nNo step is ready: the remaining steps wait on each other. Fix Depends On in PLAN.md.');
+    }
+    if (blocked.length > 0) {
+      const waiting = blocked.map(step => {
+        const pending = step.dependsOn.filter(dependency => !completedSteps.has(dependency));
+        return `- ${formatStepLabel(step)}: waiting on ${pending.map(id => `Step ${id}`).join(', ')}`;
+      });
+      sections.push(`## Blocked (${blocked.length})\n${waiting.join('\n')}`);
+    }
+    if (ready.length > 1) {
+      sections.push(
+        'Ready steps can run in parallel: give each subagent one step. ' +
+        'Complete each with setu_verify (step: N); .setu/results/step-N.md records it.'
+      );
+    }
+    return sections.join('\n\n');
+  }
+});
@@ -5,6 +5,8 @@ import { writeFile, readFile } from 'fs/promises';
 import { resetProgress } from '../context/active';
 import { ensureSetuDir } from '../context/storage';
 import { clearResults } from '../context/results';
+import { parsePlan, savePlan, validatePlan } from '../context/plan';
+import { isResearchAccepted } from '../context/research';
 import { createPromptMultilineSanitizer } from '../utils/sanitization';
 import { debugLog } from '../debug';
 import { PLAN_TOOL_EXPECTATIONS } from '../prompts/contracts';
@@ -90,6 +92,9 @@ export const createSetuPlanTool = (getProjectDir: () => string): ReturnType<type
       }
       throw e;
     }
+    if (!isResearchAccepted(projectDir)) {
+      throw new Error('RESEARCH.md is below the research quality minimum. Complete it with setu_research first.');
+    }
 
     const sanitizedContent = sanitizePlanContent(args.content);
     if (!sanitizedContent) {
@@ -129,7 +134,19 @@ export const createSetuPlanTool = (getProjectDir: () => string): ReturnType<type
       content = sanitizedContent;
     }
 
+    // Structured form drives step counting; reject plans the contract
+    // would not accept before anything is written
+    const plan = parsePlan(content);
+    const gaps = validatePlan(content, plan);
+    if (gaps.length > 0) {
+      throw new Error(
+        `Plan rejected (PLAN.md not written): ${gaps.length} gap(s) against the plan contract\n` +
+          `${gaps.map(gap => `- ${gap}`).join('\n')}\n\nAdd the missing parts and call setu_plan again.`
+      );
+    }
+
     await writeFile(planPath, content);
+    savePlan(projectDir, plan);
 
     const cleanupWarnings: string[] = [];
     if (mode === 'remake') {
@@ -145,6 +162,7 @@ export const createSetuPlanTool = (getProjectDir: () => string): ReturnType<type
     const warningSuffix = cleanupWarnings.length > 0
       ? ` Cleanup warning: ${cleanupWarnings.join('; ')}.`
       : '';
-    return `Plan ${mode === 'append' ? 'revised' : 'created'}${safeObjective ? ': ' + safeObjective : ''}.${warningSuffix}${preview ? ` Ready to execute: ${preview}.` : ''} Reply "go" to start, or tell me what to adjust.`;
+    const stepCount = ` ${plan.steps.length} step${plan.steps.length === 1 ? '' : 's'}.`;
+    return `Plan ${mode === 'append' ? 'revised' : 'created'}${safeObjective ? ': ' + safeObjective : ''}.${stepCount}${warningSuffix}${preview ? ` Ready to execute: ${preview}.` : ''} Reply "go" to start, or tell me what to adjust.`;
   }
 });
@@ -1,7 +1,9 @@
 import { tool } from '@opencode-ai/plugin';
 import { join } from 'path';
 import { mkdir, writeFile, readdir, unlink, readFile } from 'fs/promises';
-import { ensureSetuDir } from '../context/storage';
+import { ensureSetuDir, loadContext } from '../context/storage';
+import { formatResearchQuality, saveResearchQuality, scoreResearch } from '../context/research';
+import { getSetuConfig } from '../config';
 import { getErrorMessage } from '../utils/error-handling';
 import { removeControlChars, removeInstructionBoundaries, removeSystemPatterns } from '../utils/sanitization';
 import { validateProjectDir } from '../utils/path-validation';
@@ -161,6 +163,10 @@ export const createSetuResearchTool = (getProjectDir: () => string): ReturnType<
       content = sanitizedContent;
     }
 
+    // Score the full research before any chunking replaces it with a summary
+    const filesRead = loadContext(projectDir)?.filesRead?.length ?? 0;
+    const quality = scoreResearch(content, filesRead, getSetuConfig().research.minimumScore);
+
     if (content.length > MAX_INLINE_RESEARCH_CHARS) {
       const chunks = await persistResearchChunks(projectDir, content);
       content = `# Research Summary\n\nFull research (${content.length} chars) in ${chunks} chunks under .setu/research_chunks/`;
@@ -168,11 +174,17 @@ export const createSetuResearchTool = (getProjectDir: () => string): ReturnType<
 
     await writeFile(researchPath, content);
     debugLog(`setu_research: wrote ${content.length} chars to ${researchPath}`);
+    saveResearchQuality(projectDir, quality);
+
+    const report = formatResearchQuality(quality);
+    const gate = quality.passed
+      ? ''
+      : `\n\nBelow the research quality minimum: Setu stays in Scout. Add the missing sections with setu_research (append mode keeps what is saved).`;
 
     if (sanitizedQuestions) {
-      return `Research saved. Open questions need resolution:\n${sanitizedQuestions}\n\nResolve these before proceeding to PLAN.md.`;
+      return `Research saved. Open questions need resolution:\n${sanitizedQuestions}\n\nResolve these before proceeding to PLAN.md.\n\n${report}${gate}`;
     }
 
-    return `Research ${mode === 'append' ? 'updated' : 'saved'}.`;
+    return `Research ${mode === 'append' ? 'updated' : 'saved'}.\n\n${report}${gate}`;
   }
 });
@@ -1,6 +1,7 @@
 import { tool } from '@opencode-ai/plugin';
 import { validateProjectDir } from '../utils/path-validation';
 import { loadActiveTask, saveActiveTask } from '../context/active';
+import { clearResults } from '../context/results';
 import { getErrorMessage } from '../utils/error-handling';
 import { errorLog, debugLog } from '../debug';
 import { join } from 'path';
@@ -9,7 +10,7 @@ import { assertSetuAgent, withSetuOnlyDescription } from './agent-guard';
 
 export const createSetuResetTool = (getProjectDir: () => string): ReturnType<typeof tool> => tool({
   description: withSetuOnlyDescription(
-    'Reset step progress to 0. Use when you want to restart the current plan from the beginning.'
+    'Reset step progress to 0 and clear step results. Use when you want to restart the current plan from the beginning.'
   ),
   args: {
     clearLearnings: tool.schema.boolean().optional().describe('Also clear learned approaches (default: false)')
@@ -46,7 +47,8 @@ export const createSetuResetTool = (getProjectDir: () => string): ReturnType<typ
     if (active) {
       active.progress = {
         lastCompletedStep: 0,
-        lastCompletedAt: new Date().toISOString()
+        lastCompletedAt: new Date().toISOString(),
+        completedSteps: []
       };
 
       if (args.clearLearnings) {
@@ -59,6 +61,13 @@ export const createSetuResetTool = (getProjectDir: () => string): ReturnType<typ
         // Throw Error instead of returning string for consistency
         throw new Error(`Failed to save active.json during reset: ${getErrorMessage(error)}`);
       }
+
+      // Step results count as completions, so they go with the progress
+      try {
+        clearResults(projectDir);
+      } catch (error) {
+        throw new Error(`Failed to clear step results during reset: ${getErrorMessage(error)}`);
+      }
     } else {
       // If no active task, there's nothing to reset
       // Report corruption if detected
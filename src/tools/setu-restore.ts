@@ -0,0 +1,102 @@
+/**
+ * setu_restore tool - List and restore safety snapshots
+ *
+ * Snapshots are taken automatically before a risky action the user approved
+ * (see .setu/snapshots/). Restoring writes back only the paths that action
+ * could have changed, and first snapshots their current state, so a restore
+ * can itself be undone.
+ */
+
+import { tool } from '@opencode-ai/plugin';
+import { validateProjectDir } from '../utils/path-validation';
+import { getErrorMessage } from '../utils/error-handling';
+import { removeControlChars } from '../utils/sanitization';
+import { debugLog } from '../debug';
+import { createSnapshot, listSnapshots, loadSnapshot, restoreSnapshot, type Snapshot } from '../context/snapshots';
+import { assertSetuAgent, withSetuOnlyDescription } from './agent-guard';
+
+const MAX_LISTED = 10;
+
+const MAX_LISTED_PATHS = 5;
+
+function describePaths(paths: string[]): string {
+  const shown = paths.slice(0, MAX_LISTED_PATHS).join(', ');
+  return paths.length > MAX_LISTED_PATHS ? `${shown} and ${paths.length - MAX_LISTED_PATHS} more` : shown;
+}
+
+function describeSnapshot(snapshot: Snapshot): string {
+  const tracked = snapshot.ref ? (snapshot.dirty ? 'uncommitted changes' : 'clean at HEAD') : 'not captured';
+  const skipped = snapshot.skipped > 0 ? `, ${snapshot.skipped} skipped` : '';
+  const paths = snapshot.paths.length > 0 ? `\n  restores: ${describePaths(snapshot.paths)}` : '';
+  return `- \`${snapshot.id}\` (${snapshot.createdAt}) ${snapshot.tool}: \`${snapshot.action}\`\n` +
+    `  tracked: ${tracked}; untracked copies: ${snapshot.files.length}${skipped}${paths}`;
+}
+
+export const createSetuRestoreTool = (getProjectDir: () => string): ReturnType<typeof tool> => tool({
+  description: withSetuOnlyDescription(
+    'List or restore safety snapshots taken before approved risky commands. ' +
+    'Call without an id to list snapshots; pass an id to restore that snapshot into the working tree.'
+  ),
+  args: {
+    id: tool.schema.string().optional().describe('Snapshot ID to restore (omit to list snapshots)')
+  },
+  async execute(args, context) {
+    assertSetuAgent(context, 'setu_restore');
+
+    const projectDir = getProjectDir();
+    try {
+      validateProjectDir(projectDir);
+    } catch (error) {
+      throw new Error(`Invalid project directory: ${getErrorMessage(error)}`);
+    }
+
+    const id = removeControlChars(args.id ?? '').trim();
+    if (!id) {
+      const snapshots = listSnapshots(projectDir);
+      if (snapshots.length === 0) {
+        return 'No snapshots found. Snapshots are taken automatically before approved risky commands.';
+      }
+      const shown = snapshots.slice(0, MAX_LISTED).map(describeSnapshot).join('\n');
+      const more = snapshots.length > MAX_LISTED ? `\n(${snapshots.length - MAX_LISTED} older snapshots not shown)` : '';
+      return `## Snapshots (newest first)\n\n${shown}${more}\n\nRestore with setu_restore({ id: "<id>" }).`;
+    }
+
+    const target = loadSnapshot(projectDir, id);
+    if (!target) {
+      throw new Error(`Snapshot "${id}" not found. Call setu_restore() to list available snapshots.`);
+    }
+
+    // Capture the current state first so this restore can be reverted too
+    const backup = createSnapshot(projectDir, {
+      tool: 'setu_restore',
+      action: `restore ${id}`,
+      reasons: [`Before restoring snapshot ${id}`],
+      sessionId: context.sessionID,
+      paths: [...target.paths, ...target.files],
+      keep: [id],
+    });
+
+    const result = restoreSnapshot(projectDir, id);
+    debugLog(`[AUDIT] Restored snapshot ${id} (backup ${backup.id}). Project: ${projectDir}`);
+
+    let tracked = 'not captured in this snapshot';
+    if (result.trackedRestored) {
+      tracked = result.trackedFiles.length > 0
+        ? `${result.trackedFiles.length} restored from ${result.snapshot.ref} (${describePaths(result.trackedFiles)})`
+        : 'none the action could have changed';
+    }
+    const lines = [
+      `Restored snapshot \`${id}\` (taken before \`${result.snapshot.action}\`).`,
+      `- Tracked files: ${tracked}`,
+      `- Untracked files restored: ${result.restoredFiles}`,
+      `- Previous state saved as snapshot \`${backup.id}\``,
+    ];
+    if (result.currentHead && result.snapshot.head) {
+      lines.push(
+        `- HEAD moved since the snapshot (was ${result.snapshot.head.slice(0, 12)}, now ${result.currentHead.slice(0, 12)}). ` +
+        'The working tree matches the snapshot; ask the user before moving HEAD back.'
+      );
+    }
+    return lines.join('\n');
+  }
+});
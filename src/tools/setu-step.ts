@@ -0,0 +1,152 @@
+/**
+ * setu_step tool - Record the outcome of a plan step
+ *
+ * `start` marks when work on a step began; edits from then on are recorded
+ * for it. `complete`, `fail`, and `skip` write .setu/results/step-N.md with
+ * the files edited for the step (from the undo ledger) and the time since
+ * it started.
+ *
+ * Completing needs evidence for every DONE WHEN criterion, as setu_verify
+ * does. A skipped step counts as done for the steps that depend on it. A
+ * failure's reason is kept as a failed approach in active.json, which
+ * subagents are told not to repeat.
+ */
+
+import { tool } from '@opencode-ai/plugin';
+import { validateProjectDir } from '../utils/path-validation';
+import { getErrorMessage } from '../utils/error-handling';
+import { removeControlChars } from '../utils/sanitization';
+import {
+  advanceStep,
+  checkStepReady,
+  clearStepStart,
+  getCompletedSteps,
+  getStartedStep,
+  loadActiveTask,
+  recordFailedApproach,
+  startStep,
+} from '../context/active';
+import { getStepOutputs } from '../context/checkpoints';
+import { releaseLeases } from '../context/leases';
+import { getPlanProgress, getPlanStep, loadPlan, loadStepCriteria } from '../context/plan';
+import { writeStepResult, type StepResult } from '../context/results';
+import { formatCriteriaEvidence, getUnmetCriteria, loadStepEvidence, toCriterionResults } from '../verification';
+import { assertSetuAgent, withSetuOnlyDescription } from './agent-guard';
+
+const STEP_ACTIONS = ['start', 'complete', 'fail', 'skip'] as const;
+
+/** Outputs listed in the tool response before "+N more" */
+const MAX_LISTED_OUTPUTS = 10;
+
+function formatOutputs(outputs: string[]): string {
+  if (outputs.length === 0) return 'Files: none recorded';
+  const listed = outputs.slice(0, MAX_LISTED_OUTPUTS).join(', ');
+  return `Files: ${listed}${outputs.length > MAX_LISTED_OUTPUTS ? ` (+${outputs.length - MAX_LISTED_OUTPUTS} more)` : ''}`;
+}
+
+function formatProgress(projectDir: string): string {
+  const plan = loadPlan(projectDir);
+  if (!plan || plan.steps.length === 0) return '';
+  const { completed, total, ready } = getPlanProgress(plan, getCompletedSteps(projectDir));
+  if (completed === total) return `\nAll ${total} plan steps complete.`;
+  const next = ready.length > 0 ? ` Ready: ${ready.map(step => `Step ${step.id}`).join(', ')}` : ' No step is ready; see setu_next.';
+  return `\nProgress: ${completed}/${total} plan steps complete.${next}`;
+}
+
+export const createSetuStepTool = (getProjectDir: () => string): ReturnType<typeof tool> => tool({
+  description: withSetuOnlyDescription(`Record the outcome of a plan step in .setu/results/step-N.md.
+
+**Actions:**
+- \`start\`: Mark when work on a step began; edits from then on are recorded for it
+- \`complete\`: Complete the step (each DONE WHEN criterion needs evidence, as with setu_verify)
+- \`fail\`: Record that the step failed; the reason becomes a failed approach subagents see
+- \`skip\`: Skip the step; steps that depend on it can start
+
+The step defaults to the one last started, else the first ready step.
+Results list the files edited for the step and how long it took since start.`),
+  args: {
+    action: tool.schema.enum(STEP_ACTIONS).describe('start, complete, fail, or skip'),
+    step: tool.schema.number().int().positive().optional()
+      .describe('Plan step (default: the step last started, else the first ready step)'),
+    reason: tool.schema.string().optional()
+      .describe('Why the step failed or was skipped (required for fail and skip), or a summary of what was done'),
+  },
+  async execute(args, context) {
+    assertSetuAgent(context, 'setu_step');
+
+    const projectDir = getProjectDir();
+    try {
+      validateProjectDir(projectDir);
+    } catch (error) {
+      throw new Error(`Invalid project directory: ${getErrorMessage(error)}`);
+    }
+
+    const reason = removeControlChars(args.reason ?? '').trim();
+    if ((args.action === 'fail' || args.action === 'skip') && !reason) {
+      return `**Error:** A reason is required to ${args.action} a step.`;
+    }
+
+    const task = loadActiveTask(projectDir);
+    if (!task) {
+      return '**Error:** No active task. Create one with setu_task first.';
+    }
+
+    if (args.action === 'start') {
+      const started = startStep(projectDir, args.step);
+      if (!started.success) return `**Error:** ${started.error}`;
+      const title = getPlanStep(projectDir, started.step)?.title;
+      return `▶ Step ${started.step}${title ? ` — ${title}` : ''} started. Edits are recorded for it until it completes, fails, or is skipped.`;
+    }
+
+    const resolved = checkStepReady(projectDir, args.step ?? getStartedStep(task, getCompletedSteps(projectDir, task)));
+    if (!resolved.success) return `**Error:** ${resolved.error}`;
+    const step = resolved.step;
+
+    const startedAt = task.stepStarts?.[step];
+    const planStep = getPlanStep(projectDir, step);
+    const base = {
+      step,
+      objective: planStep?.title || task.task,
+      outputs: getStepOutputs(projectDir, step, startedAt),
+      timestamp: new Date().toISOString(),
+      durationMs: startedAt ? Date.now() - Date.parse(startedAt) : undefined,
+    };
+    const resultPath = `.setu/results/step-${step}.md`;
+
+    if (args.action === 'fail') {
+      const result: StepResult = { ...base, status: 'failed', summary: reason };
+      writeStepResult(projectDir, result);
+      recordFailedApproach(projectDir, `Step ${step}${planStep?.title ? ` (${planStep.title})` : ''}: ${reason}`);
+      clearStepStart(projectDir, step);
+      releaseLeases(projectDir, { step });
+      return `❌ Step ${step} failed and recorded to ${resultPath}
+${formatOutputs(result.outputs)}
+The reason is kept as a failed approach; subagents are told not to repeat it. Start the step again with a different approach.`;
+    }
+
+    const criteria = args.action === 'complete' ? loadStepCriteria(projectDir, step) : [];
+    const evidence = criteria.length > 0 ? loadStepEvidence(projectDir, step) : [];
+    const unmet = getUnmetCriteria(criteria, evidence);
+    if (unmet.length > 0) {
+      return `**Error:** Step ${step} not completed: ${unmet.length} DONE WHEN criterion(s) lack evidence.
+
+${formatCriteriaEvidence(criteria, evidence)}
+
+Collect evidence with \`setu_verify\` (\`evidence: [{ criterion: "${unmet[0].id}", command: "..." }]\`) or a question tool confirmation, or use \`fail\` or \`skip\` with a reason.`;
+    }
+
+    const advanced = advanceStep(projectDir, step);
+    if (!advanced.success) return `**Error:** ${advanced.error}`;
+
+    const completing = args.action === 'complete';
+    const result: StepResult = {
+      ...base,
+      status: completing ? 'completed' : 'skipped',
+      summary: reason || `Step ${step} completed.`,
+      ...(criteria.length > 0 ? { criteria: toCriterionResults(criteria, evidence) } : {}),
+    };
+    writeStepResult(projectDir, result);
+    return `${completing ? '✅' : '⏭'} Step ${step} ${completing ? 'completed' : 'skipped'} and recorded to ${resultPath}
+${formatOutputs(result.outputs)}${formatProgress(projectDir)}`;
+  }
+});
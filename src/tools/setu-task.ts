@@ -9,10 +9,14 @@
  * - NO_PUSH: Block git push
  * - NO_DELETE: Block rm and git reset --hard
  * - SANDBOX: Block operations outside project directory
+ * 
+ * Path constraints (glob lists, project-relative):
+ * - NO_EDIT: Block modifications to matching paths
+ * - ONLY_EDIT: Block modifications outside matching paths
  */
 
 import { tool } from '@opencode-ai/plugin';
-import { appendFile, readFile, unlink } from 'fs/promises';
+import { appendFile, readFile, rm, unlink } from 'fs/promises';
 import { isAbsolute, join, normalize } from 'path';
 import {
   createActiveTask,
@@ -20,8 +24,10 @@ import {
   loadActiveTask,
   updateTaskStatus,
   clearActiveTask,
+  sanitizePathConstraints,
   type ActiveTask,
   type ConstraintType,
+  type PathConstraints,
   type TaskStatus,
   CONSTRAINT_TYPES
 } from '../context/active';
@@ -51,6 +57,41 @@ function validateConstraints(input: string[] | undefined): ConstraintType[] {
   );
 }
 
+/**
+ * Merge a reframe's path constraints without loosening the current ones.
+ * 
+ * - NO_EDIT globs can only be added (union with current)
+ * - ONLY_EDIT can be introduced, or narrowed to a subset of the current globs
+ * 
+ * @returns Next constraints and whether a loosening attempt was rejected
+ */
+function mergePathConstraintsForReframe(
+  current: PathConstraints | undefined,
+  requested: PathConstraints | undefined
+): { next: PathConstraints | undefined; downgradeBlocked: boolean } {
+  if (!requested) {
+    return { next: current, downgradeBlocked: false };
+  }
+
+  const next: PathConstraints = { ...current };
+  let downgradeBlocked = false;
+
+  if (requested.NO_EDIT) {
+    next.NO_EDIT = Array.from(new Set([...(current?.NO_EDIT ?? []), ...requested.NO_EDIT]));
+  }
+
+  if (requested.ONLY_EDIT) {
+    const currentOnly = current?.ONLY_EDIT;
+    if (!currentOnly || requested.ONLY_EDIT.every(glob => currentOnly.includes(glob))) {
+      next.ONLY_EDIT = requested.ONLY_EDIT;
+    } else {
+      downgradeBlocked = true;
+    }
+  }
+
+  return { next: sanitizePathConstraints(next), downgradeBlocked };
+}
+
 /**
  * Validates status, returns null if invalid
  */
@@ -112,9 +153,15 @@ function formatTask(task: ActiveTask): string {
     ? `\n**References:** ${task.references.join(', ')}`
     : '';
   
+  const pathList = task.pathConstraints
+    ? Object.entries(task.pathConstraints)
+      .map(([type, globs]) => `\n**${type}:** ${globs.map(g => `\`${g}\``).join(', ')}`)
+      .join('')
+    : '';
+  
   return `**Task:** ${task.task}
 **Status:** ${task.status}
-**Constraints:** ${constraintList}
+**Constraints:** ${constraintList}${pathList}
 **Started:** ${task.startedAt}${refList}`;
 }
 
@@ -144,6 +191,11 @@ export function createSetuTaskTool(
 - \`NO_DELETE\`: Block rm and destructive git commands
 - \`SANDBOX\`: Block operations outside project directory
 
+**Path constraints** (project-relative globs, e.g. \`src/legacy/**\`):
+- \`NO_EDIT\`: Block write/edit/patch and bash modifications to matching paths
+- \`ONLY_EDIT\`: Block modifications to any path outside the listed globs
+- On \`reframe\`, path constraints can only be tightened
+
 Active tasks persist to \`.setu/active.json\` and survive:
 - Session restarts
 - Context compaction
@@ -159,6 +211,12 @@ Active tasks persist to \`.setu/active.json\` and survive:
       constraints: tool.schema.array(tool.schema.string()).optional().describe(
         'Constraints to apply: READ_ONLY, NO_PUSH, NO_DELETE, SANDBOX'
       ),
+      pathConstraints: tool.schema.object({
+        NO_EDIT: tool.schema.array(tool.schema.string()).optional(),
+        ONLY_EDIT: tool.schema.array(tool.schema.string()).optional()
+      }).optional().describe(
+        'Path-scoped constraints as glob lists, e.g. { NO_EDIT: ["migrations/**"], ONLY_EDIT: ["packages/api/**"] }'
+      ),
       status: tool.schema.string().optional().describe(
         'New status for update_status action: in_progress, completed, blocked'
       ),
@@ -204,6 +262,7 @@ setu_task({
             const archiveEntry = `\n---\n## Archived Research (${timestamp})\n\n${oldResearch}\n`;
             await appendFile(historyPath, archiveEntry, 'utf-8');
             await unlink(researchPath);
+            await rm(join(setuDir, 'research-quality.json'), { force: true });
             debugLog('Archived old RESEARCH.md to HISTORY.md');
           } catch (archiveError) {
             if (isNodeError(archiveError) && archiveError.code === 'ENOENT') {
@@ -220,6 +279,8 @@ setu_task({
             const archiveEntry = `\n---\n## Archived Plan (${timestamp})\n\n${oldPlan}\n`;
             await appendFile(historyPath, archiveEntry, 'utf-8');
             await unlink(planPath);
+            // The structured form belongs to the archived plan
+            await rm(join(setuDir, 'plan.json'), { force: true });
             debugLog('Archived old PLAN.md to HISTORY.md');
           } catch (archiveError) {
             if (isNodeError(archiveError) && archiveError.code === 'ENOENT') {
@@ -231,9 +292,10 @@ setu_task({
           }
           
           const constraints = validateConstraints(args.constraints);
+          const pathConstraints = sanitizePathConstraints(args.pathConstraints);
           
           // Create and save the task
-          const newTask = createActiveTask(sanitizedTask, constraints);
+          const newTask = createActiveTask(sanitizedTask, constraints, pathConstraints);
           
           // Add references if provided
           const sanitizedReferences = sanitizeReferences(args.references);
@@ -256,8 +318,12 @@ setu_task({
           
           debugLog(`Created active task: "${sanitizedTask.slice(0, 50)}..."`);
           
-          const constraintNote = constraints.length > 0
-            ? `\n\n**Enforcement:** The following constraints are now active and will block violating tool calls:\n${constraints.map(c => `- \`${c}\``).join('\n')}`
+          const enforced = [
+            ...constraints,
+            ...Object.keys(pathConstraints ?? {})
+          ];
+          const constraintNote = enforced.length > 0
+            ? `\n\n**Enforcement:** The following constraints are now active and will block violating tool calls:\n${enforced.map(c => `- \`${c}\``).join('\n')}`
             : '';
           
           return `## Task Created
@@ -317,10 +383,19 @@ setu_task({
               ? validatedConstraintUpdate
               : currentTask.constraints);
 
+          const pathMerge = mergePathConstraintsForReframe(
+            currentTask.pathConstraints,
+            sanitizePathConstraints(args.pathConstraints)
+          );
+          if (pathMerge.downgradeBlocked) {
+            errorLog(`[AUDIT] ONLY_EDIT widening attempt during reframe blocked. Project: ${projectDir}`);
+          }
+
           const reframedTask: ActiveTask = {
             ...currentTask,
             task: sanitizedTask,
             constraints: nextConstraints,
+            pathConstraints: pathMerge.next,
           };
 
           const sanitizedReferences = sanitizeReferences(args.references);
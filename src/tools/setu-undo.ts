@@ -0,0 +1,100 @@
+/**
+ * setu_undo tool - Revert file edits recorded in the undo ledger
+ *
+ * Every write/edit Setu allows stores the file's pre-image in
+ * .setu/checkpoints/. This tool writes those pre-images back.
+ */
+
+import { tool } from '@opencode-ai/plugin';
+import { validateProjectDir } from '../utils/path-validation';
+import { getErrorMessage } from '../utils/error-handling';
+import { removeControlChars } from '../utils/sanitization';
+import { debugLog } from '../debug';
+import { listCheckpoints, undoCheckpoints, type UndoSelection } from '../context/checkpoints';
+import { hasActiveConstraints, loadActiveTask, shouldBlockDueToConstraint } from '../context/active';
+import { findProtectedPathViolation, loadProtectedPaths } from '../security/protected-files';
+import { assertSetuAgent, withSetuOnlyDescription } from './agent-guard';
+
+const MAX_UNDO_COUNT = 100;
+
+function formatPathList(label: string, paths: string[]): string | null {
+  return paths.length > 0 ? `${label}:\n${paths.map(path => `  - ${path}`).join('\n')}` : null;
+}
+
+export const createSetuUndoTool = (getProjectDir: () => string): ReturnType<typeof tool> => tool({
+  description: withSetuOnlyDescription(
+    'Revert file edits made in Setu sessions using recorded pre-images. ' +
+    'Undo the last N edits (default 1), every edit since a plan step, or all edits to one file.'
+  ),
+  args: {
+    count: tool.schema.number().optional().describe('Number of most recent edits to revert (default: 1)'),
+    sinceStep: tool.schema.number().optional().describe('Revert every edit made during this plan step or later'),
+    file: tool.schema.string().optional().describe('Only revert edits to this file (all of them unless count is set)')
+  },
+  async execute(args, context) {
+    assertSetuAgent(context, 'setu_undo');
+
+    const projectDir = getProjectDir();
+    try {
+      validateProjectDir(projectDir);
+    } catch (error) {
+      throw new Error(`Invalid project directory: ${getErrorMessage(error)}`);
+    }
+
+    if (args.count !== undefined && (!Number.isInteger(args.count) || args.count < 1 || args.count > MAX_UNDO_COUNT)) {
+      throw new Error(`count must be an integer between 1 and ${MAX_UNDO_COUNT}.`);
+    }
+    if (args.sinceStep !== undefined && (!Number.isInteger(args.sinceStep) || args.sinceStep < 1)) {
+      throw new Error('sinceStep must be a positive integer.');
+    }
+    if (args.count !== undefined && args.sinceStep !== undefined) {
+      throw new Error('Use either count or sinceStep, not both.');
+    }
+
+    const file = removeControlChars(args.file ?? '').trim();
+    const selection: UndoSelection = {
+      count: args.count,
+      sinceStep: args.sinceStep,
+      file: file || undefined,
+    };
+
+    if (listCheckpoints(projectDir).length === 0) {
+      return 'No recorded edits to undo.';
+    }
+
+    // Protection and constraints may have been added after the edit; undo
+    // writes only where a write tool call could
+    const protectedPaths = loadProtectedPaths(projectDir);
+    const task = loadActiveTask(projectDir);
+    const constrained = task?.status === 'in_progress' && hasActiveConstraints(task);
+    const result = undoCheckpoints(projectDir, selection, (entry) => {
+      const args = { filePath: entry.path };
+      if (findProtectedPathViolation('write', args, projectDir, protectedPaths)) return false;
+      return !constrained || !shouldBlockDueToConstraint('write', task.constraints, args, {
+        pathConstraints: task.pathConstraints,
+        projectDir,
+      }).blocked;
+    });
+
+    debugLog(`[AUDIT] Undo reverted ${result.reverted.length} edit(s), skipped ${result.skipped.length + result.changed.length}. Project: ${projectDir}`);
+
+    if (result.reverted.length === 0 && result.skipped.length === 0 && result.changed.length === 0) {
+      return 'No recorded edits match that selection.';
+    }
+
+    const sections = [
+      `Reverted ${result.reverted.length} edit(s).`,
+      formatPathList('Restored', result.restoredPaths),
+      formatPathList('Deleted (created by the undone edits)', result.deletedPaths),
+      formatPathList(
+        'Skipped (protected, blocked by a task constraint, or pre-image too large to store)',
+        result.skipped.map(entry => `${entry.path} (${entry.timestamp})`)
+      ),
+      formatPathList(
+        'Not reverted (changed after the edit; check the file, then revert it by hand)',
+        result.changed.map(entry => `${entry.path} (${entry.timestamp})`)
+      ),
+    ];
+    return sections.filter((section): section is string => section !== null).join('\n\n');
+  }
+});
@@ -1,34 +1,90 @@
 /**
  * setu_verify tool - Run verification protocol
  *
- * Detects project build tool and generates appropriate commands.
- * Supports: npm, yarn, pnpm, bun, cargo, go, python (uv/pip)
+ * Detects project build tool, runs the matching commands, and records the
+ * evidence in .setu/verification.json.
+ * Supports: npm, yarn, pnpm, bun, deno, cargo, go, python (uv/pip), maven,
+ * gradle, dotnet, bundler, composer, mix, zig, and make/just targets
+ * In pnpm/npm/yarn/bun, Cargo, and go.work workspaces, verifies only the
+ * changed packages and their dependents unless asked for the full repository.
  */
 
 import { tool } from "@opencode-ai/plugin";
-import { detectProjectInfo } from "../context/storage";
+import { existsSync } from "fs";
+import { join } from "path";
+import { detectProjectInfo } from "../context/project-info";
+import type { ProjectInfo } from "../context/types";
 import { logVerification } from "../context/storage";
 import { writeStepResult } from "../context/results";
+import { getCurrentStepNumber, getPlanProgress, loadPlan, loadStepCriteria, type DoneCriterion } from "../context/plan";
 import { sanitizeYamlString } from "../utils/sanitization";
-import { advanceStep, loadActiveTask } from "../context/active";
+import {
+  advanceStep,
+  getCompletedSteps,
+  getModifiedPaths,
+  getStartedStep,
+  hasActiveConstraints,
+  loadActiveTask,
+  shouldBlockDueToConstraint,
+} from "../context/active";
+import { getStepOutputs } from "../context/checkpoints";
+import { acquireLeases, formatLeaseHolder } from "../context/leases";
 import { getErrorMessage } from "../utils/error-handling";
+import { getChangedFilesBetweenTrees, getChangedLinesBetweenTrees, getWorkingTreeHash } from "../utils/git";
+import { getSetuConfig, VERIFICATION_STEP_NAMES, type VerificationStepName } from "../config/setu-config";
+import { buildSafetyDecision, classifyHardSafety } from "../security/safety-classifier";
+import { findUserChangeRisks } from "../security/user-changes";
+import { findProtectedPathViolation, loadProtectedPaths } from "../security/protected-files";
+import { determineGear, shouldBlock as shouldBlockByGear } from "../enforcement/gears";
+import { isReadOnlyBashCommand, type HydrationState } from "../enforcement/hydration";
+import { collectShellCommands, getGitArgs } from "../utils/shell-parser";
+import {
+  detectEnvironmentConflict,
+  formatEnvironmentConflict,
+  type EnvironmentInspector,
+} from "../environment/detector";
+import {
+  buildImpactedTestCommand,
+  checkFileEvidence,
+  CRITERION_CONFIRMED_LABEL,
+  CRITERION_REJECTED_LABEL,
+  detectWorkspace,
+  findCoverageArtifact,
+  formatChangedLineCoverage,
+  formatCriteriaEvidence,
+  getAffectedPackages,
+  getScopedCommand,
+  getUnmetCriteria,
+  loadStepEvidence,
+  measureChangedLineCoverage,
+  recordCriterionEvidence,
+  recordVerificationSteps,
+  runCommand,
+  selectImpactedTests,
+  tailLines,
+  toCriterionResults,
+  type ChangedLineCoverage,
+  type CriterionEvidence,
+  type VerificationStepRecord,
+  type WorkspaceLayout,
+  type WorkspacePackage,
+} from "../verification";
 import { assertSetuAgent, withSetuOnlyDescription } from "./agent-guard";
 
+interface BuildCommands {
+  build: string;
+  test: string;
+  lint: string;
+  typecheck: string;
+}
+
 /**
  * Build commands per tool/runtime
  *
  * Each entry provides the command templates for build, test, lint, typecheck.
  * Empty string means the step is not applicable for that tool.
  */
-const BUILD_COMMANDS: Record<
-  string,
-  {
-    build: string;
-    test: string;
-    lint: string;
-    typecheck: string;
-  }
-> = {
+const BUILD_COMMANDS: Record<string, BuildCommands> = {
   // Node.js package managers
   npm: {
     build: "npm run build",
@@ -80,85 +136,490 @@ const BUILD_COMMANDS: Record<
     lint: "if python -m ruff --version >/dev/null 2>&1; then python -m ruff check .; else python -m flake8; fi",
     typecheck: "python -m mypy .",
   },
+  deno: {
+    build: "",
+    test: "deno test",
+    lint: "deno lint",
+    typecheck: "deno check .",
+  },
+  maven: {
+    build: "mvn -B package -DskipTests",
+    test: "mvn -B test",
+    lint: "mvn -B verify -DskipTests", // Runs the checks the project binds to verify
+    typecheck: "", // javac handles types
+  },
+  gradle: {
+    build: "gradle assemble",
+    test: "gradle test",
+    lint: "gradle check -x test", // Runs configured checkers without the tests
+    typecheck: "",
+  },
+  dotnet: {
+    build: "dotnet build",
+    test: "dotnet test",
+    lint: "dotnet format --verify-no-changes",
+    typecheck: "",
+  },
+  bundler: {
+    build: "",
+    test: "bundle exec rake test",
+    lint: "", // Only with a detected linter (rubocop)
+    typecheck: "",
+  },
+  composer: {
+    build: "",
+    test: "vendor/bin/phpunit",
+    lint: "",
+    typecheck: "",
+  },
+  mix: {
+    build: "mix compile --warnings-as-errors",
+    test: "mix test",
+    lint: "mix format --check-formatted",
+    typecheck: "",
+  },
+  zig: {
+    build: "zig build",
+    test: "zig build test",
+    lint: "zig fmt --check .",
+    typecheck: "",
+  },
+
+  // Task runners: commands come from the targets the project defines
+  make: { build: "", test: "", lint: "", typecheck: "" },
+  just: { build: "", test: "", lint: "", typecheck: "" },
+};
+
+/**
+ * Commands for detected test runners, linters, and type checkers that
+ * replace the build tool default (JS tools run through package scripts)
+ */
+const TOOL_COMMANDS: Record<string, string> = {
+  rspec: "bundle exec rspec",
+  rubocop: "bundle exec rubocop",
+  sorbet: "bundle exec srb tc",
+  pest: "vendor/bin/pest",
+  "php-cs-fixer": "vendor/bin/php-cs-fixer fix --dry-run --diff",
+  phpcs: "vendor/bin/phpcs",
+  pint: "vendor/bin/pint --test",
+  phpstan: "vendor/bin/phpstan analyse --no-progress",
+  psalm: "vendor/bin/psalm --no-progress",
+  credo: "mix credo --strict",
+  dialyzer: "mix dialyzer",
+};
+
+/** Task names that stand for each step, in order of preference */
+const STEP_TASKS: Record<keyof BuildCommands, string[]> = {
+  build: ["build", "all"],
+  test: ["test", "check"],
+  lint: ["lint"],
+  typecheck: ["typecheck", "type-check"],
 };
 
+/** Project wrapper scripts pin the tool version; prefer them when present */
+const WRAPPERS: Array<{ tool: string; script: string }> = [
+  { tool: "mvn", script: "mvnw" },
+  { tool: "gradle", script: "gradlew" },
+];
+
+/**
+ * Commands for the detected project: build tool defaults, then detected
+ * tooling, task runner targets, and wrapper scripts.
+ */
+function resolveBuildCommands(projectDir: string, projectInfo: ProjectInfo): BuildCommands {
+  const buildTool = projectInfo.buildTool ?? "";
+  const commands: BuildCommands = { ...(BUILD_COMMANDS[buildTool] ?? { build: "", test: "", lint: "", typecheck: "" }) };
+
+  const tooling: Array<[keyof BuildCommands, string | undefined]> = [
+    ["test", projectInfo.testRunner],
+    ["lint", projectInfo.linter],
+    ["typecheck", projectInfo.typeChecker],
+  ];
+  for (const [step, toolName] of tooling) {
+    const command = toolName ? TOOL_COMMANDS[toolName] : undefined;
+    if (command) commands[step] = command;
+  }
+
+  const runner = buildTool === "deno" ? "deno task" : buildTool;
+  if (projectInfo.tasks?.length && (buildTool === "make" || buildTool === "just" || buildTool === "deno")) {
+    for (const step of Object.keys(STEP_TASKS) as Array<keyof BuildCommands>) {
+      const task = STEP_TASKS[step].find((name) => projectInfo.tasks?.includes(name));
+      if (task) commands[step] = `${runner} ${task}`;
+    }
+  }
+
+  for (const { tool: toolName, script } of WRAPPERS) {
+    if (existsSync(join(projectDir, script))) {
+      for (const step of Object.keys(commands) as Array<keyof BuildCommands>) {
+        commands[step] = commands[step].replace(new RegExp(`^${toolName} `), `./${script} `);
+      }
+    }
+  }
+
+  return commands;
+}
+
+/** Record name for a run of only the impacted tests; never satisfies `test` */
+const IMPACTED_TESTS_STEP = "test-impacted";
+
+/** Impacted test files listed in the tool output */
+const MAX_LISTED_TESTS = 10;
+
 interface VerificationStep {
-  name: string;
+  name: VerificationStepName | typeof IMPACTED_TESTS_STEP;
   command: string;
-  description: string;
   required: boolean;
+  /** Test files selected for an impacted-tests step */
+  tests?: string[];
 }
 
+/** Lines of failing output shown in the tool result */
+const FAILURE_TAIL_LINES = 20;
+const FAILURE_TAIL_CHARS = 2000;
+
+/** Lines of output kept in verification.json */
+const RECORD_TAIL_LINES = 40;
+const RECORD_TAIL_CHARS = 4000;
+
 /**
- * Generate verification steps for the detected build tool
+ * Generate verification steps from the resolved commands
  */
-function generateVerificationSteps(buildTool: string): VerificationStep[] {
-  const commands = BUILD_COMMANDS[buildTool];
-
+function generateVerificationSteps(commands: BuildCommands): VerificationStep[] {
   const steps: VerificationStep[] = [];
 
   if (commands.build) {
-    steps.push({
-      name: "build",
-      command: `bash -lc "set -o pipefail; ${commands.build} 2>&1 | tee /tmp/build.log" || tail -30 /tmp/build.log`,
-      description: "Capture output on first run; show last 30 lines on failure",
-      required: true,
-    });
+    steps.push({ name: "build", command: commands.build, required: true });
   }
 
   if (commands.test) {
-    steps.push({
-      name: "test",
-      command: `bash -lc 'set -o pipefail; ${commands.test} 2>&1 | { grep -A 3 "FAIL\\|Error\\|✗\\|FAILED" || true; } | head -30'`,
-      description: "Capture only failures, not full output",
-      required: true,
-    });
+    steps.push({ name: "test", command: commands.test, required: true });
   }
 
   if (commands.lint) {
-    steps.push({
-      name: "lint",
-      command: `bash -lc 'set -o pipefail; ${commands.lint} 2>&1 | { grep -E "error|warning" || true; } | head -20'`,
-      description: "Capture errors/warnings count",
-      required: true,
-    });
+    steps.push({ name: "lint", command: commands.lint, required: true });
   }
 
   if (commands.typecheck) {
-    steps.push({
-      name: "typecheck",
-      command: `bash -lc 'set -o pipefail; ${commands.typecheck} 2>&1 | head -30'`,
-      description: "Type checking if available",
-      required: false,
-    });
+    steps.push({ name: "typecheck", command: commands.typecheck, required: false });
   }
 
   // Visual check is always available (deferred to user)
-  steps.push({
-    name: "visual",
-    command: "(manual)",
-    description: 'Defer to user: "Please verify the UI looks correct"',
-    required: false,
-  });
+  steps.push({ name: "visual", command: "(manual)", required: false });
 
   return steps;
 }
 
+interface VerificationScope {
+  /** Scope line for the tool output (empty for single-package projects) */
+  description: string;
+  layout?: WorkspaceLayout;
+  /** Packages to verify; unset means the whole repository */
+  packages?: WorkspacePackage[];
+}
+
+/**
+ * Decide which workspace packages to verify: those with changes against
+ * HEAD plus their dependents, or the whole repository when asked for, when
+ * nothing is changed, or when a change falls outside every package.
+ */
+function resolveVerificationScope(
+  projectDir: string,
+  buildTool: string,
+  changedFiles: string[] | null,
+  fullRepository: boolean,
+): VerificationScope {
+  const layout = detectWorkspace(projectDir, buildTool);
+  if (!layout) {
+    return { description: "" };
+  }
+  if (fullRepository) {
+    return { description: `full repository (${layout.packages.length} ${layout.kind} workspace packages)` };
+  }
+
+  if (!changedFiles || changedFiles.length === 0) {
+    return { description: "full repository (no changes against HEAD to scope by)" };
+  }
+  const packages = getAffectedPackages(layout, changedFiles);
+  if (!packages) {
+    return { description: "full repository (changes outside workspace packages)" };
+  }
+  return {
+    description: `${packages.map((pkg) => pkg.name).join(", ")} (changed packages and their dependents)`,
+    layout,
+    packages,
+  };
+}
+
+/**
+ * Impacted-tests step for the changed files, or null when there is nothing
+ * to select or the test runner cannot take a file list.
+ */
+function planImpactedTests(
+  projectDir: string,
+  projectInfo: ProjectInfo,
+  changedFiles: string[] | null,
+): VerificationStep | null {
+  if (!changedFiles || changedFiles.length === 0) return null;
+  const selection = selectImpactedTests(projectDir, changedFiles);
+  if (!selection) return null;
+  const command = buildImpactedTestCommand(projectInfo, selection.tests);
+  return command ? { name: IMPACTED_TESTS_STEP, command, required: false, tests: selection.tests } : null;
+}
+
+interface CoverageCheck {
+  /** Result line plus uncovered changed lines, or why nothing was measured */
+  report: string;
+  coverage?: ChangedLineCoverage;
+}
+
+/**
+ * Check coverage of the lines changed against HEAD after a passing test run.
+ * Without an artifact from this run the check is reported, not failed.
+ *
+ * @param since - Epoch ms the test run started
+ */
+function checkChangedLineCoverage(
+  projectDir: string,
+  treeHash: string | null,
+  threshold: number,
+  since: number,
+): CoverageCheck {
+  const changedLines = treeHash ? getChangedLinesBetweenTrees(projectDir, "HEAD", treeHash) : null;
+  if (!changedLines) {
+    return { report: "not checked (needs a git repository with at least one commit)" };
+  }
+  if (changedLines.size === 0) {
+    return { report: "no changed lines to check" };
+  }
+  const artifact = findCoverageArtifact(projectDir, since);
+  if (!artifact) {
+    return { report: "not checked (the test run wrote no coverage artifact; enable lcov, Istanbul JSON, Cobertura, or Go cover profile output)" };
+  }
+  const coverage = measureChangedLineCoverage(projectDir, artifact, changedLines, threshold);
+  if (!coverage) {
+    return { report: `not checked (could not parse \`${artifact}\`)` };
+  }
+  return { report: formatChangedLineCoverage(coverage), coverage };
+}
+
+/** Evidence the agent asks setu_verify to collect for one DONE WHEN criterion */
+interface EvidenceRequest {
+  /** "3.2", or "2" for the current step's second criterion */
+  criterion: string;
+  command?: string;
+  path?: string;
+  contains?: string;
+}
+
+/**
+ * Why an evidence command may not run, or null when it may.
+ *
+ * The tool hook only sees the setu_verify call, so evidence commands get the
+ * gates a bash call would: hard safety and user-owned changes, read-only until
+ * context is confirmed, protected files, task constraints, gear, running dev
+ * servers, and file leases. They never commit or push: the verification
+ * record is still being written.
+ */
+async function findEvidenceCommandBlock(
+  projectDir: string,
+  command: string,
+  options: { step: number; sessionId: string; contextConfirmed: boolean; inspectEnvironment?: EnvironmentInspector },
+): Promise<string | null> {
+  const args = { command };
+  const safety = buildSafetyDecision([
+    ...classifyHardSafety("bash", args).matches,
+    ...findUserChangeRisks(projectDir, "bash", args),
+  ]);
+  if (safety.hardSafety) {
+    return `refused (${safety.matches.map((m) => m.ruleId).join(", ")})`;
+  }
+  if (!options.contextConfirmed && !isReadOnlyBashCommand(command)) {
+    return "refused until setu_context confirms the context (read-only commands only)";
+  }
+  const script = collectShellCommands(command);
+  if (!script.complete) {
+    return "refused (the command could not be parsed)";
+  }
+  if (script.commands.some((cmd) => ["commit", "push"].includes(getGitArgs(cmd)?.[0] ?? ""))) {
+    return "refused (evidence commands cannot commit or push)";
+  }
+
+  const protectedViolation = findProtectedPathViolation("bash", args, projectDir, loadProtectedPaths(projectDir));
+  if (protectedViolation) {
+    return `refused ('${protectedViolation.path}' is protected by '${protectedViolation.pattern}')`;
+  }
+  const task = loadActiveTask(projectDir);
+  if (task && task.status === "in_progress" && hasActiveConstraints(task)) {
+    const { blocked, constraint } = shouldBlockDueToConstraint("bash", task.constraints, args, {
+      pathConstraints: task.pathConstraints,
+      projectDir,
+    });
+    if (blocked) return `refused by constraint ${constraint}`;
+  }
+  const gear = determineGear(projectDir).current;
+  if (shouldBlockByGear(gear, "bash", args).blocked) {
+    return `refused in ${gear} gear`;
+  }
+  const envConflict = await detectEnvironmentConflict(command, projectDir, options.inspectEnvironment);
+  if (envConflict.hasConflict) {
+    return `refused (${envConflict.reason ?? "conflicts with a running dev server"})`;
+  }
+
+  const paths = getModifiedPaths("bash", args);
+  if (paths.length > 0) {
+    const conflicts = acquireLeases(projectDir, {
+      paths,
+      sessionId: options.sessionId,
+      step: options.step,
+      ttlMs: getSetuConfig().leases.ttlMs,
+    });
+    if (conflicts.length > 0) return `refused (${conflicts.map(formatLeaseHolder).join("; ")})`;
+  }
+  return null;
+}
+
+/**
+ * Collect requested evidence for the current step's criteria. Commands run
+ * like verification steps once they pass the gates of a bash call.
+ *
+ * @returns Problems with requests that could not be used
+ */
+async function collectCriterionEvidence(
+  projectDir: string,
+  step: number,
+  criteria: DoneCriterion[],
+  requests: EvidenceRequest[],
+  options: {
+    timeoutMs: number;
+    signal: AbortSignal;
+    sessionId: string;
+    contextConfirmed: boolean;
+    inspectEnvironment?: EnvironmentInspector;
+  },
+): Promise<string[]> {
+  const problems: string[] = [];
+  const collected: CriterionEvidence[] = [];
+
+  for (const request of requests) {
+    const id = /^\d+$/.test(request.criterion) ? `${step}.${request.criterion}` : request.criterion;
+    if (!criteria.some((c) => c.id === id)) {
+      problems.push(`${request.criterion}: not a DONE WHEN criterion of Step ${step}`);
+      continue;
+    }
+
+    if (request.path) {
+      collected.push(checkFileEvidence(projectDir, id, request.path, request.contains));
+      continue;
+    }
+    const command = request.command?.trim();
+    if (!command) {
+      problems.push(`${id}: give a command or a path`);
+      continue;
+    }
+    const block = await findEvidenceCommandBlock(projectDir, command, {
+      step,
+      sessionId: options.sessionId,
+      contextConfirmed: options.contextConfirmed,
+      inspectEnvironment: options.inspectEnvironment,
+    });
+    if (block) {
+      problems.push(`${id}: \`${command}\` ${block}`);
+      continue;
+    }
+
+    const recordedAt = new Date().toISOString();
+    const result = await runCommand(command, { cwd: projectDir, timeoutMs: options.timeoutMs, signal: options.signal });
+    const passed = result.exitCode === 0 && !result.timedOut;
+    collected.push({
+      criterion: id,
+      kind: "command",
+      passed,
+      summary: result.timedOut ? "timed out" : `exit ${result.exitCode ?? "none"}`,
+      command,
+      exitCode: result.exitCode,
+      outputTail: tailLines(result.output, RECORD_TAIL_LINES, RECORD_TAIL_CHARS),
+      recordedAt,
+    });
+  }
+
+  recordCriterionEvidence(projectDir, step, collected);
+  return problems;
+}
+
+function formatEvidenceGuidance(step: number, unmet: DoneCriterion[]): string {
+  const example = unmet[0];
+  return `Step ${step} not advanced: ${unmet.length} DONE WHEN criterion(s) lack evidence. Collect it with one of:
+- \`setu_verify\` with \`evidence: [{ criterion: "${example.id}", command: "..." }]\` (a command that proves it, exit 0 passes)
+- \`setu_verify\` with \`evidence: [{ criterion: "${example.id}", path: "...", contains: "..." }]\` (a file assertion)
+- the question tool, asking "DONE WHEN ${example.id}: ${example.text}?" with options "${CRITERION_CONFIRMED_LABEL}" and "${CRITERION_REJECTED_LABEL}", then \`setu_verify\` again`;
+}
+
+/** Plan progress after a step completes */
+function formatNextStep(projectDir: string, completedStep: number): string {
+  const plan = loadPlan(projectDir);
+  if (!plan || plan.steps.length === 0) return `Next: Step ${completedStep + 1}`;
+  const { completed, total, ready } = getPlanProgress(plan, getCompletedSteps(projectDir));
+  if (completed === total) return `All ${total} plan steps complete.`;
+  if (ready.length === 0) return `Progress: ${completed}/${total} plan steps complete. No step is ready; see setu_next.`;
+  const next = ready[0];
+  const others = ready.length > 1 ? ` Also ready: ${ready.slice(1).map((step) => `Step ${step.id}`).join(", ")} (see setu_next)` : "";
+  return `Progress: ${completed}/${total} plan steps complete. Next: Step ${next.id}${next.title ? ` (${next.title})` : ""}${others}`;
+}
+
+function formatTestList(tests: string[]): string {
+  const listed = tests.slice(0, MAX_LISTED_TESTS).map((test) => `\`${test}\``).join(", ");
+  return tests.length > MAX_LISTED_TESTS ? `${listed} (+${tests.length - MAX_LISTED_TESTS} more)` : listed;
+}
+
+function formatDuration(durationMs: number): string {
+  return durationMs < 1000 ? `${durationMs}ms` : `${(durationMs / 1000).toFixed(1)}s`;
+}
+
+function formatStepLine(step: VerificationStepRecord): string {
+  if (step.passed) {
+    return `- ${step.name}: PASS (${formatDuration(step.durationMs)})`;
+  }
+  if (step.exitCode === 0 && step.coverage && !step.coverage.passed) {
+    return `- ${step.name}: FAIL (changed-line coverage ${step.coverage.percent}% < ${step.coverage.threshold}%, ${formatDuration(step.durationMs)})`;
+  }
+  const detail = step.timedOut ? "timed out" : `exit ${step.exitCode ?? "none"}`;
+  return `- ${step.name}: FAIL (${detail}, ${formatDuration(step.durationMs)})`;
+}
+
+function formatFailureTail(step: VerificationStepRecord): string {
+  const tail = tailLines(step.outputTail, FAILURE_TAIL_LINES, FAILURE_TAIL_CHARS);
+  return `### ${step.name} (\`${step.command}\`)\n\`\`\`\n${tail || "(no output)"}\n\`\`\``;
+}
+
 /**
  * Creates the setu_verify tool definition
  *
+ * Runs each step through the verification runner (timeout, CI environment,
+ * capped output) and records exit code, duration, output tail and working
+ * tree hash in .setu/verification.json, the only evidence the commit/push
+ * gates accept.
+ *
  * @param markVerificationComplete - Callback to mark verification complete
  * @param getProjectDir - Accessor for project directory (for build tool detection)
+ * @param inspectEnvironment - Source of running processes for the dev-server check (injectable for tests)
+ * @param getHydrationState - Accessor for hydration state; evidence commands are read-only until context is confirmed
  */
 export function createSetuVerifyTool(
   markVerificationComplete: () => void,
   getProjectDir?: () => string,
+  inspectEnvironment?: EnvironmentInspector,
+  getHydrationState?: () => HydrationState,
 ): ReturnType<typeof tool> {
   return tool({
     description: withSetuOnlyDescription(`Run Setu's verification protocol before completing a task.
-Checks build, tests, lint using Setu's default verification flow.
-Automatically detects project build tool (npm/yarn/pnpm/bun for JS/TS, cargo for Rust, go for Go, uv/pip for Python).
-- Runs required verification checks by default`),
+Runs build, tests, lint itself and records exit codes in .setu/verification.json (required before git commit/push).
+Automatically detects project build tool (npm/yarn/pnpm/bun/deno for JS/TS, cargo, go, uv/pip, maven/gradle, dotnet, bundler, composer, mix, zig, make/just).
+- Runs required verification checks by default
+- In a monorepo (pnpm/npm/yarn/bun workspaces, Turborepo, Nx, Cargo workspace, go.work), verifies changed packages and their dependents; pass scope: "full" for the whole repository
+- Runs the tests impacted by changed files before the full test suite; only a full run unlocks commit
+- With verification.coverageThreshold configured, fails the test step when changed lines are under-covered
+- Holds the plan step until each of its DONE WHEN criteria has evidence (pass evidence: [{ criterion, command | path }])
+- Completes the plan step given as step, else the one started with setu_step, else the first ready one`),
 
     args: {
       steps: tool.schema
@@ -171,6 +632,35 @@ Automatically detects project build tool (npm/yarn/pnpm/bun for JS/TS, cargo for
         .array(tool.schema.string())
         .optional()
         .describe("Steps to skip"),
+      tests: tool.schema
+        .enum(["impacted-first", "impacted", "full"])
+        .optional()
+        .describe(
+          "'impacted-first' (default) runs tests covering changed files before the full suite; 'impacted' runs only those (does not unlock commit); 'full' skips selection",
+        ),
+      evidence: tool.schema
+        .array(
+          tool.schema.object({
+            criterion: tool.schema.string().describe('DONE WHEN criterion id ("3.2") or its number in the current step ("2")'),
+            command: tool.schema.string().optional().describe("Command whose exit 0 proves the criterion"),
+            path: tool.schema.string().optional().describe("File that must exist"),
+            contains: tool.schema.string().optional().describe("Text the file must contain"),
+          }),
+        )
+        .optional()
+        .describe("Evidence for the current plan step's DONE WHEN criteria"),
+      step: tool.schema
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe("Plan step to complete when checks pass; default: the step started with setu_step, else the first ready step"),
+      scope: tool.schema
+        .enum(["changed", "full"])
+        .optional()
+        .describe(
+          "In a workspace: 'changed' (default) verifies changed packages and their dependents, 'full' the whole repository",
+        ),
     },
 
     async execute(args, context): Promise<string> {
@@ -184,7 +674,7 @@ Automatically detects project build tool (npm/yarn/pnpm/bun for JS/TS, cargo for
       if (!projectInfo.buildTool) {
         return `## Verification
 
-**Detected:** No build system detected (no package.json, Cargo.toml, go.mod, or pyproject.toml found).
+**Detected:** No build system detected (no package.json, deno.json, Cargo.toml, go.mod, pyproject.toml, pom.xml, build.gradle, *.csproj, Gemfile, composer.json, mix.exs, build.zig, or Makefile/justfile targets found).
 
 ℹ️ Skipping verification - nothing to build, test, or lint.`;
       }
@@ -192,25 +682,16 @@ Automatically detects project build tool (npm/yarn/pnpm/bun for JS/TS, cargo for
       const buildTool = projectInfo.buildTool;
 
       // Generate steps for detected build tool
-      const allSteps = generateVerificationSteps(buildTool);
+      const allSteps = generateVerificationSteps(resolveBuildCommands(projectDir, projectInfo));
 
       // SECURITY: Validate step names against whitelist
-      const VALID_STEP_NAMES = [
-        "build",
-        "test",
-        "lint",
-        "typecheck",
-        "visual",
-      ] as const;
-
-      // Filter user-provided steps to only valid values
       const validatedSteps = args.steps?.filter(
-        (step: string): step is (typeof VALID_STEP_NAMES)[number] =>
-          VALID_STEP_NAMES.includes(step as (typeof VALID_STEP_NAMES)[number]),
+        (step: string): step is VerificationStepName =>
+          VERIFICATION_STEP_NAMES.includes(step as VerificationStepName),
       );
       const validatedSkipSteps = args.skipSteps?.filter(
-        (step: string): step is (typeof VALID_STEP_NAMES)[number] =>
-          VALID_STEP_NAMES.includes(step as (typeof VALID_STEP_NAMES)[number]),
+        (step: string): step is VerificationStepName =>
+          VERIFICATION_STEP_NAMES.includes(step as VerificationStepName),
       );
 
       let stepsToRun: VerificationStep[];
@@ -220,101 +701,207 @@ Automatically detects project build tool (npm/yarn/pnpm/bun for JS/TS, cargo for
       // Apply filters with validated input
       if (validatedSteps?.length) {
         stepsToRun = allSteps.filter((s) =>
-          validatedSteps.includes(s.name as (typeof VALID_STEP_NAMES)[number]),
+          validatedSteps.includes(s.name as VerificationStepName),
         );
       }
       if (validatedSkipSteps?.length) {
         stepsToRun = stepsToRun.filter(
-          (s) =>
-            !validatedSkipSteps.includes(
-              s.name as (typeof VALID_STEP_NAMES)[number],
-            ),
+          (s) => !validatedSkipSteps.includes(s.name as VerificationStepName),
         );
       }
 
-      // Execute verification steps when possible
-      // Runtime type guard for exec function (ensures type safety)
-      type ExecResult = { stdout?: string; stderr?: string; exitCode?: number };
-      type ExecFn = (command: string) => Promise<ExecResult>;
-
-      const maybeExec = (context as { exec?: unknown } | undefined)?.exec;
-      const exec: ExecFn | undefined =
-        maybeExec && typeof maybeExec === "function"
-          ? (maybeExec as ExecFn)
-          : undefined;
+      // Visual checks are deferred to the user; everything else runs here
+      const automatedSteps = stepsToRun.filter((s) => s.command !== "(manual)");
 
-      if (!exec) {
-        const stepsList = stepsToRun
-          .map(
-            (s) =>
-              `### ${s.name}\n\`\`\`bash\n${s.command}\n\`\`\`\n${s.description}`,
-          )
-          .join("\n\n");
+      if (automatedSteps.length === 0) {
+        const guidance = "No automated steps were selected.";
 
-        return `## Verification Protocol
+        return `## Verification
 
 **Detected:** ${projectInfo.type || "unknown"} project using \`${buildTool}\`
 
-${stepsList}
+${guidance}`;
+      }
 
-**Note:** Automatic execution is unavailable in this environment. Run the commands above, then re-run \`setu_verify\` to record results.`;
+      // Same guard as bash: never build under a running dev server
+      const envConflict = await detectEnvironmentConflict(
+        automatedSteps.map((s) => s.command).join(" && "),
+        projectDir,
+        inspectEnvironment,
+      );
+      if (envConflict.hasConflict) {
+        throw new Error(formatEnvironmentConflict(envConflict));
       }
 
-      const projectDirForLog = getProjectDir ? getProjectDir() : process.cwd();
-      const results: Array<{ name: string; success: boolean; output: string }> =
-        [];
+      const treeHash = getWorkingTreeHash(projectDir);
+      const changedFiles = treeHash ? getChangedFilesBetweenTrees(projectDir, "HEAD", treeHash) : null;
+      const scope = resolveVerificationScope(projectDir, buildTool, changedFiles, args.scope === "full");
+      const { stepTimeoutMs, coverageThreshold } = getSetuConfig().verification;
+      const results: VerificationStepRecord[] = [];
+
+      // Impacted tests run before the full suite to fail fast. Workspaces
+      // already narrow the suite to the changed packages instead.
+      const testMode = args.tests ?? "impacted-first";
+      const testIndex = automatedSteps.findIndex((s) => s.name === "test");
+      const impactedStep =
+        testMode !== "full" && testIndex !== -1 && !scope.description
+          ? planImpactedTests(projectDir, projectInfo, changedFiles)
+          : null;
+      const runSteps = [...automatedSteps];
+      if (impactedStep) {
+        runSteps.splice(testIndex, testMode === "impacted" ? 1 : 0, impactedStep);
+      }
+      let fullSuiteSkipped = false;
+      let coverageCheck: CoverageCheck | null = null;
 
-      for (const step of stepsToRun) {
-        if (step.command === "(manual)") {
+      for (const step of runSteps) {
+        if (context.abort.aborted) {
+          break;
+        }
+        if (step.name === "test" && results.some((r) => r.name === IMPACTED_TESTS_STEP && !r.passed)) {
+          // The full suite would fail the same way; report the fast result
+          fullSuiteSkipped = true;
           continue;
         }
 
-        try {
-          const result = await exec(step.command);
-          const outputText = [result.stdout, result.stderr]
-            .filter(Boolean)
-            .join("\n");
-
-          // Strict exitCode check: only explicit 0 is success
-          // undefined/null exitCode is treated as failure (unknown state)
-          const success = result.exitCode === 0;
-
-          logVerification(projectDirForLog, step.name, success, outputText);
-          results.push({ name: step.name, success, output: outputText });
-        } catch (execError) {
-          // Execution threw - treat as failure
-          const errorMsg =
-            execError instanceof Error ? execError.message : String(execError);
-          logVerification(
-            projectDirForLog,
-            step.name,
-            false,
-            `Execution error: ${errorMsg}`,
-          );
-          results.push({
-            name: step.name,
-            success: false,
-            output: `Execution error: ${errorMsg}`,
-          });
+        const command =
+          (step.name !== IMPACTED_TESTS_STEP &&
+            scope.layout &&
+            scope.packages &&
+            getScopedCommand(scope.layout, step.name, scope.packages)) ||
+          step.command;
+        const ranAt = new Date().toISOString();
+        const result = await runCommand(command, {
+          cwd: projectDir,
+          timeoutMs: stepTimeoutMs,
+          signal: context.abort,
+        });
+
+        // Strict exitCode check: only explicit 0 is success
+        let success = result.exitCode === 0 && !result.timedOut;
+        const outputTail = tailLines(result.output, RECORD_TAIL_LINES, RECORD_TAIL_CHARS);
+
+        // A passing full suite must also cover the changed lines
+        if (success && step.name === "test" && coverageThreshold > 0) {
+          coverageCheck = checkChangedLineCoverage(projectDir, treeHash, coverageThreshold, Date.parse(ranAt));
+          success = coverageCheck.coverage?.passed ?? true;
         }
+        const coverage = step.name === "test" ? coverageCheck?.coverage : undefined;
+
+        logVerification(
+          projectDir,
+          step.name,
+          success,
+          result.timedOut ? `Timed out after ${formatDuration(stepTimeoutMs)}\n${outputTail}` : outputTail,
+        );
+        results.push({
+          name: step.name,
+          command,
+          exitCode: result.exitCode,
+          passed: success,
+          timedOut: result.timedOut,
+          durationMs: result.durationMs,
+          outputTail,
+          treeHash,
+          ranAt,
+          ...(step.tests ? { tests: step.tests } : {}),
+          ...(coverage
+            ? {
+                coverage: {
+                  artifact: coverage.artifact,
+                  percent: coverage.percent,
+                  threshold: coverage.threshold,
+                  passed: coverage.passed,
+                },
+              }
+            : {}),
+        });
+      }
+
+      try {
+        recordVerificationSteps(projectDir, {
+          sessionId: context.sessionID,
+          buildTool,
+          steps: results,
+        });
+      } catch (recordErr) {
+        logVerification(projectDir, "record-write", false, getErrorMessage(recordErr));
+        throw new Error(`Verification ran but .setu/verification.json could not be written: ${getErrorMessage(recordErr)}`);
       }
 
-      const failures = results.filter((r) => !r.success);
-      const automatedChecksPassed = failures.length === 0 && results.length > 0;
+      const stepLines = results.map(formatStepLine).join("\n");
+      const headerLines = [
+        scope.description ? `**Scope:** ${scope.description}` : "",
+        impactedStep?.tests
+          ? `**Impacted tests:** ${impactedStep.tests.length} file(s) for ${changedFiles?.length ?? 0} changed file(s): ${formatTestList(impactedStep.tests)}`
+          : "",
+        fullSuiteSkipped ? "**Full test suite:** skipped because impacted tests failed" : "",
+        coverageCheck ? `**Changed-line coverage:** ${coverageCheck.report}` : "",
+      ].filter(Boolean);
+      const summary = headerLines.length ? `${headerLines.join("\n")}\n\n${stepLines}` : stepLines;
+      const failures = results.filter((r) => !r.passed);
+      const automatedChecksPassed =
+        failures.length === 0 && results.length === runSteps.length && testMode !== "impacted";
+
+      if (failures.length === 0 && testMode === "impacted" && results.length === runSteps.length) {
+        return `## Verification Results
+
+**Detected:** ${projectInfo.type || "unknown"} project using \`${buildTool}\`
+
+${summary}
+
+Impacted checks passed. The full test suite still gates commit: run \`setu_verify\` without \`tests: "impacted"\` before committing.`;
+      }
 
       if (automatedChecksPassed) {
         markVerificationComplete();
 
+        // Goal-backward check: the plan step's DONE WHEN criteria need
+        // evidence of their own before the step advances
+        const active = loadActiveTask(projectDir);
+        const completedSteps = getCompletedSteps(projectDir, active);
+        const requestedStep = args.step ?? getStartedStep(active, completedSteps);
+        const currentStep = active
+          ? requestedStep ?? getCurrentStepNumber(projectDir, completedSteps)
+          : null;
+        const stepStartedAt = currentStep ? active?.stepStarts?.[currentStep] : undefined;
+        const criteria = currentStep ? loadStepCriteria(projectDir, currentStep) : [];
+        let criteriaSection = "";
+        let criteriaEvidence: CriterionEvidence[] = [];
+        if (currentStep && criteria.length > 0) {
+          const problems = args.evidence?.length
+            ? await collectCriterionEvidence(projectDir, currentStep, criteria, args.evidence, {
+                timeoutMs: stepTimeoutMs,
+                signal: context.abort,
+                sessionId: context.sessionID,
+                contextConfirmed: getHydrationState?.().contextConfirmed ?? false,
+                inspectEnvironment,
+              })
+            : [];
+          criteriaEvidence = loadStepEvidence(projectDir, currentStep);
+          const problemLines = problems.length ? `\n\nEvidence not collected:\n${problems.map((p) => `- ${p}`).join("\n")}` : "";
+          criteriaSection = `\n\n**Done When (Step ${currentStep}):**\n${formatCriteriaEvidence(criteria, criteriaEvidence)}${problemLines}`;
+
+          const unmet = getUnmetCriteria(criteria, criteriaEvidence);
+          if (unmet.length > 0) {
+            return `## Verification Results
+
+**Detected:** ${projectInfo.type || "unknown"} project using \`${buildTool}\`
+
+${summary}${criteriaSection}
+
+Automated checks passed. ${formatEvidenceGuidance(currentStep, unmet)}`;
+          }
+        }
+
         // Write result file and advance step (Results Pattern)
-        // Reuse projectDirForLog to avoid duplicate logic
-        const projectDirForResults = projectDirForLog;
-        const advanceResult = advanceStep(projectDirForResults);
+        const advanceResult = advanceStep(projectDir, requestedStep);
         
         if (!advanceResult.success) {
           // Log but don't fail verification on step tracking error
           const errorMessage = advanceResult.error || "unknown error";
           logVerification(
-            projectDirForResults,
+            projectDir,
             "step-advance",
             false,
             errorMessage,
@@ -326,28 +913,32 @@ ${stepsList}
           const completedStep = advanceResult.step;
           // Build verification summary for result file
           const verificationDetails = results
-            .map((r) => `${r.name}: ${r.success ? "PASS" : "FAIL"}`)
+            .map((r) => `${r.name}: ${r.passed ? "PASS" : "FAIL"}`)
             .join(", ");
 
           // SECURITY: Sanitize all user-influenced fields for YAML safety
           try {
-            const active = loadActiveTask(projectDirForResults);
-            writeStepResult(projectDirForResults, {
+            writeStepResult(projectDir, {
               step: completedStep,
               status: "completed",
               objective: sanitizeYamlString(active?.task || "Verification"),
-              outputs: [], // Future: detect from git diff
+              outputs: getStepOutputs(projectDir, completedStep, stepStartedAt),
               summary: sanitizeYamlString(
                 `Step ${completedStep} verified successfully. ${verificationDetails}`,
               ),
               verification: sanitizeYamlString(
                 `Build/test/lint passed: ${verificationDetails}`,
               ),
+              coverage: coverageCheck
+                ? sanitizeYamlString(coverageCheck.report)
+                : undefined,
+              criteria: toCriterionResults(criteria, criteriaEvidence),
               timestamp: new Date().toISOString(),
+              durationMs: stepStartedAt ? Date.now() - Date.parse(stepStartedAt) : undefined,
             });
           } catch (writeErr) {
             logVerification(
-              projectDirForResults,
+              projectDir,
               "result-write",
               false,
               getErrorMessage(writeErr),
@@ -355,24 +946,16 @@ ${stepsList}
             // Continue - verification passed even if result persistence failed
           }
 
-          const summary = results
-            .map((r) => `- ${r.name}: ${r.success ? "PASS" : "FAIL"}`)
-            .join("\n");
-
           return `## Verification Results
 
 **Detected:** ${projectInfo.type || "unknown"} project using \`${buildTool}\`
 
-${summary}
+${summary}${criteriaSection}
 
 ✅ Step ${completedStep} verified and recorded to .setu/results/step-${completedStep}.md
-Next: Step ${completedStep + 1}`;
+${formatNextStep(projectDir, completedStep)}`;
         } else {
           // advanceStep failed - report verification passed but persistence skipped
-          const summary = results
-            .map((r) => `- ${r.name}: ${r.success ? "PASS" : "FAIL"}`)
-            .join("\n");
-
           return `## Verification Results
 
 **Detected:** ${projectInfo.type || "unknown"} project using \`${buildTool}\`
@@ -380,23 +963,15 @@ Next: Step ${completedStep + 1}`;
 ${summary}
 
 ✅ Verification passed (build/test/lint succeeded)
-⚠️ Step persistence skipped (unable to advance step counter)`;
+⚠️ Step persistence skipped (${advanceResult.error})`;
         }
       }
 
-      if (results.length === 0) {
-        const guidance = "No automated steps were selected.";
-
-        return `## Verification
-
-**Detected:** ${projectInfo.type || "unknown"} project using \`${buildTool}\`
-
-${guidance}`;
-      }
-
-      const summary = results
-        .map((r) => `- ${r.name}: ${r.success ? "PASS" : "FAIL"}`)
-        .join("\n");
+      // Coverage failures are listed with the changed-line coverage above
+      const failureDetails = failures
+        .filter((f) => !(f.exitCode === 0 && f.coverage && !f.coverage.passed))
+        .map(formatFailureTail)
+        .join("\n\n");
 
       return `## Verification Results
 
@@ -404,7 +979,7 @@ ${guidance}`;
 
 ${summary}
 
-${failures.length > 0 ? "One or more checks failed. Review logs in .setu/verification.log." : "All checks passed."}`;
+${failures.length > 0 ? `One or more checks failed. Full record: .setu/verification.json\n\n${failureDetails}` : "Verification was cancelled before every step ran."}`;
     },
   });
 }
@@ -536,7 +536,12 @@ export async function checkAndPrepareSetuUpdate(options: AutoUpdateOptions = {})
   };
 }
 
-function readParentId(properties: Record<string, unknown> | undefined): string | null {
+/**
+ * Parent session ID of a session event: `parentID`, or `info.parentID`.
+ *
+ * @returns Parent ID, or null for a root session
+ */
+export function readParentId(properties: Record<string, unknown> | undefined): string | null {
   if (!properties) return null;
 
   const directParent = properties.parentID;
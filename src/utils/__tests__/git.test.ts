@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { execFileSync } from 'child_process';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { getChangedFilesBetweenTrees, getChangedLinesBetweenTrees, getWorkingTreeHash, runGit } from '../git';
+
+describe('getWorkingTreeHash', () => {
+  let projectDir = '';
+
+  beforeEach(() => {
+    projectDir = mkdtempSync(join(tmpdir(), 'setu-tree-hash-'));
+    execFileSync('git', ['init', '-q'], { cwd: projectDir });
+    writeFileSync(join(projectDir, 'app.ts'), 'export const a = 1;\n');
+  });
+
+  afterEach(() => {
+    rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  test('changes with working tree content but not with .setu artifacts', () => {
+    const first = getWorkingTreeHash(projectDir);
+    expect(first).toMatch(/^[0-9a-f]{40,64}$/);
+
+    mkdirSync(join(projectDir, '.setu'));
+    writeFileSync(join(projectDir, '.setu', 'verification.json'), '{}');
+    expect(getWorkingTreeHash(projectDir)).toBe(first);
+
+    writeFileSync(join(projectDir, 'app.ts'), 'export const a = 2;\n');
+    expect(getWorkingTreeHash(projectDir)).not.toBe(first);
+  });
+
+  test('sees same-size edits made in the second the index was written', () => {
+    execFileSync('git', ['add', '-A'], { cwd: projectDir });
+    const staged = getWorkingTreeHash(projectDir);
+    // Same size and (almost always) the same second: stat data cannot tell,
+    // so git must see the index as racy even once that second has passed
+    writeFileSync(join(projectDir, 'app.ts'), 'export const a = 9;\n');
+    Bun.sleepSync(1100);
+
+    expect(getWorkingTreeHash(projectDir)).not.toBe(staged);
+  });
+
+  test('leaves the real index untouched', () => {
+    getWorkingTreeHash(projectDir);
+    expect(runGit(projectDir, ['diff', '--cached', '--name-only'])).toBe('');
+  });
+
+  test('returns null outside git', () => {
+    const plainDir = mkdtempSync(join(tmpdir(), 'setu-no-git-'));
+    try {
+      expect(getWorkingTreeHash(plainDir)).toBeNull();
+    } finally {
+      rmSync(plainDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('getChangedFilesBetweenTrees', () => {
+  let projectDir = '';
+
+  beforeEach(() => {
+    projectDir = mkdtempSync(join(tmpdir(), 'setu-tree-diff-'));
+    execFileSync('git', ['init', '-q'], { cwd: projectDir });
+    writeFileSync(join(projectDir, 'app.ts'), 'export const a = 1;\n');
+    writeFileSync(join(projectDir, 'util.ts'), 'export const u = 1;\n');
+  });
+
+  afterEach(() => {
+    rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  test('lists files added, changed, or removed between trees', () => {
+    const before = getWorkingTreeHash(projectDir) as string;
+    writeFileSync(join(projectDir, 'app.ts'), 'export const a = 2;\n');
+    rmSync(join(projectDir, 'util.ts'));
+    mkdirSync(join(projectDir, 'src'));
+    writeFileSync(join(projectDir, 'src', 'new.ts'), 'export {};\n');
+    const after = getWorkingTreeHash(projectDir) as string;
+
+    expect(getChangedFilesBetweenTrees(projectDir, before, after)).toEqual(['app.ts', 'src/new.ts', 'util.ts']);
+    expect(getChangedFilesBetweenTrees(projectDir, after, after)).toEqual([]);
+  });
+
+  test('returns null for unknown trees', () => {
+    expect(getChangedFilesBetweenTrees(projectDir, '0'.repeat(40), '1'.repeat(40))).toBeNull();
+    expect(getChangedLinesBetweenTrees(projectDir, '0'.repeat(40), '1'.repeat(40))).toBeNull();
+  });
+
+  test('lists added and changed lines on the new side', () => {
+    writeFileSync(join(projectDir, 'app.ts'), 'a\nb\nc\nd\n');
+    const before = getWorkingTreeHash(projectDir) as string;
+    writeFileSync(join(projectDir, 'app.ts'), 'a\nB\nc\nd\ne\nf\n');
+    rmSync(join(projectDir, 'util.ts'));
+    writeFileSync(join(projectDir, 'new file.ts'), 'x\n');
+    const after = getWorkingTreeHash(projectDir) as string;
+
+    expect(getChangedLinesBetweenTrees(projectDir, before, after)).toEqual(
+      new Map([['app.ts', [2, 5, 6]], ['new file.ts', [1]]])
+    );
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, test } from 'bun:test';
+import { isProjectRoot, matchGlobList, matchGlobListBeneath, toProjectRelativePath } from '../glob';
+
+describe('glob matching', () => {
+  test('supports ** across segments and * within a segment', () => {
+    expect(matchGlobList('src/legacy/a/b.ts', ['src/legacy/**'])).toBe('src/legacy/**');
+    expect(matchGlobList('src/a.ts', ['src/*.ts'])).toBe('src/*.ts');
+    expect(matchGlobList('src/a/b.ts', ['src/*.ts'])).toBeNull();
+    expect(matchGlobList('deep/x/y/z.test.ts', ['**/*.test.ts'])).toBe('**/*.test.ts');
+    expect(matchGlobList('z.test.ts', ['**/*.test.ts'])).toBe('**/*.test.ts');
+    expect(matchGlobList('src/legacy', ['src/legacy/**'])).toBe('src/legacy/**');
+    expect(matchGlobList('src/legacy-old/a.ts', ['src/legacy/**'])).toBeNull();
+  });
+
+  test('supports brace alternation and plain directory patterns', () => {
+    expect(matchGlobList('config/app.yml', ['config/*.{yml,yaml}'])).not.toBeNull();
+    expect(matchGlobList('migrations/001.sql', ['migrations'])).toBe('migrations');
+    expect(matchGlobList('migrations-old/001.sql', ['migrations'])).toBeNull();
+  });
+
+  test('treats regex metacharacters literally', () => {
+    expect(matchGlobList('a+b/c.ts', ['a+b/**'])).toBe('a+b/**');
+    expect(matchGlobList('aab/c.ts', ['a+b/**'])).toBeNull();
+  });
+
+  test('resolves project-relative paths and rejects escapes', () => {
+    expect(toProjectRelativePath('/repo', '/repo/src/a.ts')).toBe('src/a.ts');
+    expect(toProjectRelativePath('/repo', './src/../lib/b.ts')).toBe('lib/b.ts');
+    expect(toProjectRelativePath('/repo', '../other/c.ts')).toBeNull();
+    expect(toProjectRelativePath('/repo', '/etc/passwd')).toBeNull();
+  });
+
+  test('finds patterns that can match beneath a directory', () => {
+    expect(matchGlobListBeneath('src', ['src/legacy/**'])).toBe('src/legacy/**');
+    expect(matchGlobListBeneath('', ['db/schema.sql'])).toBe('db/schema.sql');
+    expect(matchGlobListBeneath('docs', ['**/*.sql'])).toBe('**/*.sql');
+    expect(matchGlobListBeneath('packages/api', ['packages/*/migrations'])).toBe('packages/*/migrations');
+    expect(matchGlobListBeneath('lib', ['src/legacy/**'])).toBeNull();
+    expect(matchGlobListBeneath('src/app', ['src/legacy/**'])).toBeNull();
+    expect(matchGlobListBeneath('src/legacy', ['src/legacy'])).toBeNull();
+  });
+
+  test('recognizes the project root', () => {
+    expect(isProjectRoot('/repo', '.')).toBe(true);
+    expect(isProjectRoot('/repo', '/repo/')).toBe(true);
+    expect(isProjectRoot('/repo', 'src/..')).toBe(true);
+    expect(isProjectRoot('/repo', 'src')).toBe(false);
+  });
+});
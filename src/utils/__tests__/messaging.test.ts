@@ -0,0 +1,27 @@
+import { describe, expect, test } from 'bun:test';
+import { formatGuidanceMessage } from '../messaging';
+
+describe('formatGuidanceMessage', () => {
+  test('renders why, next step, and alternative on one line', () => {
+    expect(formatGuidanceMessage('Blocked', 'Do X.', 'Or Y.')).toBe('Wait: Blocked. Do X. Or Y.');
+  });
+
+  test('lists rule findings with matched text and safer alternative', () => {
+    const message = formatGuidanceMessage('Destructive shell command detected', 'Stop.', undefined, [
+      { ruleId: 'git-reset-hard', matched: 'git reset --hard', alternative: 'Use `git stash`.' },
+      { ruleId: 'fork-bomb', matched: ':(){ :|:& };:' },
+    ]);
+    expect(message.split('\n')).toEqual([
+      'Wait: Destructive shell command detected. Stop.',
+      '- [git-reset-hard] matched `git reset --hard`. Safer: Use `git stash`.',
+      '- [fork-bomb] matched `:(){ :|:& };:`.',
+    ]);
+  });
+
+  test('collapses whitespace and truncates long matches', () => {
+    const message = formatGuidanceMessage('x', 'y', undefined, [{ ruleId: 'r', matched: `a\n${'b'.repeat(200)}` }]);
+    const line = message.split('\n')[1];
+    expect(line.startsWith('- [r] matched `a b')).toBe(true);
+    expect(line.length).toBeLessThan(140);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, expect, test } from 'bun:test';
+import { collectShellCommands, getGitArgs, getOperands, hasFlag, parseShellCommand } from '../shell-parser';
+
+function argvs(source: string): string[][] {
+  return collectShellCommands(source).commands.map(cmd => cmd.argv);
+}
+
+describe('parseShellCommand', () => {
+  test('resolves quotes and escapes into words', () => {
+    const { commands, complete } = parseShellCommand(`grep "a;b | c" 'it''s' git\\ push`);
+    expect(complete).toBe(true);
+    expect(commands).toHaveLength(1);
+    expect(commands[0].argv).toEqual(['grep', 'a;b | c', 'its', 'git push']);
+  });
+
+  test('splits lists and keeps pipeline stages together', () => {
+    const { commands } = parseShellCommand('npm test && grep foo x | head -1; ls &');
+    expect(commands.map(cmd => cmd.name)).toEqual(['npm', 'grep', 'head', 'ls']);
+    expect(commands[1].pipeline).toBe(commands[2].pipeline);
+    expect(commands[0].pipeline).not.toBe(commands[1].pipeline);
+    expect(commands[3].background).toBe(true);
+  });
+
+  test('records redirects, descriptors, and here-document bodies', () => {
+    const { commands } = parseShellCommand("cat <<'EOF' > out.txt 2>&1\nrm -rf /\nEOF\necho done");
+    expect(commands.map(cmd => cmd.name)).toEqual(['cat', 'echo']);
+    expect(commands[0].redirects).toEqual([
+      { op: '<<', fd: null, target: 'EOF', heredoc: 'rm -rf /\n' },
+      { op: '>', fd: null, target: 'out.txt' },
+      { op: '>&', fd: 2, target: '1' },
+    ]);
+  });
+
+  test('separates leading assignments and flags expansions', () => {
+    const { commands } = parseShellCommand('FOO=1 $CMD "$HOME/x" plain');
+    expect(commands[0].assignments).toEqual(['FOO=1']);
+    expect(commands[0].dynamic).toEqual([true, true, false]);
+  });
+
+  test('reports syntax it cannot follow', () => {
+    expect(parseShellCommand('echo "unterminated').complete).toBe(false);
+    expect(parseShellCommand('case $x in a) rm y;; esac').complete).toBe(false);
+    expect(parseShellCommand('f() { rm x; }').complete).toBe(false);
+    expect(parseShellCommand('if test -f x; then cat x; fi').complete).toBe(true);
+  });
+});
+
+describe('collectShellCommands', () => {
+  test('follows substitutions and nested shell strings', () => {
+    expect(argvs('echo "$(git status)" `whoami`')).toContainEqual(['git', 'status']);
+    expect(argvs('echo "$(git status)" `whoami`')).toContainEqual(['whoami']);
+    expect(argvs(`bash -lc "sh -c 'rm -rf build'"`)).toEqual([['rm', '-rf', 'build']]);
+    expect(argvs('eval "git push"')).toEqual([['git', 'push']]);
+    expect(argvs('bash <<EOF\ngit push\nEOF')).toEqual([['git', 'push']]);
+  });
+
+  test('unwraps prefix commands and records the path in via', () => {
+    const { commands } = collectShellCommands('sudo -u root env FOO=1 timeout 5 nice -n 10 rm -rf /');
+    expect(commands).toHaveLength(1);
+    expect(commands[0].argv).toEqual(['rm', '-rf', '/']);
+    expect(commands[0].via).toEqual(['sudo', 'env', 'timeout', 'nice']);
+    expect(commands[0].assignments).toEqual(['FOO=1']);
+  });
+
+  test('nested scripts inherit outer assignments', () => {
+    const { commands } = collectShellCommands('A=1 env B=2 bash -c "C=3 git log"');
+    expect(commands[0].argv).toEqual(['git', 'log']);
+    expect(commands[0].assignments).toEqual(['A=1', 'B=2', 'C=3']);
+  });
+
+  test('expands xargs and find -exec targets', () => {
+    expect(argvs('git ls-files | xargs -0 -n 1 rm')).toEqual([['git', 'ls-files'], ['rm']]);
+    expect(argvs('find . -name "*.ts" -exec sed -i s/a/b/ {} \\;')).toContainEqual(['sed', '-i', 's/a/b/', '{}']);
+  });
+
+  test('nested scripts inherit outer redirects', () => {
+    const { commands } = collectShellCommands('bash -c "echo hi" > out.txt');
+    expect(commands[0].redirects.map(r => r.target)).toEqual(['out.txt']);
+  });
+
+  test('stops at the nesting limit', () => {
+    expect(collectShellCommands('eval "eval ls"').complete).toBe(true);
+    const tooDeep = Array.from({ length: 8 }).reduce<string>(inner => `eval ${JSON.stringify(inner)}`, 'ls');
+    expect(collectShellCommands(tooDeep).complete).toBe(false);
+  });
+});
+
+describe('argument helpers', () => {
+  test('getGitArgs skips global options', () => {
+    const [command] = parseShellCommand('git -C repo -c user.name=x --no-pager push origin').commands;
+    expect(getGitArgs(command)).toEqual(['push', 'origin']);
+  });
+
+  test('getOperands honours end of options', () => {
+    expect(getOperands(['-f', 'a', '--', '-b'])).toEqual(['a', '-b']);
+  });
+
+  test('hasFlag matches clusters and long options', () => {
+    expect(hasFlag(['-xdf'], 'f')).toBe(true);
+    expect(hasFlag(['--force=yes'], 'r', ['--force'])).toBe(true);
+    expect(hasFlag(['--', '-f'], 'f')).toBe(false);
+  });
+});
+
+describe('command text', () => {
+  test('keeps wrappers and redirects, excluding list operators', () => {
+    const { commands } = collectShellCommands('npm test && 2>err.log sudo rm -rf dist; echo ok');
+    expect(commands.map(cmd => cmd.text)).toEqual(['npm test', '2>err.log sudo rm -rf dist', 'echo ok']);
+  });
+});
@@ -4,9 +4,10 @@
  * Helpers for git operations used in pre-commit checklist.
  */
 
-import { execSync } from 'child_process';
-import { statSync } from 'fs';
-import { resolve } from 'path';
+import { execFileSync, execSync } from 'child_process';
+import { copyFileSync, mkdtempSync, rmSync, statSync, utimesSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
 import { debugLog } from '../debug';
 import { isProtectedBranch } from '../constants';
 
@@ -79,4 +80,132 @@ export function getCurrentBranch(projectDir: string): string {
   }
 }
 
+/**
+ * Run a git command with an argument vector (no shell interpolation).
+ *
+ * @param projectDir - Working directory for git
+ * @param args - Arguments after `git`
+ * @param options - timeout in ms; trim: false keeps leading whitespace (porcelain status codes);
+ *   env adds variables such as GIT_INDEX_FILE
+ * @returns Stdout (trimmed by default), or null if git failed or projectDir is invalid
+ */
+export function runGit(
+  projectDir: string,
+  args: string[],
+  options: { timeout?: number; trim?: boolean; env?: Record<string, string> } = {}
+): string | null {
+  const validatedDir = validateProjectDir(projectDir);
+  if (!validatedDir) {
+    debugLog(`runGit: Invalid projectDir "${projectDir}"`);
+    return null;
+  }
+
+  try {
+    const output = execFileSync('git', args, {
+      cwd: validatedDir,
+      encoding: 'utf-8',
+      stdio: ['pipe', 'pipe', 'pipe'],
+      timeout: options.timeout ?? 10000,
+      maxBuffer: 16 * 1024 * 1024,
+      env: options.env ? { ...process.env, ...options.env } : undefined
+    });
+    return options.trim === false ? output : output.trim();
+  } catch (error) {
+    debugLog(`git ${args[0] ?? ''} failed in ${validatedDir}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Check whether projectDir is inside a git work tree.
+ */
+export function isGitWorkTree(projectDir: string): boolean {
+  return runGit(projectDir, ['rev-parse', '--is-inside-work-tree']) === 'true';
+}
+
+/**
+ * Hash of the working tree as git would commit it with every change staged.
+ *
+ * Stages into a temporary copy of the index, so the user's real index is
+ * untouched. Untracked files count unless ignored; .setu/ never does.
+ *
+ * @returns Tree object id, or null outside git
+ */
+export function getWorkingTreeHash(projectDir: string): string | null {
+  const gitPath = runGit(projectDir, ['rev-parse', '--git-path', 'index']);
+  if (gitPath === null) return null;
+  // Relative to projectDir unless GIT_DIR points elsewhere
+  const indexPath = resolve(projectDir, gitPath);
+
+  const tempDir = mkdtempSync(join(tmpdir(), 'setu-index-'));
+  try {
+    const env = { GIT_INDEX_FILE: join(tempDir, 'index') };
+    try {
+      // Reuse the stat cache so unchanged files are not re-hashed. Keep the
+      // index mtime: git re-hashes entries as new as the index ("racy git"),
+      // and a fresh mtime would hide same-size edits made in that second.
+      copyFileSync(indexPath, env.GIT_INDEX_FILE);
+      const { atime, mtime } = statSync(indexPath);
+      utimesSync(env.GIT_INDEX_FILE, atime, mtime);
+    } catch {
+      // No index yet (fresh repository)
+    }
+    if (runGit(projectDir, ['add', '-A', '--', '.', ':(exclude).setu'], { env, timeout: 30000 }) === null) {
+      return null;
+    }
+    return runGit(projectDir, ['write-tree'], { env });
+  } finally {
+    rmSync(tempDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Files that differ between two tree objects (e.g. from getWorkingTreeHash).
+ *
+ * @returns Repository-relative paths, or null if either tree is unknown to git
+ */
+export function getChangedFilesBetweenTrees(projectDir: string, fromTree: string, toTree: string): string[] | null {
+  if (fromTree === toTree) return [];
+  const output = runGit(projectDir, ['diff-tree', '-r', '--name-only', '-z', fromTree, toTree]);
+  if (output === null) return null;
+  return output.split('\0').filter(Boolean);
+}
+
+/**
+ * Lines added or changed between two tree objects, by file.
+ *
+ * @returns Repository-relative path → new-side line numbers, or null if either tree is unknown to git
+ */
+export function getChangedLinesBetweenTrees(
+  projectDir: string,
+  fromTree: string,
+  toTree: string
+): Map<string, number[]> | null {
+  const changed = new Map<string, number[]>();
+  if (fromTree === toTree) return changed;
+  const output = runGit(
+    projectDir,
+    ['-c', 'core.quotePath=false', 'diff', '-U0', '--no-color', '--no-ext-diff', fromTree, toTree],
+    { trim: false }
+  );
+  if (output === null) return null;
+
+  let file: string | null = null;
+  for (const line of output.split('\n')) {
+    if (line.startsWith('+++ ')) {
+      // Deleted files have no new side; names with spaces end in a tab
+      file = line === '+++ /dev/null' ? null : line.slice(4).replace(/^b\//, '').replace(/\t$/, '');
+      continue;
+    }
+    const hunk = file && line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/);
+    if (!file || !hunk) continue;
+    const start = Number(hunk[1]);
+    const count = hunk[2] === undefined ? 1 : Number(hunk[2]);
+    const lines = changed.get(file) ?? [];
+    for (let offset = 0; offset < count; offset++) lines.push(start + offset);
+    if (lines.length > 0) changed.set(file, lines);
+  }
+  return changed;
+}
+
 export { isProtectedBranch };
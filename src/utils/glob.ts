@@ -0,0 +1,151 @@
+/**
+ * Minimal glob matching for project-relative paths
+ *
+ * Supports the subset used by Setu policy files:
+ * - `**` matches any number of path segments (including none)
+ * - `*` matches within a single segment
+ * - `?` matches one non-separator character
+ * - `{a,b}` alternation (not nested)
+ *
+ * A pattern without a slash or wildcard (e.g. `migrations`) also matches
+ * everything beneath that directory, mirroring .gitignore intuition.
+ */
+
+import { isAbsolute, relative, resolve } from 'path';
+
+const MAX_PATTERN_LENGTH = 500;
+const MAX_CACHED_PATTERNS = 500;
+
+const regexCache = new Map<string, RegExp>();
+
+function escapeRegex(char: string): string {
+  return /[.+^$()|[\]\\{}]/.test(char) ? `\\${char}` : char;
+}
+
+/**
+ * Compile a glob pattern to an anchored RegExp.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const cached = regexCache.get(pattern);
+  if (cached) return cached;
+
+  const source = normalizeGlobPattern(pattern).slice(0, MAX_PATTERN_LENGTH);
+  let regex = '';
+  let inGroup = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (char === '*') {
+      if (source[i + 1] === '*') {
+        // `**/` matches zero or more directories; trailing `**` matches the rest
+        if (source[i + 2] === '/') {
+          regex += '(?:.*/)?';
+          i += 2;
+        } else if (regex.endsWith('/') && i + 2 === source.length) {
+          // Trailing `dir/**` also covers the directory itself (rm -r dir, find dir -delete)
+          regex = `${regex.slice(0, -1)}(?:/.*)?`;
+          i += 1;
+        } else {
+          regex += '.*';
+          i += 1;
+        }
+      } else {
+        regex += '[^/]*';
+      }
+    } else if (char === '?') {
+      regex += '[^/]';
+    } else if (char === '{' && !inGroup && source.indexOf('}', i) > i) {
+      inGroup = true;
+      regex += '(?:';
+    } else if (char === '}' && inGroup) {
+      inGroup = false;
+      regex += ')';
+    } else if (char === ',' && inGroup) {
+      regex += '|';
+    } else {
+      regex += escapeRegex(char);
+    }
+  }
+
+  // Plain directory patterns also cover their contents
+  const isPlainPath = !/[*?{]/.test(source);
+  const compiled = new RegExp(isPlainPath ? `^${regex}(?:/.*)?$` : `^${regex}$`);
+  if (regexCache.size >= MAX_CACHED_PATTERNS) {
+    regexCache.clear();
+  }
+  regexCache.set(pattern, compiled);
+  return compiled;
+}
+
+/**
+ * Normalize a glob pattern: forward slashes, no leading `./` or `/`, no trailing `/`.
+ */
+export function normalizeGlobPattern(pattern: string): string {
+  return pattern
+    .trim()
+    .replace(/\\/g, '/')
+    .replace(/^(\.\/)+/, '')
+    .replace(/^\/+/, '')
+    .replace(/\/+$/, '');
+}
+
+/**
+ * Convert a tool-supplied path to a project-relative, forward-slash path.
+ *
+ * @returns Relative path, or null if the path resolves outside the project
+ */
+export function toProjectRelativePath(projectDir: string, filePath: string): string | null {
+  const absolutePath = isAbsolute(filePath) ? resolve(filePath) : resolve(projectDir, filePath);
+  const rel = relative(resolve(projectDir), absolutePath).replace(/\\/g, '/');
+  if (rel === '' || rel === '..' || rel.startsWith('../') || isAbsolute(rel)) {
+    return null;
+  }
+  return rel;
+}
+
+/**
+ * Whether a tool-supplied path names the project root itself.
+ */
+export function isProjectRoot(projectDir: string, filePath: string): boolean {
+  const absolutePath = isAbsolute(filePath) ? resolve(filePath) : resolve(projectDir, filePath);
+  return absolutePath === resolve(projectDir);
+}
+
+/**
+ * Check whether a project-relative path matches any of the glob patterns.
+ *
+ * @returns The first matching pattern, or null
+ */
+export function matchGlobList(relativePath: string, patterns: readonly string[]): string | null {
+  const normalizedPath = relativePath.replace(/\\/g, '/').replace(/^(\.\/)+/, '');
+  for (const pattern of patterns) {
+    if (globToRegExp(pattern).test(normalizedPath)) {
+      return pattern;
+    }
+  }
+  return null;
+}
+
+/**
+ * Check whether a project-relative directory could contain paths matching
+ * any of the glob patterns, so moving or deleting it reaches them
+ * (`src` holds `src/legacy/**`). '' is the project root, which holds everything.
+ *
+ * @returns The first such pattern, or null
+ */
+export function matchGlobListBeneath(relativeDir: string, patterns: readonly string[]): string | null {
+  const dirSegments = relativeDir.replace(/\\/g, '/').split('/').filter(segment => segment && segment !== '.');
+  for (const pattern of patterns) {
+    const patternSegments = normalizeGlobPattern(pattern).split('/');
+    for (let i = 0; i <= dirSegments.length; i++) {
+      const patternSegment = patternSegments[i];
+      if (patternSegment === undefined) break;
+      // `**` can match any depth below here
+      if (patternSegment.includes('**')) return pattern;
+      if (i === dirSegments.length) return pattern;
+      if (!globToRegExp(patternSegment).test(dirSegments[i])) break;
+    }
+  }
+  return null;
+}
@@ -38,11 +38,37 @@ export {
 // Git utilities
 export {
   getCurrentBranch,
-  isProtectedBranch
+  isProtectedBranch,
+  runGit,
+  isGitWorkTree,
+  getWorkingTreeHash,
+  getChangedFilesBetweenTrees
 } from './git';
 
 export { PROTECTED_BRANCHES } from '../constants';
 
 export {
-  formatGuidanceMessage
+  formatGuidanceMessage,
+  type GuidanceFinding
 } from './messaging';
+
+// Glob matching (path-scoped policies)
+export {
+  globToRegExp,
+  normalizeGlobPattern,
+  toProjectRelativePath,
+  matchGlobList
+} from './glob';
+
+// Shell parsing (shared by hydration, constraints, and the safety classifier)
+export {
+  parseShellCommand,
+  collectShellCommands,
+  getGitArgs,
+  getOperands,
+  hasFlag,
+  isShellInterpreter,
+  type ShellCommand,
+  type ShellRedirect,
+  type ShellScript
+} from './shell-parser';
@@ -1,7 +1,28 @@
+const MAX_MATCHED_LENGTH = 120;
+
+/** Rule-level detail rendered beneath a guidance message (e.g. a safety rule match) */
+export interface GuidanceFinding {
+  ruleId: string;
+  /** Exact text that triggered the rule */
+  matched: string;
+  /** Safer way to reach the same goal */
+  alternative?: string;
+}
+
+function formatFinding(finding: GuidanceFinding): string {
+  const matched = finding.matched.replace(/\s+/g, ' ').trim();
+  const shown = matched.length > MAX_MATCHED_LENGTH ? `${matched.slice(0, MAX_MATCHED_LENGTH - 3)}...` : matched;
+  const alternative = finding.alternative ? ` Safer: ${finding.alternative}` : '';
+  return `- [${finding.ruleId}] matched \`${shown}\`.${alternative}`;
+}
+
 export function formatGuidanceMessage(
   why: string,
   nextStep: string,
-  safeAlternative?: string
+  safeAlternative?: string,
+  findings: readonly GuidanceFinding[] = []
 ): string {
-  return `Wait: ${why}. ${nextStep}${safeAlternative ? ` ${safeAlternative}` : ''}`;
+  const message = `Wait: ${why}. ${nextStep}${safeAlternative ? ` ${safeAlternative}` : ''}`;
+  if (findings.length === 0) return message;
+  return [message, ...findings.map(formatFinding)].join('\n');
 }
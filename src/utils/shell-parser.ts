@@ -0,0 +1,930 @@
+/**
+ * Shell command parser
+ *
+ * Turns a bash command string into a flat list of simple commands so the
+ * hydration gate, task constraints, and the safety classifier all judge the
+ * same structure instead of running their own regexes.
+ *
+ * Understands quoting and escapes, pipelines and command lists, redirects
+ * (including here-documents), and $(...), `...`, <(...) substitutions.
+ * collectShellCommands() additionally unwraps nested command strings
+ * (bash -c, eval, env -S, shell here-documents), prefix wrappers
+ * (sudo, env, timeout, xargs, ...) and find -exec, recursively.
+ *
+ * This is a static view: aliases, functions, and variable values are
+ * invisible. Words containing expansions are flagged `dynamic` so callers can
+ * fail closed, and syntax the parser cannot follow sets `complete: false`.
+ */
+
+const MAX_SCRIPT_LENGTH = 10000;
+const MAX_NESTING_DEPTH = 5;
+const MAX_WRAPPER_HOPS = 10;
+
+export interface ShellRedirect {
+  /** Operator: '>', '>>', '>|', '&>', '&>>', '<', '<>', '<<', '<<-', '<<<', '>&', '<&' */
+  op: string;
+  /** Explicit file descriptor (2 in `2>err.log`), or null */
+  fd: number | null;
+  /** Target word after quote removal (the delimiter for here-documents) */
+  target: string;
+  /** Here-document body */
+  heredoc?: string;
+}
+
+export interface ShellCommand {
+  /** Words after quote removal; argv[0] is the command */
+  argv: string[];
+  /** Parallel to argv: the word contains a parameter, arithmetic, or command expansion */
+  dynamic: boolean[];
+  /** Basename of argv[0] ('' for assignment- or redirect-only commands) */
+  name: string;
+  /** Leading NAME=value words, including those set through `env` */
+  assignments: string[];
+  redirects: ShellRedirect[];
+  /** Sources of $(...), `...`, <(...) and >(...) found in this command */
+  substitutions: string[];
+  /** Pipeline id; stages of one pipeline share it, in order */
+  pipeline: number;
+  /** Runs in the background (`&`) */
+  background: boolean;
+  /** Wrappers and nesting that led here, outermost first (e.g. ['sudo'], ['bash -c', 'xargs']) */
+  via: string[];
+  /** Raw source of the command, including wrappers and redirects (for messages) */
+  text: string;
+}
+
+export interface ShellScript {
+  commands: ShellCommand[];
+  /** False when some syntax could not be followed (unterminated quotes, case, functions, nesting limit) */
+  complete: boolean;
+}
+
+// ============================================================================
+// Lexer
+// ============================================================================
+
+/** Tokens carry their [start, end) offsets into the source */
+type Token = { start: number; end: number } & (
+  | { kind: 'word'; text: string; dynamic: boolean; quoted: boolean; literalStart: boolean; substitutions: string[] }
+  | { kind: 'operator'; op: string }
+  | { kind: 'redirect'; redirect: ShellRedirect; substitutions: string[] }
+);
+
+interface WordBuffer {
+  text: string;
+  dynamic: boolean;
+  quoted: boolean;
+  /** First character was unquoted (required for assignments and reserved words) */
+  literalStart: boolean;
+  started: boolean;
+  start: number;
+  substitutions: string[];
+}
+
+interface Expansion {
+  text: string;
+  dynamic: boolean;
+  quoted: boolean;
+  substitutions: string[];
+  end: number;
+  closed: boolean;
+}
+
+interface PendingHeredoc {
+  redirect: ShellRedirect;
+  substitutions: string[];
+  delimiter: string;
+  expand: boolean;
+}
+
+/** Longest operators first so `>>` wins over `>` */
+const REDIRECT_OPS = ['&>>', '&>', '<<<', '<<-', '<<', '<>', '<&', '<', '>>', '>&', '>|', '>'];
+const CONTROL_OPS = ['&&', '||', '|&', ';;', '|', ';', '&', '(', ')'];
+
+function emptyWord(): WordBuffer {
+  return { text: '', dynamic: false, quoted: false, literalStart: false, started: false, start: 0, substitutions: [] };
+}
+
+/**
+ * Find the index of the bracket closing one already opened before `start`.
+ * Skips quoted text and escapes. Returns -1 when unbalanced.
+ */
+function findClosing(source: string, start: number, open: string, close: string): number {
+  let depth = 1;
+  for (let i = start; i < source.length; i++) {
+    const char = source[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === "'") {
+      const end = source.indexOf("'", i + 1);
+      if (end === -1) return -1;
+      i = end;
+    } else if (char === '"' || char === '`') {
+      let j = i + 1;
+      while (j < source.length && source[j] !== char) {
+        j += source[j] === '\\' ? 2 : 1;
+      }
+      if (j >= source.length) return -1;
+      i = j;
+    } else if (char === open) {
+      depth++;
+    } else if (char === close && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function findBacktick(source: string, start: number): number {
+  for (let i = start; i < source.length; i++) {
+    if (source[i] === '\\') i++;
+    else if (source[i] === '`') return i;
+  }
+  return -1;
+}
+
+/** Decode the common escapes of ANSI-C quoting ($'...') */
+function decodeAnsiC(body: string): string {
+  const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', '\\': '\\', "'": "'", '"': '"', e: '\x1b', a: '\x07', b: '\b', v: '\v', f: '\f' };
+  return body.replace(/\\(x[0-9A-Fa-f]{1,2}|[0-7]{1,3}|.)/g, (_match, code: string) => {
+    if (code.startsWith('x')) return String.fromCharCode(parseInt(code.slice(1), 16));
+    if (/^[0-7]+$/.test(code)) return String.fromCharCode(parseInt(code, 8));
+    return escapes[code] ?? code;
+  });
+}
+
+/**
+ * Read double-quoted text starting after the opening quote. With a null
+ * terminator the whole remaining source is read (here-document bodies).
+ */
+function readDoubleQuoted(source: string, start: number, terminator: '"' | null): Expansion {
+  const result: Expansion = { text: '', dynamic: false, quoted: true, substitutions: [], end: source.length, closed: terminator === null };
+  let i = start;
+
+  while (i < source.length) {
+    const char = source[i];
+    if (terminator && char === terminator) {
+      result.end = i + 1;
+      result.closed = true;
+      return result;
+    }
+    if (char === '\\') {
+      const next = source[i + 1];
+      if (next === '\n') {
+        i += 2;
+      } else if (next !== undefined && '$`"\\'.includes(next)) {
+        result.text += next;
+        i += 2;
+      } else {
+        result.text += char;
+        i++;
+      }
+      continue;
+    }
+    if (char === '$' || char === '`') {
+      const expansion = readExpansion(source, i, true);
+      if (expansion) {
+        result.text += expansion.text;
+        result.dynamic = result.dynamic || expansion.dynamic;
+        result.substitutions.push(...expansion.substitutions);
+        if (!expansion.closed) result.closed = false;
+        i = expansion.end;
+        continue;
+      }
+    }
+    result.text += char;
+    i++;
+  }
+
+  return result;
+}
+
+/**
+ * Read a `$`- or backtick-introduced expansion at `start`.
+ * Expansions keep their raw source as text so nested command strings
+ * (bash -c "$(...)") can be re-parsed.
+ */
+function readExpansion(source: string, start: number, inDoubleQuotes: boolean): Expansion | null {
+  const next = source[start + 1];
+
+  if (source[start] === '`') {
+    const end = findBacktick(source, start + 1);
+    const body = source.slice(start + 1, end === -1 ? undefined : end);
+    return {
+      text: source.slice(start, end === -1 ? undefined : end + 1),
+      dynamic: true,
+      quoted: false,
+      substitutions: [body.replace(/\\([`$\\])/g, '$1')],
+      end: end === -1 ? source.length : end + 1,
+      closed: end !== -1,
+    };
+  }
+
+  if (next === '(' || next === '{') {
+    const isArithmetic = next === '(' && source[start + 2] === '(';
+    const end = findClosing(source, start + 2, next, next === '(' ? ')' : '}');
+    const body = source.slice(start + 2, end === -1 ? undefined : end);
+    // ${...} may itself contain substitutions (${x:-$(cmd)})
+    const substitutions = next === '(' ? (isArithmetic ? [] : [body]) : readDoubleQuoted(body, 0, null).substitutions;
+    return {
+      text: source.slice(start, end === -1 ? undefined : end + 1),
+      dynamic: true,
+      quoted: false,
+      substitutions,
+      end: end === -1 ? source.length : end + 1,
+      closed: end !== -1,
+    };
+  }
+
+  if (!inDoubleQuotes && next === "'") {
+    let end = start + 2;
+    while (end < source.length && source[end] !== "'") {
+      end += source[end] === '\\' ? 2 : 1;
+    }
+    return {
+      text: decodeAnsiC(source.slice(start + 2, Math.min(end, source.length))),
+      dynamic: false,
+      quoted: true,
+      substitutions: [],
+      end: Math.min(end + 1, source.length),
+      closed: end < source.length,
+    };
+  }
+
+  if (!inDoubleQuotes && next === '"') {
+    return readDoubleQuoted(source, start + 2, '"');
+  }
+
+  const variable = /^(?:[A-Za-z_][A-Za-z0-9_]*|[0-9@*#?$!-])/.exec(source.slice(start + 1, start + 65));
+  if (variable) {
+    return {
+      text: `$${variable[0]}`,
+      dynamic: true,
+      quoted: false,
+      substitutions: [],
+      end: start + 1 + variable[0].length,
+      closed: true,
+    };
+  }
+
+  return null;
+}
+
+function tokenize(source: string): { tokens: Token[]; complete: boolean } {
+  const tokens: Token[] = [];
+  const pendingHeredocs: PendingHeredoc[] = [];
+  let awaitingDelimiter: Extract<Token, { kind: 'redirect' }> | null = null;
+  let complete = true;
+  let word = emptyWord();
+  let i = 0;
+
+  const append = (text: string, quoted: boolean, dynamic = false, substitutions: string[] = []): void => {
+    if (!word.started) {
+      word.literalStart = !quoted;
+      word.start = i;
+    }
+    word.started = true;
+    word.text += text;
+    word.quoted = word.quoted || quoted;
+    word.dynamic = word.dynamic || dynamic;
+    word.substitutions.push(...substitutions);
+  };
+
+  const flush = (): void => {
+    if (!word.started) return;
+    if (awaitingDelimiter) {
+      pendingHeredocs.push({
+        redirect: awaitingDelimiter.redirect,
+        substitutions: awaitingDelimiter.substitutions,
+        delimiter: word.text,
+        expand: !word.quoted,
+      });
+      awaitingDelimiter = null;
+    }
+    tokens.push({
+      kind: 'word',
+      start: word.start,
+      end: i,
+      text: word.text,
+      dynamic: word.dynamic,
+      quoted: word.quoted,
+      literalStart: word.literalStart,
+      substitutions: word.substitutions,
+    });
+    word = emptyWord();
+  };
+
+  const readHeredocBodies = (position: number): number => {
+    let pos = position;
+    for (const pending of pendingHeredocs) {
+      const stripTabs = pending.redirect.op === '<<-';
+      let body = '';
+      let terminated = false;
+      while (pos < source.length) {
+        const lineEnd = source.indexOf('\n', pos);
+        const rawLine = source.slice(pos, lineEnd === -1 ? undefined : lineEnd);
+        const line = stripTabs ? rawLine.replace(/^\t+/, '') : rawLine;
+        pos = lineEnd === -1 ? source.length : lineEnd + 1;
+        if (line === pending.delimiter) {
+          terminated = true;
+          break;
+        }
+        body += `${line}\n`;
+      }
+      if (!terminated) complete = false;
+      pending.redirect.heredoc = body;
+      if (pending.expand) {
+        pending.substitutions.push(...readDoubleQuoted(body, 0, null).substitutions);
+      }
+    }
+    pendingHeredocs.length = 0;
+    return pos;
+  };
+
+  while (i < source.length) {
+    const char = source[i];
+    const next = source[i + 1];
+
+    if (char === '\\') {
+      // Line continuation joins lines; any other escape makes the next char literal
+      if (next !== '\n' && next !== undefined) append(next, true);
+      i += 2;
+      continue;
+    }
+
+    if (char === "'") {
+      const end = source.indexOf("'", i + 1);
+      if (end === -1) complete = false;
+      append(source.slice(i + 1, end === -1 ? undefined : end), true);
+      i = end === -1 ? source.length : end + 1;
+      continue;
+    }
+
+    if (char === '"') {
+      const quoted = readDoubleQuoted(source, i + 1, '"');
+      if (!quoted.closed) complete = false;
+      append(quoted.text, true, quoted.dynamic, quoted.substitutions);
+      i = quoted.end;
+      continue;
+    }
+
+    if (char === '$' || char === '`') {
+      const expansion = readExpansion(source, i, false);
+      if (expansion) {
+        if (!expansion.closed) complete = false;
+        append(expansion.text, expansion.quoted, expansion.dynamic, expansion.substitutions);
+        i = expansion.end;
+        continue;
+      }
+      append(char, false);
+      i++;
+      continue;
+    }
+
+    if (char === ' ' || char === '\t' || char === '\r') {
+      flush();
+      i++;
+      continue;
+    }
+
+    if (char === '\n') {
+      flush();
+      tokens.push({ kind: 'operator', op: '\n', start: i, end: i + 1 });
+      i = readHeredocBodies(i + 1);
+      continue;
+    }
+
+    if (char === '#' && !word.started) {
+      const lineEnd = source.indexOf('\n', i);
+      i = lineEnd === -1 ? source.length : lineEnd;
+      continue;
+    }
+
+    // Process substitution: <(cmd) / >(cmd)
+    if ((char === '<' || char === '>') && next === '(') {
+      const end = findClosing(source, i + 2, '(', ')');
+      if (end === -1) complete = false;
+      const body = source.slice(i + 2, end === -1 ? undefined : end);
+      append(source.slice(i, end === -1 ? undefined : end + 1), false, true, [body]);
+      i = end === -1 ? source.length : end + 1;
+      continue;
+    }
+
+    const redirectOp = REDIRECT_OPS.find(op => source.startsWith(op, i));
+    if (redirectOp) {
+      let fd: number | null = null;
+      let start = i;
+      if (word.started && !word.quoted && /^\d+$/.test(word.text) && redirectOp[0] !== '&') {
+        fd = Number(word.text);
+        start = word.start;
+        word = emptyWord();
+      } else {
+        flush();
+      }
+      const token: Extract<Token, { kind: 'redirect' }> = {
+        kind: 'redirect',
+        start,
+        end: i + redirectOp.length,
+        redirect: { op: redirectOp, fd, target: '' },
+        substitutions: [],
+      };
+      tokens.push(token);
+      if (redirectOp === '<<' || redirectOp === '<<-') {
+        awaitingDelimiter = token;
+      }
+      i += redirectOp.length;
+      continue;
+    }
+
+    const controlOp = CONTROL_OPS.find(op => source.startsWith(op, i));
+    if (controlOp) {
+      flush();
+      tokens.push({ kind: 'operator', op: controlOp, start: i, end: i + controlOp.length });
+      i += controlOp.length;
+      continue;
+    }
+
+    append(char, false);
+    i++;
+  }
+
+  flush();
+  if (awaitingDelimiter || pendingHeredocs.length > 0) {
+    complete = false;
+  }
+
+  return { tokens, complete };
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+/** Keywords that only structure control flow; the commands inside still run */
+const STRUCTURAL_WORDS = new Set(['if', 'then', 'else', 'elif', 'fi', 'do', 'done', 'while', 'until', '!', '{', '}']);
+/** Loop headers (`for x in ...; do`) are skipped up to the separator */
+const LOOP_WORDS = new Set(['for', 'select']);
+/** Constructs the parser does not model; their presence makes the parse incomplete */
+const UNSUPPORTED_WORDS = new Set(['case', 'esac', 'function', 'coproc']);
+const ASSIGNMENT_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*(?:\[[^\]]*\])?\+?=/;
+
+function commandName(word: string | undefined): string {
+  if (!word) return '';
+  return word.slice(word.lastIndexOf('/') + 1);
+}
+
+function newCommand(pipeline: number): ShellCommand {
+  return {
+    argv: [],
+    dynamic: [],
+    name: '',
+    assignments: [],
+    redirects: [],
+    substitutions: [],
+    pipeline,
+    background: false,
+    via: [],
+    text: '',
+  };
+}
+
+/**
+ * Parse a command string into simple commands, without unwrapping.
+ *
+ * Control-flow keywords are dropped and the commands inside them kept, so
+ * `if test -f x; then rm x; fi` yields `test` and `rm`.
+ */
+export function parseShellCommand(source: string): ShellScript {
+  const input = source.length > MAX_SCRIPT_LENGTH ? source.slice(0, MAX_SCRIPT_LENGTH) : source;
+  const lexed = tokenize(input);
+  let complete = lexed.complete && source.length <= MAX_SCRIPT_LENGTH;
+
+  const commands: ShellCommand[] = [];
+  let pipeline = 0;
+  let current = newCommand(pipeline);
+  let currentStart = -1;
+  let currentEnd = -1;
+  let inLoopHeader = false;
+
+  const extend = (token: Token): void => {
+    if (currentStart === -1) currentStart = token.start;
+    currentEnd = token.end;
+  };
+
+  const finish = (): void => {
+    if (current.argv.length > 0 || current.assignments.length > 0 || current.redirects.length > 0 || current.substitutions.length > 0) {
+      current.name = commandName(current.argv[0]);
+      current.text = currentStart === -1 ? '' : input.slice(currentStart, currentEnd);
+      commands.push(current);
+    }
+    current = newCommand(pipeline);
+    currentStart = -1;
+    currentEnd = -1;
+  };
+
+  const { tokens } = lexed;
+  for (let t = 0; t < tokens.length; t++) {
+    const token = tokens[t];
+
+    if (token.kind === 'operator') {
+      if (inLoopHeader) {
+        if (token.op === '(') complete = false;
+        if (token.op === ';' || token.op === '\n') inLoopHeader = false;
+      }
+      // name() { ... } defines a function whose later calls we cannot see
+      if (token.op === '(' && current.argv.length > 0) {
+        complete = false;
+      }
+      const isPipe = token.op === '|' || token.op === '|&';
+      if (token.op === '&') {
+        current.background = true;
+        for (const command of commands) {
+          if (command.pipeline === pipeline) command.background = true;
+        }
+      }
+      finish();
+      if (!isPipe) {
+        pipeline++;
+        current.pipeline = pipeline;
+      }
+      continue;
+    }
+
+    if (token.kind === 'redirect') {
+      const target = tokens[t + 1];
+      if (target?.kind !== 'word') {
+        complete = false;
+        continue;
+      }
+      token.redirect.target = target.text;
+      extend(token);
+      extend(target);
+      current.redirects.push(token.redirect);
+      current.substitutions.push(...target.substitutions, ...token.substitutions);
+      t++;
+      continue;
+    }
+
+    current.substitutions.push(...token.substitutions);
+
+    if (inLoopHeader) {
+      continue;
+    }
+
+    if (current.argv.length === 0 && token.literalStart) {
+      if (!token.quoted && STRUCTURAL_WORDS.has(token.text)) continue;
+      if (!token.quoted && LOOP_WORDS.has(token.text)) {
+        inLoopHeader = true;
+        continue;
+      }
+      if (!token.quoted && UNSUPPORTED_WORDS.has(token.text)) {
+        complete = false;
+        continue;
+      }
+      if (ASSIGNMENT_PATTERN.test(token.text)) {
+        extend(token);
+        current.assignments.push(token.text);
+        continue;
+      }
+    }
+
+    extend(token);
+    current.argv.push(token.text);
+    current.dynamic.push(token.dynamic);
+  }
+  finish();
+
+  return { commands, complete };
+}
+
+// ============================================================================
+// Unwrapping (nested command strings, wrappers, find -exec)
+// ============================================================================
+
+const SHELL_NAMES = new Set(['sh', 'bash', 'zsh', 'dash', 'ksh', 'ash', 'mksh']);
+const HEREDOC_OPS = new Set(['<<', '<<-', '<<<']);
+
+interface WrapperSpec {
+  /** Options that consume the following argument */
+  valueOptions: string[];
+  /** Options after which no command follows (e.g. `command -v`) */
+  noCommandOptions?: string[];
+  /** Options whose value is itself a command string (`env -S`) */
+  scriptOptions?: string[];
+  /** NAME=value words may precede the command (`env`) */
+  assignments?: boolean;
+  /** Operands consumed before the command (`timeout 10 cmd`) */
+  leadingOperands?: number;
+  /** Command run when none is given (`xargs` defaults to echo) */
+  defaultCommand?: string;
+}
+
+/** Commands that run another command given as their arguments */
+const WRAPPER_SPECS: Record<string, WrapperSpec> = {
+  sudo: {
+    valueOptions: ['-u', '-g', '-p', '-C', '-D', '-r', '-t', '-U', '-T', '--user', '--group', '--host', '--prompt', '--chdir', '--role', '--type', '--other-user', '--close-from', '--command-timeout'],
+    noCommandOptions: ['-e', '-l', '-v', '-k', '-K', '-V', '--edit', '--list', '--validate', '--reset-timestamp', '--remove-timestamp', '--version'],
+  },
+  doas: { valueOptions: ['-u', '-C'] },
+  env: { valueOptions: ['-u', '-C', '--unset', '--chdir'], scriptOptions: ['-S', '--split-string'], assignments: true },
+  nice: { valueOptions: ['-n', '--adjustment'] },
+  nohup: { valueOptions: [] },
+  time: { valueOptions: ['-f', '-o', '--format', '--output'] },
+  timeout: { valueOptions: ['-s', '-k', '--signal', '--kill-after'], leadingOperands: 1 },
+  stdbuf: { valueOptions: ['-i', '-o', '-e', '--input', '--output', '--error'] },
+  ionice: { valueOptions: ['-c', '-n', '-p', '-P', '-u', '--class', '--classdata'] },
+  command: { valueOptions: [], noCommandOptions: ['-v', '-V'] },
+  builtin: { valueOptions: [] },
+  exec: { valueOptions: ['-a'] },
+  xargs: {
+    valueOptions: ['-I', '-L', '-n', '-P', '-d', '-E', '-s', '-a', '--max-args', '--max-procs', '--delimiter', '--eof', '--arg-file', '--max-lines', '--max-chars', '--process-slot-var'],
+    defaultCommand: 'echo',
+  },
+};
+
+type Unwrapped =
+  | { label: string; argv: string[]; dynamic: boolean[]; assignments?: string[] }
+  | { label: string; script: string };
+
+function optionTakesValue(arg: string, valueOptions: readonly string[]): boolean {
+  if (arg.startsWith('--')) {
+    return !arg.includes('=') && valueOptions.includes(arg);
+  }
+  // Short clusters: `-Eu root` takes a value, `-uroot` has it attached
+  for (let k = 1; k < arg.length; k++) {
+    if (valueOptions.includes(`-${arg[k]}`)) return k === arg.length - 1;
+  }
+  return false;
+}
+
+function unwrapWrapper(command: ShellCommand, spec: WrapperSpec): Unwrapped | null {
+  const { argv, dynamic } = command;
+  let i = 1;
+
+  while (i < argv.length) {
+    const arg = argv[i];
+    if (arg === '--') {
+      i++;
+      break;
+    }
+    if (arg === '-' && spec.assignments) {
+      i++;
+      continue;
+    }
+    if (!arg.startsWith('-') || arg === '-') break;
+    if (spec.noCommandOptions?.includes(arg)) return null;
+
+    const scriptOption = spec.scriptOptions?.find(opt => arg === opt || arg.startsWith(opt.startsWith('--') ? `${opt}=` : opt));
+    if (scriptOption) {
+      const attached = arg.slice(scriptOption.length).replace(/^=/, '');
+      const script = attached ? [attached, ...argv.slice(i + 1)] : argv.slice(i + 1);
+      return { label: `${command.name} ${scriptOption}`, script: script.join(' ') };
+    }
+
+    i += optionTakesValue(arg, spec.valueOptions) ? 2 : 1;
+  }
+
+  // `env NAME=value cmd` sets NAME for cmd, like a prefix assignment
+  const assignments: string[] = [];
+  if (spec.assignments) {
+    while (i < argv.length && ASSIGNMENT_PATTERN.test(argv[i])) assignments.push(argv[i++]);
+  }
+  i += spec.leadingOperands ?? 0;
+
+  if (i >= argv.length) {
+    return spec.defaultCommand
+      ? { label: command.name, argv: [spec.defaultCommand], dynamic: [false] }
+      : null;
+  }
+  return { label: command.name, argv: argv.slice(i), dynamic: dynamic.slice(i), assignments };
+}
+
+function unwrapShell(command: ShellCommand): Unwrapped | null {
+  const { argv } = command;
+  let hasCommandString = false;
+  let i = 1;
+
+  for (; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--' || arg === '-') {
+      i++;
+      break;
+    }
+    if (['-o', '+o', '-O', '+O', '--rcfile', '--init-file'].includes(arg)) {
+      i++;
+      continue;
+    }
+    if (arg.startsWith('--')) continue;
+    if (!/^[-+]/.test(arg)) break;
+    if (arg[0] === '-' && arg.includes('c')) hasCommandString = true;
+  }
+
+  if (hasCommandString) {
+    return i < argv.length ? { label: `${command.name} -c`, script: argv[i] } : null;
+  }
+
+  // No script file: the shell reads its program from stdin
+  if (i >= argv.length) {
+    const heredoc = command.redirects.find(r => HEREDOC_OPS.has(r.op));
+    if (heredoc) {
+      return { label: `${command.name} <<`, script: heredoc.op === '<<<' ? heredoc.target : heredoc.heredoc ?? '' };
+    }
+  }
+  return null;
+}
+
+function unwrapCommand(command: ShellCommand): Unwrapped | null {
+  if (command.argv.length === 0 || command.dynamic[0]) return null;
+
+  if (SHELL_NAMES.has(command.name)) {
+    return unwrapShell(command);
+  }
+  if (command.name === 'eval' && command.argv.length > 1) {
+    return { label: 'eval', script: command.argv.slice(1).join(' ') };
+  }
+  const spec = WRAPPER_SPECS[command.name];
+  return spec ? unwrapWrapper(command, spec) : null;
+}
+
+/**
+ * Commands run by `find -exec/-execdir/-ok/-okdir ... ;|+`.
+ */
+function getFindExecCommands(command: ShellCommand): Array<{ argv: string[]; dynamic: boolean[] }> {
+  if (command.name !== 'find') return [];
+
+  const found: Array<{ argv: string[]; dynamic: boolean[] }> = [];
+  const { argv, dynamic } = command;
+  for (let i = 1; i < argv.length; i++) {
+    if (!['-exec', '-execdir', '-ok', '-okdir'].includes(argv[i])) continue;
+
+    let end = i + 1;
+    while (end < argv.length && argv[end] !== ';' && !(argv[end] === '+' && argv[end - 1] === '{}')) {
+      end++;
+    }
+    if (end > i + 1) {
+      found.push({ argv: argv.slice(i + 1, end), dynamic: dynamic.slice(i + 1, end) });
+    }
+    i = end;
+  }
+  return found;
+}
+
+interface CollectState {
+  complete: boolean;
+  nextPipeline: number;
+}
+
+function collectInto(source: string, via: string[], depth: number, state: CollectState, out: ShellCommand[]): void {
+  if (depth > MAX_NESTING_DEPTH) {
+    state.complete = false;
+    return;
+  }
+
+  const script = parseShellCommand(source);
+  if (!script.complete) state.complete = false;
+
+  // Reserve this script's pipeline ids before nested scripts claim theirs
+  const offset = state.nextPipeline;
+  state.nextPipeline += Math.max(0, ...script.commands.map(command => command.pipeline + 1));
+  for (const command of script.commands) {
+    expandCommand({ ...command, pipeline: offset + command.pipeline, via }, depth, state, out);
+  }
+}
+
+function expandCommand(command: ShellCommand, depth: number, state: CollectState, out: ShellCommand[]): void {
+  for (const substitution of command.substitutions) {
+    collectInto(substitution, [...command.via, 'substitution'], depth + 1, state, out);
+  }
+
+  let current = command;
+  for (let hop = 0; hop < MAX_WRAPPER_HOPS; hop++) {
+    const unwrapped = unwrapCommand(current);
+    if (!unwrapped) break;
+
+    if ('script' in unwrapped) {
+      // The nested script inherits the outer command's environment, redirects and backgrounding
+      const nested: ShellCommand[] = [];
+      collectInto(unwrapped.script, [...current.via, unwrapped.label], depth + 1, state, nested);
+      const inherited = current.redirects.filter(r => !HEREDOC_OPS.has(r.op));
+      for (const inner of nested) {
+        out.push({
+          ...inner,
+          assignments: [...current.assignments, ...inner.assignments],
+          redirects: [...inner.redirects, ...inherited],
+          background: inner.background || current.background,
+        });
+      }
+      return;
+    }
+
+    current = {
+      ...current,
+      argv: unwrapped.argv,
+      dynamic: unwrapped.dynamic,
+      name: commandName(unwrapped.argv[0]),
+      assignments: [...current.assignments, ...(unwrapped.assignments ?? [])],
+      via: [...current.via, unwrapped.label],
+    };
+  }
+
+  out.push(current);
+
+  for (const exec of getFindExecCommands(current)) {
+    expandCommand(
+      {
+        ...newCommand(current.pipeline),
+        argv: exec.argv,
+        dynamic: exec.dynamic,
+        name: commandName(exec.argv[0]),
+        via: [...current.via, 'find -exec'],
+        text: current.text,
+      },
+      depth + 1,
+      state,
+      out
+    );
+  }
+}
+
+/**
+ * Parse a command string and flatten every command it would run.
+ *
+ * Substitutions, `bash -c` strings, `eval`, shell here-documents, wrappers
+ * (sudo, env, timeout, xargs, ...) and `find -exec` are followed recursively;
+ * each resulting command records the path in `via`.
+ */
+export function collectShellCommands(source: string): ShellScript {
+  const state: CollectState = { complete: true, nextPipeline: 0 };
+  const commands: ShellCommand[] = [];
+  collectInto(source, [], 0, state, commands);
+  return { commands, complete: state.complete };
+}
+
+// ============================================================================
+// Argument helpers
+// ============================================================================
+
+/** Git global options that consume the following argument */
+const GIT_VALUE_OPTIONS = ['-C', '-c', '--git-dir', '--work-tree', '--namespace', '--super-prefix', '--config-env'];
+
+/**
+ * Arguments of a git command starting at the subcommand, skipping global
+ * options (`git -C repo --no-pager push` → ['push']).
+ *
+ * @returns Subcommand and arguments, or null if this is not a git command
+ */
+export function getGitArgs(command: ShellCommand): string[] | null {
+  if (command.name !== 'git') return null;
+
+  let i = 1;
+  while (i < command.argv.length && command.argv[i].startsWith('-')) {
+    i += GIT_VALUE_OPTIONS.includes(command.argv[i]) ? 2 : 1;
+  }
+  return command.argv.slice(i);
+}
+
+/**
+ * Non-option arguments, honouring `--` as end of options.
+ *
+ * @param valueOptions - Options whose value is the next argument (`-n prod`), skipped with it
+ */
+export function getOperands(args: readonly string[], valueOptions: readonly string[] = []): string[] {
+  const operands: string[] = [];
+  let optionsEnded = false;
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!optionsEnded && arg === '--') {
+      optionsEnded = true;
+    } else if (optionsEnded || !arg.startsWith('-') || arg === '-') {
+      operands.push(arg);
+    } else if (valueOptions.includes(arg)) {
+      i++;
+    }
+  }
+  return operands;
+}
+
+/**
+ * Whether short-option clusters or long options include any of the given flags.
+ *
+ * @param shortFlags - Single letters matched inside clusters (`-rf` has r and f)
+ * @param longFlags - Exact long options (`--force`)
+ */
+export function hasFlag(args: readonly string[], shortFlags: string, longFlags: readonly string[] = []): boolean {
+  for (const arg of args) {
+    if (arg === '--') return false;
+    if (arg.startsWith('--')) {
+      if (longFlags.includes(arg.split('=')[0])) return true;
+    } else if (arg.startsWith('-') && [...arg.slice(1)].some(flag => shortFlags.includes(flag))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Whether a command is a shell interpreter (sh, bash, zsh, ...).
+ */
+export function isShellInterpreter(command: ShellCommand): boolean {
+  return SHELL_NAMES.has(command.name);
+}
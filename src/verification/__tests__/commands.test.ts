@@ -0,0 +1,62 @@
+import { describe, expect, test } from 'bun:test';
+import { detectVerificationSteps } from '../commands';
+
+describe('detectVerificationSteps', () => {
+  test('recognizes package manager scripts', () => {
+    expect(detectVerificationSteps('npm test')).toEqual(['test']);
+    expect(detectVerificationSteps('npm run build')).toEqual(['build']);
+    expect(detectVerificationSteps('pnpm lint')).toEqual(['lint']);
+    expect(detectVerificationSteps('bun run typecheck')).toEqual(['typecheck']);
+    expect(detectVerificationSteps('yarn run type-check')).toEqual(['typecheck']);
+  });
+
+  test('recognizes tools behind runners', () => {
+    expect(detectVerificationSteps('npx tsc --noEmit')).toEqual(['typecheck']);
+    expect(detectVerificationSteps('npx eslint src')).toEqual(['lint']);
+    expect(detectVerificationSteps('uv run pytest -q')).toEqual(['test']);
+    expect(detectVerificationSteps('python -m mypy .')).toEqual(['typecheck']);
+  });
+
+  test('recognizes compiled-language toolchains', () => {
+    expect(detectVerificationSteps('cargo test')).toEqual(['test']);
+    expect(detectVerificationSteps('cargo clippy')).toEqual(['lint', 'typecheck']);
+    expect(detectVerificationSteps('go vet ./...')).toEqual(['lint']);
+  });
+
+  test('recognizes JVM, .NET, Ruby, PHP, Elixir, Deno, and Zig tooling', () => {
+    expect(detectVerificationSteps('./mvnw -B clean test')).toEqual(['test']);
+    expect(detectVerificationSteps('mvn -B verify -DskipTests')).toEqual(['lint']);
+    expect(detectVerificationSteps('./gradlew check -x test')).toEqual(['lint']);
+    expect(detectVerificationSteps('dotnet test')).toEqual(['test']);
+    expect(detectVerificationSteps('bundle exec rspec spec/models')).toEqual(['test']);
+    expect(detectVerificationSteps('vendor/bin/phpstan analyse')).toEqual(['typecheck']);
+    expect(detectVerificationSteps('mix format --check-formatted')).toEqual(['lint']);
+    expect(detectVerificationSteps('deno task build')).toEqual(['build']);
+    expect(detectVerificationSteps('zig build test')).toEqual(['test']);
+    expect(detectVerificationSteps('make lint test')).toEqual(['lint', 'test']);
+  });
+
+  test('ignores fixers that rewrite files', () => {
+    expect(detectVerificationSteps('vendor/bin/pint')).toEqual([]);
+    expect(detectVerificationSteps('php-cs-fixer fix')).toEqual([]);
+    expect(detectVerificationSteps('mix format')).toEqual([]);
+  });
+
+  test('collects steps across chained commands', () => {
+    expect(detectVerificationSteps('npm run lint && npm test')).toEqual(['lint', 'test']);
+    expect(detectVerificationSteps('cd app && timeout 60 npm run build')).toEqual(['build']);
+  });
+
+  test('ignores commands that only mention a step', () => {
+    expect(detectVerificationSteps('echo test')).toEqual([]);
+    expect(detectVerificationSteps('cat jest.config.js')).toEqual([]);
+    expect(detectVerificationSteps('grep -r "npm test" docs')).toEqual([]);
+    expect(detectVerificationSteps('npm install')).toEqual([]);
+  });
+
+  test('ignores watch modes that never exit', () => {
+    expect(detectVerificationSteps('vitest')).toEqual([]);
+    expect(detectVerificationSteps('jest --watch')).toEqual([]);
+    expect(detectVerificationSteps('tsc -w')).toEqual([]);
+  });
+});
@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdirSync, mkdtempSync, rmSync, utimesSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { findCoverageArtifact, formatChangedLineCoverage, measureChangedLineCoverage } from '../coverage';
+
+describe('changed-line coverage', () => {
+  let projectDir = '';
+
+  const write = (path: string, content: string | object): void => {
+    const fullPath = join(projectDir, path);
+    mkdirSync(dirname(fullPath), { recursive: true });
+    writeFileSync(fullPath, typeof content === 'string' ? content : JSON.stringify(content));
+  };
+
+  const changed = new Map([
+    ['src/math.ts', [2, 3, 4, 5, 9]],
+    ['README.md', [1, 2]],
+  ]);
+
+  beforeEach(() => {
+    projectDir = mkdtempSync(join(tmpdir(), 'setu-coverage-'));
+  });
+
+  afterEach(() => {
+    rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  test('measures only changed lines the lcov report instruments', () => {
+    write(
+      'coverage/lcov.info',
+      `TN:\nSF:${join(projectDir, 'src/math.ts')}\nDA:1,1\nDA:2,4\nDA:3,0\nDA:4,0\nDA:9,1\nend_of_record\nSF:src/other.ts\nDA:2,0\nend_of_record\n`
+    );
+
+    const coverage = measureChangedLineCoverage(projectDir, 'coverage/lcov.info', changed, 80);
+    expect(coverage).toMatchObject({ granularity: 'line', covered: 2, total: 4, percent: 50, passed: false });
+    expect(coverage?.uncovered).toEqual([{ file: 'src/math.ts', lines: [3, 4] }]);
+    expect(coverage && formatChangedLineCoverage(coverage)).toBe(
+      '50% of 4 changed line(s) covered (threshold 80%, from `coverage/lcov.info`)\n- src/math.ts: 3-4'
+    );
+  });
+
+  test('reads Istanbul statement maps', () => {
+    write('coverage/coverage-final.json', {
+      [join(projectDir, 'src/math.ts')]: {
+        path: join(projectDir, 'src/math.ts'),
+        statementMap: { 0: { start: { line: 2 } }, 1: { start: { line: 3 } }, 2: { start: { line: 3 } } },
+        s: { 0: 1, 1: 0, 2: 2 },
+      },
+    });
+
+    expect(measureChangedLineCoverage(projectDir, 'coverage/coverage-final.json', changed, 100)).toMatchObject({
+      covered: 2,
+      total: 2,
+      percent: 100,
+      passed: true,
+    });
+  });
+
+  test('falls back to file totals from coverage-summary.json', () => {
+    write('coverage/coverage-summary.json', {
+      total: { lines: { total: 100, covered: 90 } },
+      [join(projectDir, 'src/math.ts')]: { lines: { total: 10, covered: 6 } },
+    });
+
+    const coverage = measureChangedLineCoverage(projectDir, 'coverage/coverage-summary.json', changed, 70);
+    expect(coverage).toMatchObject({ granularity: 'file', percent: 60, passed: false });
+    expect(coverage && formatChangedLineCoverage(coverage)).toContain('- src/math.ts: not fully covered (file totals only)');
+  });
+
+  test('resolves Cobertura class files against source roots', () => {
+    write('src/math.ts', '');
+    write(
+      'coverage.xml',
+      `<?xml version="1.0" ?>\n<coverage><sources><source>${join(projectDir, 'src')}</source></sources>` +
+        '<packages><package><classes><class name="math" filename="math.ts"><lines>' +
+        '<line number="2" hits="3"/><line hits="0" number="5"/></lines></class></classes></package></packages></coverage>'
+    );
+
+    expect(measureChangedLineCoverage(projectDir, 'coverage.xml', changed, 50)).toMatchObject({
+      covered: 1,
+      total: 2,
+      percent: 50,
+      passed: true,
+      uncovered: [{ file: 'src/math.ts', lines: [5] }],
+    });
+  });
+
+  test('maps Go cover profile import paths through go.mod', () => {
+    write('go.mod', 'module example.com/app\n');
+    write('cover.out', 'mode: set\nexample.com/app/internal/calc.go:3.20,5.2 2 1\nexample.com/app/internal/calc.go:7.2,8.3 1 0\n');
+
+    expect(
+      measureChangedLineCoverage(projectDir, 'cover.out', new Map([['internal/calc.go', [4, 8, 20]]]), 90)
+    ).toMatchObject({ covered: 1, total: 2, passed: false, uncovered: [{ file: 'internal/calc.go', lines: [8] }] });
+  });
+
+  test('passes when no changed line is measured', () => {
+    write('coverage/lcov.info', 'SF:src/other.ts\nDA:1,0\nend_of_record\n');
+
+    const coverage = measureChangedLineCoverage(projectDir, 'coverage/lcov.info', changed, 90);
+    expect(coverage).toMatchObject({ percent: null, passed: true });
+    expect(coverage && formatChangedLineCoverage(coverage)).toBe('no changed lines measured in `coverage/lcov.info`');
+  });
+
+  test('ignores artifacts older than the test run', () => {
+    write('coverage/lcov.info', '');
+    write('cover.out', 'mode: set\n');
+    const old = new Date(Date.now() - 60_000);
+    utimesSync(join(projectDir, 'coverage/lcov.info'), old, old);
+
+    expect(findCoverageArtifact(projectDir, Date.now() - 5_000)).toBe('cover.out');
+    expect(findCoverageArtifact(projectDir, Date.now() + 60_000)).toBeNull();
+  });
+});
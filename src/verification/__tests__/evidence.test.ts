@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createActiveTask, saveActiveTask } from '../../context/active';
+import {
+  checkFileEvidence,
+  formatCriteriaEvidence,
+  getUnmetCriteria,
+  loadStepEvidence,
+  parseCriterionConfirmations,
+  recordCriterionConfirmations,
+  recordCriterionEvidence,
+  type CriterionEvidence,
+} from '../evidence';
+
+describe('DONE WHEN evidence', () => {
+  let projectDir = '';
+
+  const evidence = (criterion: string, passed: boolean): CriterionEvidence => ({
+    criterion,
+    kind: 'command',
+    passed,
+    summary: passed ? 'exit 0' : 'exit 1',
+    command: 'curl -sf localhost:4000',
+    recordedAt: '2026-01-01T00:00:00.000Z',
+  });
+
+  beforeEach(() => {
+    projectDir = mkdtempSync(join(tmpdir(), 'setu-evidence-'));
+  });
+
+  afterEach(() => {
+    rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  test('keeps the latest evidence per criterion of one step', () => {
+    recordCriterionEvidence(projectDir, 2, [evidence('2.1', false), evidence('2.2', true)]);
+    recordCriterionEvidence(projectDir, 2, [evidence('2.1', true)]);
+
+    expect(loadStepEvidence(projectDir, 2).map(entry => [entry.criterion, entry.passed])).toEqual([
+      ['2.2', true],
+      ['2.1', true],
+    ]);
+    expect(loadStepEvidence(projectDir, 3)).toEqual([]);
+
+    recordCriterionEvidence(projectDir, 3, [evidence('3.1', true)]);
+    expect(loadStepEvidence(projectDir, 2)).toEqual([]);
+  });
+
+  test('lists criteria without passing evidence', () => {
+    const criteria = [
+      { id: '2.1', text: 'app shell renders' },
+      { id: '2.2', text: 'health check returns 200' },
+      { id: '2.3', text: 'docs updated' },
+    ];
+    const recorded = [evidence('2.1', true), evidence('2.2', false)];
+
+    expect(getUnmetCriteria(criteria, recorded).map(criterion => criterion.id)).toEqual(['2.2', '2.3']);
+    expect(formatCriteriaEvidence(criteria, recorded)).toBe(
+      '- [x] 2.1 app shell renders (command: `curl -sf localhost:4000` exit 0)\n' +
+        '- [ ] 2.2 health check returns 200 (command: `curl -sf localhost:4000` exit 1)\n' +
+        '- [ ] 2.3 docs updated (no evidence)'
+    );
+  });
+
+  test('asserts files inside the project', () => {
+    writeFileSync(join(projectDir, 'README.md'), '# App\n\nRun `npm start`.\n');
+
+    expect(checkFileEvidence(projectDir, '1.1', 'README.md', 'npm start')).toMatchObject({ passed: true, path: 'README.md' });
+    expect(checkFileEvidence(projectDir, '1.1', 'README.md', 'yarn')).toMatchObject({ passed: false });
+    expect(checkFileEvidence(projectDir, '1.1', 'missing.md')).toMatchObject({ passed: false, summary: 'missing.md does not exist' });
+    expect(checkFileEvidence(projectDir, '1.1', '../outside.md')).toMatchObject({ passed: false });
+  });
+
+  test('reads each criterion decision from question answers', () => {
+    const answer =
+      'User has answered your questions: "DONE WHEN 2.1: Does the page load?"="Yes - criterion met", ' +
+      '"DONE WHEN 2.2: Is the copy final?"="No - not met", "DONE WHEN 2.3: Anything else?"="Maybe"';
+
+    expect(parseCriterionConfirmations(answer).map(entry => [entry.criterion, entry.kind, entry.passed])).toEqual([
+      ['2.1', 'user', true],
+      ['2.2', 'user', false],
+    ]);
+  });
+
+  test('records confirmations only for the current step', () => {
+    mkdirSync(join(projectDir, '.setu'));
+    writeFileSync(join(projectDir, '.setu', 'PLAN.md'), '- Step 1: Scaffold\n  - Done When: page loads; copy is final\n');
+    saveActiveTask(projectDir, createActiveTask('Build app'));
+
+    const recorded = recordCriterionConfirmations(
+      projectDir,
+      '"DONE WHEN 1.2: copy final?"="Yes - criterion met" "DONE WHEN 4.1: later?"="Yes - criterion met"'
+    );
+
+    expect(recorded.map(entry => entry.criterion)).toEqual(['1.2']);
+    expect(loadStepEvidence(projectDir, 1).map(entry => entry.criterion)).toEqual(['1.2']);
+  });
+});
@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  type VerificationStepRecord,
+  formatVerificationStatus,
+  getMissingVerificationSteps,
+  getStaleVerificationSteps,
+  loadVerificationRecord,
+  recordVerificationSteps
+} from '../record';
+
+function step(name: string, exitCode: number | null, overrides: Partial<VerificationStepRecord> = {}): VerificationStepRecord {
+  return {
+    name,
+    command: `bun run ${name}`,
+    exitCode,
+    passed: exitCode === 0,
+    timedOut: false,
+    durationMs: 1200,
+    outputTail: '',
+    treeHash: 'abc123',
+    ranAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('verification record', () => {
+  let projectDir = '';
+
+  beforeEach(() => {
+    projectDir = mkdtempSync(join(tmpdir(), 'setu-verification-'));
+  });
+
+  afterEach(() => {
+    rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  test('writes steps and replaces earlier runs of the same step', () => {
+    recordVerificationSteps(projectDir, { sessionId: 's1', buildTool: 'bun', steps: [step('build', 0), step('test', 1)] });
+    recordVerificationSteps(projectDir, { sessionId: 's1', buildTool: 'bun', steps: [step('test', 0)] });
+
+    const record = loadVerificationRecord(projectDir);
+    expect(record?.steps.map(entry => [entry.name, entry.passed])).toEqual([['build', true], ['test', true]]);
+    expect(getMissingVerificationSteps(record, ['build', 'test'])).toEqual([]);
+  });
+
+  test('lists required steps without a passing run', () => {
+    recordVerificationSteps(projectDir, {
+      sessionId: 's1',
+      buildTool: 'bun',
+      steps: [step('build', 0), step('test', null, { timedOut: true })],
+    });
+
+    const record = loadVerificationRecord(projectDir);
+    expect(getMissingVerificationSteps(record, ['build', 'test', 'lint'])).toEqual(['test', 'lint']);
+    expect(formatVerificationStatus(record)).toBe('build PASS, test FAIL (timed out)');
+    expect(getMissingVerificationSteps(null, ['build'])).toEqual(['build']);
+  });
+
+  test('marks passes from another working tree as stale', () => {
+    const record = recordVerificationSteps(projectDir, {
+      sessionId: 's1',
+      buildTool: 'bun',
+      steps: [step('build', 0), step('test', 0, { treeHash: 'def456' }), step('lint', 1)],
+    });
+
+    expect(getStaleVerificationSteps(record, ['build', 'test', 'lint'], 'def456').map(entry => entry.name)).toEqual(['build']);
+    expect(getStaleVerificationSteps(record, ['build', 'test'], null)).toEqual([]);
+    expect(formatVerificationStatus(record, 'def456')).toBe('build PASS (stale), test PASS, lint FAIL (exit 1)');
+  });
+
+  test('redacts secrets from output tails', () => {
+    recordVerificationSteps(projectDir, {
+      sessionId: 's1',
+      buildTool: 'npm',
+      steps: [step('test', 1, { outputTail: 'failed with api_key=hunter2' })],
+    });
+    expect(loadVerificationRecord(projectDir)?.steps[0].outputTail).not.toContain('hunter2');
+  });
+
+  test('ignores malformed steps and unsupported versions', () => {
+    mkdirSync(join(projectDir, '.setu'));
+    const recordPath = join(projectDir, '.setu', 'verification.json');
+
+    writeFileSync(recordPath, JSON.stringify({ version: 1, steps: [{ name: 'build', passed: true }] }));
+    expect(getMissingVerificationSteps(loadVerificationRecord(projectDir), ['build'])).toEqual(['build']);
+
+    writeFileSync(recordPath, JSON.stringify({ version: 2, steps: [] }));
+    expect(loadVerificationRecord(projectDir)).toBeNull();
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, test } from 'bun:test';
+import { tmpdir } from 'os';
+import { runCommand, tailLines } from '../runner';
+
+describe('verification runner', () => {
+  const cwd = tmpdir();
+
+  test('reports exit codes and combined output', async () => {
+    const passed = await runCommand('echo out; echo err >&2', { cwd, timeoutMs: 10000 });
+    expect(passed.exitCode).toBe(0);
+    expect(passed.output).toContain('out');
+    expect(passed.output).toContain('err');
+
+    const failed = await runCommand('exit 3', { cwd, timeoutMs: 10000 });
+    expect(failed.exitCode).toBe(3);
+    expect(failed.timedOut).toBe(false);
+  });
+
+  test('runs in CI mode with extra variables', async () => {
+    const result = await runCommand('echo "$CI $SETU_TEST_VALUE"', { cwd, timeoutMs: 10000, env: { SETU_TEST_VALUE: 'x' } });
+    expect(result.output.trim()).toBe('true x');
+  });
+
+  test('kills commands that exceed the timeout', async () => {
+    const result = await runCommand('sleep 5', { cwd, timeoutMs: 200 });
+    expect(result.timedOut).toBe(true);
+    expect(result.exitCode).toBeNull();
+    expect(result.durationMs).toBeLessThan(4000);
+  });
+
+  test('keeps only the tail of large output', async () => {
+    const result = await runCommand('seq 1 20000', { cwd, timeoutMs: 10000, maxOutputBytes: 1024 });
+    expect(result.truncated).toBe(true);
+    expect(result.output.length).toBeLessThanOrEqual(1024);
+    expect(result.output.trim().endsWith('20000')).toBe(true);
+  });
+
+  test('tailLines limits lines and characters', () => {
+    expect(tailLines('a\nb\nc\n\n', 2, 100)).toBe('b\nc');
+    expect(tailLines('abcdef', 5, 3)).toBe('def');
+  });
+});
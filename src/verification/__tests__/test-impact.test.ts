@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { execFileSync } from 'child_process';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { buildImpactedTestCommand, isTestFile, selectImpactedTests } from '../test-impact';
+
+describe('test impact', () => {
+  let projectDir = '';
+
+  const write = (path: string, content = ''): void => {
+    const fullPath = join(projectDir, path);
+    mkdirSync(dirname(fullPath), { recursive: true });
+    writeFileSync(fullPath, content);
+  };
+
+  const select = (changedFiles: string[]): string[] | undefined => selectImpactedTests(projectDir, changedFiles)?.tests;
+
+  beforeEach(() => {
+    projectDir = mkdtempSync(join(tmpdir(), 'setu-test-impact-'));
+    execFileSync('git', ['init', '-q'], { cwd: projectDir });
+  });
+
+  afterEach(() => {
+    rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  test('recognizes test files by name', () => {
+    expect(isTestFile('src/foo.test.ts')).toBe(true);
+    expect(isTestFile('src/__tests__/foo.ts')).toBe(true);
+    expect(isTestFile('tests/test_foo.py')).toBe(true);
+    expect(isTestFile('pkg/foo_test.go')).toBe(true);
+    expect(isTestFile('spec/models/user_spec.rb')).toBe(true);
+    expect(isTestFile('src/test/java/FooTest.java')).toBe(true);
+    expect(isTestFile('src/foo.ts')).toBe(false);
+    expect(isTestFile('src/testing.ts')).toBe(false);
+  });
+
+  test('pairs sources with tests by naming convention', () => {
+    write('src/parser.ts');
+    write('src/__tests__/parser.test.ts');
+    write('src/lexer.ts');
+    write('src/lexer.spec.ts');
+    write('src/index.ts');
+    write('src/__tests__/index.test.ts');
+
+    expect(select(['src/parser.ts'])).toEqual(['src/__tests__/parser.test.ts']);
+    // Generic stems need an import to count
+    expect(select(['src/index.ts'])).toEqual([]);
+  });
+
+  test('follows JS/TS imports transitively from tests to changed files', () => {
+    write('src/tokens.ts', 'export const TOKENS = [];\n');
+    write('src/lexer.ts', "import { TOKENS } from './tokens.js';\nexport const lex = () => TOKENS;\n");
+    write('src/render.ts', "const { lex } = require('./lexer');\n");
+    write('test/render.check.test.ts', "import '../src/render';\n");
+    write('test/unrelated.test.ts', "import { x } from 'tokens';\n");
+
+    expect(select(['src/tokens.ts'])).toEqual(['test/render.check.test.ts']);
+  });
+
+  test('resolves directory index imports and selects changed tests', () => {
+    write('src/db/index.ts', 'export const db = {};\n');
+    write('src/api.test.ts', "import { db } from './db';\n");
+    write('src/other.test.ts');
+
+    expect(select(['src/db/index.ts', 'src/other.test.ts'])).toEqual(['src/api.test.ts', 'src/other.test.ts']);
+  });
+
+  test('follows Python module imports', () => {
+    write('src/shop/__init__.py');
+    write('src/shop/cart.py', 'from .pricing import total\n');
+    write('src/shop/pricing.py', 'def total(): pass\n');
+    write('tests/test_cart.py', 'from shop import cart\n');
+    write('tests/test_misc.py', 'import os\n');
+
+    expect(select(['src/shop/pricing.py'])).toEqual(['tests/test_cart.py']);
+  });
+
+  test('follows Go package imports within the module', () => {
+    write('go.mod', 'module example.com/app\n\ngo 1.22\n');
+    write('internal/money/money.go', 'package money\n');
+    write('internal/money/money_test.go', 'package money\n');
+    write('api/handler.go', 'package api\n\nimport (\n\t"fmt"\n\t"example.com/app/internal/money"\n)\n');
+    write('api/handler_test.go', 'package api\n');
+    write('cmd/tool_test.go', 'package main\n');
+
+    expect(select(['internal/money/money.go'])).toEqual(['api/handler_test.go', 'internal/money/money_test.go']);
+  });
+
+  test('skips git-ignored files and returns null outside git', () => {
+    write('.gitignore', 'dist/\n');
+    write('src/app.ts');
+    write('dist/app.test.js', "require('../src/app');\n");
+    expect(select(['src/app.ts'])).toEqual([]);
+
+    const plainDir = mkdtempSync(join(tmpdir(), 'setu-no-git-'));
+    try {
+      expect(selectImpactedTests(plainDir, ['a.ts'])).toBeNull();
+    } finally {
+      rmSync(plainDir, { recursive: true, force: true });
+    }
+  });
+
+  test('builds runner commands for the selected files', () => {
+    const tests = ['src/a.test.ts', "src/it's.test.ts"];
+
+    expect(buildImpactedTestCommand({ buildTool: 'pnpm', testRunner: 'vitest' }, tests)).toBe(
+      "pnpm exec vitest run src/a.test.ts 'src/it'\\''s.test.ts'"
+    );
+    expect(buildImpactedTestCommand({ buildTool: 'npm', testRunner: 'jest' }, ['a.test.js'])).toBe('npx jest a.test.js');
+    expect(buildImpactedTestCommand({ buildTool: 'bun', testRunner: 'bun' }, ['src/a.test.ts'])).toBe('bun test ./src/a.test.ts');
+    expect(buildImpactedTestCommand({ buildTool: 'uv', testRunner: 'pytest' }, ['tests/test_a.py'])).toBe(
+      'uv run pytest tests/test_a.py'
+    );
+    expect(buildImpactedTestCommand({ buildTool: 'go', testRunner: 'go' }, ['api/a_test.go', 'api/b_test.go'])).toBe(
+      'go test ./api'
+    );
+    expect(buildImpactedTestCommand({ buildTool: 'cargo', testRunner: 'cargo' }, ['tests/a.rs'])).toBeNull();
+    expect(buildImpactedTestCommand({ buildTool: 'npm', testRunner: 'vitest' }, [])).toBeNull();
+  });
+});
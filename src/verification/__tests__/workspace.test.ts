@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { detectWorkspace, getAffectedPackages, getScopedCommand } from '../workspace';
+
+describe('workspace layouts', () => {
+  let projectDir = '';
+
+  const write = (path: string, content: string | object): void => {
+    const fullPath = join(projectDir, path);
+    mkdirSync(dirname(fullPath), { recursive: true });
+    writeFileSync(fullPath, typeof content === 'string' ? content : JSON.stringify(content));
+  };
+
+  const names = (packages: Array<{ name: string }> | null): string[] | null =>
+    packages ? packages.map(pkg => pkg.name) : null;
+
+  beforeEach(() => {
+    projectDir = mkdtempSync(join(tmpdir(), 'setu-workspace-'));
+  });
+
+  afterEach(() => {
+    rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  describe('JS workspaces', () => {
+    beforeEach(() => {
+      write('package.json', { name: 'root', private: true });
+      write('pnpm-workspace.yaml', "packages:\n  - 'packages/*'\n  - '!packages/ignored'\n");
+      write('packages/core/package.json', { name: '@acme/core', scripts: { build: 'tsc', test: 'vitest run' } });
+      write('packages/web/package.json', {
+        name: '@acme/web',
+        dependencies: { '@acme/core': 'workspace:*', react: '^19.0.0' },
+        scripts: { build: 'vite build' },
+      });
+      write('packages/docs/package.json', { name: '@acme/docs', scripts: { build: 'astro build' } });
+      write('packages/ignored/package.json', { name: 'ignored' });
+    });
+
+    test('reads members and workspace dependencies', () => {
+      const layout = detectWorkspace(projectDir, 'pnpm');
+
+      expect(layout?.kind).toBe('pnpm');
+      expect(layout?.packages.map(pkg => [pkg.name, pkg.dir, pkg.dependencies])).toEqual([
+        ['@acme/core', 'packages/core', []],
+        ['@acme/docs', 'packages/docs', []],
+        ['@acme/web', 'packages/web', ['@acme/core']],
+      ]);
+    });
+
+    test('maps changed files to packages and their dependents', () => {
+      const layout = detectWorkspace(projectDir, 'pnpm');
+      if (!layout) throw new Error('expected a workspace');
+
+      expect(names(getAffectedPackages(layout, ['packages/core/src/index.ts']))).toEqual(['@acme/core', '@acme/web']);
+      expect(names(getAffectedPackages(layout, ['packages/docs/README.md']))).toEqual(['@acme/docs']);
+      // Root files can affect every package
+      expect(getAffectedPackages(layout, ['packages/docs/README.md', 'pnpm-lock.yaml'])).toBeNull();
+    });
+
+    test('scopes commands to packages that define the script', () => {
+      const layout = detectWorkspace(projectDir, 'pnpm');
+      if (!layout) throw new Error('expected a workspace');
+      const affected = getAffectedPackages(layout, ['packages/core/src/index.ts']) ?? [];
+
+      expect(getScopedCommand(layout, 'build', affected)).toBe('pnpm --filter @acme/core --filter @acme/web run build');
+      expect(getScopedCommand(layout, 'test', affected)).toBe('pnpm --filter @acme/core run test');
+      expect(getScopedCommand(layout, 'lint', affected)).toBeNull();
+      expect(getScopedCommand({ ...layout, kind: 'npm' }, 'test', affected)).toBe('npm run test --workspace=@acme/core');
+      expect(getScopedCommand({ ...layout, kind: 'yarn' }, 'build', affected)).toBe(
+        'yarn workspace @acme/core run build && yarn workspace @acme/web run build'
+      );
+    });
+
+    test('hands task selection to Turborepo when configured', () => {
+      write('turbo.json', { tasks: { build: {}, 'web#test': {} } });
+      const layout = detectWorkspace(projectDir, 'pnpm');
+      if (!layout) throw new Error('expected a workspace');
+      const affected = getAffectedPackages(layout, ['packages/core/a.ts']) ?? [];
+
+      expect(layout.orchestrator).toBe('turbo');
+      expect(getScopedCommand(layout, 'build', affected)).toBe('pnpm exec turbo run build --filter=@acme/core --filter=@acme/web');
+      expect(getScopedCommand(layout, 'lint', affected)).toBeNull();
+    });
+
+    test('reads package.json workspaces and refuses unsafe names', () => {
+      rmSync(join(projectDir, 'pnpm-workspace.yaml'));
+      write('package.json', { name: 'root', private: true, workspaces: { packages: ['packages/core'] } });
+      write('packages/core/package.json', { name: 'core;rm -rf ~', scripts: { build: 'tsc' } });
+      const layout = detectWorkspace(projectDir, 'yarn');
+      if (!layout) throw new Error('expected a workspace');
+
+      expect(layout.kind).toBe('yarn');
+      expect(getScopedCommand(layout, 'build', layout.packages)).toBeNull();
+    });
+
+    test('treats projects without workspaces as single packages', () => {
+      rmSync(join(projectDir, 'pnpm-workspace.yaml'));
+      expect(detectWorkspace(projectDir, 'pnpm')).toBeNull();
+    });
+  });
+
+  test('reads Cargo workspace members and path dependencies', () => {
+    write('Cargo.toml', '[workspace]\nmembers = [\n  "crates/*",\n]\nexclude = ["crates/scratch"]\n');
+    write('crates/parser/Cargo.toml', '[package]\nname = "parser"\nversion = "0.1.0"\n');
+    write('crates/cli/Cargo.toml', '[package]\nname = "cli"\n\n[dependencies]\nparser = { path = "../parser" }\nserde = "1"\n');
+    write('crates/scratch/Cargo.toml', '[package]\nname = "scratch"\n');
+    const layout = detectWorkspace(projectDir, 'cargo');
+    if (!layout) throw new Error('expected a workspace');
+
+    expect(layout.packages.map(pkg => [pkg.name, pkg.dependencies])).toEqual([['cli', ['parser']], ['parser', []]]);
+    const affected = getAffectedPackages(layout, ['crates/parser/src/lib.rs']) ?? [];
+    expect(getScopedCommand(layout, 'test', affected)).toBe('cargo test -p cli -p parser');
+    expect(getScopedCommand(layout, 'lint', affected)).toBe('cargo clippy -p cli -p parser -- -D warnings');
+  });
+
+  test('reads go.work modules', () => {
+    write('go.work', 'go 1.22\n\nuse (\n\t./api\n\t./shared // common code\n)\n');
+    write('api/go.mod', 'module example.com/api\n\nrequire (\n\texample.com/shared v0.0.0\n\tgithub.com/google/uuid v1.6.0\n)\n');
+    write('shared/go.mod', 'module example.com/shared\n');
+    const layout = detectWorkspace(projectDir, 'go');
+    if (!layout) throw new Error('expected a workspace');
+
+    const affected = getAffectedPackages(layout, ['shared/strings.go']) ?? [];
+    expect(names(affected)).toEqual(['example.com/api', 'example.com/shared']);
+    expect(getScopedCommand(layout, 'test', affected)).toBe('go test ./api/... ./shared/...');
+  });
+});
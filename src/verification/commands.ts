@@ -0,0 +1,169 @@
+/**
+ * Verification command recognition
+ *
+ * Maps a bash command to the verification steps it runs, from the parsed
+ * command words rather than from output text: `npm test` is a test run,
+ * `echo test` and `cat jest.config.js` are not.
+ */
+
+import type { VerificationStepName } from '../config/setu-config';
+import { collectShellCommands, hasFlag, type ShellCommand } from '../utils/shell-parser';
+
+const PACKAGE_MANAGERS = new Set(['npm', 'pnpm', 'yarn', 'bun']);
+
+/** Package scripts that count as each step (`npm run <script>`) */
+const SCRIPT_STEPS: Record<string, VerificationStepName> = {
+  build: 'build',
+  test: 'test',
+  lint: 'lint',
+  typecheck: 'typecheck',
+  'type-check': 'typecheck',
+  'check-types': 'typecheck',
+};
+
+/** Make/just targets that count as each step */
+const TASK_STEPS: Record<string, VerificationStepName> = {
+  ...SCRIPT_STEPS,
+  all: 'build',
+  check: 'test',
+};
+
+/** Runners that execute the next words as a tool: `npx eslint`, `uv run pytest` */
+function stripRunner(words: string[]): string[] {
+  const [first, second] = words;
+  if (first === 'npx' || first === 'bunx') return words.slice(1);
+  if (first === 'bundle' && second === 'exec') return words.slice(2);
+  if ((first === 'pnpm' && (second === 'exec' || second === 'dlx')) || (first === 'yarn' && second === 'exec')) {
+    return words.slice(2);
+  }
+  if ((first === 'uv' || first === 'poetry' || first === 'pdm') && second === 'run') return stripRunner(words.slice(2));
+  if (/^python3?$/.test(first ?? '') && second === '-m') return words.slice(2);
+  return words;
+}
+
+function packageScriptStep(words: string[]): VerificationStepName | null {
+  const [manager, subcommand, script] = words;
+  if (!PACKAGE_MANAGERS.has(manager)) return null;
+
+  // `npm test`, `bun test` and `pnpm build` run without `run`
+  if (subcommand === 'test' || subcommand === 't') return 'test';
+  if (subcommand === 'run' || subcommand === 'run-script') return SCRIPT_STEPS[script ?? ''] ?? null;
+  // `bun build` is Bun's bundler; yarn/pnpm run scripts without `run`
+  if (manager !== 'npm') return SCRIPT_STEPS[subcommand ?? ''] ?? null;
+  return null;
+}
+
+/** Steps named by build tool goals/targets (`mvn clean test`, `make lint test`) */
+function goalSteps(goals: string[], mapping: Record<string, VerificationStepName>): VerificationStepName[] {
+  return Array.from(new Set(goals.map(goal => mapping[goal]).filter((step): step is VerificationStepName => !!step)));
+}
+
+function toolSteps(words: string[], argv: readonly string[]): VerificationStepName[] {
+  const [tool, subcommand] = words;
+  switch (tool) {
+    case 'tsc':
+      return hasFlag(argv, '', ['--noEmit']) ? ['typecheck'] : hasFlag(argv, 'w', ['--watch']) ? [] : ['build'];
+    case 'vitest':
+      return subcommand === 'run' || hasFlag(argv, '', ['--run']) ? ['test'] : [];
+    case 'jest':
+    case 'pytest':
+    case 'mocha':
+    case 'phpunit':
+    case 'pest':
+    case 'rspec':
+      return hasFlag(argv, '', ['--watch', '--watchAll']) ? [] : ['test'];
+    case 'eslint':
+    case 'flake8':
+    case 'golangci-lint':
+    case 'rubocop':
+    case 'phpcs':
+      return ['lint'];
+    case 'pint':
+      return hasFlag(argv, '', ['--test']) ? ['lint'] : [];
+    case 'php-cs-fixer':
+      return subcommand === 'fix' && hasFlag(argv, '', ['--dry-run']) ? ['lint'] : [];
+    case 'biome':
+    case 'ruff':
+      return subcommand === 'check' || subcommand === 'lint' ? ['lint'] : [];
+    case 'mypy':
+    case 'pyright':
+    case 'phpstan':
+    case 'psalm':
+      return ['typecheck'];
+    case 'cargo':
+      if (subcommand === 'build') return ['build'];
+      if (subcommand === 'test') return ['test'];
+      if (subcommand === 'check') return ['typecheck'];
+      // clippy type-checks and lints
+      if (subcommand === 'clippy') return ['lint', 'typecheck'];
+      return [];
+    case 'go':
+      if (subcommand === 'build') return ['build'];
+      if (subcommand === 'test') return ['test'];
+      if (subcommand === 'vet') return ['lint'];
+      return [];
+    case 'mvn':
+    case 'mvnw':
+      return goalSteps(words.slice(1), {
+        compile: 'build',
+        package: 'build',
+        install: 'build',
+        test: 'test',
+        verify: argv.some(arg => /^-DskipTests(?:=true)?$/.test(arg)) ? 'lint' : 'test',
+      });
+    case 'gradle':
+    case 'gradlew': {
+      // `-x test` excludes a task rather than naming one
+      const excludes = words.includes('-x') || words.includes('--exclude-task');
+      const tasks = words.slice(1).filter((_word, i, all) => all[i - 1] !== '-x' && all[i - 1] !== '--exclude-task');
+      return goalSteps(tasks, { assemble: 'build', build: 'build', test: 'test', check: excludes ? 'lint' : 'test' });
+    }
+    case 'dotnet':
+      if (subcommand === 'build') return ['build'];
+      if (subcommand === 'test') return ['test'];
+      return subcommand === 'format' && hasFlag(argv, '', ['--verify-no-changes']) ? ['lint'] : [];
+    case 'mix':
+      if (subcommand === 'compile') return ['build'];
+      if (subcommand === 'test') return ['test'];
+      if (subcommand === 'credo' || (subcommand === 'format' && hasFlag(argv, '', ['--check-formatted']))) return ['lint'];
+      return subcommand === 'dialyzer' ? ['typecheck'] : [];
+    case 'deno':
+      if (subcommand === 'task') return goalSteps(words.slice(2, 3), SCRIPT_STEPS);
+      if (subcommand === 'test') return ['test'];
+      if (subcommand === 'lint') return ['lint'];
+      return subcommand === 'check' ? ['typecheck'] : [];
+    case 'zig':
+      if (subcommand === 'build') return words[2] === 'test' ? ['test'] : ['build'];
+      return subcommand === 'fmt' && hasFlag(argv, '', ['--check']) ? ['lint'] : [];
+    case 'make':
+    case 'just':
+      return goalSteps(words.slice(1), TASK_STEPS);
+    case 'rake':
+      return subcommand === 'test' || subcommand === 'spec' ? ['test'] : [];
+    case 'srb':
+      return subcommand === 'tc' ? ['typecheck'] : [];
+    default:
+      return [];
+  }
+}
+
+function commandSteps(command: ShellCommand): VerificationStepName[] {
+  const words = stripRunner([command.name, ...command.argv.slice(1)]);
+  const scriptStep = packageScriptStep(words);
+  return scriptStep ? [scriptStep] : toolSteps(words, command.argv);
+}
+
+/**
+ * Verification steps a bash command runs.
+ *
+ * @returns Steps in first-seen order (empty when the command verifies nothing)
+ */
+export function detectVerificationSteps(command: string): VerificationStepName[] {
+  const steps = new Set<VerificationStepName>();
+  for (const parsed of collectShellCommands(command).commands) {
+    for (const step of commandSteps(parsed)) {
+      steps.add(step);
+    }
+  }
+  return Array.from(steps);
+}
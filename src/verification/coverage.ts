@@ -0,0 +1,295 @@
+/**
+ * Changed-line coverage
+ *
+ * After the test step, reads the coverage artifact the test run produced and
+ * measures how many of the lines changed in this task were executed:
+ * - lcov: `coverage/lcov.info`, `lcov.info`
+ * - Istanbul JSON: `coverage/coverage-final.json` (lines), or
+ *   `coverage/coverage-summary.json` (per-file totals only)
+ * - Cobertura XML: `coverage.xml`, `coverage/cobertura-coverage.xml`, ...
+ * - Go: `cover.out`, `coverage.out`
+ *
+ * Only lines the artifact measures count; comments, blank lines, and files
+ * outside the report are ignored. Artifacts older than the test run are
+ * ignored too, so an old report cannot pass a new change.
+ */
+
+import { existsSync, readFileSync, statSync } from 'fs';
+import { join, posix } from 'path';
+import { toProjectRelativePath } from '../utils/glob';
+
+/** Artifact locations, most precise format first */
+const COVERAGE_ARTIFACTS = [
+  'coverage/lcov.info',
+  'lcov.info',
+  'coverage/coverage-final.json',
+  'coverage/cobertura-coverage.xml',
+  'coverage/cobertura.xml',
+  'coverage/coverage.xml',
+  'coverage.xml',
+  'cobertura.xml',
+  'cover.out',
+  'coverage.out',
+  'coverage/cover.out',
+  'coverage/coverage-summary.json',
+];
+
+/** Artifacts larger than this are not parsed */
+const MAX_ARTIFACT_BYTES = 64 * 1024 * 1024;
+
+/** Per-file totals, for artifacts without line detail */
+interface FileTotals {
+  covered: number;
+  total: number;
+}
+
+type CoverageData =
+  | { granularity: 'line'; files: Map<string, Map<number, number>> }
+  | { granularity: 'file'; files: Map<string, FileTotals> };
+
+export interface UncoveredChange {
+  file: string;
+  /** Uncovered changed lines; empty when the artifact only has file totals */
+  lines: number[];
+}
+
+export interface ChangedLineCoverage {
+  /** Project-relative artifact path */
+  artifact: string;
+  granularity: 'line' | 'file';
+  /** Minimum percentage of measured changed lines that must be covered */
+  threshold: number;
+  covered: number;
+  total: number;
+  /** Covered percentage, or null when no changed line is measured */
+  percent: number | null;
+  passed: boolean;
+  uncovered: UncoveredChange[];
+}
+
+function addHits(files: Map<string, Map<number, number>>, file: string, line: number, hits: number): void {
+  const lines = files.get(file) ?? new Map<number, number>();
+  // Several records can cover one line (statements, branches): any hit counts
+  lines.set(line, Math.max(lines.get(line) ?? 0, hits));
+  files.set(file, lines);
+}
+
+function parseLcov(projectDir: string, content: string): CoverageData {
+  const files = new Map<string, Map<number, number>>();
+  let file: string | null = null;
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.trim();
+    if (line.startsWith('SF:')) {
+      file = toProjectRelativePath(projectDir, line.slice(3));
+    } else if (line === 'end_of_record') {
+      file = null;
+    } else if (file && line.startsWith('DA:')) {
+      const [lineNumber, hits] = line.slice(3).split(',');
+      if (/^\d+$/.test(lineNumber)) addHits(files, file, Number(lineNumber), Number(hits) || 0);
+    }
+  }
+  return { granularity: 'line', files };
+}
+
+interface IstanbulFileCoverage {
+  path?: string;
+  statementMap?: Record<string, { start?: { line?: number } }>;
+  s?: Record<string, number>;
+}
+
+function parseIstanbulFinal(projectDir: string, content: string): CoverageData {
+  const files = new Map<string, Map<number, number>>();
+  const parsed = JSON.parse(content) as Record<string, IstanbulFileCoverage>;
+  for (const [key, entry] of Object.entries(parsed)) {
+    const file = toProjectRelativePath(projectDir, entry.path ?? key);
+    if (!file || !entry.statementMap || !entry.s) continue;
+    for (const [id, statement] of Object.entries(entry.statementMap)) {
+      const line = statement.start?.line;
+      if (typeof line === 'number') addHits(files, file, line, entry.s[id] ?? 0);
+    }
+  }
+  return { granularity: 'line', files };
+}
+
+function parseIstanbulSummary(projectDir: string, content: string): CoverageData {
+  const files = new Map<string, FileTotals>();
+  const parsed = JSON.parse(content) as Record<string, { lines?: { total?: number; covered?: number } }>;
+  for (const [key, entry] of Object.entries(parsed)) {
+    if (key === 'total') continue;
+    const file = toProjectRelativePath(projectDir, key);
+    const { total, covered } = entry.lines ?? {};
+    if (file && typeof total === 'number' && typeof covered === 'number') files.set(file, { covered, total });
+  }
+  return { granularity: 'file', files };
+}
+
+function readAttribute(tag: string, name: string): string | undefined {
+  return tag.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1];
+}
+
+function parseCobertura(projectDir: string, content: string): CoverageData {
+  const files = new Map<string, Map<number, number>>();
+  // Class file names are relative to one of the <source> roots
+  const sources = Array.from(content.matchAll(/<source>([^<]*)<\/source>/g), match => match[1].trim());
+  const resolveFile = (filename: string): string | null => {
+    for (const source of ['', ...sources]) {
+      const candidate = toProjectRelativePath(projectDir, source ? join(source, filename) : filename);
+      if (candidate && existsSync(join(projectDir, candidate))) return candidate;
+    }
+    return toProjectRelativePath(projectDir, filename);
+  };
+
+  let file: string | null = null;
+  for (const [tag] of content.matchAll(/<(?:class|line)\b[^>]*>/g)) {
+    if (tag.startsWith('<class')) {
+      const filename = readAttribute(tag, 'filename');
+      file = filename ? resolveFile(filename) : null;
+      continue;
+    }
+    const lineNumber = readAttribute(tag, 'number');
+    if (file && lineNumber && /^\d+$/.test(lineNumber)) {
+      addHits(files, file, Number(lineNumber), Number(readAttribute(tag, 'hits')) || 0);
+    }
+  }
+  return { granularity: 'line', files };
+}
+
+function parseGoCoverProfile(projectDir: string, content: string): CoverageData {
+  const files = new Map<string, Map<number, number>>();
+  let modulePath: string | null = null;
+  try {
+    modulePath = readFileSync(join(projectDir, 'go.mod'), 'utf-8').match(/^\s*module\s+(\S+)/m)?.[1] ?? null;
+  } catch {
+    // Profile paths are then taken as relative to the project
+  }
+
+  for (const line of content.split('\n')) {
+    // example.com/app/pkg/file.go:10.2,12.3 2 1
+    const match = line.match(/^(.+\.go):(\d+)\.\d+,(\d+)\.\d+ \d+ (\d+)$/);
+    if (!match) continue;
+    const [, importPath, start, end, count] = match;
+    const file =
+      modulePath && importPath.startsWith(`${modulePath}/`)
+        ? importPath.slice(modulePath.length + 1)
+        : toProjectRelativePath(projectDir, importPath);
+    if (!file) continue;
+    for (let lineNumber = Number(start); lineNumber <= Number(end); lineNumber++) {
+      addHits(files, file, lineNumber, Number(count));
+    }
+  }
+  return { granularity: 'line', files };
+}
+
+function parseArtifact(projectDir: string, artifact: string, content: string): CoverageData {
+  const name = posix.basename(artifact);
+  if (name.endsWith('.info')) return parseLcov(projectDir, content);
+  if (name === 'coverage-final.json') return parseIstanbulFinal(projectDir, content);
+  if (name === 'coverage-summary.json') return parseIstanbulSummary(projectDir, content);
+  if (name.endsWith('.xml')) return parseCobertura(projectDir, content);
+  return parseGoCoverProfile(projectDir, content);
+}
+
+/**
+ * First coverage artifact written at or after `since`.
+ *
+ * @param since - Epoch ms the test run started; older artifacts are stale
+ * @returns Project-relative artifact path, or null
+ */
+export function findCoverageArtifact(projectDir: string, since: number): string | null {
+  for (const artifact of COVERAGE_ARTIFACTS) {
+    try {
+      const stat = statSync(join(projectDir, artifact));
+      // mtime granularity can be a whole second on some filesystems
+      if (stat.isFile() && stat.size <= MAX_ARTIFACT_BYTES && stat.mtimeMs >= since - 1000) return artifact;
+    } catch {
+      // Not present
+    }
+  }
+  return null;
+}
+
+/**
+ * Coverage of the changed lines according to one artifact.
+ *
+ * @param changedLines - Project-relative path → changed line numbers
+ * @param threshold - Minimum covered percentage (0-100)
+ * @returns Coverage, or null if the artifact cannot be read or parsed
+ */
+export function measureChangedLineCoverage(
+  projectDir: string,
+  artifact: string,
+  changedLines: ReadonlyMap<string, readonly number[]>,
+  threshold: number
+): ChangedLineCoverage | null {
+  let data: CoverageData;
+  try {
+    data = parseArtifact(projectDir, artifact, readFileSync(join(projectDir, artifact), 'utf-8'));
+  } catch {
+    return null;
+  }
+
+  let covered = 0;
+  let total = 0;
+  const uncovered: UncoveredChange[] = [];
+  for (const [file, lines] of changedLines) {
+    if (data.granularity === 'file') {
+      const totals = data.files.get(file);
+      if (!totals || totals.total === 0) continue;
+      covered += totals.covered;
+      total += totals.total;
+      if (totals.covered < totals.total) uncovered.push({ file, lines: [] });
+      continue;
+    }
+
+    const hits = data.files.get(file);
+    if (!hits) continue;
+    const missed: number[] = [];
+    for (const line of lines) {
+      const count = hits.get(line);
+      if (count === undefined) continue;
+      total++;
+      if (count > 0) covered++;
+      else missed.push(line);
+    }
+    if (missed.length > 0) uncovered.push({ file, lines: missed });
+  }
+
+  const percent = total === 0 ? null : Math.round((covered / total) * 1000) / 10;
+  return {
+    artifact,
+    granularity: data.granularity,
+    threshold,
+    covered,
+    total,
+    percent,
+    passed: percent === null || percent >= threshold,
+    uncovered,
+  };
+}
+
+/** `3-5, 9` from [3, 4, 5, 9] */
+function formatLineRanges(lines: readonly number[]): string {
+  const sorted = Array.from(new Set(lines)).sort((a, b) => a - b);
+  const ranges: string[] = [];
+  for (let index = 0; index < sorted.length; index++) {
+    const start = sorted[index];
+    while (sorted[index + 1] === sorted[index] + 1) index++;
+    ranges.push(start === sorted[index] ? `${start}` : `${start}-${sorted[index]}`);
+  }
+  return ranges.join(', ');
+}
+
+/**
+ * One-line result followed by the uncovered changed lines, one file per line.
+ */
+export function formatChangedLineCoverage(coverage: ChangedLineCoverage, maxFiles = 20): string {
+  const headline =
+    coverage.percent === null
+      ? `no changed lines measured in \`${coverage.artifact}\``
+      : `${coverage.percent}% of ${coverage.total} changed line(s) covered (threshold ${coverage.threshold}%, from \`${coverage.artifact}\`)`;
+  const details = coverage.uncovered.slice(0, maxFiles).map(({ file, lines }) =>
+    lines.length > 0 ? `- ${file}: ${formatLineRanges(lines)}` : `- ${file}: not fully covered (file totals only)`
+  );
+  if (coverage.uncovered.length > maxFiles) details.push(`- (+${coverage.uncovered.length - maxFiles} more files)`);
+  return [headline, ...details].join('\n');
+}
@@ -0,0 +1,221 @@
+/**
+ * DONE WHEN evidence: .setu/evidence.json
+ *
+ * Goal-backward verification: each DONE WHEN criterion of the current plan
+ * step needs its own evidence before the step advances. Evidence is one of:
+ * - command: a command setu_verify ran, with exit code and output tail
+ * - file: an assertion that a file exists (and contains some text)
+ * - user: a confirmation the user gave through the question tool
+ *
+ * The file holds evidence for one step at a time; evidence for another step
+ * is discarded when new evidence is recorded. Once the step advances, the
+ * evidence is copied into results/step-N.md.
+ */
+
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { getCompletedSteps, getStartedStep, loadActiveTask } from '../context/active';
+import { getCurrentStepNumber, loadStepCriteria, type DoneCriterion } from '../context/plan';
+import type { CriterionResult } from '../context/results';
+import { ensureSetuDir } from '../context/storage';
+import { debugLog } from '../debug';
+import { redactSensitive } from '../security/redaction';
+import { getErrorMessage } from '../utils/error-handling';
+import { toProjectRelativePath } from '../utils/glob';
+
+const EVIDENCE_JSON = 'evidence.json';
+const OUTPUT_TAIL_CHARS = 2000;
+
+/** Question option labels for user confirmations */
+export const CRITERION_CONFIRMED_LABEL = 'Yes - criterion met';
+export const CRITERION_REJECTED_LABEL = 'No - not met';
+
+export type EvidenceKind = 'command' | 'file' | 'user';
+
+export interface CriterionEvidence {
+  /** Criterion id, e.g. "3.2" */
+  criterion: string;
+  kind: EvidenceKind;
+  passed: boolean;
+  /** One-line description of what was checked and what was seen */
+  summary: string;
+  command?: string;
+  exitCode?: number | null;
+  /** Output tail (secrets redacted) */
+  outputTail?: string;
+  path?: string;
+  recordedAt: string;
+}
+
+interface EvidenceFile {
+  version: 1;
+  step: number;
+  evidence: CriterionEvidence[];
+}
+
+function isEvidence(value: unknown): value is CriterionEvidence {
+  if (!value || typeof value !== 'object') return false;
+  const entry = value as Record<string, unknown>;
+  return (
+    typeof entry.criterion === 'string' &&
+    (entry.kind === 'command' || entry.kind === 'file' || entry.kind === 'user') &&
+    typeof entry.passed === 'boolean' &&
+    typeof entry.summary === 'string' &&
+    typeof entry.recordedAt === 'string'
+  );
+}
+
+/**
+ * Evidence recorded for a step.
+ *
+ * @returns Evidence, latest per criterion; empty for another step or an invalid file
+ */
+export function loadStepEvidence(projectDir: string, step: number): CriterionEvidence[] {
+  const evidencePath = join(projectDir, '.setu', EVIDENCE_JSON);
+  if (!existsSync(evidencePath)) return [];
+  try {
+    const parsed = JSON.parse(readFileSync(evidencePath, 'utf-8')) as Partial<EvidenceFile>;
+    if (parsed.version !== 1 || parsed.step !== step || !Array.isArray(parsed.evidence)) return [];
+    return parsed.evidence.filter(isEvidence);
+  } catch (error) {
+    debugLog(`Failed to load evidence: ${getErrorMessage(error)}`);
+    return [];
+  }
+}
+
+/**
+ * Record evidence for a step; an entry replaces earlier evidence for the
+ * same criterion.
+ */
+export function recordCriterionEvidence(projectDir: string, step: number, entries: CriterionEvidence[]): void {
+  if (entries.length === 0) return;
+  const replaced = new Set(entries.map(entry => entry.criterion));
+  const evidence = [
+    ...loadStepEvidence(projectDir, step).filter(entry => !replaced.has(entry.criterion)),
+    ...entries.map(entry => ({
+      ...entry,
+      summary: redactSensitive(entry.summary),
+      ...(entry.outputTail !== undefined ? { outputTail: redactSensitive(entry.outputTail).slice(-OUTPUT_TAIL_CHARS) } : {}),
+    })),
+  ];
+
+  const setuDir = ensureSetuDir(projectDir);
+  const evidencePath = join(setuDir, EVIDENCE_JSON);
+  const tempPath = `${evidencePath}.${process.pid}.tmp`;
+  const file: EvidenceFile = { version: 1, step, evidence };
+  writeFileSync(tempPath, JSON.stringify(file, null, 2) + '\n', 'utf-8');
+  renameSync(tempPath, evidencePath);
+}
+
+/**
+ * Criteria without passing evidence.
+ */
+export function getUnmetCriteria(criteria: DoneCriterion[], evidence: CriterionEvidence[]): DoneCriterion[] {
+  return criteria.filter(criterion => !evidence.some(entry => entry.criterion === criterion.id && entry.passed));
+}
+
+/**
+ * Evidence that a file exists inside the project and, optionally, contains
+ * some text.
+ */
+export function checkFileEvidence(projectDir: string, criterion: string, path: string, contains?: string): CriterionEvidence {
+  const relativePath = toProjectRelativePath(projectDir, path);
+  const base = { criterion, kind: 'file' as const, path: relativePath ?? path, recordedAt: new Date().toISOString() };
+  if (!relativePath) {
+    return { ...base, passed: false, summary: `${path} is outside the project` };
+  }
+
+  let content: string;
+  try {
+    content = readFileSync(join(projectDir, relativePath), 'utf-8');
+  } catch {
+    return { ...base, passed: false, summary: `${relativePath} does not exist` };
+  }
+  if (contains === undefined || contains === '') {
+    return { ...base, passed: true, summary: `${relativePath} exists` };
+  }
+  const passed = content.includes(contains);
+  return {
+    ...base,
+    passed,
+    summary: `${relativePath} ${passed ? 'contains' : 'does not contain'} ${JSON.stringify(contains.slice(0, 200))}`,
+  };
+}
+
+/**
+ * Read DONE WHEN confirmations from a question tool answer. A question asks
+ * about criteria by naming them (`DONE WHEN 3.2`); the answer that follows
+ * each name decides it.
+ *
+ * @returns Evidence for each criterion the answer decides
+ */
+export function parseCriterionConfirmations(answerText: string): CriterionEvidence[] {
+  const markers = Array.from(answerText.matchAll(/DONE WHEN (\d+\.\d+)/gi));
+  const recordedAt = new Date().toISOString();
+  const evidence: CriterionEvidence[] = [];
+
+  for (const [index, marker] of markers.entries()) {
+    const segment = answerText.slice(marker.index, markers[index + 1]?.index ?? answerText.length).toLowerCase();
+    const confirmed = segment.includes(CRITERION_CONFIRMED_LABEL.toLowerCase());
+    const rejected = segment.includes(CRITERION_REJECTED_LABEL.toLowerCase());
+    if (confirmed === rejected) continue;
+    evidence.push({
+      criterion: marker[1],
+      kind: 'user',
+      passed: confirmed,
+      summary: confirmed ? 'user confirmed through the question tool' : 'user answered that it is not met',
+      recordedAt,
+    });
+  }
+  return evidence;
+}
+
+/**
+ * Record DONE WHEN confirmations from a question tool answer as evidence for
+ * the active task's current step. Answers naming other steps' criteria are
+ * ignored.
+ *
+ * @returns Evidence recorded
+ */
+export function recordCriterionConfirmations(projectDir: string, answerText: string): CriterionEvidence[] {
+  const confirmations = parseCriterionConfirmations(answerText);
+  if (confirmations.length === 0) return [];
+  const task = loadActiveTask(projectDir);
+  if (!task) return [];
+
+  const completedSteps = getCompletedSteps(projectDir, task);
+  const step = getStartedStep(task, completedSteps) ?? getCurrentStepNumber(projectDir, completedSteps);
+  const ids = new Set(loadStepCriteria(projectDir, step).map(criterion => criterion.id));
+  const evidence = confirmations.filter(entry => ids.has(entry.criterion));
+  recordCriterionEvidence(projectDir, step, evidence);
+  return evidence;
+}
+
+/**
+ * Criteria with their evidence, as stored in a step result.
+ */
+export function toCriterionResults(criteria: DoneCriterion[], evidence: CriterionEvidence[]): CriterionResult[] {
+  return criteria.map(criterion => {
+    const entry = evidence.find(item => item.criterion === criterion.id);
+    return {
+      id: criterion.id,
+      text: criterion.text,
+      met: entry?.passed ?? false,
+      evidence: entry ? `${entry.kind} ${entry.command ? `\`${entry.command}\` ` : ''}${entry.summary}` : 'none',
+    };
+  });
+}
+
+/**
+ * Evidence as a markdown checklist, one line per criterion.
+ */
+export function formatCriteriaEvidence(criteria: DoneCriterion[], evidence: CriterionEvidence[]): string {
+  return criteria
+    .map(criterion => {
+      const entry = evidence.find(item => item.criterion === criterion.id);
+      if (!entry) return `- [ ] ${criterion.id} ${criterion.text} (no evidence)`;
+      const detail = entry.kind === 'command' ? `\`${entry.command}\` ${entry.summary}` : entry.summary;
+      return `- [${entry.passed ? 'x' : ' '}] ${criterion.id} ${criterion.text} (${entry.kind}: ${detail})`;
+    })
+    .join('\n');
+}
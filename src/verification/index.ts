@@ -0,0 +1,72 @@
+/**
+ * Verification module for Setu
+ *
+ * Provides:
+ * - A child-process runner for verification commands (timeouts, env, output cap)
+ * - The machine-readable verification record (.setu/verification.json)
+ * - Recognition of verification commands in bash invocations
+ * - Workspace layouts for scoping verification to changed packages
+ * - Test-impact selection for running affected tests first
+ * - Coverage of changed lines from the test run's coverage artifact
+ * - Evidence for the plan step's DONE WHEN criteria
+ */
+
+export {
+  runCommand,
+  tailLines,
+  MAX_OUTPUT_BYTES,
+  type RunCommandOptions,
+  type CommandResult
+} from './runner';
+
+export {
+  loadVerificationRecord,
+  recordVerificationSteps,
+  getMissingVerificationSteps,
+  getStaleVerificationSteps,
+  formatVerificationStatus,
+  type VerificationCoverage,
+  type VerificationRecord,
+  type VerificationStepRecord
+} from './record';
+
+export { detectVerificationSteps } from './commands';
+
+export {
+  detectWorkspace,
+  getAffectedPackages,
+  getScopedCommand,
+  type WorkspaceKind,
+  type WorkspaceLayout,
+  type WorkspacePackage
+} from './workspace';
+
+export {
+  selectImpactedTests,
+  buildImpactedTestCommand,
+  isTestFile,
+  type TestSelection
+} from './test-impact';
+
+export {
+  findCoverageArtifact,
+  measureChangedLineCoverage,
+  formatChangedLineCoverage,
+  type ChangedLineCoverage,
+  type UncoveredChange
+} from './coverage';
+
+export {
+  loadStepEvidence,
+  recordCriterionEvidence,
+  recordCriterionConfirmations,
+  parseCriterionConfirmations,
+  checkFileEvidence,
+  getUnmetCriteria,
+  formatCriteriaEvidence,
+  toCriterionResults,
+  CRITERION_CONFIRMED_LABEL,
+  CRITERION_REJECTED_LABEL,
+  type CriterionEvidence,
+  type EvidenceKind
+} from './evidence';
@@ -0,0 +1,196 @@
+/**
+ * Verification record: .setu/verification.json
+ *
+ * Machine-readable evidence of the last run of each verification step:
+ * command, exit code, duration, output tail, and the working tree hash it
+ * ran against. Only setu_verify writes it: agent tool calls that would
+ * write it are blocked as a protected path. The commit/push gates read
+ * nothing else, so a step counts as passed only when Setu ran it itself and
+ * saw exit code 0.
+ *
+ * verification.log stays as the human-readable audit trail.
+ */
+
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { ensureSetuDir } from '../context/storage';
+import { debugLog } from '../debug';
+import { redactSensitive } from '../security/redaction';
+import { getErrorMessage } from '../utils/error-handling';
+
+const VERIFICATION_JSON = 'verification.json';
+const OUTPUT_TAIL_CHARS = 4000;
+
+export interface VerificationStepRecord {
+  /** Step name: build, test, lint, typecheck */
+  name: string;
+  command: string;
+  /** Exit code, or null when the command was killed or failed to start */
+  exitCode: number | null;
+  passed: boolean;
+  timedOut: boolean;
+  durationMs: number;
+  /** Last lines of combined stdout/stderr (secrets redacted) */
+  outputTail: string;
+  /** Working tree hash when the step ran (null outside git) */
+  treeHash: string | null;
+  ranAt: string;
+  /** Test files run, when the step ran a selection rather than the whole suite */
+  tests?: string[];
+  /** Changed-line coverage checked after a passing test run */
+  coverage?: VerificationCoverage;
+}
+
+export interface VerificationCoverage {
+  artifact: string;
+  /** Covered percentage of measured changed lines (null when none measured) */
+  percent: number | null;
+  threshold: number;
+  passed: boolean;
+}
+
+export interface VerificationRecord {
+  version: 1;
+  updatedAt: string;
+  sessionId: string;
+  buildTool: string;
+  /** Latest run of each step */
+  steps: VerificationStepRecord[];
+}
+
+function isStepRecord(value: unknown): value is VerificationStepRecord {
+  if (!value || typeof value !== 'object') return false;
+  const step = value as Record<string, unknown>;
+  return (
+    typeof step.name === 'string' &&
+    typeof step.command === 'string' &&
+    (typeof step.exitCode === 'number' || step.exitCode === null) &&
+    typeof step.passed === 'boolean' &&
+    typeof step.durationMs === 'number' &&
+    typeof step.outputTail === 'string' &&
+    (typeof step.treeHash === 'string' || step.treeHash === null) &&
+    typeof step.ranAt === 'string'
+  );
+}
+
+function isCoverageRecord(value: unknown): value is VerificationCoverage {
+  if (!value || typeof value !== 'object') return false;
+  const coverage = value as Record<string, unknown>;
+  return (
+    typeof coverage.artifact === 'string' &&
+    (typeof coverage.percent === 'number' || coverage.percent === null) &&
+    typeof coverage.threshold === 'number' &&
+    typeof coverage.passed === 'boolean'
+  );
+}
+
+/**
+ * Load the verification record.
+ *
+ * @returns Record, or null if none was written or the file is invalid
+ */
+export function loadVerificationRecord(projectDir: string): VerificationRecord | null {
+  const recordPath = join(projectDir, '.setu', VERIFICATION_JSON);
+  if (!existsSync(recordPath)) return null;
+
+  try {
+    const parsed = JSON.parse(readFileSync(recordPath, 'utf-8')) as Partial<VerificationRecord>;
+    if (parsed.version !== 1 || !Array.isArray(parsed.steps)) return null;
+
+    return {
+      version: 1,
+      updatedAt: typeof parsed.updatedAt === 'string' ? parsed.updatedAt : '',
+      sessionId: typeof parsed.sessionId === 'string' ? parsed.sessionId : '',
+      buildTool: typeof parsed.buildTool === 'string' ? parsed.buildTool : '',
+      // A step with missing or mistyped fields never counts as passed
+      steps: parsed.steps.filter(isStepRecord).map(step => ({
+        ...step,
+        timedOut: step.timedOut === true,
+        tests: Array.isArray(step.tests) ? step.tests.filter(test => typeof test === 'string') : undefined,
+        coverage: isCoverageRecord(step.coverage) ? step.coverage : undefined,
+      })),
+    };
+  } catch (error) {
+    debugLog(`Failed to load verification record: ${getErrorMessage(error)}`);
+    return null;
+  }
+}
+
+/**
+ * Merge step results into the record; a step replaces its previous run.
+ */
+export function recordVerificationSteps(
+  projectDir: string,
+  run: { sessionId: string; buildTool: string; steps: VerificationStepRecord[] },
+  now: Date = new Date()
+): VerificationRecord {
+  const previous = loadVerificationRecord(projectDir);
+  const ranNow = new Set(run.steps.map(step => step.name));
+
+  const record: VerificationRecord = {
+    version: 1,
+    updatedAt: now.toISOString(),
+    sessionId: run.sessionId,
+    buildTool: run.buildTool,
+    steps: [
+      ...(previous?.steps ?? []).filter(step => !ranNow.has(step.name)),
+      ...run.steps.map(step => ({
+        ...step,
+        outputTail: redactSensitive(step.outputTail).slice(-OUTPUT_TAIL_CHARS),
+      })),
+    ],
+  };
+
+  const recordPath = join(ensureSetuDir(projectDir), VERIFICATION_JSON);
+  const tempPath = `${recordPath}.${process.pid}.tmp`;
+  writeFileSync(tempPath, JSON.stringify(record, null, 2), 'utf-8');
+  renameSync(tempPath, recordPath);
+  return record;
+}
+
+/**
+ * Required steps without a passing run in the record.
+ */
+export function getMissingVerificationSteps(record: VerificationRecord | null, requiredSteps: readonly string[]): string[] {
+  const passed = new Set((record?.steps ?? []).filter(step => step.passed).map(step => step.name));
+  return requiredSteps.filter(step => !passed.has(step));
+}
+
+/**
+ * Whether a passing run was against a different working tree than treeHash.
+ * A pass without a hash cannot be matched, so it is stale once the hash is known.
+ */
+function isStale(step: VerificationStepRecord, treeHash: string | null | undefined): boolean {
+  return typeof treeHash === 'string' && step.treeHash !== treeHash;
+}
+
+/**
+ * Required steps that passed, but against a different working tree.
+ *
+ * @param treeHash - Current working tree hash (null outside git: nothing is stale)
+ */
+export function getStaleVerificationSteps(
+  record: VerificationRecord | null,
+  requiredSteps: readonly string[],
+  treeHash: string | null
+): VerificationStepRecord[] {
+  const required = new Set(requiredSteps);
+  return (record?.steps ?? []).filter(step => step.passed && required.has(step.name) && isStale(step, treeHash));
+}
+
+/**
+ * One-line status for gate messages, e.g. "build PASS, test FAIL (exit 1)".
+ * With the current tree hash, passes from an older tree read "PASS (stale)".
+ */
+export function formatVerificationStatus(record: VerificationRecord | null, treeHash?: string | null): string {
+  if (!record || record.steps.length === 0) {
+    return 'No verification record (.setu/verification.json)';
+  }
+  return record.steps
+    .map(step => {
+      if (step.passed) return isStale(step, treeHash) ? `${step.name} PASS (stale)` : `${step.name} PASS`;
+      const detail = step.timedOut ? 'timed out' : `exit ${step.exitCode ?? 'none'}`;
+      return `${step.name} FAIL (${detail})`;
+    })
+    .join(', ');
+}
@@ -0,0 +1,157 @@
+/**
+ * Verification command runner
+ *
+ * Runs one verification command in a child shell with:
+ * - a timeout that kills the whole process group (npm → node → workers)
+ * - a controlled environment (CI mode, no colour, no interactive prompts)
+ * - a cap on retained output: only the last MAX_OUTPUT_BYTES are kept
+ */
+
+import { spawn } from 'child_process';
+
+/** Output retained per command (the tail; earlier output is dropped) */
+export const MAX_OUTPUT_BYTES = 256 * 1024;
+
+/** Delay between SIGTERM and SIGKILL when a command times out */
+const KILL_GRACE_MS = 2000;
+
+/**
+ * Variables that keep tools non-interactive and their output plain.
+ * CI=true also stops vitest/jest from starting in watch mode.
+ */
+const VERIFICATION_ENV: Record<string, string> = {
+  CI: 'true',
+  NO_COLOR: '1',
+  FORCE_COLOR: '0',
+  NPM_CONFIG_FUND: 'false',
+  NPM_CONFIG_UPDATE_NOTIFIER: 'false',
+  GIT_TERMINAL_PROMPT: '0',
+};
+
+export interface RunCommandOptions {
+  cwd: string;
+  timeoutMs: number;
+  /** Extra variables, applied over the process environment and VERIFICATION_ENV */
+  env?: Record<string, string>;
+  maxOutputBytes?: number;
+  /** Kills the command when aborted */
+  signal?: AbortSignal;
+}
+
+export interface CommandResult {
+  /** Exit code, or null when the command was killed */
+  exitCode: number | null;
+  signal: string | null;
+  timedOut: boolean;
+  durationMs: number;
+  /** Combined stdout/stderr, last maxOutputBytes only */
+  output: string;
+  /** Earlier output was dropped to respect the cap */
+  truncated: boolean;
+}
+
+/** Keeps the last `limit` bytes of a stream of chunks */
+function createTailBuffer(limit: number): { push: (chunk: Buffer) => void; read: () => { text: string; truncated: boolean } } {
+  let chunks: Buffer[] = [];
+  let size = 0;
+  let truncated = false;
+
+  return {
+    push(chunk: Buffer): void {
+      chunks.push(chunk);
+      size += chunk.length;
+      if (size > limit) {
+        const joined = Buffer.concat(chunks);
+        chunks = [joined.subarray(joined.length - limit)];
+        size = limit;
+        truncated = true;
+      }
+    },
+    read(): { text: string; truncated: boolean } {
+      return { text: Buffer.concat(chunks).toString('utf-8'), truncated };
+    },
+  };
+}
+
+function killTree(pid: number | undefined, signal: NodeJS.Signals): void {
+  if (pid === undefined) return;
+  try {
+    // Negative pid targets the process group created by `detached: true`
+    process.kill(process.platform === 'win32' ? pid : -pid, signal);
+  } catch {
+    // Already exited
+  }
+}
+
+/**
+ * Run a shell command and collect its exit status and output tail.
+ *
+ * Never rejects: spawn failures are reported as exit code null with the
+ * error in `output`.
+ */
+export function runCommand(command: string, options: RunCommandOptions): Promise<CommandResult> {
+  const startedAt = Date.now();
+  const output = createTailBuffer(options.maxOutputBytes ?? MAX_OUTPUT_BYTES);
+
+  return new Promise((resolve) => {
+    let timedOut = false;
+    let settled = false;
+    let killTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const child = spawn(command, {
+      cwd: options.cwd,
+      shell: true,
+      detached: process.platform !== 'win32',
+      stdio: ['ignore', 'pipe', 'pipe'],
+      env: { ...process.env, ...VERIFICATION_ENV, ...options.env },
+    });
+
+    const stop = (): void => {
+      killTree(child.pid, 'SIGTERM');
+      killTimer = setTimeout(() => killTree(child.pid, 'SIGKILL'), KILL_GRACE_MS);
+      killTimer.unref();
+    };
+
+    const timeout = setTimeout(() => {
+      timedOut = true;
+      stop();
+    }, options.timeoutMs);
+
+    options.signal?.addEventListener('abort', stop, { once: true });
+
+    const finish = (exitCode: number | null, signal: string | null, error?: Error): void => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timeout);
+      if (killTimer) clearTimeout(killTimer);
+      options.signal?.removeEventListener('abort', stop);
+
+      if (error) output.push(Buffer.from(`\n${error.message}\n`));
+      const { text, truncated } = output.read();
+      resolve({
+        exitCode,
+        signal,
+        timedOut,
+        durationMs: Date.now() - startedAt,
+        output: text,
+        truncated,
+      });
+    };
+
+    child.stdout?.on('data', (chunk: Buffer) => output.push(chunk));
+    child.stderr?.on('data', (chunk: Buffer) => output.push(chunk));
+    child.on('error', (error) => finish(null, null, error));
+    child.on('close', (code, signal) => finish(code, signal));
+
+    if (options.signal?.aborted) stop();
+  });
+}
+
+/**
+ * Last lines of command output, for summaries and records.
+ */
+export function tailLines(output: string, maxLines: number, maxChars: number): string {
+  const lines = output.replace(/\s+$/, '').split(/\r?\n/);
+  const tail = lines.slice(-maxLines).join('\n');
+  return tail.length > maxChars ? tail.slice(tail.length - maxChars) : tail;
+}
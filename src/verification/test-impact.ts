@@ -0,0 +1,304 @@
+/**
+ * Test-impact selection
+ *
+ * Maps changed files to the tests most likely to cover them, so setu_verify
+ * can run those first and fail fast before the full suite:
+ * - Naming conventions: `foo.ts` → `foo.test.ts`, `__tests__/foo.ts`,
+ *   `test_foo.py`, `foo_test.go`, `foo_spec.rb`, ...
+ * - A lightweight import graph from import/require/from statements
+ *   (JS/TS relative imports, Python modules, Go packages in the module),
+ *   followed transitively from test files to the changed files.
+ *
+ * Selection is a speed-up, not evidence: the full suite still gates commits.
+ */
+
+import { readFileSync, statSync } from 'fs';
+import { join, posix } from 'path';
+import { runGit } from '../utils/git';
+
+export interface TestSelection {
+  /** Changed files the selection started from */
+  changedFiles: string[];
+  /** Selected test files (project-relative), sorted */
+  tests: string[];
+}
+
+/** Files larger than this are not scanned for imports */
+const MAX_SCAN_BYTES = 256 * 1024;
+/** Upper bound on files read while building the import graph */
+const MAX_SCANNED_FILES = 20000;
+
+const JS_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+const SCANNED_EXTENSIONS = new Set([...JS_EXTENSIONS, '.py', '.go']);
+
+/** Stems too common to pair tests with sources by name alone */
+const GENERIC_STEMS = new Set(['index', 'main', 'mod', '__init__', 'lib', 'app', 'types', 'utils']);
+
+const TEST_NAME_PATTERNS: RegExp[] = [
+  /^(.+)\.(?:test|spec)\.[^.]+$/, // foo.test.ts, foo.spec.js
+  /^test_(.+)\.py$/, // test_foo.py
+  /^(.+)_(?:test|spec)\.[^.]+$/, // foo_test.go, foo_test.py, foo_spec.rb, foo_test.exs
+  /^(.+?)Tests?\.(?:java|kt|cs|fs)$/, // FooTest.java, FooTests.cs
+];
+
+function extension(file: string): string {
+  return posix.extname(file).toLowerCase();
+}
+
+function stripExtension(name: string): string {
+  const ext = posix.extname(name);
+  return ext ? name.slice(0, -ext.length) : name;
+}
+
+/**
+ * Source stem a test file is named after, or null if it is not a test file.
+ */
+function getTestStem(file: string): string | null {
+  const name = posix.basename(file);
+  for (const pattern of TEST_NAME_PATTERNS) {
+    const match = name.match(pattern);
+    if (match) return match[1];
+  }
+  // Anything under __tests__ is a test, named after its subject
+  return file.split('/').includes('__tests__') && JS_EXTENSIONS.includes(extension(file)) ? stripExtension(name) : null;
+}
+
+export function isTestFile(file: string): boolean {
+  return getTestStem(file) !== null;
+}
+
+function readSource(projectDir: string, file: string): string | null {
+  try {
+    const path = join(projectDir, file);
+    if (statSync(path).size > MAX_SCAN_BYTES) return null;
+    return readFileSync(path, 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+function resolveJsImport(fromFile: string, specifier: string, files: ReadonlySet<string>): string[] {
+  if (!specifier.startsWith('.')) return [];
+  const base = posix.normalize(posix.join(posix.dirname(fromFile), specifier));
+  // ESM TypeScript imports `./foo.js` for `./foo.ts`
+  const stem = base.replace(/\.(?:js|jsx|mjs|cjs)$/, '');
+  const candidates = [
+    base,
+    ...JS_EXTENSIONS.map(ext => `${stem}${ext}`),
+    ...JS_EXTENSIONS.map(ext => `${base}/index${ext}`),
+  ];
+  const found = candidates.find(candidate => files.has(candidate));
+  return found ? [found] : [];
+}
+
+const JS_IMPORT_PATTERN =
+  /(?:import|export)\s[^'"`;]*?from\s*['"]([^'"]+)['"]|import\s*\(\s*['"]([^'"]+)['"]\s*\)|require\s*\(\s*['"]([^'"]+)['"]\s*\)|import\s+['"]([^'"]+)['"]/g;
+
+function jsImports(file: string, source: string, files: ReadonlySet<string>): string[] {
+  return Array.from(source.matchAll(JS_IMPORT_PATTERN)).flatMap(match =>
+    resolveJsImport(file, match[1] ?? match[2] ?? match[3] ?? match[4], files)
+  );
+}
+
+/** Module path to file, from the project root or a `src/` layout */
+function resolvePythonModule(moduleDir: string, dottedPath: string, files: ReadonlySet<string>): string[] {
+  const relativePath = dottedPath.split('.').filter(Boolean).join('/');
+  const roots = moduleDir === '' ? ['', 'src'] : [moduleDir];
+  for (const root of roots) {
+    const base = posix.join(root, relativePath);
+    for (const candidate of [`${base}.py`, `${base}/__init__.py`]) {
+      if (files.has(candidate)) return [candidate];
+    }
+  }
+  return [];
+}
+
+function pythonImports(file: string, source: string, files: ReadonlySet<string>): string[] {
+  const imports: string[] = [];
+  for (const match of source.matchAll(/^\s*from\s+(\.*)([\w.]*)\s+import\s+\(?([\w\s,*]+)/gm)) {
+    const [, dots, modulePath, names] = match;
+    let moduleDir = '';
+    if (dots.length > 0) {
+      // `from .x` is relative to the file's package, each extra dot one level up
+      moduleDir = posix.dirname(file);
+      for (let level = 1; level < dots.length; level++) moduleDir = posix.dirname(moduleDir);
+      if (moduleDir === '.') moduleDir = '';
+    }
+    const resolved = modulePath ? resolvePythonModule(moduleDir, modulePath, files) : [];
+    imports.push(...resolved);
+    // `from pkg import module` names a module, not just a symbol
+    for (const name of names.split(',').map(part => part.trim()).filter(part => /^\w+$/.test(part))) {
+      imports.push(...resolvePythonModule(moduleDir, modulePath ? `${modulePath}.${name}` : name, files));
+    }
+  }
+  for (const match of source.matchAll(/^\s*import\s+([\w.]+(?:\s*,\s*[\w.]+)*)/gm)) {
+    for (const modulePath of match[1].split(',')) {
+      imports.push(...resolvePythonModule('', modulePath.trim(), files));
+    }
+  }
+  return imports;
+}
+
+function goImports(source: string, modulePath: string | null, goFilesByDir: ReadonlyMap<string, string[]>): string[] {
+  if (!modulePath) return [];
+  const imports: string[] = [];
+  const blocks = Array.from(source.matchAll(/^import\s*(?:\(([^)]*)\)|(?:\w+\s+)?"([^"]+)")/gm));
+  for (const block of blocks) {
+    const specs = block[1] !== undefined ? Array.from(block[1].matchAll(/"([^"]+)"/g), match => match[1]) : [block[2]];
+    for (const spec of specs) {
+      if (spec.startsWith(`${modulePath}/`)) {
+        // A Go import names a package directory: every file in it
+        imports.push(...(goFilesByDir.get(spec.slice(modulePath.length + 1)) ?? []));
+      }
+    }
+  }
+  return imports;
+}
+
+/**
+ * Project files as git sees them: tracked plus untracked, ignored excluded.
+ */
+function listProjectFiles(projectDir: string): string[] | null {
+  const output = runGit(projectDir, ['ls-files', '-z', '--cached', '--others', '--exclude-standard'], { trim: false });
+  if (output === null) return null;
+  return Array.from(new Set(output.split('\0').filter(file => file && !file.startsWith('.setu/'))));
+}
+
+/**
+ * Reverse import graph: file → files that import it.
+ */
+function buildImporters(projectDir: string, files: string[]): Map<string, Set<string>> {
+  const fileSet = new Set(files);
+  const goModule = readSource(projectDir, 'go.mod')?.match(/^\s*module\s+(\S+)/m)?.[1] ?? null;
+  const goFilesByDir = new Map<string, string[]>();
+  for (const file of files) {
+    if (extension(file) !== '.go' || file.endsWith('_test.go')) continue;
+    const dir = posix.dirname(file);
+    goFilesByDir.set(dir, [...(goFilesByDir.get(dir) ?? []), file]);
+  }
+
+  const importers = new Map<string, Set<string>>();
+  let scanned = 0;
+  for (const file of files) {
+    const ext = extension(file);
+    if (!SCANNED_EXTENSIONS.has(ext) || scanned >= MAX_SCANNED_FILES) continue;
+    const source = readSource(projectDir, file);
+    scanned++;
+    if (source === null) continue;
+
+    const imported =
+      ext === '.py' ? pythonImports(file, source, fileSet)
+        : ext === '.go' ? goImports(source, goModule, goFilesByDir)
+          : jsImports(file, source, fileSet);
+    for (const target of imported) {
+      if (target === file) continue;
+      const set = importers.get(target) ?? new Set<string>();
+      set.add(file);
+      importers.set(target, set);
+    }
+  }
+  return importers;
+}
+
+/**
+ * Select the tests impacted by the changed files.
+ *
+ * @param changedFiles - Project-relative paths changed since the last commit
+ * @returns Selection (possibly with no tests), or null if project files cannot be listed
+ */
+export function selectImpactedTests(projectDir: string, changedFiles: readonly string[]): TestSelection | null {
+  const files = listProjectFiles(projectDir);
+  if (files === null) return null;
+  const fileSet = new Set(files);
+  const existingChanges = changedFiles.filter(file => fileSet.has(file));
+
+  const selected = new Set<string>();
+
+  // Naming conventions
+  const changedStems = new Set(
+    existingChanges.map(file => stripExtension(posix.basename(file))).filter(stem => !GENERIC_STEMS.has(stem))
+  );
+  const goTestsByDir = new Map<string, string[]>();
+  for (const file of files) {
+    const stem = getTestStem(file);
+    if (stem === null) continue;
+    if (changedStems.has(stem)) selected.add(file);
+    if (file.endsWith('_test.go')) {
+      const dir = posix.dirname(file);
+      goTestsByDir.set(dir, [...(goTestsByDir.get(dir) ?? []), file]);
+    }
+  }
+
+  // Changed tests select themselves; importers are followed transitively.
+  // Go tests cover every file of their package directory.
+  const importers = buildImporters(projectDir, files);
+  const seen = new Set(existingChanges);
+  const queue = [...existingChanges];
+  while (queue.length > 0) {
+    const file = queue.shift() as string;
+    if (isTestFile(file)) selected.add(file);
+    if (extension(file) === '.go') {
+      for (const goTest of goTestsByDir.get(posix.dirname(file)) ?? []) selected.add(goTest);
+    }
+    for (const importer of importers.get(file) ?? []) {
+      if (!seen.has(importer)) {
+        seen.add(importer);
+        queue.push(importer);
+      }
+    }
+  }
+
+  return { changedFiles: existingChanges, tests: Array.from(selected).sort() };
+}
+
+function shellQuote(value: string): string {
+  return /^[\w@%+=:,./-]+$/.test(value) ? value : `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+const JS_EXEC: Record<string, string> = {
+  npm: 'npx',
+  pnpm: 'pnpm exec',
+  yarn: 'yarn',
+  bun: 'bunx',
+};
+
+/**
+ * Command that runs only the selected tests with the project's test runner.
+ *
+ * @returns Command, or null when the runner cannot take a file list
+ */
+export function buildImpactedTestCommand(
+  project: { buildTool?: string; testRunner?: string },
+  tests: readonly string[]
+): string | null {
+  if (tests.length === 0) return null;
+  const files = tests.map(shellQuote).join(' ');
+  const exec = JS_EXEC[project.buildTool ?? ''];
+
+  switch (project.testRunner) {
+    case 'vitest':
+      return exec ? `${exec} vitest run ${files}` : null;
+    case 'jest':
+    case 'mocha':
+      return exec ? `${exec} ${project.testRunner} ${files}` : null;
+    case 'bun':
+      // Arguments are path filters; `./` marks them as paths
+      return `bun test ${tests.map(test => shellQuote(`./${test}`)).join(' ')}`;
+    case 'node':
+      return `node --test ${files}`;
+    case 'pytest':
+      return project.buildTool === 'uv' ? `uv run pytest ${files}` : `python -m pytest ${files}`;
+    case 'go': {
+      const dirs = Array.from(new Set(tests.map(test => `./${posix.dirname(test)}`)));
+      return `go test ${dirs.map(shellQuote).join(' ')}`;
+    }
+    case 'rspec':
+      return `bundle exec rspec ${files}`;
+    case 'exunit':
+      return `mix test ${files}`;
+    case 'deno':
+      return `deno test ${files}`;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,433 @@
+/**
+ * Workspace layout detection for scoped verification
+ *
+ * Reads the workspace manifests Setu understands (pnpm-workspace.yaml,
+ * package.json `workspaces`, Cargo `[workspace]`, go.work), maps changed
+ * files to their packages, and builds verification commands for those
+ * packages plus everything that depends on them. Turborepo and Nx run on
+ * top of a JS workspace and only change how the commands are issued.
+ *
+ * Anything that cannot be attributed to a package (root manifests,
+ * lockfiles, shared config) means the whole repository is in scope.
+ */
+
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { debugLog } from '../debug';
+import { getErrorMessage } from '../utils/error-handling';
+import { globToRegExp, normalizeGlobPattern } from '../utils/glob';
+import type { VerificationStepName } from '../config/setu-config';
+
+export type WorkspaceKind = 'pnpm' | 'npm' | 'yarn' | 'bun' | 'cargo' | 'go';
+export type WorkspaceOrchestrator = 'turbo' | 'nx';
+
+export interface WorkspacePackage {
+  /** Package name (npm name, crate name, or Go module path) */
+  name: string;
+  /** Project-relative directory ('' for a package at the root) */
+  dir: string;
+  /** Names of other workspace packages this one depends on */
+  dependencies: string[];
+  /** package.json script names (JS workspaces) */
+  scripts?: string[];
+}
+
+export interface WorkspaceLayout {
+  kind: WorkspaceKind;
+  orchestrator?: WorkspaceOrchestrator;
+  /** Tasks defined in turbo.json (turbo only) */
+  orchestratorTasks?: string[];
+  packages: WorkspacePackage[];
+}
+
+const JS_WORKSPACE_KINDS = new Set<WorkspaceKind>(['pnpm', 'npm', 'yarn', 'bun']);
+
+/** How deep workspace globs are expanded below the root */
+const MAX_WORKSPACE_DEPTH = 4;
+/** Upper bound on directories visited while expanding globs */
+const MAX_VISITED_DIRS = 5000;
+const SKIPPED_DIRS = new Set(['node_modules', 'target', 'dist', 'build', 'vendor']);
+
+/** Names interpolated into shell commands must be plain */
+const SAFE_NAME_PATTERN = /^[@\w][\w@./-]*$/;
+
+function readText(path: string): string | null {
+  try {
+    return readFileSync(path, 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+function readJson(path: string): Record<string, unknown> | null {
+  const text = readText(path);
+  if (text === null) return null;
+  try {
+    const parsed: unknown = JSON.parse(text);
+    return parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>) : null;
+  } catch (error) {
+    debugLog(`Workspace: failed to parse ${path}: ${getErrorMessage(error)}`);
+    return null;
+  }
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === 'string') : [];
+}
+
+function objectKeys(value: unknown): string[] {
+  return value && typeof value === 'object' && !Array.isArray(value) ? Object.keys(value) : [];
+}
+
+function quotedStrings(text: string): string[] {
+  return Array.from(text.matchAll(/["']([^"']+)["']/g), match => match[1]);
+}
+
+function matchesPattern(dir: string, pattern: string): boolean {
+  const normalized = normalizeGlobPattern(pattern);
+  // Plain entries name one directory (globToRegExp would also match beneath it)
+  return /[*?{]/.test(normalized) ? globToRegExp(normalized).test(dir) : dir === normalized;
+}
+
+/**
+ * Directories holding `manifest` that match the workspace member patterns.
+ * `!pattern` entries exclude, as in pnpm and npm workspaces.
+ */
+function expandMembers(projectDir: string, patterns: string[], manifest: string, excludes: string[] = []): string[] {
+  const include = patterns.filter(pattern => !pattern.startsWith('!'));
+  const exclude = [...excludes, ...patterns.filter(pattern => pattern.startsWith('!')).map(pattern => pattern.slice(1))];
+
+  const members: string[] = [];
+  const queue: Array<{ dir: string; depth: number }> = [{ dir: '', depth: 0 }];
+  let visited = 0;
+
+  while (queue.length > 0 && visited < MAX_VISITED_DIRS) {
+    const { dir, depth } = queue.shift() as { dir: string; depth: number };
+    visited++;
+
+    if (
+      include.some(pattern => matchesPattern(dir, pattern)) &&
+      !exclude.some(pattern => matchesPattern(dir, pattern)) &&
+      existsSync(join(projectDir, dir, manifest))
+    ) {
+      members.push(dir);
+    }
+    if (depth >= MAX_WORKSPACE_DEPTH) continue;
+
+    let entries: string[];
+    try {
+      entries = readdirSync(join(projectDir, dir), { withFileTypes: true })
+        .filter(entry => entry.isDirectory() && !entry.name.startsWith('.') && !SKIPPED_DIRS.has(entry.name))
+        .map(entry => entry.name)
+        .sort();
+    } catch {
+      continue;
+    }
+    for (const name of entries) {
+      queue.push({ dir: dir ? `${dir}/${name}` : name, depth: depth + 1 });
+    }
+  }
+
+  return members;
+}
+
+/** `packages:` entries from pnpm-workspace.yaml (the block-list form pnpm documents) */
+function parsePnpmWorkspacePatterns(text: string): string[] {
+  const patterns: string[] = [];
+  let inPackages = false;
+  for (const line of text.split('\n')) {
+    if (/^packages\s*:/.test(line)) {
+      inPackages = true;
+      continue;
+    }
+    if (!inPackages) continue;
+    const item = line.match(/^\s+-\s*["']?([^"'#]+?)["']?\s*(?:#.*)?$/);
+    if (item) {
+      patterns.push(item[1]);
+    } else if (/^\S/.test(line)) {
+      break;
+    }
+  }
+  return patterns;
+}
+
+function detectJsWorkspace(projectDir: string, buildTool: string | undefined): WorkspaceLayout | null {
+  const rootPkg = readJson(join(projectDir, 'package.json'));
+  const pnpmWorkspace = readText(join(projectDir, 'pnpm-workspace.yaml'));
+
+  let patterns: string[];
+  let kind: WorkspaceKind;
+  if (pnpmWorkspace !== null) {
+    patterns = parsePnpmWorkspacePatterns(pnpmWorkspace);
+    kind = 'pnpm';
+  } else {
+    const workspaces = rootPkg?.workspaces;
+    // `workspaces` is a list, or `{ packages: [...] }` in yarn classic
+    patterns = Array.isArray(workspaces)
+      ? stringList(workspaces)
+      : stringList((workspaces as { packages?: unknown } | undefined)?.packages);
+    kind = buildTool && JS_WORKSPACE_KINDS.has(buildTool as WorkspaceKind) ? (buildTool as WorkspaceKind) : 'npm';
+  }
+  if (patterns.length === 0) return null;
+
+  const manifests = expandMembers(projectDir, patterns, 'package.json')
+    .filter(dir => dir !== '')
+    .map(dir => ({ dir, pkg: readJson(join(projectDir, dir, 'package.json')) }))
+    .filter((entry): entry is { dir: string; pkg: Record<string, unknown> } => typeof entry.pkg?.name === 'string');
+  const names = new Set(manifests.map(entry => entry.pkg.name as string));
+
+  const packages = manifests.map(({ dir, pkg }) => {
+    const declared = ['dependencies', 'devDependencies', 'peerDependencies', 'optionalDependencies'].flatMap(field =>
+      objectKeys(pkg[field])
+    );
+    return {
+      name: pkg.name as string,
+      dir,
+      dependencies: Array.from(new Set(declared.filter(name => names.has(name)))),
+      scripts: objectKeys(pkg.scripts),
+    };
+  });
+
+  const layout: WorkspaceLayout = { kind, packages };
+  const turbo = readJson(join(projectDir, 'turbo.json'));
+  if (turbo) {
+    layout.orchestrator = 'turbo';
+    // turbo 2 uses `tasks`, turbo 1 `pipeline`; entries may be `pkg#task`
+    layout.orchestratorTasks = [...objectKeys(turbo.tasks), ...objectKeys(turbo.pipeline)].map(task =>
+      task.includes('#') ? task.slice(task.indexOf('#') + 1) : task
+    );
+  } else if (existsSync(join(projectDir, 'nx.json'))) {
+    layout.orchestrator = 'nx';
+  }
+  return layout;
+}
+
+/** Body of a TOML table, up to the next header */
+function tomlTable(text: string, header: string): string | null {
+  const start = text.search(new RegExp(`^\\[${header.replace(/[.[\]]/g, '\\$&')}\\]\\s*$`, 'm'));
+  if (start === -1) return null;
+  const body = text.slice(text.indexOf('\n', start) + 1);
+  const next = body.search(/^\[/m);
+  return next === -1 ? body : body.slice(0, next);
+}
+
+/** `key = [ ... ]` array of strings inside a TOML table body */
+function tomlStringArray(table: string, key: string): string[] {
+  const match = table.match(new RegExp(`^\\s*${key}\\s*=\\s*\\[([\\s\\S]*?)\\]`, 'm'));
+  return match ? quotedStrings(match[1]) : [];
+}
+
+/** Crate names referenced from any dependency table of a Cargo.toml */
+function cargoDependencyNames(text: string): string[] {
+  const names = new Set<string>();
+  let inDependencies = false;
+  for (const line of text.split('\n')) {
+    const header = line.match(/^\s*\[([^\]]+)\]\s*$/);
+    if (header) {
+      // [dependencies], [dev-dependencies], [target.'cfg(..)'.dependencies], [dependencies.foo]
+      const table = header[1].trim();
+      const dotted = table.match(/(?:^|\.)(?:dev-|build-)?dependencies\.([\w-]+)$/);
+      if (dotted) {
+        names.add(dotted[1]);
+        inDependencies = false;
+      } else {
+        inDependencies = /(?:^|\.)(?:dev-|build-)?dependencies$/.test(table);
+      }
+      continue;
+    }
+    const key = inDependencies ? line.match(/^\s*([\w-]+)\s*[.=]/) : null;
+    if (key) names.add(key[1]);
+  }
+  return Array.from(names);
+}
+
+function detectCargoWorkspace(projectDir: string): WorkspaceLayout | null {
+  const rootManifest = readText(join(projectDir, 'Cargo.toml'));
+  const workspace = rootManifest === null ? null : tomlTable(rootManifest, 'workspace');
+  if (workspace === null || rootManifest === null) return null;
+
+  const members = expandMembers(projectDir, tomlStringArray(workspace, 'members'), 'Cargo.toml', tomlStringArray(workspace, 'exclude'));
+  // A root [package] is a member too
+  if (tomlTable(rootManifest, 'package') !== null && !members.includes('')) {
+    members.unshift('');
+  }
+
+  const crates = members
+    .map(dir => {
+      const manifest = dir === '' ? rootManifest : readText(join(projectDir, dir, 'Cargo.toml'));
+      const name = manifest ? tomlTable(manifest, 'package')?.match(/^\s*name\s*=\s*["']([^"']+)["']/m)?.[1] : undefined;
+      return name && manifest ? { name, dir, manifest } : null;
+    })
+    .filter((crate): crate is { name: string; dir: string; manifest: string } => crate !== null);
+  const names = new Set(crates.map(crate => crate.name));
+
+  return {
+    kind: 'cargo',
+    packages: crates.map(({ name, dir, manifest }) => ({
+      name,
+      dir,
+      dependencies: cargoDependencyNames(manifest).filter(dep => dep !== name && names.has(dep)),
+    })),
+  };
+}
+
+/** Directories listed by `use` in go.work (single-line and block form) */
+function parseGoWorkDirs(text: string): string[] {
+  const dirs: string[] = [];
+  for (const match of text.matchAll(/^\s*use\s*(?:\(([^)]*)\)|(\S+))/gm)) {
+    const entries = match[1] !== undefined ? match[1].split('\n') : [match[2]];
+    for (const entry of entries) {
+      const dir = entry.replace(/\/\/.*$/, '').trim().replace(/^["`]|["`]$/g, '');
+      if (dir) dirs.push(normalizeGlobPattern(dir === '.' ? '' : dir));
+    }
+  }
+  return dirs;
+}
+
+function goRequires(text: string): string[] {
+  const modules: string[] = [];
+  for (const match of text.matchAll(/^\s*require\s*(?:\(([^)]*)\)|(\S+))/gm)) {
+    const entries = match[1] !== undefined ? match[1].split('\n') : [match[2]];
+    for (const entry of entries) {
+      const module = entry.replace(/\/\/.*$/, '').trim().split(/\s+/)[0];
+      if (module) modules.push(module);
+    }
+  }
+  return modules;
+}
+
+function detectGoWorkspace(projectDir: string): WorkspaceLayout | null {
+  const goWork = readText(join(projectDir, 'go.work'));
+  if (goWork === null) return null;
+
+  const modules = parseGoWorkDirs(goWork)
+    .map(dir => {
+      const goMod = readText(join(projectDir, dir, 'go.mod'));
+      const name = goMod?.match(/^\s*module\s+(\S+)/m)?.[1];
+      return name && goMod ? { name, dir, goMod } : null;
+    })
+    .filter((mod): mod is { name: string; dir: string; goMod: string } => mod !== null);
+  const names = new Set(modules.map(mod => mod.name));
+
+  return {
+    kind: 'go',
+    packages: modules.map(({ name, dir, goMod }) => ({
+      name,
+      dir,
+      dependencies: goRequires(goMod).filter(dep => dep !== name && names.has(dep)),
+    })),
+  };
+}
+
+/**
+ * Detect the workspace layout at the project root.
+ *
+ * @param buildTool - Detected build tool; picks the JS package manager for `workspaces`
+ * @returns Layout with at least one package, or null for single-package projects
+ */
+export function detectWorkspace(projectDir: string, buildTool?: string): WorkspaceLayout | null {
+  const layout =
+    buildTool === 'cargo' ? detectCargoWorkspace(projectDir)
+      : buildTool === 'go' ? detectGoWorkspace(projectDir)
+        : detectJsWorkspace(projectDir, buildTool);
+  return layout && layout.packages.length > 0 ? layout : null;
+}
+
+/**
+ * Packages touched by the changed files, plus every package that depends on them.
+ *
+ * @param changedFiles - Project-relative paths
+ * @returns Packages in layout order, or null when a change falls outside every
+ *   package (root manifests, lockfiles, shared config) and the whole repository is in scope
+ */
+export function getAffectedPackages(layout: WorkspaceLayout, changedFiles: readonly string[]): WorkspacePackage[] | null {
+  const affected = new Set<string>();
+  for (const file of changedFiles) {
+    const owner = layout.packages
+      .filter(pkg => pkg.dir === '' || file === pkg.dir || file.startsWith(`${pkg.dir}/`))
+      .sort((a, b) => b.dir.length - a.dir.length)[0];
+    if (!owner) return null;
+    affected.add(owner.name);
+  }
+
+  // Dependents run too: a change in a library can break its consumers
+  const queue = Array.from(affected);
+  while (queue.length > 0) {
+    const name = queue.shift() as string;
+    for (const pkg of layout.packages) {
+      if (pkg.dependencies.includes(name) && !affected.has(pkg.name)) {
+        affected.add(pkg.name);
+        queue.push(pkg.name);
+      }
+    }
+  }
+
+  return layout.packages.filter(pkg => affected.has(pkg.name));
+}
+
+const TURBO_RUNNER: Record<string, string> = {
+  pnpm: 'pnpm exec turbo',
+  npm: 'npx turbo',
+  yarn: 'yarn turbo',
+  bun: 'bunx turbo',
+};
+
+function jsScopedCommand(layout: WorkspaceLayout, step: VerificationStepName, packages: WorkspacePackage[]): string | null {
+  if (layout.orchestrator === 'turbo') {
+    if (!layout.orchestratorTasks?.includes(step)) return null;
+    return `${TURBO_RUNNER[layout.kind]} run ${step} ${packages.map(pkg => `--filter=${pkg.name}`).join(' ')}`;
+  }
+  if (layout.orchestrator === 'nx') {
+    // Nx skips projects without the target
+    return `npx nx run-many -t ${step} -p ${packages.map(pkg => pkg.name).join(',')}`;
+  }
+
+  // Package managers fail on a missing script, so only packages that define it run
+  const withScript = packages.filter(pkg => pkg.scripts?.includes(step));
+  if (withScript.length === 0) return null;
+  const names = withScript.map(pkg => pkg.name);
+
+  switch (layout.kind) {
+    case 'pnpm':
+      return `pnpm ${names.map(name => `--filter ${name}`).join(' ')} run ${step}`;
+    case 'yarn':
+      return names.map(name => `yarn workspace ${name} run ${step}`).join(' && ');
+    case 'bun':
+      return `bun run ${names.map(name => `--filter ${name}`).join(' ')} ${step}`;
+    default:
+      return `npm run ${step} ${names.map(name => `--workspace=${name}`).join(' ')}`;
+  }
+}
+
+/**
+ * Verification command for one step, limited to the given packages.
+ *
+ * @returns Command, or null when the step has no scoped form (run it for the whole repository)
+ */
+export function getScopedCommand(
+  layout: WorkspaceLayout,
+  step: VerificationStepName,
+  packages: WorkspacePackage[]
+): string | null {
+  if (packages.length === 0 || !packages.every(pkg => SAFE_NAME_PATTERN.test(pkg.name) && (pkg.dir === '' || SAFE_NAME_PATTERN.test(pkg.dir)))) {
+    return null;
+  }
+
+  if (layout.kind === 'cargo') {
+    const selectors = packages.map(pkg => `-p ${pkg.name}`).join(' ');
+    if (step === 'build') return `cargo build ${selectors}`;
+    if (step === 'test') return `cargo test ${selectors}`;
+    if (step === 'lint') return `cargo clippy ${selectors} -- -D warnings`;
+    return null;
+  }
+
+  if (layout.kind === 'go') {
+    const paths = packages.map(pkg => (pkg.dir === '' ? './...' : `./${pkg.dir}/...`)).join(' ');
+    if (step === 'build') return `go build ${paths}`;
+    if (step === 'test') return `go test ${paths}`;
+    if (step === 'lint') return `golangci-lint run ${paths}`;
+    return null;
+  }
+
+  return jsScopedCommand(layout, step, packages);
+}